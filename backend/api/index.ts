@@ -15,9 +15,15 @@ import { expressMiddleware } from '@apollo/server/express4'
 import { typeDefs } from '../src/schema'
 import { resolvers } from '../src/resolvers'
 import { isPusherAvailable } from '../src/utils/pusher'
+import { getTrustProxySetting } from '../src/server/trustProxy'
+import { assertMailTransportConfigured } from '../src/utils/mailer'
+import { apiTokenScopePlugin, authenticateApiTokenRequest } from '../src/utils/apiTokens'
 
 const app = express()
 
+// Client IPs (sessions, login throttling) come from req.ip, so only trusted proxy hops may set them
+app.set('trust proxy', getTrustProxySetting())
+
 /**
  * CORS configuration - allows all Vercel domains with credentials support
  * @author Thang Truong
@@ -54,6 +60,7 @@ const server = new ApolloServer({
     extensions: { code: error.extensions?.code || 'INTERNAL_SERVER_ERROR', ...error.extensions },
   }),
   introspection: true,
+  plugins: [apiTokenScopePlugin],
 })
 
 let serverStarted = false
@@ -65,6 +72,7 @@ let serverStarted = false
  */
 async function initializeServer(): Promise<void> {
   if (serverStarted) return
+  assertMailTransportConfigured()
   await server.start()
 
   /** Root endpoint with Pusher status @author Thang Truong @date 2025-12-09 */
@@ -83,7 +91,11 @@ async function initializeServer(): Promise<void> {
 
   /** GraphQL endpoint @author Thang Truong @date 2025-12-04 */
   app.use('/graphql', expressMiddleware(server, {
-    context: async ({ req, res }) => ({ req, res }),
+    context: async ({ req, res }) => {
+      // Personal API tokens are resolved here so tryGetUserIdFromRequest can stay synchronous
+      await authenticateApiTokenRequest(req)
+      return { req, res }
+    },
   }))
 
   serverStarted = true
@@ -104,7 +116,8 @@ export default async function handler(req: Request, res: Response): Promise<void
         else resolve()
       }) as NextFunction)
     })
-  } catch {
+  } catch (error) {
+    console.error('Failed to handle request:', error)
     if (!res.headersSent) res.status(500).json({ error: 'Internal server error' })
   }
 }
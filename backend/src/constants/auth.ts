@@ -32,3 +32,81 @@ export const REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS = 30
  * Formula: REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS + ACCESS_TOKEN_EXPIRY (in seconds) + ROTATION_SAFETY_MARGIN_SECONDS
  */
 export const ROTATION_SAFETY_MARGIN_SECONDS = 30
+
+/**
+ * Password reset token expiration time
+ * Format: '15m', '1h', etc.
+ */
+export const PASSWORD_RESET_TOKEN_EXPIRY = '30m'
+
+/**
+ * Two-factor login challenge expiration time
+ * The challenge token bridges the password step and the TOTP verification step
+ */
+export const TWO_FACTOR_CHALLENGE_EXPIRY = '5m'
+
+/**
+ * Issuer label shown in authenticator apps
+ */
+export const TWO_FACTOR_ISSUER = 'Project Tracker'
+
+/**
+ * Number of one-time recovery codes generated on enrollment
+ */
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = 10
+
+/**
+ * Failed login attempts allowed per email before exponential backoff starts
+ */
+export const LOGIN_BACKOFF_FREE_ATTEMPTS = 3
+
+/**
+ * Failed login attempts allowed per IP before exponential backoff starts
+ * Higher than the per-email limit because offices and NATs share addresses
+ */
+export const LOGIN_IP_BACKOFF_FREE_ATTEMPTS = 20
+
+/**
+ * Password reset requests allowed per email before the same backoff applies
+ * Per IP the login limit (LOGIN_IP_BACKOFF_FREE_ATTEMPTS) is used
+ */
+export const PASSWORD_RESET_FREE_REQUESTS = 3
+
+/**
+ * Backoff base and cap (in seconds) - delay doubles with every failure past the free attempts
+ */
+export const LOGIN_BACKOFF_BASE_SECONDS = 1
+export const LOGIN_BACKOFF_MAX_SECONDS = 300
+
+/**
+ * Failed attempts for one email that temporarily lock the account
+ */
+export const ACCOUNT_LOCKOUT_THRESHOLD = 10
+
+/**
+ * How long a locked account stays locked
+ * Format: '15m', '1h', etc.
+ */
+export const ACCOUNT_LOCKOUT_DURATION = '15m'
+
+/**
+ * Failed attempt counters reset after this long without a new failure
+ * Format: '15m', '1h', etc.
+ */
+export const LOGIN_FAILURE_WINDOW = '1h'
+
+/**
+ * Prefix for personal API tokens - lets the server tell them apart from JWT access tokens
+ */
+export const API_TOKEN_PREFIX = 'ptk_'
+
+/**
+ * Upper bound for the lifetime a personal API token can be created with
+ */
+export const API_TOKEN_MAX_EXPIRY_DAYS = 365
+
+/**
+ * Invitation link expiration time
+ * Format: '7d', '48h', etc.
+ */
+export const INVITATION_EXPIRY = '7d'
@@ -0,0 +1,17 @@
+/**
+ * Checklist Constants
+ * Limits for checklist items inside a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Longest checklist item text
+ */
+export const MAX_CHECKLIST_ITEM_LENGTH = 500
+
+/**
+ * Most checklist items a task can hold
+ */
+export const MAX_CHECKLIST_ITEMS = 100
@@ -0,0 +1,31 @@
+/**
+ * Milestone Constants
+ * Thresholds for milestone health and how often deadlines are checked
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Health of a milestone, from its linked tasks and its due date
+ */
+export const MILESTONE_STATUSES = ['ON_TRACK', 'AT_RISK', 'MISSED', 'COMPLETED'] as const
+
+export type MilestoneStatus = typeof MILESTONE_STATUSES[number]
+
+/**
+ * A milestone due within this many days is at risk while it is less complete than MILESTONE_AT_RISK_PERCENT
+ */
+export const MILESTONE_AT_RISK_DAYS = 3
+
+export const MILESTONE_AT_RISK_PERCENT = 75
+
+/**
+ * Longest milestone name
+ */
+export const MAX_MILESTONE_NAME_LENGTH = 100
+
+/**
+ * How often the deadline job looks for milestones that became at risk or were missed (milliseconds)
+ */
+export const MILESTONE_CHECK_INTERVAL_MS = 60 * 60 * 1000
@@ -0,0 +1,12 @@
+/**
+ * Project Constants
+ * Limits for project fields
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Longest project name (projects.name is VARCHAR(150))
+ */
+export const MAX_PROJECT_NAME_LENGTH = 150
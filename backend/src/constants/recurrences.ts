@@ -0,0 +1,41 @@
+/**
+ * Recurrence Constants
+ * Repeat frequencies, weekday keys and limits for recurring tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * How often a recurring task repeats; INTERVAL multiplies the step
+ */
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number]
+
+/**
+ * RRULE weekday keys, Monday first
+ */
+export const RECURRENCE_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const
+
+export type RecurrenceWeekday = typeof RECURRENCE_WEEKDAYS[number]
+
+/**
+ * Largest INTERVAL of a rule, e.g. every 52 weeks
+ */
+export const MAX_RECURRENCE_INTERVAL = 52
+
+/**
+ * Largest COUNT of a rule
+ */
+export const MAX_RECURRENCE_COUNT = 1000
+
+/**
+ * How far ahead the next occurrence is looked for (days)
+ */
+export const RECURRENCE_SEARCH_DAYS = 3700
+
+/**
+ * How often the scheduler creates the next occurrences of recurring tasks (milliseconds)
+ */
+export const RECURRENCE_CHECK_INTERVAL_MS = 60 * 60 * 1000
@@ -0,0 +1,24 @@
+/**
+ * User Role Constants
+ * Mirrors the users.role ENUM in the database schema
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const USER_ROLES = [
+  'Admin',
+  'Project Manager',
+  'Software Architect',
+  'Frontend Developer',
+  'Backend Developer',
+  'Full-Stack Developer',
+  'DevOps Engineer',
+  'QA Engineer',
+  'QC Engineer',
+  'UX/UI Designer',
+  'Business Analyst',
+  'Database Administrator',
+  'Technical Writer',
+  'Support Engineer',
+]
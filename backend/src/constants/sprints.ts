@@ -0,0 +1,24 @@
+/**
+ * Sprint Constants
+ * Sprint states and limits for sprint planning
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Life cycle of a sprint: planned sprints can be edited and started, an active sprint is closed once
+ */
+export const SPRINT_STATES = ['PLANNED', 'ACTIVE', 'CLOSED'] as const
+
+export type SprintState = typeof SPRINT_STATES[number]
+
+/**
+ * Longest sprint name
+ */
+export const MAX_SPRINT_NAME_LENGTH = 100
+
+/**
+ * Longest time box a sprint can cover (days)
+ */
+export const MAX_SPRINT_DAYS = 90
@@ -0,0 +1,19 @@
+/**
+ * Task Board Constants
+ * Spacing of the manual card order on project boards
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Distance between the ranks of neighbouring cards when a column is (re)numbered
+ * New tasks go one step below the last card of their project
+ */
+export const BOARD_RANK_STEP = 1
+
+/**
+ * Smallest distance kept between two ranks in a column
+ * Dropping a card between two closer neighbours renumbers the project's ranks
+ */
+export const BOARD_RANK_MIN_GAP = 1e-6
@@ -0,0 +1,17 @@
+/**
+ * Time Tracking Constants
+ * Limits for time logged on tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Longest single time entry that can be logged by hand (minutes)
+ */
+export const MAX_TIME_ENTRY_MINUTES = 24 * 60
+
+/**
+ * Longest note kept on a time entry
+ */
+export const MAX_TIME_ENTRY_NOTE_LENGTH = 500
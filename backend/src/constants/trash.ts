@@ -0,0 +1,28 @@
+/**
+ * Trash Constants
+ * Retention defaults for soft-deleted projects, tasks, comments and users
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Resource types that can sit in the trash, mapped to their tables
+ */
+export const TRASH_RESOURCE_TABLES = {
+  PROJECT: 'projects',
+  TASK: 'tasks',
+  COMMENT: 'comments',
+  USER: 'users',
+} as const
+
+/**
+ * Days a deleted item stays restorable before it is purged
+ * Override with TRASH_RETENTION_DAYS; 0 keeps deleted items forever
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * How often the retention job looks for expired items (milliseconds)
+ */
+export const TRASH_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000
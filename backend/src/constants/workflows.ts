@@ -0,0 +1,35 @@
+/**
+ * Workflow Constants
+ * Status categories and the default workflow used by projects without their own
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Categories every workflow state belongs to
+ * Progress, dependency checks and dashboards only look at the category, never at the state key
+ */
+export const WORKFLOW_CATEGORIES = ['NOT_STARTED', 'ACTIVE', 'DONE'] as const
+
+export type WorkflowCategory = typeof WORKFLOW_CATEGORIES[number]
+
+/**
+ * States of a project that has not customised its workflow, in board order
+ * Without custom transitions any state can move to any other
+ */
+export const DEFAULT_WORKFLOW_STATES: Array<{ key: string; name: string; category: WorkflowCategory }> = [
+  { key: 'TODO', name: 'To Do', category: 'NOT_STARTED' },
+  { key: 'IN_PROGRESS', name: 'In Progress', category: 'ACTIVE' },
+  { key: 'DONE', name: 'Done', category: 'DONE' },
+]
+
+/**
+ * State keys are stored in tasks.status, so they keep the upper snake case of the original statuses
+ */
+export const WORKFLOW_STATE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,29}$/
+
+/**
+ * Upper bound on states per workflow
+ */
+export const MAX_WORKFLOW_STATES = 20
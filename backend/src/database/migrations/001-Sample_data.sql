@@ -88,6 +88,9 @@ INSERT INTO tasks (id, uuid, title, description, status, priority, due_date, pro
 (24, UUID(), 'Real-time updates', 'Implement WebSocket for live data', 'DONE', 'HIGH', '2025-12-14', 5, 3),
 (25, UUID(), 'User dashboard', 'Create personalized dashboard view', 'DONE', 'MEDIUM', '2025-12-15', 5, 2);
 
+-- Board order follows creation order
+UPDATE tasks SET board_rank = id;
+
 -- =========================
 -- 15 PROJECT MEMBERS (3 per project)
 -- =========================
@@ -28,13 +28,19 @@ CREATE TABLE users (
     'Technical Writer',
     'Support Engineer'
   ) DEFAULT 'Frontend Developer',
+  two_factor_enabled BOOLEAN DEFAULT FALSE,
+  two_factor_secret VARCHAR(64) NULL,
+  two_factor_enabled_at DATETIME(3) NULL,
+  two_factor_last_step BIGINT NULL,
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at DATETIME(3) NULL,
   version INT DEFAULT 1,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 CREATE INDEX idx_users_is_deleted ON users(is_deleted);
+CREATE INDEX idx_users_deleted_at ON users(deleted_at);
 
 -- REFRESH TOKENS TABLE
 CREATE TABLE refresh_tokens (
@@ -43,6 +49,9 @@ CREATE TABLE refresh_tokens (
   token_hash VARCHAR(255) NOT NULL,
   expires_at TIMESTAMP NOT NULL,
   is_revoked BOOLEAN DEFAULT FALSE,
+  user_agent VARCHAR(512) NULL,
+  ip_address VARCHAR(45) NULL,
+  last_used_at DATETIME(3) NULL,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   CONSTRAINT fk_refresh_tokens_user FOREIGN KEY (user_id)
     REFERENCES users(id) ON DELETE CASCADE
@@ -52,6 +61,54 @@ CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
 CREATE INDEX idx_refresh_tokens_is_revoked ON refresh_tokens(is_revoked);
 CREATE INDEX idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);
 
+-- PASSWORD RESET TOKENS TABLE
+CREATE TABLE password_reset_tokens (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_password_reset_tokens_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+-- TWO FACTOR RECOVERY CODES TABLE
+CREATE TABLE two_factor_recovery_codes (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  code_hash CHAR(64) NOT NULL,
+  used_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_two_factor_recovery_codes_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id);
+
+-- LOGIN THROTTLES TABLE (failed login tracking per email and per IP)
+CREATE TABLE login_throttles (
+  scope ENUM('EMAIL', 'IP', 'USER', 'RESET_EMAIL', 'RESET_IP') NOT NULL,
+  identifier VARCHAR(254) NOT NULL,
+  failed_count INT NOT NULL DEFAULT 0,
+  last_failed_at DATETIME(3) NULL,
+  blocked_until DATETIME(3) NULL,
+  locked_until DATETIME(3) NULL,
+  PRIMARY KEY (scope, identifier)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- TWO FACTOR POLICIES TABLE (roles that must use two-factor authentication)
+CREATE TABLE two_factor_policies (
+  role VARCHAR(100) PRIMARY KEY,
+  is_required BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by INT NULL,
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_two_factor_policies_updated_by FOREIGN KEY (updated_by)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
 -- PROJECTS TABLE
 CREATE TABLE projects (
   id INT PRIMARY KEY AUTO_INCREMENT,
@@ -61,6 +118,7 @@ CREATE TABLE projects (
   status ENUM('PLANNING', 'IN_PROGRESS', 'COMPLETED') DEFAULT 'PLANNING',
   owner_id INT NULL,
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at DATETIME(3) NULL,
   version INT DEFAULT 1,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
@@ -71,12 +129,14 @@ CREATE TABLE projects (
 
 CREATE INDEX idx_projects_owner_id ON projects(owner_id);
 CREATE INDEX idx_projects_is_deleted ON projects(is_deleted);
+CREATE INDEX idx_projects_deleted_at ON projects(deleted_at);
 
 -- PROJECT MEMBERS TABLE
 CREATE TABLE project_members (
   project_id INT NOT NULL,
   user_id INT NOT NULL,
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at DATETIME(3) NULL,
   role ENUM('VIEWER', 'EDITOR', 'OWNER') DEFAULT 'VIEWER',
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
@@ -90,6 +150,30 @@ CREATE TABLE project_members (
 CREATE INDEX idx_project_members_user_id ON project_members(user_id);
 CREATE INDEX idx_project_members_is_deleted ON project_members(is_deleted);
 
+-- INVITATIONS TABLE (invite-only onboarding with optional project membership)
+CREATE TABLE invitations (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  email VARCHAR(254) NOT NULL COLLATE utf8mb4_general_ci,
+  role VARCHAR(100) NOT NULL,
+  project_id INT NULL,
+  project_role ENUM('VIEWER', 'EDITOR', 'OWNER') NULL,
+  invited_by INT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  expires_at DATETIME(3) NOT NULL,
+  accepted_at DATETIME(3) NULL,
+  accepted_user_id INT NULL,
+  revoked_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_invitations_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE,
+  CONSTRAINT fk_invitations_invited_by FOREIGN KEY (invited_by)
+    REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT fk_invitations_accepted_user FOREIGN KEY (accepted_user_id)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_invitations_email ON invitations(email);
+
 -- PERMISSIONS TABLE
 CREATE TABLE permissions (
   id INT PRIMARY KEY AUTO_INCREMENT,
@@ -104,18 +188,110 @@ CREATE TABLE permissions (
   INDEX idx_permissions_user_resource (user_id, resource_type, resource_id)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
+-- API TOKENS TABLE (personal access tokens for scripts and CI)
+CREATE TABLE api_tokens (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  token_prefix VARCHAR(16) NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  scope ENUM('READ_ONLY', 'READ_WRITE') NOT NULL DEFAULT 'READ_ONLY',
+  expires_at DATETIME(3) NULL,
+  last_used_at DATETIME(3) NULL,
+  revoked_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_api_tokens_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_api_tokens_user_id ON api_tokens(user_id);
+
+-- API TOKEN PROJECTS TABLE (optional project restriction per token)
+CREATE TABLE api_token_projects (
+  token_id INT NOT NULL,
+  project_id INT NOT NULL,
+  PRIMARY KEY (token_id, project_id),
+  CONSTRAINT fk_api_token_projects_token FOREIGN KEY (token_id)
+    REFERENCES api_tokens(id) ON DELETE CASCADE,
+  CONSTRAINT fk_api_token_projects_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- WORKFLOW_STATES TABLE
+-- Ordered task states of a project; projects without rows use TODO / IN_PROGRESS / DONE
+-- wip_limit caps the cards in the state's board column (NULL = no limit)
+-- tasks.status holds state_key, category drives progress, blockers and dashboards
+CREATE TABLE workflow_states (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  project_id INT NOT NULL,
+  state_key VARCHAR(30) NOT NULL,
+  name VARCHAR(50) NOT NULL,
+  category ENUM('NOT_STARTED', 'ACTIVE', 'DONE') NOT NULL DEFAULT 'NOT_STARTED',
+  position INT NOT NULL DEFAULT 0,
+  wip_limit INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_workflow_states_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE,
+  UNIQUE (project_id, state_key)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- WORKFLOW_TRANSITIONS TABLE
+-- Allowed status moves within a project's workflow; a project without rows allows every move
+CREATE TABLE workflow_transitions (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  project_id INT NOT NULL,
+  from_state_id INT NOT NULL,
+  to_state_id INT NOT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_workflow_transitions_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE,
+  CONSTRAINT fk_workflow_transitions_from FOREIGN KEY (from_state_id)
+    REFERENCES workflow_states(id) ON DELETE CASCADE,
+  CONSTRAINT fk_workflow_transitions_to FOREIGN KEY (to_state_id)
+    REFERENCES workflow_states(id) ON DELETE CASCADE,
+  UNIQUE (from_state_id, to_state_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_workflow_transitions_project ON workflow_transitions(project_id);
+
+-- SPRINTS TABLE
+-- Time-boxed iterations of a project; the resolvers allow one ACTIVE sprint per project
+CREATE TABLE sprints (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  project_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  goal TEXT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  state ENUM('PLANNED', 'ACTIVE', 'CLOSED') NOT NULL DEFAULT 'PLANNED',
+  started_at DATETIME(3) NULL,
+  closed_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_sprints_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_sprints_project_state ON sprints(project_id, state);
+
 -- TASKS TABLE
 CREATE TABLE tasks (
   id INT PRIMARY KEY AUTO_INCREMENT,
   uuid CHAR(36) NOT NULL UNIQUE,
   title VARCHAR(150) NOT NULL,
   description TEXT NOT NULL,
-  status ENUM('TODO', 'IN_PROGRESS', 'DONE') DEFAULT 'TODO',
+  status VARCHAR(30) NOT NULL DEFAULT 'TODO',
   priority ENUM('LOW', 'MEDIUM', 'HIGH') DEFAULT 'MEDIUM',
   due_date DATE,
+  estimate_minutes INT NULL,
   project_id INT NOT NULL,
   assigned_to INT NULL,
+  parent_task_id INT NULL,
+  sprint_id INT NULL,
+  board_rank DOUBLE NOT NULL DEFAULT 0,
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at DATETIME(3) NULL,
   version INT DEFAULT 1,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
@@ -123,12 +299,20 @@ CREATE TABLE tasks (
     REFERENCES projects(id) ON DELETE CASCADE,
   CONSTRAINT fk_tasks_assigned_to FOREIGN KEY (assigned_to)
     REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT fk_tasks_parent FOREIGN KEY (parent_task_id)
+    REFERENCES tasks(id) ON DELETE SET NULL,
+  CONSTRAINT fk_tasks_sprint FOREIGN KEY (sprint_id)
+    REFERENCES sprints(id) ON DELETE SET NULL,
   FULLTEXT idx_tasks_title_description (title, description)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 CREATE INDEX idx_tasks_project_id ON tasks(project_id);
 CREATE INDEX idx_tasks_assigned_to ON tasks(assigned_to);
+CREATE INDEX idx_tasks_parent_task_id ON tasks(parent_task_id);
+CREATE INDEX idx_tasks_sprint_id ON tasks(sprint_id);
+CREATE INDEX idx_tasks_project_board_rank ON tasks(project_id, board_rank);
 CREATE INDEX idx_tasks_is_deleted ON tasks(is_deleted);
+CREATE INDEX idx_tasks_deleted_at ON tasks(deleted_at);
 
 -- TAGS TABLE
 CREATE TABLE tags (
@@ -154,14 +338,236 @@ CREATE TABLE task_tags (
   FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
+-- TASK_DEPENDENCIES TABLE
+-- blocker_task_id must be finished before blocked_task_id can be marked DONE
+CREATE TABLE task_dependencies (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  blocker_task_id INT NOT NULL,
+  blocked_task_id INT NOT NULL,
+  created_by INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_task_dependencies_blocker FOREIGN KEY (blocker_task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_dependencies_blocked FOREIGN KEY (blocked_task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_dependencies_created_by FOREIGN KEY (created_by)
+    REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE (blocker_task_id, blocked_task_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_task_dependencies_blocked ON task_dependencies(blocked_task_id);
+
+-- TIME_ENTRIES TABLE
+-- Time a user spent on a task; a running timer has ended_at NULL and duration_minutes 0
+-- Each user has at most one running timer
+CREATE TABLE time_entries (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  task_id INT NOT NULL,
+  started_at DATETIME(3) NOT NULL,
+  ended_at DATETIME(3) NULL,
+  duration_minutes INT NOT NULL DEFAULT 0,
+  note VARCHAR(500) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_time_entries_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_time_entries_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_time_entries_task ON time_entries(task_id);
+CREATE INDEX idx_time_entries_user_started_at ON time_entries(user_id, started_at);
+CREATE INDEX idx_time_entries_user_ended_at ON time_entries(user_id, ended_at);
+
+-- SPRINT_SNAPSHOTS TABLE
+-- Work left in an active sprint at the end of each day, kept for its burndown chart
+CREATE TABLE sprint_snapshots (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  sprint_id INT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  total_tasks INT NOT NULL DEFAULT 0,
+  remaining_tasks INT NOT NULL DEFAULT 0,
+  total_minutes INT NOT NULL DEFAULT 0,
+  remaining_minutes INT NOT NULL DEFAULT 0,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_sprint_snapshots_sprint FOREIGN KEY (sprint_id)
+    REFERENCES sprints(id) ON DELETE CASCADE,
+  UNIQUE (sprint_id, snapshot_date)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- MILESTONES TABLE
+-- Project milestones; the notified columns keep at-risk and missed alerts to one per due date
+CREATE TABLE milestones (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  project_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NULL,
+  due_date DATE NOT NULL,
+  at_risk_notified_at DATETIME(3) NULL,
+  missed_notified_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_milestones_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_milestones_project_due_date ON milestones(project_id, due_date);
+
+-- MILESTONE_TASKS TABLE
+-- Tasks linked to a milestone; their statuses make up its progress
+CREATE TABLE milestone_tasks (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  milestone_id INT NOT NULL,
+  task_id INT NOT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_milestone_tasks_milestone FOREIGN KEY (milestone_id)
+    REFERENCES milestones(id) ON DELETE CASCADE,
+  CONSTRAINT fk_milestone_tasks_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  UNIQUE (milestone_id, task_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_milestone_tasks_task ON milestone_tasks(task_id);
+
+-- TASK_RECURRENCES TABLE
+-- Repeat rule of a recurring task; task_id is its latest occurrence, whose due date is the occurrence date
+-- weekdays holds BYDAY keys such as MO,WE,FR; the series ends after end_after_count occurrences or past end_date
+CREATE TABLE task_recurrences (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  task_id INT NOT NULL UNIQUE,
+  frequency ENUM('DAILY', 'WEEKLY', 'MONTHLY') NOT NULL,
+  interval_count INT NOT NULL DEFAULT 1,
+  weekdays VARCHAR(20) NULL,
+  month_day TINYINT NULL,
+  start_date DATE NOT NULL,
+  end_after_count INT NULL,
+  end_date DATE NULL,
+  occurrence_count INT NOT NULL DEFAULT 1,
+  ended_at DATETIME(3) NULL,
+  created_by INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_task_recurrences_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_recurrences_created_by FOREIGN KEY (created_by)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_task_recurrences_ended_at ON task_recurrences(ended_at);
+
+-- TASK_CHECKLIST_ITEMS TABLE
+-- Lightweight to-do items inside a task, ordered by position, each optionally assigned to a user
+CREATE TABLE task_checklist_items (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  task_id INT NOT NULL,
+  content VARCHAR(500) NOT NULL,
+  is_done BOOLEAN NOT NULL DEFAULT FALSE,
+  position INT NOT NULL DEFAULT 0,
+  assigned_to INT NULL,
+  done_at DATETIME(3) NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_task_checklist_items_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_checklist_items_assigned_to FOREIGN KEY (assigned_to)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_task_checklist_items_task_position ON task_checklist_items(task_id, position);
+
+-- TASK_WATCHERS TABLE
+-- Users who get notified about changes to a task; creators and assignees are added automatically
+CREATE TABLE task_watchers (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  task_id INT NOT NULL,
+  user_id INT NOT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_task_watchers_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_watchers_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (task_id, user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_task_watchers_user_id ON task_watchers(user_id);
+
+-- PROJECT_WATCHERS TABLE
+-- Users who get notified about changes to every task of a project
+CREATE TABLE project_watchers (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  project_id INT NOT NULL,
+  user_id INT NOT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_project_watchers_project FOREIGN KEY (project_id)
+    REFERENCES projects(id) ON DELETE CASCADE,
+  CONSTRAINT fk_project_watchers_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (project_id, user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_project_watchers_user_id ON project_watchers(user_id);
+
+-- PROJECT_TEMPLATES TABLE
+-- Project skeletons saved from a project: workflow, tasks with tags and checklists, members and milestones
+-- content is JSON; due dates are stored as day offsets from the day the source project was created
+CREATE TABLE project_templates (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(150) NOT NULL,
+  description TEXT NULL,
+  content JSON NOT NULL,
+  source_project_id INT NULL,
+  created_by INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_project_templates_source_project FOREIGN KEY (source_project_id)
+    REFERENCES projects(id) ON DELETE SET NULL,
+  CONSTRAINT fk_project_templates_created_by FOREIGN KEY (created_by)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- TASK_TEMPLATES TABLE
+-- Reusable task presets that pre-fill a new task; checklist is a JSON array of item texts
+CREATE TABLE task_templates (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(100) NOT NULL,
+  title VARCHAR(150) NOT NULL,
+  description TEXT NOT NULL,
+  priority ENUM('LOW', 'MEDIUM', 'HIGH') DEFAULT 'MEDIUM',
+  estimate_minutes INT NULL,
+  checklist JSON NULL,
+  created_by INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  CONSTRAINT fk_task_templates_created_by FOREIGN KEY (created_by)
+    REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- TASK_TEMPLATE_TAGS TABLE
+CREATE TABLE task_template_tags (
+  template_id INT NOT NULL,
+  tag_id INT NOT NULL,
+  PRIMARY KEY (template_id, tag_id),
+  CONSTRAINT fk_task_template_tags_template FOREIGN KEY (template_id)
+    REFERENCES task_templates(id) ON DELETE CASCADE,
+  CONSTRAINT fk_task_template_tags_tag FOREIGN KEY (tag_id)
+    REFERENCES tags(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
 -- COMMENTS TABLE
+-- parent_comment_id makes a comment a reply; replies always hang off a top-level comment
+-- task_id makes it a comment on that task; project_id is then the task's project so access checks stay project-based
 CREATE TABLE comments (
   id INT PRIMARY KEY AUTO_INCREMENT,
   uuid CHAR(36) NOT NULL UNIQUE,
   project_id INT NULL,                      
+  parent_comment_id INT NULL,
+  task_id INT NULL,
   user_id INT NOT NULL,
   content TEXT NOT NULL,
   is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at DATETIME(3) NULL,
   version INT DEFAULT 1,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
   updated_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
@@ -169,13 +575,20 @@ CREATE TABLE comments (
     REFERENCES projects(id) ON DELETE CASCADE,   
   CONSTRAINT fk_comments_user FOREIGN KEY (user_id)
     REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_comments_parent FOREIGN KEY (parent_comment_id)
+    REFERENCES comments(id) ON DELETE CASCADE,
+  CONSTRAINT fk_comments_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
   FULLTEXT idx_comments_content (content)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 -- Create indices for the updated table
 CREATE INDEX idx_comments_project_id ON comments(project_id);    
 CREATE INDEX idx_comments_user_id ON comments(user_id);          
-CREATE INDEX idx_comments_is_deleted ON comments(is_deleted);    
+CREATE INDEX idx_comments_is_deleted ON comments(is_deleted);
+CREATE INDEX idx_comments_deleted_at ON comments(deleted_at);    
+CREATE INDEX idx_comments_parent_comment_id ON comments(parent_comment_id);
+CREATE INDEX idx_comments_task_id ON comments(task_id);
 
 -- TASK_LIKES TABLE
 CREATE TABLE task_likes (
@@ -207,6 +620,31 @@ CREATE TABLE comment_likes (
 
 CREATE INDEX idx_comment_likes_user_id ON comment_likes(user_id);
 
+-- MENTIONS TABLE
+-- Users mentioned with @name in a comment or a task description; exactly one of comment_id and task_id is set
+-- Rows follow the current text so a mention is only notified when it first appears
+CREATE TABLE mentions (
+  id INT PRIMARY KEY AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  mentioned_by INT NULL,
+  comment_id INT NULL,
+  task_id INT NULL,
+  created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
+  removed_at DATETIME(3) NULL,
+  CONSTRAINT fk_mentions_user FOREIGN KEY (user_id)
+    REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_mentions_mentioned_by FOREIGN KEY (mentioned_by)
+    REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT fk_mentions_comment FOREIGN KEY (comment_id)
+    REFERENCES comments(id) ON DELETE CASCADE,
+  CONSTRAINT fk_mentions_task FOREIGN KEY (task_id)
+    REFERENCES tasks(id) ON DELETE CASCADE,
+  UNIQUE (comment_id, user_id),
+  UNIQUE (task_id, user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE INDEX idx_mentions_user_id ON mentions(user_id);
+
 -- PROJECT_LIKES TABLE
 CREATE TABLE project_likes (
   id INT PRIMARY KEY AUTO_INCREMENT,
@@ -239,7 +677,13 @@ CREATE TABLE activity_logs (
     'PROJECT_DELETED',
     'TASK_CREATED',
     'TASK_UPDATED',
-    'TASK_DELETED'
+    'TASK_DELETED',
+    'USER_LOGIN_FAILED',
+    'USER_LOCKED',
+    'USER_UNLOCKED',
+    'USER_RESTORED',
+    'PROJECT_RESTORED',
+    'TASK_RESTORED'
   ) NOT NULL,
   metadata JSON DEFAULT NULL,
   created_at DATETIME(3) DEFAULT CURRENT_TIMESTAMP(3),
@@ -360,13 +804,14 @@ END;
 
 -- Soft Delete Cascade Triggers
 -- When a project is soft deleted, soft delete related tasks
+-- Cascaded rows share the project's deleted_at so a restore can bring back exactly those rows
 CREATE TRIGGER trg_projects_after_soft_delete
 AFTER UPDATE ON projects
 FOR EACH ROW
 BEGIN
   IF NEW.is_deleted = TRUE AND OLD.is_deleted = FALSE THEN
-    UPDATE tasks SET is_deleted = TRUE WHERE project_id = NEW.id AND is_deleted = FALSE;
-    UPDATE project_members SET is_deleted = TRUE WHERE project_id = NEW.id AND is_deleted = FALSE;
+    UPDATE tasks SET is_deleted = TRUE, deleted_at = NEW.deleted_at WHERE project_id = NEW.id AND is_deleted = FALSE;
+    UPDATE project_members SET is_deleted = TRUE, deleted_at = NEW.deleted_at WHERE project_id = NEW.id AND is_deleted = FALSE;
   END IF;
 END;
 
@@ -9,7 +9,7 @@
 
 import { db } from '../../db'
 import { formatDateToISO } from '../../utils/formatters'
-import { resolveActivityAction } from '../../utils/helpers'
+import { resolveActivityAction, requireAuthentication, requireGlobalAdmin } from '../../utils/helpers'
 
 /**
  * Activities Query Resolvers
@@ -136,12 +136,13 @@ export const activitiesQueryResolvers = {
  */
 export const activitiesMutationResolvers = {
   /**
-   * Create activity mutation - left open for system/internal logging
+   * Create activity mutation - requires authentication
    *
    * @author Thang Truong
-   * @date 2025-12-09
+   * @date 2025-12-10
    */
-  createActivity: async (_: any, { input }: { input: any }) => {
+  createActivity: async (_: any, { input }: { input: any }, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required to create activity logs.')
     const { userId, targetUserId, projectId, taskId, action, type, metadata } = input
 
     const result = (await db.query(
@@ -173,12 +174,13 @@ export const activitiesMutationResolvers = {
   },
 
   /**
-   * Update activity mutation - restricted at client layer; no auth guard here
+   * Update activity mutation - activity logs are an audit trail, so only administrators may edit them
    *
    * @author Thang Truong
-   * @date 2025-12-09
+   * @date 2025-12-10
    */
-  updateActivity: async (_: any, { id, input }: { id: string; input: any }) => {
+  updateActivity: async (_: any, { id, input }: { id: string; input: any }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can edit activity logs.')
     const updates: string[] = []
     const values: any[] = []
 
@@ -221,12 +223,13 @@ export const activitiesMutationResolvers = {
   },
 
   /**
-   * Delete activity mutation - requires authentication
+   * Delete activity mutation - requires the global Admin role
    *
    * @author Thang Truong
-   * @date 2025-12-09
+   * @date 2025-12-10
    */
-  deleteActivity: async (_: any, { id }: { id: string }) => {
+  deleteActivity: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can delete activity logs.')
     const result = (await db.query('DELETE FROM activity_logs WHERE id = ?', [id])) as any
     if (result.affectedRows === 0) throw new Error('Activity not found')
     return true
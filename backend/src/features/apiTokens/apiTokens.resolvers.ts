@@ -0,0 +1,142 @@
+/**
+ * API Tokens Feature Resolvers
+ * Handles listing, creating and revoking personal API tokens
+ * Tokens are shown once on creation and only their sha256 hash is stored
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { API_TOKEN_MAX_EXPIRY_DAYS } from '../../constants/auth'
+import { db } from '../../db'
+import { generateApiToken, hashApiToken } from '../../utils/auth'
+import { formatDateToISO } from '../../utils/formatters'
+import { createForbiddenError, hasPermission, requireSessionUser } from '../../utils/helpers'
+
+const API_TOKEN_SCOPES = ['READ_ONLY', 'READ_WRITE']
+const TOKEN_PREFIX_LENGTH = 12
+const API_TOKEN_SESSION_ERROR = 'API tokens cannot be managed with an API token.'
+
+/**
+ * Load a user's tokens with their project restrictions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchApiTokens = async (userId: number, tokenId?: number) => {
+  const tokens = (await db.query(
+    `SELECT id, name, token_prefix, scope, expires_at, last_used_at, revoked_at, created_at
+     FROM api_tokens WHERE user_id = ?${tokenId ? ' AND id = ?' : ''} ORDER BY created_at DESC`,
+    tokenId ? [userId, tokenId] : [userId]
+  )) as any[]
+  if (tokens.length === 0) return []
+
+  const tokenIds = tokens.map((token: any) => token.id)
+  const projects = (await db.query(
+    `SELECT atp.token_id, p.id, p.name FROM api_token_projects atp
+     INNER JOIN projects p ON p.id = atp.project_id
+     WHERE atp.token_id IN (${tokenIds.map(() => '?').join(',')})`,
+    tokenIds
+  )) as any[]
+
+  return tokens.map((token: any) => ({
+    id: token.id.toString(),
+    name: token.name,
+    tokenPrefix: token.token_prefix,
+    scope: token.scope,
+    projects: projects
+      .filter((project: any) => project.token_id === token.id)
+      .map((project: any) => ({ id: project.id.toString(), name: project.name })),
+    expiresAt: token.expires_at ? formatDateToISO(token.expires_at) : null,
+    lastUsedAt: token.last_used_at ? formatDateToISO(token.last_used_at) : null,
+    revokedAt: token.revoked_at ? formatDateToISO(token.revoked_at) : null,
+    createdAt: formatDateToISO(token.created_at),
+  }))
+}
+
+/**
+ * API Tokens Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const apiTokensQueryResolvers = {
+  /**
+   * List the authenticated user's API tokens, including revoked ones
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  myApiTokens: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireSessionUser(context, API_TOKEN_SESSION_ERROR)
+    return fetchApiTokens(userId)
+  },
+}
+
+/**
+ * API Tokens Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const apiTokensMutationResolvers = {
+  /**
+   * Create a personal API token - the plain token is only returned here
+   * Project restrictions require READ permission on each project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createApiToken: async (
+    _: any,
+    { input }: { input: { name: string; scope: string; projectIds?: string[] | null; expiresInDays?: number | null } },
+    context: { req: any }
+  ) => {
+    const userId = requireSessionUser(context, API_TOKEN_SESSION_ERROR)
+    const name = input.name.trim()
+    if (!name) throw new Error('Token name is required')
+    if (name.length > 100) throw new Error('Token name must be 100 characters or less')
+    if (!API_TOKEN_SCOPES.includes(input.scope)) throw new Error(`Invalid scope. Expected one of: ${API_TOKEN_SCOPES.join(', ')}`)
+
+    const expiresInDays = input.expiresInDays ?? null
+    if (expiresInDays !== null && (expiresInDays < 1 || expiresInDays > API_TOKEN_MAX_EXPIRY_DAYS)) {
+      throw new Error(`Expiry must be between 1 and ${API_TOKEN_MAX_EXPIRY_DAYS} days`)
+    }
+
+    const projectIds = Array.from(new Set((input.projectIds || []).map((projectId) => Number(projectId))))
+    for (const projectId of projectIds) {
+      if (!(await hasPermission(userId, 'PROJECT', projectId, 'READ'))) {
+        throw createForbiddenError(`You do not have access to project ${projectId}.`)
+      }
+    }
+
+    const token = generateApiToken()
+    const result = (await db.query(
+      `INSERT INTO api_tokens (user_id, name, token_prefix, token_hash, scope, expires_at)
+       VALUES (?, ?, ?, ?, ?, IF(? IS NULL, NULL, DATE_ADD(NOW(3), INTERVAL ? DAY)))`,
+      [userId, name, token.slice(0, TOKEN_PREFIX_LENGTH), hashApiToken(token), input.scope, expiresInDays, expiresInDays]
+    )) as any
+    for (const projectId of projectIds) {
+      await db.query('INSERT INTO api_token_projects (token_id, project_id) VALUES (?, ?)', [result.insertId, projectId])
+    }
+
+    const [apiToken] = await fetchApiTokens(userId, result.insertId)
+    return { token, apiToken }
+  },
+
+  /**
+   * Revoke one of the authenticated user's API tokens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  revokeApiToken: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const userId = requireSessionUser(context, API_TOKEN_SESSION_ERROR)
+    const result = (await db.query(
+      'UPDATE api_tokens SET revoked_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+      [id, userId]
+    )) as any
+    if (result.affectedRows === 0) throw new Error('API token not found or already revoked')
+    return true
+  },
+}
@@ -0,0 +1,48 @@
+/**
+ * API Tokens Feature Schema
+ * GraphQL type definitions for personal API tokens used by scripts and CI
+ * Includes token types and the create input
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const apiTokensTypeDefs = `
+  type ApiTokenProject {
+    id: ID!
+    name: String!
+  }
+
+  type ApiToken {
+    id: ID!
+    name: String!
+    tokenPrefix: String!
+    scope: String!
+    projects: [ApiTokenProject!]!
+    expiresAt: String
+    lastUsedAt: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  type CreatedApiToken {
+    token: String!
+    apiToken: ApiToken!
+  }
+
+  input CreateApiTokenInput {
+    name: String!
+    scope: String!
+    projectIds: [ID!]
+    expiresInDays: Int
+  }
+`
+
+export const apiTokensQueryDefs = `
+  myApiTokens: [ApiToken!]!
+`
+
+export const apiTokensMutationDefs = `
+  createApiToken(input: CreateApiTokenInput!): CreatedApiToken!
+  revokeApiToken(id: ID!): Boolean!
+`
@@ -0,0 +1,10 @@
+/**
+ * API Tokens Feature Index
+ * Exports API tokens schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { apiTokensTypeDefs, apiTokensQueryDefs, apiTokensMutationDefs } from './apiTokens.schema'
+export { apiTokensQueryResolvers, apiTokensMutationResolvers } from './apiTokens.resolvers'
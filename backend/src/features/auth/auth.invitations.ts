@@ -0,0 +1,278 @@
+/**
+ * Invitation Resolvers
+ * Invitation-based onboarding: admins invite an email with a role and optional
+ * project membership, the invitee accepts with a signed, expiring link
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { randomUUID } from 'crypto'
+import { GraphQLError } from 'graphql'
+import { USER_ROLES } from '../../constants/roles'
+import { db } from '../../db'
+import {
+  calculateInvitationExpiry,
+  generateInvitationToken,
+  generateTwoFactorChallengeToken,
+  hashInvitationToken,
+  hashPassword,
+  isOpenRegistrationEnabled,
+  verifyInvitationToken,
+} from '../../utils/auth'
+import { formatDateToISO } from '../../utils/formatters'
+import { requireGlobalAdmin } from '../../utils/helpers'
+import { sendMail } from '../../utils/mailer'
+import { isTwoFactorRequiredForRole, issueUserSession } from './auth.session'
+
+const PROJECT_ROLES = ['VIEWER', 'EDITOR', 'OWNER']
+const INVITATION_STATUSES = ['PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED']
+
+const INVITATION_SELECT = `SELECT i.id, i.email, i.role, i.project_id, i.project_role, i.expires_at, i.accepted_at, i.revoked_at, i.created_at,
+    p.name as project_name, u.first_name as inviter_first_name, u.last_name as inviter_last_name,
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'ACCEPTED'
+      WHEN i.revoked_at IS NOT NULL THEN 'REVOKED'
+      WHEN i.expires_at <= NOW(3) THEN 'EXPIRED'
+      ELSE 'PENDING'
+    END as status
+  FROM invitations i
+  LEFT JOIN projects p ON i.project_id = p.id
+  LEFT JOIN users u ON i.invited_by = u.id`
+
+/**
+ * Map database invitation record to GraphQL response format
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapInvitationRecord = (record: any) => ({
+  id: record.id.toString(),
+  email: record.email,
+  role: record.role,
+  projectId: record.project_id ? record.project_id.toString() : null,
+  projectName: record.project_name || null,
+  projectRole: record.project_role || null,
+  invitedByName: record.inviter_first_name ? `${record.inviter_first_name} ${record.inviter_last_name}` : null,
+  status: record.status,
+  expiresAt: formatDateToISO(record.expires_at),
+  acceptedAt: record.accepted_at ? formatDateToISO(record.accepted_at) : null,
+  createdAt: formatDateToISO(record.created_at),
+})
+
+/**
+ * Load a pending invitation from its token
+ * Requires a valid signature, an unexpired row and a matching stored hash
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const findPendingInvitation = async (token: string) => {
+  const invitationId = verifyInvitationToken(token)
+  if (!invitationId) return null
+  const invitations = (await db.query(
+    `${INVITATION_SELECT} WHERE i.id = ? AND i.token_hash = ? AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW(3)`,
+    [invitationId, hashInvitationToken(token)]
+  )) as any[]
+  return invitations[0] || null
+}
+
+/**
+ * Invitation Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const invitationQueryResolvers = {
+  /**
+   * List invitations, newest first - requires the global Admin role
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  listInvitations: async (_: any, { status }: { status?: string | null }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can view invitations.')
+    if (status && !INVITATION_STATUSES.includes(status)) {
+      throw new Error(`Invalid status. Expected one of: ${INVITATION_STATUSES.join(', ')}`)
+    }
+    const invitations = (await db.query(`${INVITATION_SELECT} ORDER BY i.created_at DESC`)) as any[]
+    return invitations
+      .filter((invitation: any) => !status || invitation.status === status)
+      .map((invitation: any) => mapInvitationRecord(invitation))
+  },
+
+  /**
+   * Public preview of a pending invitation for the accept form
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  invitation: async (_: any, { token }: { token: string }) => {
+    const invitation = await findPendingInvitation(token)
+    return invitation ? mapInvitationRecord(invitation) : null
+  },
+
+  /**
+   * Public registration settings so the client can hide open sign-up
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  registrationSettings: () => ({ openRegistration: isOpenRegistrationEnabled() }),
+}
+
+/**
+ * Invitation Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const invitationMutationResolvers = {
+  /**
+   * Invite a user by email - requires the global Admin role
+   * Revokes earlier pending invitations for the same email and emails the signed link
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  inviteUser: async (
+    _: any,
+    { email, role, projectId, projectRole }: { email: string; role: string; projectId?: string | null; projectRole?: string | null },
+    context: { req: any }
+  ) => {
+    const adminId = await requireGlobalAdmin(context, 'Only administrators can invite users.')
+    const normalizedEmail = email.trim().toLowerCase()
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) throw new Error('Please enter a valid email address')
+    if (!USER_ROLES.includes(role)) throw new Error(`Unknown role: ${role}`)
+    if (projectRole && !PROJECT_ROLES.includes(projectRole)) {
+      throw new Error(`Invalid project role. Expected one of: ${PROJECT_ROLES.join(', ')}`)
+    }
+
+    const existingUsers = (await db.query('SELECT id FROM users WHERE email = ?', [normalizedEmail])) as any[]
+    if (existingUsers.length > 0) throw new Error('A user with this email already exists')
+
+    let projectName: string | null = null
+    if (projectId) {
+      const projects = (await db.query('SELECT name FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
+      if (projects.length === 0) throw new Error('Project not found')
+      projectName = projects[0].name
+    }
+
+    await db.query(
+      'UPDATE invitations SET revoked_at = CURRENT_TIMESTAMP(3) WHERE email = ? AND accepted_at IS NULL AND revoked_at IS NULL',
+      [normalizedEmail]
+    )
+
+    // The signed token embeds the row ID, so the row is inserted with a throwaway hash first
+    const expiresAt = calculateInvitationExpiry()
+    const result = (await db.query(
+      `INSERT INTO invitations (email, role, project_id, project_role, invited_by, token_hash, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [normalizedEmail, role, projectId || null, projectId ? projectRole || 'VIEWER' : null, adminId, hashInvitationToken(randomUUID()), expiresAt]
+    )) as any
+    const token = generateInvitationToken(result.insertId, normalizedEmail)
+    await db.query('UPDATE invitations SET token_hash = ? WHERE id = ?', [hashInvitationToken(token), result.insertId])
+
+    const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')
+    const inviteLink = `${frontendUrl}/register?invite=${encodeURIComponent(token)}`
+    const projectLine = projectName ? ` and added to the "${projectName}" project` : ''
+    await sendMail({
+      to: normalizedEmail,
+      subject: 'You are invited to Project Tracker',
+      text: `Hi,\n\nYou have been invited to join Project Tracker as ${role}${projectLine}. Open the link below to create your account:\n\n${inviteLink}\n\nThis invitation expires at ${expiresAt.toISOString()} and can only be used once.`,
+    })
+
+    const invitations = (await db.query(`${INVITATION_SELECT} WHERE i.id = ?`, [result.insertId])) as any[]
+    return mapInvitationRecord(invitations[0])
+  },
+
+  /**
+   * Accept an invitation - creates the user and the project membership in one transaction
+   * Returns a session, or a two-factor setup challenge when the role requires 2FA
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  acceptInvitation: async (
+    _: any,
+    { token, firstName, lastName, password }: { token: string; firstName: string; lastName: string; password: string },
+    context: { req: any; res: any }
+  ) => {
+    if (!firstName.trim() || !lastName.trim()) throw new Error('First and last name are required')
+    if (!password || password.length < 6) throw new Error('Password must be at least 6 characters long')
+    const invitationId = verifyInvitationToken(token)
+    if (!invitationId) throw new GraphQLError('This invitation is invalid or has expired.', { extensions: { code: 'BAD_USER_INPUT' } })
+
+    const hashedPassword = await hashPassword(password)
+    const connection = await db.getConnection()
+    let userId: number
+    try {
+      await connection.beginTransaction()
+      const [invitations] = (await connection.query(
+        `SELECT id, email, role, project_id, project_role FROM invitations
+         WHERE id = ? AND token_hash = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW(3)
+         FOR UPDATE`,
+        [invitationId, hashInvitationToken(token)]
+      )) as any[]
+      if (invitations.length === 0) {
+        throw new GraphQLError('This invitation is invalid or has expired.', { extensions: { code: 'BAD_USER_INPUT' } })
+      }
+      const invitation = invitations[0]
+
+      const [existingUsers] = (await connection.query('SELECT id FROM users WHERE email = ?', [invitation.email])) as any[]
+      if (existingUsers.length > 0) throw new Error('A user with this email already exists')
+
+      const [insertResult] = (await connection.query(
+        'INSERT INTO users (first_name, last_name, email, password, role) VALUES (?, ?, ?, ?, ?)',
+        [firstName.trim(), lastName.trim(), invitation.email, hashedPassword, invitation.role]
+      )) as any[]
+      userId = insertResult.insertId
+
+      if (invitation.project_id) {
+        await connection.query(
+          'INSERT INTO project_members (project_id, user_id, role) VALUES (?, ?, ?)',
+          [invitation.project_id, userId, invitation.project_role || 'VIEWER']
+        )
+      }
+      await connection.query(
+        'UPDATE invitations SET accepted_at = CURRENT_TIMESTAMP(3), accepted_user_id = ? WHERE id = ?',
+        [userId, invitation.id]
+      )
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    const users = (await db.query('SELECT * FROM users WHERE id = ?', [userId])) as any[]
+    const user = users[0]
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return {
+        accessToken: null,
+        user: null,
+        twoFactorRequired: false,
+        twoFactorSetupRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id),
+      }
+    }
+    return issueUserSession(user, context)
+  },
+
+  /**
+   * Revoke a pending invitation - requires the global Admin role
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  revokeInvitation: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can revoke invitations.')
+    const result = (await db.query(
+      'UPDATE invitations SET revoked_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL',
+      [id]
+    )) as any
+    if (result.affectedRows === 0) throw new Error('Invitation not found or no longer pending')
+    return true
+  },
+}
@@ -6,20 +6,37 @@
  * @date 2025-11-26
  */
 
+import { GraphQLError } from 'graphql'
 import { REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS } from '../../constants/auth'
 import { db } from '../../db'
 import {
+  calculatePasswordResetTokenExpiry,
   calculateRefreshTokenExpiry,
+  clearRefreshTokenCookie,
   comparePassword,
   generateAccessToken,
   generateRefreshToken,
+  generatePasswordResetToken,
   generateRefreshTokenId,
+  generateTwoFactorChallengeToken,
+  getSessionClientInfo,
   hashPassword,
+  hashPasswordResetToken,
   hashRefreshToken,
+  isOpenRegistrationEnabled,
   setRefreshTokenCookie,
   verifyRefreshToken,
 } from '../../utils/auth'
-import { formatDateToISO } from '../../utils/formatters'
+import { requireSessionUser } from '../../utils/helpers'
+import {
+  assertLoginAllowed,
+  assertPasswordResetAllowed,
+  clearLoginFailures,
+  recordFailedLogin,
+  recordPasswordResetRequest,
+} from '../../utils/loginThrottle'
+import { sendMail } from '../../utils/mailer'
+import { isTwoFactorRequiredForRole, issueUserSession } from './auth.session'
 
 /**
  * Auth Mutation Resolvers
@@ -30,44 +47,51 @@ import { formatDateToISO } from '../../utils/formatters'
 export const authMutationResolvers = {
   /**
    * Login mutation - authenticates user with email and password
+   * Returns a two-factor challenge instead of tokens when 2FA is enabled or required by role policy
+   * Failed attempts are throttled per email and IP (see utils/loginThrottle)
    *
    * @author Thang Truong
    * @date 2025-11-26
    */
-  login: async (_: any, { email, password }: { email: string; password: string }, context: { res: any }) => {
+  login: async (_: any, { email, password }: { email: string; password: string }, context: { req: any; res: any }) => {
+    const { ipAddress } = getSessionClientInfo(context.req)
+    await assertLoginAllowed(email, ipAddress)
+
     const users = (await db.query('SELECT * FROM users WHERE email = ? AND is_deleted = false', [email])) as any[]
-    if (users.length === 0) throw new Error('Invalid email or password')
+    if (users.length === 0) {
+      await recordFailedLogin({ email, ipAddress })
+      throw new Error('Invalid email or password')
+    }
 
     const user = users[0]
     const isValidPassword = await comparePassword(password, user.password)
-    if (!isValidPassword) throw new Error('Invalid email or password')
-
-    const accessToken = generateAccessToken(user.id, user.email)
-    const refreshTokenId = await generateRefreshTokenId()
-    const refreshToken = generateRefreshToken(user.id, refreshTokenId)
-    const tokenHash = hashRefreshToken(refreshToken)
-    const expiresAt = calculateRefreshTokenExpiry()
+    if (!isValidPassword) {
+      await recordFailedLogin({ email, ipAddress, userId: user.id })
+      throw new Error('Invalid email or password')
+    }
 
-    await db.query(
-      'INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at) VALUES (?, ?, ?, ?)',
-      [refreshTokenId, user.id, tokenHash, expiresAt]
-    )
+    if (user.two_factor_enabled) {
+      return {
+        accessToken: null,
+        user: null,
+        twoFactorRequired: true,
+        twoFactorSetupRequired: false,
+        challengeToken: generateTwoFactorChallengeToken(user.id),
+      }
+    }
 
-    setRefreshTokenCookie(context.res, refreshToken)
-
-    return {
-      accessToken,
-      user: {
-        id: user.id.toString(),
-        uuid: user.uuid,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        email: user.email,
-        role: user.role,
-        createdAt: formatDateToISO(user.created_at),
-        updatedAt: formatDateToISO(user.updated_at),
-      },
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return {
+        accessToken: null,
+        user: null,
+        twoFactorRequired: false,
+        twoFactorSetupRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id),
+      }
     }
+
+    await clearLoginFailures(email)
+    return issueUserSession(user, context)
   },
 
   /**
@@ -76,7 +100,12 @@ export const authMutationResolvers = {
    * @author Thang Truong
    * @date 2025-11-26
    */
-  register: async (_: any, { input }: { input: any }, context: { res: any }) => {
+  register: async (_: any, { input }: { input: any }, context: { req: any; res: any }) => {
+    if (!isOpenRegistrationEnabled()) {
+      throw new GraphQLError('Registration is by invitation only. Please ask an administrator for an invite.', {
+        extensions: { code: 'FORBIDDEN' },
+      })
+    }
     const existingUsers = (await db.query('SELECT * FROM users WHERE email = ? AND is_deleted = false', [input.email])) as any[]
     if (existingUsers.length > 0) throw new Error('Email already registered')
 
@@ -90,33 +119,7 @@ export const authMutationResolvers = {
     const users = (await db.query('SELECT * FROM users WHERE id = ?', [userId])) as any[]
     if (users.length === 0) throw new Error('Failed to create user')
 
-    const user = users[0]
-    const accessToken = generateAccessToken(user.id, user.email)
-    const refreshTokenId = await generateRefreshTokenId()
-    const refreshToken = generateRefreshToken(user.id, refreshTokenId)
-    const tokenHash = hashRefreshToken(refreshToken)
-    const expiresAt = calculateRefreshTokenExpiry()
-
-    await db.query(
-      'INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at) VALUES (?, ?, ?, ?)',
-      [refreshTokenId, user.id, tokenHash, expiresAt]
-    )
-
-    setRefreshTokenCookie(context.res, refreshToken)
-
-    return {
-      accessToken,
-      user: {
-        id: user.id.toString(),
-        uuid: user.uuid,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        email: user.email,
-        role: user.role,
-        createdAt: formatDateToISO(user.created_at),
-        updatedAt: formatDateToISO(user.updated_at),
-      },
-    }
+    return issueUserSession(users[0], context)
   },
 
   /**
@@ -157,6 +160,7 @@ export const authMutationResolvers = {
 
       const user = users[0]
       const newAccessToken = generateAccessToken(user.id, user.email)
+      const { userAgent, ipAddress } = getSessionClientInfo(context.req)
 
       if (extendSession === true) {
         const newRefreshTokenId = await generateRefreshTokenId()
@@ -166,11 +170,16 @@ export const authMutationResolvers = {
 
         await db.query('DELETE FROM refresh_tokens WHERE token_hash = ?', [tokenHash])
         await db.query(
-          'INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?, NOW())',
-          [newRefreshTokenId, user.id, newTokenHash, newExpiresAt]
+          'INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at, user_agent, ip_address, last_used_at, created_at) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP(3), ?)',
+          [newRefreshTokenId, user.id, newTokenHash, newExpiresAt, userAgent, ipAddress, tokenRecord.created_at]
         )
 
         setRefreshTokenCookie(context.res, newRefreshToken)
+      } else {
+        await db.query(
+          'UPDATE refresh_tokens SET last_used_at = CURRENT_TIMESTAMP(3), user_agent = ?, ip_address = ? WHERE id = ?',
+          [userAgent, ipAddress, tokenRecord.id]
+        )
       }
 
       return { accessToken: newAccessToken }
@@ -180,19 +189,140 @@ export const authMutationResolvers = {
   },
 
   /**
-   * Reset password mutation - updates user password by email
+   * Request password reset mutation - emails a single-use, expiring reset link
+   * Always returns true so the response does not reveal whether the email is registered:
+   * requests are throttled per email and IP before the lookup, and mail delivery errors are only logged
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
-  resetPassword: async (_: any, { email, newPassword }: { email: string; newPassword: string }) => {
-    const users = (await db.query('SELECT * FROM users WHERE email = ? AND is_deleted = false', [email])) as any[]
-    if (users.length === 0) throw new Error('No account found with this email address')
+  requestPasswordReset: async (_: any, { email }: { email: string }, context: { req: any }) => {
+    const { ipAddress } = getSessionClientInfo(context.req)
+    await assertPasswordResetAllowed(email, ipAddress)
+    await recordPasswordResetRequest(email, ipAddress)
+
+    const users = (await db.query('SELECT id, email, first_name FROM users WHERE email = ? AND is_deleted = false', [email])) as any[]
+    if (users.length === 0) return true
+
+    const user = users[0]
+    await db.query(
+      'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP(3) WHERE user_id = ? AND used_at IS NULL',
+      [user.id]
+    )
+
+    const resetToken = generatePasswordResetToken()
+    const expiresAt = calculatePasswordResetTokenExpiry()
+    await db.query(
+      'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)',
+      [user.id, hashPasswordResetToken(resetToken), expiresAt]
+    )
+
+    const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')
+    const resetLink = `${frontendUrl}/forgot-password?token=${resetToken}`
+    try {
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your Project Tracker password',
+        text: `Hi ${user.first_name},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${resetLink}\n\nThis link expires at ${expiresAt.toISOString()} and can only be used once. If you did not request a reset, you can ignore this email.`,
+      })
+    } catch (error: any) {
+      console.error('Failed to send password reset email:', error?.message || error)
+    }
+
+    return true
+  },
 
+  /**
+   * Confirm password reset mutation - consumes reset token, updates password
+   * and revokes every refresh token of the user so existing sessions are signed out
+   * The three writes share one transaction, so a token is never spent without the password changing
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  confirmPasswordReset: async (_: any, { token, newPassword }: { token: string; newPassword: string }) => {
+    if (!newPassword || newPassword.length < 6) throw new Error('Password must be at least 6 characters long')
     const hashedPassword = await hashPassword(newPassword)
-    await db.query('UPDATE users SET password = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE email = ?', [hashedPassword, email])
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      const [tokens] = (await connection.query(
+        'SELECT id, user_id FROM password_reset_tokens WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW() FOR UPDATE',
+        [hashPasswordResetToken(token)]
+      )) as any
+      if (tokens.length === 0) throw new Error('This password reset link is invalid or has expired')
+
+      const resetToken = tokens[0]
+      await connection.query('UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [resetToken.id])
+      await connection.query('UPDATE users SET password = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [hashedPassword, resetToken.user_id])
+      await connection.query('UPDATE refresh_tokens SET is_revoked = true WHERE user_id = ?', [resetToken.user_id])
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
 
     return true
   },
-}
 
+  /**
+   * Logout mutation - revokes the refresh token from the cookie and clears it
+   * Works without a valid access token so an expired session can still sign out
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  logout: async (_: any, __: any, context: { req: any; res: any }) => {
+    const refreshToken = context.req?.cookies?.refreshToken
+    if (refreshToken) {
+      await db.query('UPDATE refresh_tokens SET is_revoked = true WHERE token_hash = ?', [hashRefreshToken(refreshToken)])
+    }
+    clearRefreshTokenCookie(context.res)
+    return true
+  },
+
+  /**
+   * Revoke session mutation - revokes one of the current user's refresh tokens
+   * Clears the cookie as well when the revoked session is the current one
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  revokeSession: async (_: any, { id }: { id: string }, context: { req: any; res: any }) => {
+    const userId = requireSessionUser(context)
+    const sessions = (await db.query(
+      'SELECT id, token_hash FROM refresh_tokens WHERE id = ? AND user_id = ? AND is_revoked = false',
+      [id, userId]
+    )) as any[]
+    if (sessions.length === 0) throw new Error('Session not found')
+
+    await db.query('UPDATE refresh_tokens SET is_revoked = true WHERE id = ?', [id])
+
+    const currentRefreshToken = context.req?.cookies?.refreshToken
+    if (currentRefreshToken && hashRefreshToken(currentRefreshToken) === sessions[0].token_hash) {
+      clearRefreshTokenCookie(context.res)
+    }
+    return true
+  },
+
+  /**
+   * Revoke all other sessions mutation - keeps only the session of the current cookie
+   * Returns the number of revoked sessions
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  revokeAllOtherSessions: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireSessionUser(context)
+    const currentRefreshToken = context.req?.cookies?.refreshToken
+    const currentTokenHash = currentRefreshToken ? hashRefreshToken(currentRefreshToken) : ''
+    const result = (await db.query(
+      'UPDATE refresh_tokens SET is_revoked = true WHERE user_id = ? AND is_revoked = false AND token_hash <> ?',
+      [userId, currentTokenHash]
+    )) as any
+    return result.affectedRows || 0
+  },
+}
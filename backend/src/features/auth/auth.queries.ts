@@ -9,6 +9,8 @@
 import { REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS } from '../../constants/auth'
 import { db } from '../../db'
 import { hashRefreshToken } from '../../utils/auth'
+import { formatDateToISO } from '../../utils/formatters'
+import { requireAuthentication } from '../../utils/helpers'
 
 /**
  * Auth Query Resolvers
@@ -60,5 +62,34 @@ export const authQueryResolvers = {
       return { isValid: false, timeRemaining: null, isAboutToExpire: false }
     }
   },
-}
 
+  /**
+   * List the current user's active sessions (unrevoked, unexpired refresh tokens)
+   * The session matching the request cookie is flagged as current
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  mySessions: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    const refreshToken = context.req?.cookies?.refreshToken
+    const currentTokenHash = refreshToken ? hashRefreshToken(refreshToken) : null
+    const sessions = (await db.query(
+      `SELECT id, token_hash, user_agent, ip_address, last_used_at, expires_at, created_at
+       FROM refresh_tokens
+       WHERE user_id = ? AND is_revoked = false AND expires_at > NOW()
+       ORDER BY COALESCE(last_used_at, created_at) DESC`,
+      [userId]
+    )) as any[]
+
+    return sessions.map((session: any) => ({
+      id: session.id,
+      userAgent: session.user_agent || null,
+      ipAddress: session.ip_address || null,
+      lastUsedAt: session.last_used_at ? formatDateToISO(session.last_used_at) : null,
+      expiresAt: formatDateToISO(session.expires_at),
+      createdAt: formatDateToISO(session.created_at),
+      isCurrent: currentTokenHash !== null && session.token_hash === currentTokenHash,
+    }))
+  },
+}
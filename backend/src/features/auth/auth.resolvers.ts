@@ -1,10 +1,24 @@
 /**
  * Auth Feature Resolvers
- * Re-exports auth query and mutation resolvers
+ * Combines auth query, mutation, two-factor and invitation resolvers
  *
  * @author Thang Truong
  * @date 2025-11-26
  */
 
-export { authQueryResolvers } from './auth.queries'
-export { authMutationResolvers } from './auth.mutations'
+import { authQueryResolvers as baseAuthQueryResolvers } from './auth.queries'
+import { authMutationResolvers as baseAuthMutationResolvers } from './auth.mutations'
+import { twoFactorQueryResolvers, twoFactorMutationResolvers } from './auth.twoFactor'
+import { invitationQueryResolvers, invitationMutationResolvers } from './auth.invitations'
+
+export const authQueryResolvers = {
+  ...baseAuthQueryResolvers,
+  ...twoFactorQueryResolvers,
+  ...invitationQueryResolvers,
+}
+
+export const authMutationResolvers = {
+  ...baseAuthMutationResolvers,
+  ...twoFactorMutationResolvers,
+  ...invitationMutationResolvers,
+}
@@ -1,7 +1,7 @@
 /**
  * Auth Feature Schema
  * GraphQL type definitions for authentication
- * Includes login, register, and token refresh types
+ * Includes login, register, token refresh, session management, two-factor and invitation types
  *
  * @author Thang Truong
  * @date 2025-11-26
@@ -9,8 +9,34 @@
 
 export const authTypeDefs = `
   type LoginResponse {
-    accessToken: String!
-    user: User!
+    accessToken: String
+    user: User
+    twoFactorRequired: Boolean!
+    twoFactorSetupRequired: Boolean!
+    challengeToken: String
+  }
+
+  type TwoFactorStatus {
+    enabled: Boolean!
+    required: Boolean!
+    enabledAt: String
+    recoveryCodesRemaining: Int!
+  }
+
+  type TwoFactorEnrollment {
+    secret: String!
+    otpauthUri: String!
+  }
+
+  type TwoFactorEnrollmentResult {
+    recoveryCodes: [String!]!
+    session: LoginResponse
+  }
+
+  type TwoFactorPolicy {
+    role: String!
+    required: Boolean!
+    updatedAt: String
   }
 
   type RefreshTokenResponse {
@@ -23,6 +49,34 @@ export const authTypeDefs = `
     isAboutToExpire: Boolean!
   }
 
+  type Session {
+    id: ID!
+    userAgent: String
+    ipAddress: String
+    lastUsedAt: String
+    expiresAt: String!
+    createdAt: String!
+    isCurrent: Boolean!
+  }
+
+  type Invitation {
+    id: ID!
+    email: String!
+    role: String!
+    projectId: ID
+    projectName: String
+    projectRole: String
+    invitedByName: String
+    status: String!
+    expiresAt: String!
+    acceptedAt: String
+    createdAt: String!
+  }
+
+  type RegistrationSettings {
+    openRegistration: Boolean!
+  }
+
   input RegisterInput {
     firstName: String!
     lastName: String!
@@ -33,12 +87,31 @@ export const authTypeDefs = `
 
 export const authQueryDefs = `
   refreshTokenStatus: RefreshTokenStatus
+  mySessions: [Session!]!
+  twoFactorStatus: TwoFactorStatus!
+  twoFactorPolicies: [TwoFactorPolicy!]!
+  listInvitations(status: String): [Invitation!]!
+  invitation(token: String!): Invitation
+  registrationSettings: RegistrationSettings!
 `
 
 export const authMutationDefs = `
   login(email: String!, password: String!): LoginResponse!
   register(input: RegisterInput!): LoginResponse!
   refreshToken(extendSession: Boolean): RefreshTokenResponse!
-  resetPassword(email: String!, newPassword: String!): Boolean!
+  requestPasswordReset(email: String!): Boolean!
+  confirmPasswordReset(token: String!, newPassword: String!): Boolean!
+  logout: Boolean!
+  revokeSession(id: ID!): Boolean!
+  revokeAllOtherSessions: Int!
+  verifyTwoFactor(challengeToken: String!, code: String!): LoginResponse!
+  beginTwoFactorEnrollment(challengeToken: String): TwoFactorEnrollment!
+  confirmTwoFactorEnrollment(code: String!, challengeToken: String): TwoFactorEnrollmentResult!
+  disableTwoFactor(password: String!): Boolean!
+  regenerateTwoFactorRecoveryCodes(code: String!): [String!]!
+  setTwoFactorPolicy(role: String!, required: Boolean!): TwoFactorPolicy!
+  inviteUser(email: String!, role: String!, projectId: ID, projectRole: String): Invitation!
+  acceptInvitation(token: String!, firstName: String!, lastName: String!, password: String!): LoginResponse!
+  revokeInvitation(id: ID!): Boolean!
 `
 
@@ -0,0 +1,87 @@
+/**
+ * Auth Session Helpers
+ * Shared login completion logic used by password login, registration
+ * and the two-factor verification step
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import {
+  calculateRefreshTokenExpiry,
+  generateAccessToken,
+  generateRefreshToken,
+  generateRefreshTokenId,
+  getSessionClientInfo,
+  hashRefreshToken,
+  setRefreshTokenCookie,
+} from '../../utils/auth'
+import { formatDateToISO } from '../../utils/formatters'
+
+/**
+ * Map a users row to the GraphQL User shape returned by auth mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatAuthUser = (user: any) => ({
+  id: user.id.toString(),
+  uuid: user.uuid,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  email: user.email,
+  role: user.role,
+  twoFactorEnabled: Boolean(user.two_factor_enabled),
+  createdAt: formatDateToISO(user.created_at),
+  updatedAt: formatDateToISO(user.updated_at),
+})
+
+/**
+ * Issue access token and refresh token session for a fully authenticated user
+ * Stores the refresh token with client details and sets the HTTP-only cookie
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param user - users row
+ * @param context - GraphQL context with req/res
+ * @returns LoginResponse payload
+ */
+export const issueUserSession = async (user: any, context: { req: any; res: any }) => {
+  const accessToken = generateAccessToken(user.id, user.email)
+  const refreshTokenId = await generateRefreshTokenId()
+  const refreshToken = generateRefreshToken(user.id, refreshTokenId)
+  const tokenHash = hashRefreshToken(refreshToken)
+  const expiresAt = calculateRefreshTokenExpiry()
+  const { userAgent, ipAddress } = getSessionClientInfo(context.req)
+
+  await db.query(
+    'INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at, user_agent, ip_address, last_used_at) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP(3))',
+    [refreshTokenId, user.id, tokenHash, expiresAt, userAgent, ipAddress]
+  )
+
+  setRefreshTokenCookie(context.res, refreshToken)
+
+  return {
+    accessToken,
+    user: formatAuthUser(user),
+    twoFactorRequired: false,
+    twoFactorSetupRequired: false,
+    challengeToken: null,
+  }
+}
+
+/**
+ * Check whether the two-factor policy requires 2FA for a role
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param role - users.role value
+ */
+export const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> => {
+  const policies = (await db.query(
+    'SELECT is_required FROM two_factor_policies WHERE role = ?',
+    [role]
+  )) as any[]
+  return policies.length > 0 && Boolean(policies[0].is_required)
+}
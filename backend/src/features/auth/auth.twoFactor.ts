@@ -0,0 +1,314 @@
+/**
+ * Two-Factor Authentication Resolvers
+ * TOTP enrollment, login verification step, recovery codes and per-role policy
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { TWO_FACTOR_RECOVERY_CODE_COUNT } from '../../constants/auth'
+import { USER_ROLES } from '../../constants/roles'
+import { db } from '../../db'
+import { comparePassword, getSessionClientInfo, verifyTwoFactorChallengeToken } from '../../utils/auth'
+import { formatDateToISO } from '../../utils/formatters'
+import { requireAuthentication, requireGlobalAdmin, requireSessionUser } from '../../utils/helpers'
+import {
+  assertLoginAllowed,
+  assertUserAttemptAllowed,
+  clearLoginFailures,
+  clearUserAttemptFailures,
+  recordFailedLogin,
+  recordFailedUserAttempt,
+} from '../../utils/loginThrottle'
+import {
+  buildOtpauthUri,
+  generateRecoveryCode,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from '../../utils/totp'
+import { isTwoFactorRequiredForRole, issueUserSession } from './auth.session'
+
+/**
+ * Resolve the acting user from a login challenge token or the access token
+ * The challenge token allows users forced by policy to enroll before their first session
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const resolveTwoFactorUserId = (context: { req: any }, challengeToken?: string | null): number => {
+  if (challengeToken) {
+    const userId = verifyTwoFactorChallengeToken(challengeToken)
+    if (!userId) throw new Error('Your sign-in attempt has expired. Please log in again.')
+    return userId
+  }
+  return requireSessionUser(context)
+}
+
+/**
+ * Fetch an active user row by ID
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchActiveUser = async (userId: number) => {
+  const users = (await db.query('SELECT * FROM users WHERE id = ? AND is_deleted = false', [userId])) as any[]
+  if (users.length === 0) throw new Error('User not found')
+  return users[0]
+}
+
+/**
+ * Check a TOTP code and record its time step, so the same code is not accepted twice
+ * The conditional update makes two concurrent requests with one code race for a single success
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const acceptTotpCode = async (user: any, code: string): Promise<boolean> => {
+  const lastUsedStep = user.two_factor_last_step !== null && user.two_factor_last_step !== undefined ? Number(user.two_factor_last_step) : null
+  const step = verifyTotpCode(user.two_factor_secret, code, lastUsedStep)
+  if (step === null) return false
+  const result = (await db.query(
+    'UPDATE users SET two_factor_last_step = ? WHERE id = ? AND (two_factor_last_step IS NULL OR two_factor_last_step < ?)',
+    [step, user.id, step]
+  )) as any
+  return result.affectedRows > 0
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set and return the plain codes once
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const replaceRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const recoveryCodes = Array.from({ length: TWO_FACTOR_RECOVERY_CODE_COUNT }, () => generateRecoveryCode())
+  await db.query('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId])
+  for (const code of recoveryCodes) {
+    await db.query('INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES (?, ?)', [userId, hashRecoveryCode(code)])
+  }
+  return recoveryCodes
+}
+
+/**
+ * Consume an unused recovery code
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns True when a matching unused code was found and marked as used
+ */
+const consumeRecoveryCode = async (userId: number, code: string): Promise<boolean> => {
+  const result = (await db.query(
+    'UPDATE two_factor_recovery_codes SET used_at = CURRENT_TIMESTAMP(3) WHERE user_id = ? AND code_hash = ? AND used_at IS NULL LIMIT 1',
+    [userId, hashRecoveryCode(code)]
+  )) as any
+  return result.affectedRows > 0
+}
+
+/**
+ * Two-Factor Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const twoFactorQueryResolvers = {
+  /**
+   * Two-factor status of the current user
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  twoFactorStatus: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    const user = await fetchActiveUser(userId)
+    const codes = (await db.query(
+      'SELECT COUNT(*) AS remaining FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [userId]
+    )) as any[]
+    return {
+      enabled: Boolean(user.two_factor_enabled),
+      required: await isTwoFactorRequiredForRole(user.role),
+      enabledAt: user.two_factor_enabled_at ? formatDateToISO(user.two_factor_enabled_at) : null,
+      recoveryCodesRemaining: Number(codes[0]?.remaining || 0),
+    }
+  },
+
+  /**
+   * Two-factor policy for every role
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  twoFactorPolicies: async (_: any, __: any, context: { req: any }) => {
+    requireAuthentication(context)
+    const policies = (await db.query('SELECT role, is_required, updated_at FROM two_factor_policies')) as any[]
+    const policyByRole = new Map(policies.map((policy: any) => [policy.role, policy]))
+    return USER_ROLES.map((role) => {
+      const policy: any = policyByRole.get(role)
+      return {
+        role,
+        required: Boolean(policy?.is_required),
+        updatedAt: policy?.updated_at ? formatDateToISO(policy.updated_at) : null,
+      }
+    })
+  },
+}
+
+/**
+ * Two-Factor Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const twoFactorMutationResolvers = {
+  /**
+   * Begin enrollment - stores a pending secret and returns the otpauth URI for the QR code
+   * Accepts a login challenge token for users who must enroll before signing in
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  beginTwoFactorEnrollment: async (_: any, { challengeToken }: { challengeToken?: string }, context: { req: any }) => {
+    const userId = resolveTwoFactorUserId(context, challengeToken)
+    const user = await fetchActiveUser(userId)
+    if (user.two_factor_enabled) throw new Error('Two-factor authentication is already enabled')
+
+    const secret = generateTotpSecret()
+    await db.query('UPDATE users SET two_factor_secret = ?, two_factor_last_step = NULL WHERE id = ?', [secret, userId])
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email) }
+  },
+
+  /**
+   * Confirm enrollment - verifies the first code, enables 2FA and returns recovery codes
+   * When completed with a login challenge token, the session is issued as well
+   * Wrong codes are throttled per user like failed logins
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  confirmTwoFactorEnrollment: async (
+    _: any,
+    { code, challengeToken }: { code: string; challengeToken?: string },
+    context: { req: any; res: any }
+  ) => {
+    const userId = resolveTwoFactorUserId(context, challengeToken)
+    const user = await fetchActiveUser(userId)
+    if (user.two_factor_enabled) throw new Error('Two-factor authentication is already enabled')
+    if (!user.two_factor_secret) throw new Error('Start two-factor enrollment first')
+    await assertUserAttemptAllowed(userId)
+    if (!(await acceptTotpCode(user, code))) {
+      await recordFailedUserAttempt(userId)
+      throw new Error('Invalid authentication code')
+    }
+
+    await clearUserAttemptFailures(userId)
+    await db.query(
+      'UPDATE users SET two_factor_enabled = true, two_factor_enabled_at = CURRENT_TIMESTAMP(3) WHERE id = ?',
+      [userId]
+    )
+    const recoveryCodes = await replaceRecoveryCodes(userId)
+    const session = challengeToken
+      ? await issueUserSession({ ...user, two_factor_enabled: true }, context)
+      : null
+
+    return { recoveryCodes, session }
+  },
+
+  /**
+   * Verify two-factor login step - accepts a TOTP code or an unused recovery code
+   * Issues the access and refresh tokens only after the code is verified
+   * Wrong codes count as failed logins for throttling and lockout
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  verifyTwoFactor: async (
+    _: any,
+    { challengeToken, code }: { challengeToken: string; code: string },
+    context: { req: any; res: any }
+  ) => {
+    const userId = verifyTwoFactorChallengeToken(challengeToken)
+    if (!userId) throw new Error('Your sign-in attempt has expired. Please log in again.')
+
+    const user = await fetchActiveUser(userId)
+    if (!user.two_factor_enabled || !user.two_factor_secret) throw new Error('Two-factor authentication is not enabled')
+
+    const { ipAddress } = getSessionClientInfo(context.req)
+    await assertLoginAllowed(user.email, ipAddress)
+
+    const isValid = (await acceptTotpCode(user, code)) || (await consumeRecoveryCode(userId, code))
+    if (!isValid) {
+      await recordFailedLogin({ email: user.email, ipAddress, userId })
+      throw new Error('Invalid authentication code')
+    }
+
+    await clearLoginFailures(user.email)
+    return issueUserSession(user, context)
+  },
+
+  /**
+   * Disable 2FA for the current user - requires the password and is blocked by role policy
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  disableTwoFactor: async (_: any, { password }: { password: string }, context: { req: any }) => {
+    const userId = requireSessionUser(context)
+    const user = await fetchActiveUser(userId)
+    if (!(await comparePassword(password, user.password))) throw new Error('Incorrect password')
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new Error(`Two-factor authentication is required for the ${user.role} role`)
+    }
+
+    await db.query(
+      'UPDATE users SET two_factor_enabled = false, two_factor_secret = NULL, two_factor_enabled_at = NULL, two_factor_last_step = NULL WHERE id = ?',
+      [userId]
+    )
+    await db.query('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId])
+    return true
+  },
+
+  /**
+   * Regenerate recovery codes for the current user - invalidates the previous set
+   * Wrong codes are throttled per user like failed logins
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  regenerateTwoFactorRecoveryCodes: async (_: any, { code }: { code: string }, context: { req: any }) => {
+    const userId = requireSessionUser(context)
+    const user = await fetchActiveUser(userId)
+    if (!user.two_factor_enabled || !user.two_factor_secret) throw new Error('Two-factor authentication is not enabled')
+    await assertUserAttemptAllowed(userId)
+    if (!(await acceptTotpCode(user, code))) {
+      await recordFailedUserAttempt(userId)
+      throw new Error('Invalid authentication code')
+    }
+    await clearUserAttemptFailures(userId)
+    return replaceRecoveryCodes(userId)
+  },
+
+  /**
+   * Set whether a role must use two-factor authentication - requires the global Admin role
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  setTwoFactorPolicy: async (_: any, { role, required }: { role: string; required: boolean }, context: { req: any }) => {
+    const adminId = await requireGlobalAdmin(context, 'Only administrators can change the two-factor policy.')
+    if (!USER_ROLES.includes(role)) throw new Error(`Unknown role: ${role}`)
+
+    await db.query(
+      `INSERT INTO two_factor_policies (role, is_required, updated_by) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE is_required = VALUES(is_required), updated_by = VALUES(updated_by)`,
+      [role, required, adminId]
+    )
+    const policies = (await db.query('SELECT role, is_required, updated_at FROM two_factor_policies WHERE role = ?', [role])) as any[]
+    return {
+      role,
+      required: Boolean(policies[0]?.is_required),
+      updatedAt: policies[0]?.updated_at ? formatDateToISO(policies[0].updated_at) : null,
+    }
+  },
+}
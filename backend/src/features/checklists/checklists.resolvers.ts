@@ -0,0 +1,225 @@
+/**
+ * Checklists Feature Resolvers
+ * Adds, checks, edits, deletes and reorders the checklist items of a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { createActivityLog, requirePermission } from '../../utils/helpers'
+import { CHECKLIST_ITEM_COLUMNS, getTaskChecklist, mapChecklistItem, normalizeItemText } from '../../utils/checklists'
+import { MAX_CHECKLIST_ITEMS } from '../../constants/checklists'
+
+interface ChecklistItemInput {
+  text: string
+  assignedTo?: string | null
+}
+
+interface UpdateChecklistItemInput {
+  text?: string | null
+  isDone?: boolean | null
+  assignedTo?: string | null
+}
+
+/**
+ * Check that an item assignee is an existing user; empty values clear the assignee
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const resolveAssignee = async (assignedTo: string | null | undefined): Promise<string | null> => {
+  if (!assignedTo) return null
+  const users = (await db.query('SELECT id FROM users WHERE id = ? AND is_deleted = false', [assignedTo])) as any[]
+  if (users.length === 0) throw new Error('Assignee not found')
+  return assignedTo
+}
+
+/**
+ * Load a task that is not deleted
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getChecklistTask = async (taskId: string | number): Promise<{ id: number; title: string; project_id: number }> => {
+  const tasks = (await db.query('SELECT id, title, project_id FROM tasks WHERE id = ? AND is_deleted = false', [taskId])) as any[]
+  if (tasks.length === 0) throw new Error('Task not found')
+  return tasks[0]
+}
+
+/**
+ * Load a checklist item row
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getChecklistItemRow = async (id: string | number): Promise<any> => {
+  const rows = (await db.query(`SELECT ${CHECKLIST_ITEM_COLUMNS} FROM task_checklist_items WHERE id = ?`, [id])) as any[]
+  if (rows.length === 0) throw new Error('Checklist item not found')
+  return rows[0]
+}
+
+/**
+ * Checklists Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const checklistsQueryResolvers = {
+  /**
+   * Checklist items of a task in their saved order
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  taskChecklist: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const tasks = (await db.query('SELECT project_id FROM tasks WHERE id = ? AND is_deleted = false', [taskId])) as any[]
+    if (tasks.length === 0 || !isProjectInApiTokenScope(context.req, tasks[0].project_id)) return []
+    return getTaskChecklist(taskId)
+  },
+}
+
+/**
+ * Checklists Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const checklistsMutationResolvers = {
+  /**
+   * Add an item at the end of a task's checklist - requires WRITE permission on the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  addChecklistItem: async (_: any, { taskId, input }: { taskId: string; input: ChecklistItemInput }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'TASK', taskId, 'WRITE', 'You do not have permission to change this task.')
+    const task = await getChecklistTask(taskId)
+    const text = normalizeItemText(input.text)
+    const assignedTo = await resolveAssignee(input.assignedTo)
+
+    const counts = (await db.query(
+      'SELECT COUNT(*) as total, COALESCE(MAX(position), 0) as max_position FROM task_checklist_items WHERE task_id = ?',
+      [taskId]
+    )) as any[]
+    if (Number(counts[0].total) >= MAX_CHECKLIST_ITEMS) {
+      throw new Error(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`)
+    }
+    const result = (await db.query(
+      'INSERT INTO task_checklist_items (task_id, content, position, assigned_to) VALUES (?, ?, ?, ?)',
+      [taskId, text, Number(counts[0].max_position) + 1, assignedTo]
+    )) as any
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: task.project_id,
+      taskId,
+      type: 'TASK_UPDATED',
+      action: `Added checklist item "${text}" to task "${task.title}"`,
+      metadata: { checklistItemId: result.insertId.toString() },
+    })
+    return mapChecklistItem(await getChecklistItemRow(result.insertId))
+  },
+
+  /**
+   * Edit, check or uncheck a checklist item - requires WRITE permission on its task
+   * Checking an item is recorded in the task's activity log
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  updateChecklistItem: async (_: any, { id, input }: { id: string; input: UpdateChecklistItemInput }, context: { req: any }) => {
+    const item = await getChecklistItemRow(id)
+    const actorUserId = await requirePermission(context, 'TASK', item.task_id, 'WRITE', 'You do not have permission to change this task.')
+    const task = await getChecklistTask(item.task_id)
+
+    const updates: string[] = []
+    const values: any[] = []
+    if (input.text !== undefined && input.text !== null) {
+      updates.push('content = ?')
+      values.push(normalizeItemText(input.text))
+    }
+    if (input.assignedTo !== undefined) {
+      updates.push('assigned_to = ?')
+      values.push(await resolveAssignee(input.assignedTo))
+    }
+    const isDoneChanged = input.isDone !== undefined && input.isDone !== null && input.isDone !== Boolean(item.is_done)
+    if (isDoneChanged) {
+      updates.push('is_done = ?', `done_at = ${input.isDone ? 'CURRENT_TIMESTAMP(3)' : 'NULL'}`)
+      values.push(input.isDone)
+    }
+    if (updates.length === 0) return mapChecklistItem(item)
+
+    await db.query(`UPDATE task_checklist_items SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?`, [...values, id])
+    const updated = await getChecklistItemRow(id)
+    if (isDoneChanged) {
+      await createActivityLog({
+        userId: actorUserId,
+        projectId: task.project_id,
+        taskId: item.task_id,
+        type: 'TASK_UPDATED',
+        action: `${input.isDone ? 'Checked' : 'Unchecked'} "${updated.content}" on task "${task.title}"`,
+        metadata: { checklistItemId: id, isDone: Boolean(input.isDone) },
+      })
+    }
+    return mapChecklistItem(updated)
+  },
+
+  /**
+   * Delete a checklist item - requires WRITE permission on its task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteChecklistItem: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const item = await getChecklistItemRow(id)
+    const actorUserId = await requirePermission(context, 'TASK', item.task_id, 'WRITE', 'You do not have permission to change this task.')
+    const task = await getChecklistTask(item.task_id)
+    await db.query('DELETE FROM task_checklist_items WHERE id = ?', [id])
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: task.project_id,
+      taskId: item.task_id,
+      type: 'TASK_UPDATED',
+      action: `Removed checklist item "${item.content}" from task "${task.title}"`,
+      metadata: { checklistItemId: id },
+    })
+    return true
+  },
+
+  /**
+   * Save a new order of a task's checklist - requires WRITE permission on the task
+   * itemIds must list every item of the checklist exactly once, first item first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  reorderChecklistItems: async (_: any, { taskId, itemIds }: { taskId: string; itemIds: string[] }, context: { req: any }) => {
+    await requirePermission(context, 'TASK', taskId, 'WRITE', 'You do not have permission to change this task.')
+    await getChecklistTask(taskId)
+    const current = await getTaskChecklist(taskId)
+    const currentIds = new Set(current.map((item) => item.id))
+    const uniqueIds = new Set(itemIds.map((itemId) => itemId.toString()))
+    if (uniqueIds.size !== itemIds.length || uniqueIds.size !== currentIds.size || [...uniqueIds].some((itemId) => !currentIds.has(itemId))) {
+      throw new Error('Checklist order must list every item of the task once')
+    }
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      for (let index = 0; index < itemIds.length; index++) {
+        await connection.query(
+          'UPDATE task_checklist_items SET position = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND task_id = ?',
+          [index + 1, itemIds[index], taskId]
+        )
+      }
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+    return getTaskChecklist(taskId)
+  },
+}
@@ -0,0 +1,50 @@
+/**
+ * Checklists Feature Schema
+ * GraphQL type definitions for checklist items inside a task
+ * Items are lighter than subtasks: a line of text, a done flag, a position and an optional assignee
+ * ChecklistProgress counts the done items out of all items of a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const checklistsTypeDefs = `
+  type ChecklistItem {
+    id: ID!
+    taskId: String!
+    text: String!
+    isDone: Boolean!
+    position: Int!
+    assignedTo: String
+    doneAt: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type ChecklistProgress {
+    completed: Int!
+    total: Int!
+  }
+
+  input ChecklistItemInput {
+    text: String!
+    assignedTo: String
+  }
+
+  input UpdateChecklistItemInput {
+    text: String
+    isDone: Boolean
+    assignedTo: String
+  }
+`
+
+export const checklistsQueryDefs = `
+  taskChecklist(taskId: ID!): [ChecklistItem!]!
+`
+
+export const checklistsMutationDefs = `
+  addChecklistItem(taskId: ID!, input: ChecklistItemInput!): ChecklistItem!
+  updateChecklistItem(id: ID!, input: UpdateChecklistItemInput!): ChecklistItem!
+  deleteChecklistItem(id: ID!): Boolean!
+  reorderChecklistItems(taskId: ID!, itemIds: [ID!]!): [ChecklistItem!]!
+`
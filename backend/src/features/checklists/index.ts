@@ -0,0 +1,10 @@
+/**
+ * Checklists Feature Index
+ * Exports checklists schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { checklistsTypeDefs, checklistsQueryDefs, checklistsMutationDefs } from './checklists.schema'
+export { checklistsQueryResolvers, checklistsMutationResolvers } from './checklists.resolvers'
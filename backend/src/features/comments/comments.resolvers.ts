@@ -7,9 +7,21 @@
 import crypto from 'crypto'
 import { db } from '../../db'
 import { pubsub } from '../../utils/pubsub'
-import { verifyAccessToken } from '../../utils/auth'
 import { formatDateToISO } from '../../utils/formatters'
-import { getUserDisplayName, notifyProjectParticipants, requireAuthentication, tryGetUserIdFromRequest } from '../../utils/helpers'
+import { fetchComments, mapCommentRecord, publishCommentEvent, resolveReplyTarget } from '../../utils/comments'
+import { syncMentions } from '../../utils/mentions'
+import { notifyTaskWatchers } from '../../utils/watchers'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import {
+  buildVersionCondition,
+  createConflictError,
+  createNotificationRecord,
+  getUserDisplayName,
+  notifyProjectParticipants,
+  requireAuthentication,
+  requirePermission,
+  tryGetUserIdFromRequest,
+} from '../../utils/helpers'
 
 /**
  * Build comment payload for subscription
@@ -18,23 +30,38 @@ import { getUserDisplayName, notifyProjectParticipants, requireAuthentication, t
  */
 const buildCommentPayload = async (commentId: number | string, likesCount: number, isLiked: boolean) => {
   const comments = (await db.query(
-    `SELECT c.id, c.uuid, c.content, c.project_id, c.created_at, c.updated_at,
+    `SELECT c.id, c.uuid, c.content, c.project_id, c.task_id, c.parent_comment_id, c.version, c.created_at, c.updated_at,
       u.id as user_id, u.first_name, u.last_name, u.email, u.role, u.uuid as user_uuid,
-      u.created_at as user_created_at, u.updated_at as user_updated_at
+      u.created_at as user_created_at, u.updated_at as user_updated_at,
+      (SELECT COUNT(*) FROM comments r WHERE r.parent_comment_id = c.id AND r.is_deleted = false) as reply_count
     FROM comments c LEFT JOIN users u ON c.user_id = u.id AND u.is_deleted = false WHERE c.id = ?`,
     [commentId]
   )) as any[]
   if (comments.length === 0) return null
-  const c = comments[0]
-  return {
-    id: c.id.toString(), uuid: c.uuid || '', content: c.content, projectId: c.project_id ? c.project_id.toString() : null,
-    user: c.user_id ? {
-      id: c.user_id.toString(), uuid: c.user_uuid || '', firstName: c.first_name || '',
-      lastName: c.last_name || '', email: c.email || '', role: c.role || '',
-      createdAt: formatDateToISO(c.user_created_at), updatedAt: formatDateToISO(c.user_updated_at),
-    } : null,
-    likesCount, isLiked, createdAt: formatDateToISO(c.created_at), updatedAt: formatDateToISO(c.updated_at),
-  }
+  return { ...mapCommentRecord(comments[0], isLiked), likesCount }
+}
+
+/**
+ * Insert a comment on a project or task, or a reply filed under the top-level comment of its thread
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns The new comment and, for a reply, the author of the comment replied to
+ */
+const insertComment = async (
+  userId: number,
+  target: { projectId: number | string; taskId?: number | string | null },
+  content: string,
+  parentCommentId?: string | null
+) => {
+  const replyTarget = parentCommentId ? await resolveReplyTarget(parentCommentId, target) : null
+  const result = (await db.query(
+    'INSERT INTO comments (uuid, project_id, task_id, parent_comment_id, user_id, content) VALUES (?, ?, ?, ?, ?, ?)',
+    [crypto.randomUUID(), target.projectId, target.taskId || null, replyTarget ? replyTarget.rootCommentId : null, userId, content]
+  )) as any
+  const payload = await buildCommentPayload(result.insertId, 0, false)
+  if (payload) await publishCommentEvent('CREATED', payload)
+  return { commentId: Number(result.insertId), payload, replyAuthorId: replyTarget ? replyTarget.authorId : null }
 }
 
 /**
@@ -44,7 +71,7 @@ const buildCommentPayload = async (commentId: number | string, likesCount: numbe
  */
 export const commentsQueryResolvers = {
   /**
-   * Fetch all comments - requires authentication
+   * Fetch all comments - requires authentication; project-restricted API tokens only see their projects
    *
    * @author Thang Truong
    * @date 2025-11-27
@@ -52,42 +79,8 @@ export const commentsQueryResolvers = {
   comments: async (_: any, __: any, context: { req: any }) => {
     requireAuthentication(context, 'Authentication required to fetch comments.')
     const userId = tryGetUserIdFromRequest(context.req)
-    const comments = (await db.query(
-      `SELECT c.id, c.uuid, c.content, c.project_id, c.created_at, c.updated_at,
-        u.id as user_id, u.first_name, u.last_name, u.email, u.role, u.uuid as user_uuid,
-        u.created_at as user_created_at, u.updated_at as user_updated_at,
-        COALESCE(cl.likes_count, 0) as likes_count
-      FROM comments c
-      LEFT JOIN users u ON c.user_id = u.id AND u.is_deleted = false
-      LEFT JOIN (SELECT comment_id, COUNT(*) as likes_count FROM comment_likes GROUP BY comment_id) cl ON c.id = cl.comment_id
-      WHERE c.is_deleted = false ORDER BY c.created_at DESC`
-    )) as any[]
-    let userLikedComments: Set<number> = new Set()
-    const validComments = comments.filter((c: any) => c.user_id)
-    if (userId && validComments.length > 0) {
-      const commentIds = validComments.map((c: any) => c.id)
-      const placeholders = commentIds.map(() => '?').join(',')
-      const userLikes = (await db.query(
-        `SELECT comment_id FROM comment_likes WHERE user_id = ? AND comment_id IN (${placeholders})`,
-        [userId, ...commentIds]
-      )) as any[]
-      userLikedComments = new Set(userLikes.map((like: any) => Number(like.comment_id)))
-    }
-    return validComments.map((c: any) => ({
-      id: c.id.toString(),
-      uuid: c.uuid || '',
-      content: c.content,
-      projectId: c.project_id ? c.project_id.toString() : null,
-      user: {
-        id: c.user_id.toString(), uuid: c.user_uuid || '', firstName: c.first_name || '',
-        lastName: c.last_name || '', email: c.email || '', role: c.role || '',
-        createdAt: formatDateToISO(c.user_created_at), updatedAt: formatDateToISO(c.user_updated_at),
-      },
-      likesCount: Number(c.likes_count || 0),
-      isLiked: userId ? userLikedComments.has(Number(c.id)) : false,
-      createdAt: formatDateToISO(c.created_at),
-      updatedAt: formatDateToISO(c.updated_at),
-    }))
+    const comments = await fetchComments('c.user_id IS NOT NULL', [], userId)
+    return comments.filter((comment) => comment.user && isProjectInApiTokenScope(context.req, comment.projectId))
   },
 }
 
@@ -97,97 +90,168 @@ export const commentsQueryResolvers = {
  * @date 2025-11-27
  */
 export const commentsMutationResolvers = {
-  /** Create comment mutation - @author Thang Truong @date 2025-11-27 */
-  createComment: async (_: any, { projectId, content }: { projectId: string; content: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer ')) throw new Error('Authentication required. Please login to post comments.')
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId) throw new Error('Invalid or expired token. Please login again.')
-    const userId = decoded.userId
+  /**
+   * Create comment mutation - requires READ permission on the project
+   * With parentCommentId the comment is a reply: it is filed under the top-level comment of that thread
+   * and only the author of the comment replied to is notified; @mentioned participants are notified either way
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createComment: async (
+    _: any,
+    { projectId, content, parentCommentId }: { projectId: string; content: string; parentCommentId?: string | null },
+    context: { req: any }
+  ) => {
+    const userId = await requirePermission(context, 'PROJECT', projectId, 'READ', 'Only project members can post comments on this project.')
     const trimmedContent = content.trim()
     if (!trimmedContent) throw new Error('Comment content cannot be empty')
     const projects = (await db.query('SELECT id, name, owner_id FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
     if (projects.length === 0) throw new Error('Project not found or has been deleted')
     const projectName = projects[0].name || 'Unnamed Project'
-    const commentUuid = crypto.randomUUID()
-    const result = (await db.query('INSERT INTO comments (uuid, project_id, user_id, content) VALUES (?, ?, ?, ?)', [commentUuid, projectId, userId, trimmedContent])) as any
-    const payload = await buildCommentPayload(result.insertId, 0, false)
+    const { commentId, payload, replyAuthorId } = await insertComment(userId, { projectId }, trimmedContent, parentCommentId)
     if (payload) {
-      await pubsub.publish(`COMMENT_CREATED_${projectId}`, { commentCreated: payload })
       const actorName = await getUserDisplayName(userId)
-      await notifyProjectParticipants({ projectId: Number(projectId), actorUserId: userId, message: `${actorName} posted a comment on project "${projectName}".` })
+      if (!replyAuthorId) {
+        await notifyProjectParticipants({ projectId: Number(projectId), actorUserId: userId, message: `${actorName} posted a comment on project "${projectName}".` })
+      } else if (replyAuthorId !== userId) {
+        await createNotificationRecord(replyAuthorId, `${actorName} replied to your comment on project "${projectName}".`)
+      }
+      await syncMentions({
+        targetType: 'COMMENT',
+        targetId: commentId,
+        text: trimmedContent,
+        projectId,
+        actorUserId: userId,
+        location: `a comment on project "${projectName}"`,
+      })
     }
     return payload
   },
 
-  /** Update comment mutation - @author Thang Truong @date 2025-11-27 */
-  updateComment: async (_: any, { commentId, content }: { commentId: string; content: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer ')) throw new Error('Authentication required. Please login to edit comments.')
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId) throw new Error('Invalid or expired token. Please login again.')
-    const userId = decoded.userId
+  /**
+   * Create task comment mutation - requires READ permission on the task
+   * Comments on a task notify its watchers; replies notify only the author of the comment replied to
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createTaskComment: async (
+    _: any,
+    { taskId, content, parentCommentId }: { taskId: string; content: string; parentCommentId?: string | null },
+    context: { req: any }
+  ) => {
+    const userId = await requirePermission(context, 'TASK', taskId, 'READ', 'Only project members can comment on this task.')
+    const trimmedContent = content.trim()
+    if (!trimmedContent) throw new Error('Comment content cannot be empty')
+    const tasks = (await db.query(
+      `SELECT t.id, t.title, t.project_id FROM tasks t
+      INNER JOIN projects p ON t.project_id = p.id AND p.is_deleted = false
+      WHERE t.id = ? AND t.is_deleted = false`,
+      [taskId]
+    )) as any[]
+    if (tasks.length === 0) throw new Error('Task not found or has been deleted')
+    const task = tasks[0]
+    const { commentId, payload, replyAuthorId } = await insertComment(userId, { projectId: task.project_id, taskId }, trimmedContent, parentCommentId)
+    if (payload) {
+      const actorName = await getUserDisplayName(userId)
+      if (!replyAuthorId) {
+        await notifyTaskWatchers({ taskId, actorUserId: userId, message: `${actorName} commented on task "${task.title}".` })
+      } else if (replyAuthorId !== userId) {
+        await createNotificationRecord(replyAuthorId, `${actorName} replied to your comment on task "${task.title}".`)
+      }
+      await syncMentions({
+        targetType: 'COMMENT',
+        targetId: commentId,
+        text: trimmedContent,
+        projectId: task.project_id,
+        actorUserId: userId,
+        location: `a comment on task "${task.title}"`,
+      })
+    }
+    return payload
+  },
+
+  /** Update comment mutation - requires WRITE permission, CONFLICT on a stale expectedVersion; notifies newly mentioned users only - @author Thang Truong @date 2025-12-10 */
+  updateComment: async (
+    _: any,
+    { commentId, content, expectedVersion }: { commentId: string; content: string; expectedVersion?: number | null },
+    context: { req: any }
+  ) => {
+    const userId = await requirePermission(context, 'COMMENT', commentId, 'WRITE', 'You can only edit your own comments')
     if (!content || !content.trim()) throw new Error('Comment content cannot be empty.')
     const comments = (await db.query(
-      `SELECT c.id, c.user_id, c.project_id FROM comments c WHERE c.id = ? AND c.is_deleted = false`,
+      `SELECT c.id, c.user_id, c.project_id, c.task_id, p.name as project_name, t.title as task_title FROM comments c
+      LEFT JOIN projects p ON c.project_id = p.id
+      LEFT JOIN tasks t ON c.task_id = t.id
+      WHERE c.id = ? AND c.is_deleted = false`,
       [commentId]
     )) as any[]
     if (comments.length === 0) throw new Error('Comment not found or has been deleted')
-    if (Number(comments[0].user_id) !== Number(userId)) throw new Error('You can only edit your own comments')
     const projectId = comments[0].project_id
-    await db.query('UPDATE comments SET content = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [content.trim(), commentId])
+    const values: any[] = [content.trim(), commentId]
+    const versionCondition = buildVersionCondition(expectedVersion, values)
+    const result = (await db.query(`UPDATE comments SET content = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?${versionCondition}`, values)) as any
     const likesResult = (await db.query('SELECT COUNT(*) as count FROM comment_likes WHERE comment_id = ?', [commentId])) as any[]
     const userLike = (await db.query('SELECT id FROM comment_likes WHERE comment_id = ? AND user_id = ?', [commentId, userId])) as any[]
     const payload = await buildCommentPayload(commentId, Number(likesResult[0]?.count || 0), userLike.length > 0)
-    if (payload && projectId) await pubsub.publish(`COMMENT_UPDATED_${projectId}`, { commentUpdated: payload })
+    if (versionCondition && result.affectedRows === 0) throw createConflictError('comment', payload)
+    if (projectId) {
+      await syncMentions({
+        targetType: 'COMMENT',
+        targetId: commentId,
+        text: content.trim(),
+        projectId,
+        actorUserId: userId,
+        location: comments[0].task_id
+          ? `a comment on task "${comments[0].task_title}"`
+          : `a comment on project "${comments[0].project_name || 'Unnamed Project'}"`,
+      })
+    }
+    if (payload) await publishCommentEvent('UPDATED', payload)
     return payload
   },
 
-  /** Delete comment mutation - @author Thang Truong @date 2025-11-27 */
+  /** Delete comment mutation - requires DELETE permission; replies go to the trash with their comment - @author Thang Truong @date 2025-12-10 */
   deleteComment: async (_: any, { commentId }: { commentId: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer ')) throw new Error('Authentication required. Please login to delete comments.')
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId) throw new Error('Invalid or expired token. Please login again.')
-    const userId = decoded.userId
+    await requirePermission(context, 'COMMENT', commentId, 'DELETE', 'You can only delete your own comments')
     const comments = (await db.query(
-      `SELECT c.id, c.user_id, c.uuid, c.content, c.project_id, c.created_at, c.updated_at,
+      `SELECT c.id, c.user_id, c.uuid, c.content, c.project_id, c.task_id, c.parent_comment_id, c.created_at, c.updated_at,
         u.id as user_uid, u.first_name, u.last_name, u.email, u.role, u.uuid as user_uuid,
         u.created_at as user_created_at, u.updated_at as user_updated_at
       FROM comments c LEFT JOIN users u ON c.user_id = u.id WHERE c.id = ? AND c.is_deleted = false`,
       [commentId]
     )) as any[]
     if (comments.length === 0) throw new Error('Comment not found or has been deleted')
-    if (Number(comments[0].user_id) !== Number(userId)) throw new Error('You can only delete your own comments')
-    const projectId = comments[0].project_id
-    await db.query('DELETE FROM comment_likes WHERE comment_id = ?', [commentId])
-    await db.query('UPDATE comments SET is_deleted = true, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [commentId])
+    await db.query(
+      'DELETE FROM comment_likes WHERE comment_id IN (SELECT id FROM (SELECT id FROM comments WHERE id = ? OR parent_comment_id = ?) AS thread)',
+      [commentId, commentId]
+    )
+    // One timestamp for the whole thread so restoring the comment brings its replies back
+    await db.query(
+      `UPDATE comments SET is_deleted = true, deleted_at = CURRENT_TIMESTAMP(3), updated_at = CURRENT_TIMESTAMP(3)
+      WHERE (id = ? OR parent_comment_id = ?) AND is_deleted = false`,
+      [commentId, commentId]
+    )
     const c = comments[0]
     const payload = {
       id: c.id.toString(), uuid: c.uuid || '', content: c.content, projectId: c.project_id ? c.project_id.toString() : null,
+      taskId: c.task_id ? c.task_id.toString() : null,
+      parentCommentId: c.parent_comment_id ? c.parent_comment_id.toString() : null,
       user: c.user_uid ? { id: c.user_uid.toString(), uuid: c.user_uuid || '', firstName: c.first_name || '',
         lastName: c.last_name || '', email: c.email || '', role: c.role || '',
         createdAt: formatDateToISO(c.user_created_at), updatedAt: formatDateToISO(c.user_updated_at) } : null,
-      likesCount: 0, isLiked: false, createdAt: formatDateToISO(c.created_at), updatedAt: formatDateToISO(c.updated_at),
+      likesCount: 0, replyCount: 0, isLiked: false, createdAt: formatDateToISO(c.created_at), updatedAt: formatDateToISO(c.updated_at),
     }
-    if (projectId) await pubsub.publish(`COMMENT_DELETED_${projectId}`, { commentDeleted: payload })
+    await publishCommentEvent('DELETED', payload)
     return true
   },
 
-  /** Like comment mutation - @author Thang Truong @date 2025-11-27 */
+  /** Like comment mutation - requires READ permission on the comment - @author Thang Truong @date 2025-12-10 */
   likeComment: async (_: any, { commentId }: { commentId: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer ')) throw new Error('Authentication required. Please login to like comments.')
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId) throw new Error('Invalid or expired token. Please login again.')
-    const userId = decoded.userId
-    const comments = (await db.query(`SELECT c.id, c.project_id FROM comments c WHERE c.id = ? AND c.is_deleted = false`, [commentId])) as any[]
+    const userId = await requirePermission(context, 'COMMENT', commentId, 'READ', 'Only project members can like comments on this project.')
+    const comments = (await db.query(`SELECT c.id FROM comments c WHERE c.id = ? AND c.is_deleted = false`, [commentId])) as any[]
     if (comments.length === 0) throw new Error('Comment not found or has been deleted')
-    const projectId = comments[0].project_id
     const existingLikes = (await db.query('SELECT id FROM comment_likes WHERE user_id = ? AND comment_id = ?', [userId, commentId])) as any[]
     let isLiked = false, message = ''
     if (existingLikes.length > 0) { await db.query('DELETE FROM comment_likes WHERE user_id = ? AND comment_id = ?', [userId, commentId]); message = 'Comment unliked successfully' }
@@ -195,15 +259,19 @@ export const commentsMutationResolvers = {
     const likesResult = (await db.query('SELECT COUNT(*) as count FROM comment_likes WHERE comment_id = ?', [commentId])) as any[]
     const likesCount = Number(likesResult[0]?.count || 0)
     const payload = await buildCommentPayload(commentId, likesCount, isLiked)
-    if (payload && projectId) await pubsub.publish(`COMMENT_LIKE_UPDATED_${projectId}`, { commentLikeUpdated: payload })
+    if (payload) await publishCommentEvent('LIKE_UPDATED', payload)
     return { success: true, message, likesCount, isLiked }
   },
 }
 
-/** Comments Subscription Resolvers - @author Thang Truong @date 2025-11-27 */
+/** Comments Subscription Resolvers - project topics carry project comments, task topics carry comments on that task - @author Thang Truong @date 2025-11-27 */
 export const commentsSubscriptionResolvers = {
   commentCreated: { subscribe: (_: any, { projectId }: { projectId: string }) => pubsub.asyncIterator(`COMMENT_CREATED_${projectId}`), resolve: (payload: any) => payload.commentCreated },
   commentLikeUpdated: { subscribe: (_: any, { projectId }: { projectId: string }) => pubsub.asyncIterator(`COMMENT_LIKE_UPDATED_${projectId}`), resolve: (payload: any) => payload.commentLikeUpdated },
   commentUpdated: { subscribe: (_: any, { projectId }: { projectId: string }) => pubsub.asyncIterator(`COMMENT_UPDATED_${projectId}`), resolve: (payload: any) => payload.commentUpdated },
   commentDeleted: { subscribe: (_: any, { projectId }: { projectId: string }) => pubsub.asyncIterator(`COMMENT_DELETED_${projectId}`), resolve: (payload: any) => payload.commentDeleted },
+  taskCommentCreated: { subscribe: (_: any, { taskId }: { taskId: string }) => pubsub.asyncIterator(`TASK_COMMENT_CREATED_${taskId}`), resolve: (payload: any) => payload.taskCommentCreated },
+  taskCommentLikeUpdated: { subscribe: (_: any, { taskId }: { taskId: string }) => pubsub.asyncIterator(`TASK_COMMENT_LIKE_UPDATED_${taskId}`), resolve: (payload: any) => payload.taskCommentLikeUpdated },
+  taskCommentUpdated: { subscribe: (_: any, { taskId }: { taskId: string }) => pubsub.asyncIterator(`TASK_COMMENT_UPDATED_${taskId}`), resolve: (payload: any) => payload.taskCommentUpdated },
+  taskCommentDeleted: { subscribe: (_: any, { taskId }: { taskId: string }) => pubsub.asyncIterator(`TASK_COMMENT_DELETED_${taskId}`), resolve: (payload: any) => payload.taskCommentDeleted },
 }
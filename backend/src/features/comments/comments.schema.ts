@@ -2,6 +2,8 @@
  * Comments Feature Schema
  * GraphQL type definitions for comments
  * Includes comment types, inputs, and like response types
+ * Replies carry parentCommentId and are listed under their top-level comment
+ * Comments with a taskId belong to that task; projectId is then the task's project
  *
  * @author Thang Truong
  * @date 2025-11-27
@@ -14,8 +16,13 @@ export const commentsTypeDefs = `
     content: String!
     user: User!
     projectId: String
+    taskId: ID
+    parentCommentId: ID
+    replies: [Comment!]!
+    replyCount: Int!
     likesCount: Int!
     isLiked: Boolean!
+    version: Int
     createdAt: String!
     updatedAt: String!
   }
@@ -33,8 +40,9 @@ export const commentsQueryDefs = `
 `
 
 export const commentsMutationDefs = `
-  createComment(projectId: ID!, content: String!): Comment!
-  updateComment(commentId: ID!, content: String!): Comment!
+  createComment(projectId: ID!, content: String!, parentCommentId: ID): Comment!
+  createTaskComment(taskId: ID!, content: String!, parentCommentId: ID): Comment!
+  updateComment(commentId: ID!, content: String!, expectedVersion: Int): Comment!
   deleteComment(commentId: ID!): Boolean!
   likeComment(commentId: ID!): LikeCommentResponse!
 `
@@ -44,5 +52,9 @@ export const commentsSubscriptionDefs = `
   commentLikeUpdated(projectId: ID!): Comment!
   commentUpdated(projectId: ID!): Comment!
   commentDeleted(projectId: ID!): Comment!
+  taskCommentCreated(taskId: ID!): Comment!
+  taskCommentLikeUpdated(taskId: ID!): Comment!
+  taskCommentUpdated(taskId: ID!): Comment!
+  taskCommentDeleted(taskId: ID!): Comment!
 `
 
@@ -50,5 +50,49 @@ export { teamQueryResolvers, teamMutationResolvers } from './team'
 export { searchTypeDefs, searchQueryDefs, searchMutationDefs } from './search'
 export { searchQueryResolvers, searchMutationResolvers } from './search'
 
+// Permissions feature
+export { permissionsTypeDefs, permissionsQueryDefs, permissionsMutationDefs } from './permissions'
+export { permissionsQueryResolvers, permissionsMutationResolvers } from './permissions'
+
+// API tokens feature
+export { apiTokensTypeDefs, apiTokensQueryDefs, apiTokensMutationDefs } from './apiTokens'
+export { apiTokensQueryResolvers, apiTokensMutationResolvers } from './apiTokens'
+
+// Trash feature
+export { trashTypeDefs, trashQueryDefs, trashMutationDefs } from './trash'
+export { trashQueryResolvers, trashMutationResolvers } from './trash'
+
+// Workflows feature
+export { workflowsTypeDefs, workflowsQueryDefs, workflowsMutationDefs } from './workflows'
+export { workflowsQueryResolvers, workflowsMutationResolvers } from './workflows'
+
+// Time tracking feature
+export { timeTrackingTypeDefs, timeTrackingQueryDefs, timeTrackingMutationDefs } from './timeTracking'
+export { timeTrackingQueryResolvers, timeTrackingMutationResolvers } from './timeTracking'
+
+// Sprints feature
+export { sprintsTypeDefs, sprintsQueryDefs, sprintsMutationDefs } from './sprints'
+export { sprintsQueryResolvers, sprintsMutationResolvers } from './sprints'
+
+// Milestones feature
+export { milestonesTypeDefs, milestonesQueryDefs, milestonesMutationDefs } from './milestones'
+export { milestonesQueryResolvers, milestonesMutationResolvers } from './milestones'
+
+// Recurrences feature
+export { recurrencesTypeDefs, recurrencesQueryDefs, recurrencesMutationDefs } from './recurrences'
+export { recurrencesQueryResolvers, recurrencesMutationResolvers } from './recurrences'
+
+// Checklists feature
+export { checklistsTypeDefs, checklistsQueryDefs, checklistsMutationDefs } from './checklists'
+export { checklistsQueryResolvers, checklistsMutationResolvers } from './checklists'
+
+// Watchers feature
+export { watchersTypeDefs, watchersQueryDefs, watchersMutationDefs } from './watchers'
+export { watchersQueryResolvers, watchersMutationResolvers } from './watchers'
+
+// Templates feature
+export { templatesTypeDefs, templatesQueryDefs, templatesMutationDefs } from './templates'
+export { templatesQueryResolvers, templatesMutationResolvers } from './templates'
+
 // Type resolvers
-export { taskTypeResolvers, projectTypeResolvers } from './types'
+export { taskTypeResolvers, projectTypeResolvers, commentTypeResolvers } from './types'
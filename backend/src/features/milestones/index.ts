@@ -0,0 +1,10 @@
+/**
+ * Milestones Feature Index
+ * Exports milestones schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { milestonesTypeDefs, milestonesQueryDefs, milestonesMutationDefs } from './milestones.schema'
+export { milestonesQueryResolvers, milestonesMutationResolvers } from './milestones.resolvers'
@@ -0,0 +1,208 @@
+/**
+ * Milestones Feature Resolvers
+ * Creates, edits and deletes project milestones and links tasks to them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { createActivityLog, requirePermission } from '../../utils/helpers'
+import { checkMilestoneDeadlines, getMilestone, getProjectMilestones } from '../../utils/milestones'
+import { MAX_MILESTONE_NAME_LENGTH } from '../../constants/milestones'
+
+interface MilestoneInput {
+  name: string
+  description?: string | null
+  dueDate: string
+  taskIds?: string[] | null
+}
+
+/**
+ * Trim and validate milestone fields; the due date is a calendar day in YYYY-MM-DD format
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const normalizeMilestoneInput = (input: MilestoneInput) => {
+  const name = input.name.trim()
+  if (!name || name.length > MAX_MILESTONE_NAME_LENGTH) {
+    throw new Error(`Milestone name is required and can be at most ${MAX_MILESTONE_NAME_LENGTH} characters`)
+  }
+  const dueDate = new Date(`${input.dueDate}T00:00:00Z`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.dueDate) || Number.isNaN(dueDate.getTime()) || dueDate.toISOString().slice(0, 10) !== input.dueDate) {
+    throw new Error('Due date must be a valid date in YYYY-MM-DD format')
+  }
+  return {
+    name,
+    description: (input.description || '').trim() || null,
+    dueDate: input.dueDate,
+    taskIds: input.taskIds ? Array.from(new Set(input.taskIds.map((id) => Number(id)))) : null,
+  }
+}
+
+/**
+ * Throw unless every task exists in the project and is not in the trash
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const assertTasksInProject = async (taskIds: number[], projectId: number | string): Promise<void> => {
+  if (taskIds.length === 0) return
+  const rows = (await db.query(
+    `SELECT COUNT(*) as count FROM tasks WHERE id IN (${taskIds.map(() => '?').join(',')}) AND project_id = ? AND is_deleted = false`,
+    [...taskIds, projectId]
+  )) as any[]
+  if (Number(rows[0].count) !== taskIds.length) throw new Error('Milestones can only link tasks of their own project')
+}
+
+/**
+ * Replace the tasks linked to a milestone
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const replaceMilestoneTasks = async (connection: any, milestoneId: number | string, taskIds: number[]): Promise<void> => {
+  await connection.query('DELETE FROM milestone_tasks WHERE milestone_id = ?', [milestoneId])
+  if (taskIds.length === 0) return
+  await connection.query(
+    `INSERT INTO milestone_tasks (milestone_id, task_id) VALUES ${taskIds.map(() => '(?, ?)').join(', ')}`,
+    taskIds.flatMap((taskId) => [milestoneId, taskId])
+  )
+}
+
+/**
+ * Milestones Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const milestonesQueryResolvers = {
+  /**
+   * Milestones of a project, earliest due first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  projectMilestones: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
+    const projects = (await db.query('SELECT id FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
+    if (projects.length === 0 || !isProjectInApiTokenScope(context.req, projects[0].id)) throw new Error('Project not found')
+    return getProjectMilestones(projectId)
+  },
+}
+
+/**
+ * Milestones Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const milestonesMutationResolvers = {
+  /**
+   * Create a milestone with its linked tasks - requires WRITE permission on the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createMilestone: async (_: any, { projectId, input }: { projectId: string; input: MilestoneInput }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'PROJECT', projectId, 'WRITE', 'You do not have permission to add milestones to this project.')
+    const milestone = normalizeMilestoneInput(input)
+    await assertTasksInProject(milestone.taskIds || [], projectId)
+
+    const connection = await db.getConnection()
+    let milestoneId: number
+    try {
+      await connection.beginTransaction()
+      const [result] = (await connection.query(
+        'INSERT INTO milestones (project_id, name, description, due_date) VALUES (?, ?, ?, ?)',
+        [projectId, milestone.name, milestone.description, milestone.dueDate]
+      )) as any
+      milestoneId = result.insertId
+      await replaceMilestoneTasks(connection, milestoneId, milestone.taskIds || [])
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId,
+      type: 'PROJECT_UPDATED',
+      action: `Milestone "${milestone.name}" added, due ${milestone.dueDate}`,
+      metadata: { milestoneId, taskIds: milestone.taskIds || [] },
+    })
+    await checkMilestoneDeadlines(projectId)
+    const created = await getMilestone(milestoneId)
+    if (!created) throw new Error('Milestone not found')
+    return created
+  },
+
+  /**
+   * Edit a milestone - requires WRITE permission on the project
+   * taskIds replaces the linked tasks when given; a new due date allows new at-risk and missed alerts
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  updateMilestone: async (_: any, { id, input }: { id: string; input: MilestoneInput }, context: { req: any }) => {
+    const existing = await getMilestone(id)
+    if (!existing) throw new Error('Milestone not found')
+    const actorUserId = await requirePermission(context, 'PROJECT', existing.projectId, 'WRITE', 'You do not have permission to edit milestones of this project.')
+    const milestone = normalizeMilestoneInput(input)
+    if (milestone.taskIds) await assertTasksInProject(milestone.taskIds, existing.projectId)
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      await connection.query(
+        `UPDATE milestones SET name = ?, description = ?, due_date = ?${milestone.dueDate !== existing.dueDate ? ', at_risk_notified_at = NULL, missed_notified_at = NULL' : ''}
+        WHERE id = ?`,
+        [milestone.name, milestone.description, milestone.dueDate, id]
+      )
+      if (milestone.taskIds) await replaceMilestoneTasks(connection, id, milestone.taskIds)
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: existing.projectId,
+      type: 'PROJECT_UPDATED',
+      action: `Milestone "${milestone.name}" updated`,
+      metadata: { milestoneId: existing.id, dueDate: milestone.dueDate },
+    })
+    await checkMilestoneDeadlines(existing.projectId)
+    const updated = await getMilestone(id)
+    if (!updated) throw new Error('Milestone not found')
+    return updated
+  },
+
+  /**
+   * Delete a milestone; its tasks stay in the project - requires WRITE permission on the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteMilestone: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const existing = await getMilestone(id)
+    if (!existing) throw new Error('Milestone not found')
+    const actorUserId = await requirePermission(context, 'PROJECT', existing.projectId, 'WRITE', 'You do not have permission to delete milestones of this project.')
+    await db.query('DELETE FROM milestones WHERE id = ?', [id])
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: existing.projectId,
+      type: 'PROJECT_UPDATED',
+      action: `Milestone "${existing.name}" deleted`,
+      metadata: { milestoneId: existing.id },
+    })
+    return true
+  },
+}
@@ -0,0 +1,44 @@
+/**
+ * Milestones Feature Schema
+ * GraphQL type definitions for project milestones and the tasks linked to them
+ * percentComplete is the share of linked tasks in a DONE-category state
+ * status is ON_TRACK, AT_RISK, MISSED or COMPLETED; isOverdue is true for missed milestones
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const milestonesTypeDefs = `
+  type Milestone {
+    id: ID!
+    projectId: String!
+    name: String!
+    description: String
+    dueDate: String!
+    status: String!
+    percentComplete: Int!
+    taskCount: Int!
+    completedTaskCount: Int!
+    isOverdue: Boolean!
+    taskIds: [String!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input MilestoneInput {
+    name: String!
+    description: String
+    dueDate: String!
+    taskIds: [String!]
+  }
+`
+
+export const milestonesQueryDefs = `
+  projectMilestones(projectId: ID!): [Milestone!]!
+`
+
+export const milestonesMutationDefs = `
+  createMilestone(projectId: ID!, input: MilestoneInput!): Milestone!
+  updateMilestone(id: ID!, input: MilestoneInput!): Milestone!
+  deleteMilestone(id: ID!): Boolean!
+`
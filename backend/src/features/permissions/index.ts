@@ -0,0 +1,10 @@
+/**
+ * Permissions Feature Index
+ * Exports permissions schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { permissionsTypeDefs, permissionsQueryDefs, permissionsMutationDefs } from './permissions.schema'
+export { permissionsQueryResolvers, permissionsMutationResolvers } from './permissions.resolvers'
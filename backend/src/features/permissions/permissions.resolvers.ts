@@ -0,0 +1,149 @@
+/**
+ * Permissions Feature Resolvers
+ * Handles granting, revoking and listing rows of the permissions table
+ * Managing grants on a resource requires ADMIN permission on that resource
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { formatDateToISO, formatUser } from '../../utils/formatters'
+import { requireAuthentication, requirePermission, ResourceType } from '../../utils/helpers'
+
+const RESOURCE_TYPES = ['PROJECT', 'TASK', 'COMMENT']
+const PERMISSION_LEVELS = ['READ', 'WRITE', 'DELETE', 'ADMIN']
+
+const PERMISSION_SELECT = `SELECT pr.id, pr.user_id, pr.resource_type, pr.resource_id, pr.permission, pr.created_at, pr.updated_at,
+    u.id as member_user_id, u.first_name as member_first_name, u.last_name as member_last_name,
+    u.email as member_email, u.role as member_role, u.uuid as member_uuid,
+    u.created_at as member_created_at, u.updated_at as member_updated_at
+  FROM permissions pr
+  LEFT JOIN users u ON pr.user_id = u.id AND u.is_deleted = false`
+
+/**
+ * Map database permission record to GraphQL response format
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapPermissionRecord = (record: any) => ({
+  id: record.id.toString(),
+  userId: record.user_id.toString(),
+  user: formatUser(record, 'member_'),
+  resourceType: record.resource_type,
+  resourceId: record.resource_id.toString(),
+  permission: record.permission,
+  createdAt: formatDateToISO(record.created_at),
+  updatedAt: formatDateToISO(record.updated_at),
+})
+
+/**
+ * Validate resource type argument
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const assertResourceType = (resourceType: string): ResourceType => {
+  if (!RESOURCE_TYPES.includes(resourceType)) throw new Error(`Invalid resource type. Expected one of: ${RESOURCE_TYPES.join(', ')}`)
+  return resourceType as ResourceType
+}
+
+/**
+ * Permissions Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const permissionsQueryResolvers = {
+  /**
+   * List every grant on a resource - requires ADMIN permission on the resource
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  permissionsForResource: async (
+    _: any, { resourceType, resourceId }: { resourceType: string; resourceId: string }, context: { req: any }
+  ) => {
+    const type = assertResourceType(resourceType)
+    await requirePermission(context, type, resourceId, 'ADMIN', 'Only resource owners can view its sharing settings.')
+    const rows = (await db.query(
+      `${PERMISSION_SELECT} WHERE pr.resource_type = ? AND pr.resource_id = ? ORDER BY pr.created_at DESC`,
+      [type, resourceId]
+    )) as any[]
+    return rows.map((row: any) => mapPermissionRecord(row))
+  },
+
+  /**
+   * List grants held by the authenticated user
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  myPermissions: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireAuthentication(context, 'Authentication required to fetch permissions.')
+    const rows = (await db.query(
+      `${PERMISSION_SELECT} WHERE pr.user_id = ? ORDER BY pr.created_at DESC`,
+      [userId]
+    )) as any[]
+    return rows.map((row: any) => mapPermissionRecord(row))
+  },
+}
+
+/**
+ * Permissions Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const permissionsMutationResolvers = {
+  /**
+   * Grant a permission on a resource - idempotent, returns the existing grant if present
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  grantPermission: async (_: any, { input }: { input: any }, context: { req: any }) => {
+    const { userId, resourceId, permission } = input
+    const type = assertResourceType(input.resourceType)
+    if (!PERMISSION_LEVELS.includes(permission)) {
+      throw new Error(`Invalid permission. Expected one of: ${PERMISSION_LEVELS.join(', ')}`)
+    }
+    await requirePermission(context, type, resourceId, 'ADMIN', 'Only resource owners can share it with other users.')
+
+    const users = (await db.query('SELECT id FROM users WHERE id = ? AND is_deleted = false', [userId])) as any[]
+    if (users.length === 0) throw new Error('User not found')
+
+    const existing = (await db.query(
+      'SELECT id FROM permissions WHERE user_id = ? AND resource_type = ? AND resource_id = ? AND permission = ?',
+      [userId, type, resourceId, permission]
+    )) as any[]
+    const permissionId = existing.length > 0
+      ? existing[0].id
+      : ((await db.query(
+        'INSERT INTO permissions (user_id, resource_type, resource_id, permission) VALUES (?, ?, ?, ?)',
+        [userId, type, resourceId, permission]
+      )) as any).insertId
+
+    const rows = (await db.query(`${PERMISSION_SELECT} WHERE pr.id = ?`, [permissionId])) as any[]
+    if (rows.length === 0) throw new Error('Failed to retrieve granted permission')
+    return mapPermissionRecord(rows[0])
+  },
+
+  /**
+   * Revoke a permission grant - requires ADMIN permission on the granted resource
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  revokePermission: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required to revoke permissions.')
+    const rows = (await db.query('SELECT resource_type, resource_id FROM permissions WHERE id = ?', [id])) as any[]
+    if (rows.length === 0) throw new Error('Permission not found or already revoked')
+    await requirePermission(
+      context, rows[0].resource_type, rows[0].resource_id, 'ADMIN', 'Only resource owners can revoke its sharing settings.'
+    )
+    await db.query('DELETE FROM permissions WHERE id = ?', [id])
+    return true
+  },
+}
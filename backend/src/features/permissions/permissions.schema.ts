@@ -0,0 +1,38 @@
+/**
+ * Permissions Feature Schema
+ * GraphQL type definitions for fine-grained resource permissions
+ * Includes permission types and grant inputs
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const permissionsTypeDefs = `
+  type Permission {
+    id: ID!
+    userId: String!
+    user: User
+    resourceType: String!
+    resourceId: String!
+    permission: String!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input GrantPermissionInput {
+    userId: String!
+    resourceType: String!
+    resourceId: String!
+    permission: String!
+  }
+`
+
+export const permissionsQueryDefs = `
+  permissionsForResource(resourceType: String!, resourceId: ID!): [Permission!]!
+  myPermissions: [Permission!]!
+`
+
+export const permissionsMutationDefs = `
+  grantPermission(input: GrantPermissionInput!): Permission!
+  revokePermission(id: ID!): Boolean!
+`
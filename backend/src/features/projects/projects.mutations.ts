@@ -7,11 +7,45 @@
  */
 
 import { db } from '../../db'
-import { verifyAccessToken } from '../../utils/auth'
+import { MAX_PROJECT_NAME_LENGTH } from '../../constants/projects'
 import { formatDateToISO, formatUser } from '../../utils/formatters'
-import { tryGetUserIdFromRequest, getUserDisplayName, notifyProjectParticipants, createActivityLog } from '../../utils/helpers'
+import {
+  requireProjectCreator,
+  requirePermission,
+  getUserDisplayName,
+  notifyProjectParticipants,
+  createActivityLog,
+  createConflictError,
+  buildVersionCondition,
+} from '../../utils/helpers'
+import { addProjectWatcher } from '../../utils/watchers'
+import { buildProjectSnapshot, createProjectFromSnapshot, getCreatedProject } from '../../utils/templates'
 import { randomUUID } from 'crypto'
 
+interface DuplicateProjectOptions {
+  name?: string | null
+  includeTasks?: boolean | null
+  includeTags?: boolean | null
+  includeMembers?: boolean | null
+  includeComments?: boolean | null
+}
+
+/**
+ * Map a projects row to the shape returned by updateProject
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const formatProjectRecord = (project: any) => ({
+  id: project.id.toString(),
+  name: project.name,
+  description: project.description,
+  status: project.status,
+  version: project.version !== null ? Number(project.version) : null,
+  createdAt: formatDateToISO(project.created_at),
+  updatedAt: formatDateToISO(project.updated_at),
+})
+
 /**
  * Projects Mutation Resolvers
  *
@@ -22,13 +56,15 @@ export const projectsMutationResolvers = {
   /**
    * Create project mutation - saves owner_id from authenticated user
    * Generates UUID server-side to avoid DB trigger dependence on Vercel
+   * The creator watches the new project
    *
    * @author Thang Truong
-   * @date 2025-12-09
+   * @date 2025-12-10
    */
   createProject: async (_: any, { input }: { input: any }, context: { req: any }) => {
     const { name, description, status } = input
-    const ownerId = tryGetUserIdFromRequest(context.req)
+    const ownerId = requireProjectCreator(context, 'Authentication required. Please login to create projects.')
+    if (name && name.length > MAX_PROJECT_NAME_LENGTH) throw new Error(`Project name can be at most ${MAX_PROJECT_NAME_LENGTH} characters`)
     const projectUuid = randomUUID()
 
     const result = (await db.query(
@@ -50,8 +86,9 @@ export const projectsMutationResolvers = {
     if (projects.length === 0) throw new Error('Failed to retrieve created project')
 
     const project = projects[0]
+    await addProjectWatcher(project.id, ownerId)
     await createActivityLog({
-      userId: ownerId || null,
+      userId: ownerId,
       projectId: project.id,
       type: 'PROJECT_CREATED',
       action: `Project "${project.name}" created`,
@@ -66,22 +103,25 @@ export const projectsMutationResolvers = {
       likesCount: 0,
       commentsCount: 0,
       isLiked: false,
+      isWatching: true,
       createdAt: formatDateToISO(project.created_at),
       updatedAt: formatDateToISO(project.updated_at),
     }
   },
 
   /**
-   * Update project mutation
+   * Update project mutation - requires WRITE permission on the project
+   * Rejects the edit with CONFLICT when input.expectedVersion is stale
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
   updateProject: async (_: any, { id, input }: { id: string; input: any }, context: { req: any }) => {
-    const actorUserId = tryGetUserIdFromRequest(context.req)
+    const actorUserId = await requirePermission(context, 'PROJECT', id, 'WRITE', 'You do not have permission to update this project.')
     const updates: string[] = []
     const values: any[] = []
 
+    if (input.name && input.name.length > MAX_PROJECT_NAME_LENGTH) throw new Error(`Project name can be at most ${MAX_PROJECT_NAME_LENGTH} characters`)
     if (input.name !== undefined) { updates.push('name = ?'); values.push(input.name) }
     if (input.description !== undefined) { updates.push('description = ?'); values.push(input.description) }
     if (input.status !== undefined) { updates.push('status = ?'); values.push(input.status) }
@@ -89,54 +129,129 @@ export const projectsMutationResolvers = {
     if (updates.length === 0) throw new Error('No fields to update')
 
     values.push(id)
-    await db.query(
-      `UPDATE projects SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false`,
+    const versionCondition = buildVersionCondition(input.expectedVersion, values)
+    const result = (await db.query(
+      `UPDATE projects SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false${versionCondition}`,
       values
-    )
+    )) as any
 
     const projects = (await db.query(
-      'SELECT id, name, description, status, created_at, updated_at FROM projects WHERE id = ? AND is_deleted = false',
+      'SELECT id, name, description, status, version, created_at, updated_at FROM projects WHERE id = ? AND is_deleted = false',
       [id]
     )) as any[]
 
     if (projects.length === 0) throw new Error('Project not found')
+    if (versionCondition && result.affectedRows === 0) throw createConflictError('project', formatProjectRecord(projects[0]))
 
     const project = projects[0]
-    if (actorUserId) {
-      const actorName = await getUserDisplayName(actorUserId)
-      await notifyProjectParticipants({
-        projectId: Number(project.id),
-        actorUserId,
-        message: `${actorName} updated project "${project.name}".`,
-      })
-    }
+    const actorName = await getUserDisplayName(actorUserId)
+    await notifyProjectParticipants({
+      projectId: Number(project.id),
+      actorUserId,
+      message: `${actorName} updated project "${project.name}".`,
+    })
     await createActivityLog({
-      userId: actorUserId || null,
+      userId: actorUserId,
       projectId: project.id,
       type: 'PROJECT_UPDATED',
       action: `Project "${project.name}" updated`,
       metadata: { status: project.status },
     })
 
-    return {
-      id: project.id.toString(),
-      name: project.name,
-      description: project.description,
-      status: project.status,
-      createdAt: formatDateToISO(project.created_at),
-      updatedAt: formatDateToISO(project.updated_at),
+    return formatProjectRecord(project)
+  },
+
+  /**
+   * Duplicate project mutation - requires READ permission on the project; the signed-in user owns the copy
+   * Copies the workflow and milestones, and by option the tasks with their checklists, task tags, members and comments
+   * Tasks start over in the first state of the workflow with the same due dates; the copy starts in PLANNING
+   * Everything is written in one transaction, so a failure leaves no partial copy
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  duplicateProject: async (_: any, { id, options }: { id: string; options?: DuplicateProjectOptions | null }, context: { req: any }) => {
+    const ownerId = await requirePermission(context, 'PROJECT', id, 'READ', 'You do not have permission to view this project.')
+    requireProjectCreator(context)
+    const {
+      name,
+      includeTasks = true,
+      includeTags = true,
+      includeMembers = true,
+      includeComments = false,
+    } = options || {}
+    const nameOverride = (name || '').trim()
+    if (nameOverride.length > MAX_PROJECT_NAME_LENGTH) throw new Error(`Project name can be at most ${MAX_PROJECT_NAME_LENGTH} characters`)
+    const sources = (await db.query(
+      "SELECT id, name, description, DATE_FORMAT(created_at, '%Y-%m-%d') as created_day FROM projects WHERE id = ? AND is_deleted = false",
+      [id]
+    )) as any[]
+    if (sources.length === 0) throw new Error('Project not found')
+
+    const source = sources[0]
+    const copyName = nameOverride || `Copy of ${source.name}`.slice(0, MAX_PROJECT_NAME_LENGTH)
+    const content = await buildProjectSnapshot(id)
+    if (!includeTasks) {
+      content.tasks = []
+      content.milestones = content.milestones.map((milestone) => ({ ...milestone, taskRefs: [] }))
+    } else if (!includeTags) {
+      content.tasks = content.tasks.map((task) => ({ ...task, tagIds: [] }))
     }
+    const comments = includeComments
+      ? ((await db.query(
+        `SELECT id, parent_comment_id, user_id, content, created_at FROM comments WHERE project_id = ? AND task_id IS NULL AND is_deleted = false
+        ORDER BY parent_comment_id IS NOT NULL, created_at ASC, id ASC`,
+        [id]
+      )) as any[])
+      : []
+
+    const connection = await db.getConnection()
+    let projectId: number
+    try {
+      await connection.beginTransaction()
+      projectId = await createProjectFromSnapshot(
+        connection,
+        content,
+        { name: copyName, description: source.description || '', status: 'PLANNING', ownerId },
+        source.created_day,
+        Boolean(includeMembers)
+      )
+      // Top-level comments come first so replies can point at their copied parent
+      const commentIdMap = new Map<number, number>()
+      for (const comment of comments) {
+        const [inserted] = (await connection.query(
+          'INSERT INTO comments (uuid, project_id, parent_comment_id, user_id, content, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [randomUUID(), projectId, commentIdMap.get(Number(comment.parent_comment_id)) ?? null, comment.user_id, comment.content, comment.created_at]
+        )) as any
+        commentIdMap.set(Number(comment.id), inserted.insertId)
+      }
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    const project = await getCreatedProject(projectId)
+    await createActivityLog({
+      userId: ownerId,
+      projectId,
+      type: 'PROJECT_CREATED',
+      action: `Project "${project.name}" duplicated from "${source.name}"`,
+      metadata: { sourceProjectId: Number(id), taskCount: content.tasks.length, commentCount: comments.length },
+    })
+    return { ...project, commentsCount: comments.length }
   },
 
   /**
-   * Delete project mutation (soft delete)
+   * Delete project mutation (soft delete) - requires DELETE permission on the project
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
   deleteProject: async (_: any, { id }: { id: string }, context: { req: any }) => {
-    const actorUserId = tryGetUserIdFromRequest(context.req)
-    if (!actorUserId) throw new Error('Authentication required. Please login to delete projects.')
+    const actorUserId = await requirePermission(context, 'PROJECT', id, 'DELETE', 'You do not have permission to delete this project.')
 
     const projectTasks = (await db.query(
       'SELECT id FROM tasks WHERE project_id = ? AND is_deleted = false',
@@ -146,10 +261,9 @@ export const projectsMutationResolvers = {
 
     if (taskIds.length > 0) {
       const taskPlaceholders = taskIds.map(() => '?').join(',')
-      await db.query(`DELETE FROM task_tags WHERE task_id IN (${taskPlaceholders})`, taskIds)
       await db.query(`DELETE FROM task_likes WHERE task_id IN (${taskPlaceholders})`, taskIds)
 
-      // Comments are now project-level, so delete comments directly by project_id
+      // Project comments and comments on its tasks both carry project_id
       const projectComments = (await db.query(
         `SELECT id FROM comments WHERE project_id = ? AND is_deleted = false`,
         [id]
@@ -165,7 +279,7 @@ export const projectsMutationResolvers = {
     await db.query('DELETE FROM project_likes WHERE project_id = ?', [id])
 
     const result = (await db.query(
-      'UPDATE projects SET is_deleted = true, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
+      'UPDATE projects SET is_deleted = true, deleted_at = CURRENT_TIMESTAMP(3), updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
       [id]
     )) as any
 
@@ -186,16 +300,7 @@ export const projectsMutationResolvers = {
    * @date 2025-11-26
    */
   likeProject: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer '))
-      throw new Error('Authentication required. Please login to like projects.')
-
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId)
-      throw new Error('Invalid or expired token. Please login again.')
-
-    const userId = decoded.userId
+    const userId = await requirePermission(context, 'PROJECT', projectId, 'READ', 'Only project members can like this project.')
 
     const projects = (await db.query(
       'SELECT id, name FROM projects WHERE id = ? AND is_deleted = false',
@@ -9,6 +9,7 @@
 import { db } from '../../db'
 import { formatDateToISO, formatUser } from '../../utils/formatters'
 import { tryGetUserIdFromRequest } from '../../utils/helpers'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
 
 /**
  * Projects Query Resolvers
@@ -26,7 +27,7 @@ export const projectsQueryResolvers = {
   projects: async (_: any, __: any, context: { req: any }) => {
     try {
       const projects = (await db.query(
-        `SELECT p.id, p.name, p.description, p.status, p.owner_id, p.created_at, p.updated_at,
+        `SELECT p.id, p.name, p.description, p.status, p.owner_id, p.version, p.created_at, p.updated_at,
           u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
           u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
           u.created_at as owner_created_at, u.updated_at as owner_updated_at,
@@ -34,7 +35,7 @@ export const projectsQueryResolvers = {
         FROM projects p
         LEFT JOIN users u ON p.owner_id = u.id AND u.is_deleted = false
         LEFT JOIN (SELECT project_id, COUNT(*) as likes_count FROM project_likes GROUP BY project_id) pl ON p.id = pl.project_id
-        LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false GROUP BY project_id) pc ON p.id = pc.project_id
+        LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NULL GROUP BY project_id) pc ON p.id = pc.project_id
         WHERE p.is_deleted = false ORDER BY p.created_at DESC`
       )) as any[]
 
@@ -49,7 +50,7 @@ export const projectsQueryResolvers = {
         userLikedProjects = new Set(userLikes.map((like: any) => Number(like.project_id)))
       }
 
-      return projects.map((project: any) => ({
+      return projects.filter((project: any) => isProjectInApiTokenScope(context.req, project.id)).map((project: any) => ({
         id: project.id.toString(),
         name: project.name,
         description: project.description,
@@ -58,6 +59,7 @@ export const projectsQueryResolvers = {
         likesCount: Number(project.likes_count || 0),
         commentsCount: Number(project.comments_count || 0),
         isLiked: userId ? userLikedProjects.has(Number(project.id)) : false,
+        version: project.version !== null ? Number(project.version) : null,
         createdAt: formatDateToISO(project.created_at),
         updatedAt: formatDateToISO(project.updated_at),
       }))
@@ -106,7 +108,7 @@ export const projectsQueryResolvers = {
   project: async (_: any, { id }: { id: string }, context: { req: any }) => {
     try {
       const projects = (await db.query(
-      `SELECT p.id, p.name, p.description, p.status, p.owner_id, p.created_at, p.updated_at,
+      `SELECT p.id, p.name, p.description, p.status, p.owner_id, p.version, p.created_at, p.updated_at,
         u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
         u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
         u.created_at as owner_created_at, u.updated_at as owner_updated_at,
@@ -114,12 +116,12 @@ export const projectsQueryResolvers = {
       FROM projects p
       LEFT JOIN users u ON p.owner_id = u.id AND u.is_deleted = false
       LEFT JOIN (SELECT project_id, COUNT(*) as likes_count FROM project_likes GROUP BY project_id) pl ON p.id = pl.project_id
-      LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false GROUP BY project_id) pc ON p.id = pc.project_id
+      LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NULL GROUP BY project_id) pc ON p.id = pc.project_id
       WHERE p.id = ? AND p.is_deleted = false`,
       [id]
     )) as any[]
 
-    if (projects.length === 0) return null
+    if (projects.length === 0 || !isProjectInApiTokenScope(context.req, projects[0].id)) return null
 
     const project = projects[0]
     const userId = tryGetUserIdFromRequest(context.req)
@@ -142,6 +144,7 @@ export const projectsQueryResolvers = {
         likesCount: Number(project.likes_count || 0),
         commentsCount: Number(project.comments_count || 0),
         isLiked,
+        version: project.version !== null ? Number(project.version) : null,
         createdAt: formatDateToISO(project.created_at),
         updatedAt: formatDateToISO(project.updated_at),
       }
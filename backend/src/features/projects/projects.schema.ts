@@ -2,6 +2,10 @@
  * Projects Feature Schema
  * GraphQL type definitions for projects
  * Includes project types, inputs, and like response types
+ * timeSpent sums the minutes logged on the project's tasks; from/to limit it to entries started in that range
+ * milestones lists the project's milestones, earliest due first
+ * isWatching tells whether the viewer watches the project and so hears about all of its tasks
+ * mentionCandidates lists who can be @mentioned: the owner, members and users granted access to the project
  *
  * @author Thang Truong
  * @date 2025-11-26
@@ -20,10 +24,21 @@ export const projectsTypeDefs = `
     tasks: [Task!]!
     members: [TeamMember!]!
     comments: [Comment!]!
+    workflow: Workflow!
+    timeSpent(from: String, to: String): Int!
+    milestones: [Milestone!]!
+    isWatching: Boolean!
+    mentionCandidates: [MentionCandidate!]!
+    version: Int
     createdAt: String!
     updatedAt: String!
   }
 
+  type MentionCandidate {
+    userId: ID!
+    name: String!
+  }
+
   type LikeProjectResponse {
     success: Boolean!
     message: String!
@@ -41,6 +56,15 @@ export const projectsTypeDefs = `
     name: String
     description: String
     status: String
+    expectedVersion: Int
+  }
+
+  input DuplicateProjectOptions {
+    name: String
+    includeTasks: Boolean
+    includeTags: Boolean
+    includeMembers: Boolean
+    includeComments: Boolean
   }
 `
 
@@ -52,6 +76,7 @@ export const projectsQueryDefs = `
 export const projectsMutationDefs = `
   createProject(input: CreateProjectInput!): Project!
   updateProject(id: ID!, input: UpdateProjectInput!): Project!
+  duplicateProject(id: ID!, options: DuplicateProjectOptions): Project!
   deleteProject(id: ID!): Boolean!
   likeProject(projectId: ID!): LikeProjectResponse!
 `
@@ -0,0 +1,10 @@
+/**
+ * Recurrences Feature Index
+ * Exports recurrences schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { recurrencesTypeDefs, recurrencesQueryDefs, recurrencesMutationDefs } from './recurrences.schema'
+export { recurrencesQueryResolvers, recurrencesMutationResolvers } from './recurrences.resolvers'
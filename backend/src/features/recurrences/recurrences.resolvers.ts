@@ -0,0 +1,143 @@
+/**
+ * Recurrences Feature Resolvers
+ * Sets and removes the repeat rule of a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { createActivityLog, requirePermission } from '../../utils/helpers'
+import {
+  formatRecurrenceRule,
+  generateRecurringTasks,
+  getNextOccurrenceDate,
+  getTaskRecurrence,
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+} from '../../utils/recurrences'
+import { RecurrenceFrequency, RecurrenceWeekday } from '../../constants/recurrences'
+
+interface TaskRecurrenceInput {
+  frequency?: string | null
+  interval?: number | null
+  weekdays?: string[] | null
+  monthDay?: number | null
+  endAfterCount?: number | null
+  endDate?: string | null
+  rule?: string | null
+}
+
+/**
+ * Recurrences Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recurrencesQueryResolvers = {
+  /**
+   * Repeat rule of a task, or null when it does not repeat
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  taskRecurrence: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const tasks = (await db.query('SELECT project_id FROM tasks WHERE id = ? AND is_deleted = false', [taskId])) as any[]
+    if (tasks.length === 0 || !isProjectInApiTokenScope(context.req, tasks[0].project_id)) return null
+    return getTaskRecurrence(taskId)
+  },
+}
+
+/**
+ * Recurrences Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recurrencesMutationResolvers = {
+  /**
+   * Make a task repeat, or change its repeat rule - requires WRITE permission on the task
+   * input.rule takes RRULE-like text; otherwise frequency and the other fields describe the rule
+   * The task's due date is its occurrence date; a task without one gets the first date of the rule from today
+   * A task that is already finished or past due gets its next occurrence right away
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  setTaskRecurrence: async (_: any, { taskId, input }: { taskId: string; input: TaskRecurrenceInput }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'TASK', taskId, 'WRITE', 'You do not have permission to change this task.')
+    const tasks = (await db.query(
+      `SELECT id, title, project_id, DATE_FORMAT(due_date, '%Y-%m-%d') as due_date, DATE_FORMAT(CURDATE(), '%Y-%m-%d') as today
+      FROM tasks WHERE id = ? AND is_deleted = false`,
+      [taskId]
+    )) as any[]
+    if (tasks.length === 0) throw new Error('Task not found')
+    const task = tasks[0]
+
+    const parsed = input.rule
+      ? parseRecurrenceRule(input.rule)
+      : {
+        frequency: (input.frequency || '').toUpperCase() as RecurrenceFrequency,
+        interval: input.interval ?? undefined,
+        weekdays: input.weekdays?.map((weekday) => weekday.toUpperCase()) as RecurrenceWeekday[] | undefined,
+        monthDay: input.monthDay ?? undefined,
+        endAfterCount: input.endAfterCount ?? undefined,
+        endDate: input.endDate || undefined,
+      }
+    if (!input.rule && !['DAILY', 'WEEKLY', 'MONTHLY'].includes(parsed.frequency)) {
+      throw new Error('Recurrence frequency must be DAILY, WEEKLY or MONTHLY')
+    }
+    const rule = normalizeRecurrenceRule(parsed, task.due_date || task.today)
+    const startDate = task.due_date || getNextOccurrenceDate(rule, task.today, null, task.today)
+    if (!startDate) throw new Error('The recurrence ends before its first occurrence')
+
+    if (!task.due_date) await db.query('UPDATE tasks SET due_date = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [startDate, taskId])
+    await db.query(
+      `INSERT INTO task_recurrences (task_id, frequency, interval_count, weekdays, month_day, start_date, end_after_count, end_date, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE frequency = VALUES(frequency), interval_count = VALUES(interval_count), weekdays = VALUES(weekdays),
+        month_day = VALUES(month_day), start_date = VALUES(start_date), end_after_count = VALUES(end_after_count),
+        end_date = VALUES(end_date), ended_at = NULL`,
+      [taskId, rule.frequency, rule.interval, rule.weekdays.join(',') || null, rule.monthDay, startDate, rule.endAfterCount, rule.endDate, actorUserId]
+    )
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: task.project_id,
+      taskId,
+      type: 'TASK_UPDATED',
+      action: `Task "${task.title}" repeats: ${formatRecurrenceRule(rule)}`,
+      metadata: { rule: formatRecurrenceRule(rule), startDate },
+    })
+
+    // A finished or past due task hands the series to its next occurrence right away
+    const series = (await db.query('SELECT id FROM task_recurrences WHERE task_id = ?', [taskId])) as any[]
+    await generateRecurringTasks(taskId)
+    const current = (await db.query('SELECT task_id FROM task_recurrences WHERE id = ?', [series[0].id])) as any[]
+    const recurrence = current.length > 0 ? await getTaskRecurrence(current[0].task_id) : null
+    if (!recurrence) throw new Error('Recurrence not found')
+    return recurrence
+  },
+
+  /**
+   * Stop a task from repeating - requires WRITE permission on the task
+   * Occurrences created so far stay as they are
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  removeTaskRecurrence: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'TASK', taskId, 'WRITE', 'You do not have permission to change this task.')
+    const tasks = (await db.query('SELECT title, project_id FROM tasks WHERE id = ?', [taskId])) as any[]
+    const result = (await db.query('DELETE FROM task_recurrences WHERE task_id = ?', [taskId])) as any
+    if (result.affectedRows === 0) throw new Error('This task does not repeat')
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: tasks[0]?.project_id || null,
+      taskId,
+      type: 'TASK_UPDATED',
+      action: `Task "${tasks[0]?.title || taskId}" no longer repeats`,
+    })
+    return true
+  },
+}
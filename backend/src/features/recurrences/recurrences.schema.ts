@@ -0,0 +1,50 @@
+/**
+ * Recurrences Feature Schema
+ * GraphQL type definitions for recurring tasks
+ * A recurring task repeats DAILY, WEEKLY on some weekdays or MONTHLY on a day of the month, every interval periods
+ * rule is the same repeat rule as RRULE-like text, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR;COUNT=10
+ * When the current occurrence is finished or its due date passes, the next one is created with the same
+ * title, description, tags and assignee; the series stops after endAfterCount occurrences or past endDate
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const recurrencesTypeDefs = `
+  type TaskRecurrence {
+    id: ID!
+    taskId: String!
+    frequency: String!
+    interval: Int!
+    weekdays: [String!]!
+    monthDay: Int
+    startDate: String!
+    endAfterCount: Int
+    endDate: String
+    occurrenceCount: Int!
+    nextDueDate: String
+    rule: String!
+    isActive: Boolean!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input TaskRecurrenceInput {
+    frequency: String
+    interval: Int
+    weekdays: [String!]
+    monthDay: Int
+    endAfterCount: Int
+    endDate: String
+    rule: String
+  }
+`
+
+export const recurrencesQueryDefs = `
+  taskRecurrence(taskId: ID!): TaskRecurrence
+`
+
+export const recurrencesMutationDefs = `
+  setTaskRecurrence(taskId: ID!, input: TaskRecurrenceInput!): TaskRecurrence!
+  removeTaskRecurrence(taskId: ID!): Boolean!
+`
@@ -2,6 +2,7 @@
  * Search Feature Resolvers
  * Handles search queries for dashboard
  * Filters projects and tasks by keyword and status
+ * Project-restricted API tokens only see their projects and the tasks in them
  *
  * @author Thang Truong
  * @date 2025-11-26
@@ -10,6 +11,10 @@
 import { db } from '../../db'
 import { formatDateToISO, formatUser } from '../../utils/formatters'
 import { tryGetUserIdFromRequest, clampPageSize, clampPageNumber, applySearchFilters } from '../../utils/helpers'
+import { categorizeStatus, loadProjectWorkflows } from '../../utils/workflows'
+import { getChecklistProgress } from '../../utils/checklists'
+import { getWatchedTaskIds } from '../../utils/watchers'
+import { buildApiTokenProjectClause } from '../../utils/apiTokens'
 
 /**
  * Search Query Resolvers
@@ -59,33 +64,38 @@ export const searchQueryResolvers = {
     FROM projects p
     LEFT JOIN users u ON p.owner_id = u.id AND u.is_deleted = false
     LEFT JOIN (SELECT project_id, COUNT(*) as likes_count FROM project_likes GROUP BY project_id) pl ON p.id = pl.project_id
-    LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false GROUP BY project_id) pc ON p.id = pc.project_id
+    LEFT JOIN (SELECT project_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NULL GROUP BY project_id) pc ON p.id = pc.project_id
     WHERE p.is_deleted = false`
 
     let projectSql = applySearchFilters(baseProjectSql, searchTerm, projectStatuses, projectValues, ['p.name', 'p.description'])
+    projectSql += buildApiTokenProjectClause(context.req, 'p.id', projectValues)
     const projectOffset = (projectPage - 1) * projectPageSize
     projectSql += ` ORDER BY p.updated_at DESC LIMIT ${projectPageSize} OFFSET ${projectOffset}`
 
     const projectCountValues: any[] = []
     const projectCountSql = applySearchFilters('SELECT COUNT(*) as total FROM projects WHERE is_deleted = false', searchTerm, projectStatuses, projectCountValues, ['name', 'description'])
+      + buildApiTokenProjectClause(context.req, 'id', projectCountValues)
 
     const taskValues: any[] = []
     const baseTaskSql = `SELECT t.id, t.title, t.description, t.status, t.project_id, t.assigned_to, t.updated_at,
       u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
       u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
       u.created_at as owner_created_at, u.updated_at as owner_updated_at,
-      COALESCE(tl.likes_count, 0) as likes_count, 0 as comments_count
+      COALESCE(tl.likes_count, 0) as likes_count, COALESCE(tc.comments_count, 0) as comments_count
     FROM tasks t
     LEFT JOIN users u ON t.assigned_to = u.id AND u.is_deleted = false
     LEFT JOIN (SELECT task_id, COUNT(*) as likes_count FROM task_likes GROUP BY task_id) tl ON t.id = tl.task_id
+    LEFT JOIN (SELECT task_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NOT NULL GROUP BY task_id) tc ON t.id = tc.task_id
     WHERE t.is_deleted = false`
 
     let taskSql = applySearchFilters(baseTaskSql, searchTerm, taskStatuses, taskValues, ['t.title', 't.description'])
+    taskSql += buildApiTokenProjectClause(context.req, 't.project_id', taskValues)
     const taskOffset = (taskPage - 1) * taskPageSize
     taskSql += ` ORDER BY t.updated_at DESC LIMIT ${taskPageSize} OFFSET ${taskOffset}`
 
     const taskCountValues: any[] = []
     const taskCountSql = applySearchFilters('SELECT COUNT(*) as total FROM tasks WHERE is_deleted = false', searchTerm, taskStatuses, taskCountValues, ['title', 'description'])
+      + buildApiTokenProjectClause(context.req, 'project_id', taskCountValues)
 
     const [projects, projectCountResult, tasks, taskCountResult] = await Promise.all([
       shouldSearchProjects ? (db.query(projectSql, projectValues) as Promise<any[]>) : Promise.resolve([]),
@@ -94,6 +104,12 @@ export const searchQueryResolvers = {
       shouldSearchTasks ? (db.query(taskCountSql, taskCountValues) as Promise<any[]>) : Promise.resolve([{ total: 0 }]),
     ])
 
+    const [workflows, checklistProgressById, watchedTaskIds] = await Promise.all([
+      loadProjectWorkflows(tasks.map((task: any) => task.project_id)),
+      getChecklistProgress(tasks.map((task: any) => task.id)),
+      getWatchedTaskIds(userId, tasks.map((task: any) => task.id)),
+    ])
+
     return {
       projects: projects.map((project: any) => ({
         id: project.id.toString(),
@@ -110,12 +126,15 @@ export const searchQueryResolvers = {
         id: task.id.toString(),
         title: task.title,
         status: task.status,
+        statusCategory: categorizeStatus(workflows.get(Number(task.project_id)), task.status),
         projectId: task.project_id ? task.project_id.toString() : '',
         description: task.description,
         owner: formatUser(task, 'owner_'),
         likesCount: Number(task.likes_count || 0),
         commentsCount: Number(task.comments_count || 0),
         isLiked: userId ? userLikedTasks.has(Number(task.id)) : false,
+        checklistProgress: checklistProgressById.get(Number(task.id)) ?? { completed: 0, total: 0 },
+        isWatching: watchedTaskIds.has(Number(task.id)),
         updatedAt: formatDateToISO(task.updated_at),
       })),
       projectTotal: Number(projectCountResult[0]?.total || 0),
@@ -24,12 +24,15 @@ export const searchTypeDefs = `
     id: ID!
     title: String!
     status: String!
+    statusCategory: String!
     projectId: String!
     description: String
     owner: User
     likesCount: Int!
     commentsCount: Int!
     isLiked: Boolean!
+    checklistProgress: ChecklistProgress!
+    isWatching: Boolean!
     updatedAt: String!
   }
 
@@ -0,0 +1,10 @@
+/**
+ * Sprints Feature Index
+ * Exports sprints schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { sprintsTypeDefs, sprintsQueryDefs, sprintsMutationDefs } from './sprints.schema'
+export { sprintsQueryResolvers, sprintsMutationResolvers } from './sprints.resolvers'
@@ -0,0 +1,350 @@
+/**
+ * Sprints Feature Resolvers
+ * Planning, starting and closing the sprints of a project, and their burndown from daily snapshots
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { formatDateToISO } from '../../utils/formatters'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { createActivityLog, requirePermission } from '../../utils/helpers'
+import { getProjectWorkflow, isDoneStatus } from '../../utils/workflows'
+import { measureSprintWork, recordSprintSnapshots } from '../../utils/sprints'
+import { MAX_SPRINT_DAYS, MAX_SPRINT_NAME_LENGTH } from '../../constants/sprints'
+
+const SPRINT_SELECT = `SELECT id, project_id, name, goal, DATE_FORMAT(start_date, '%Y-%m-%d') as start_date,
+    DATE_FORMAT(end_date, '%Y-%m-%d') as end_date, state, started_at, closed_at,
+    DATE_FORMAT(closed_at, '%Y-%m-%d') as closed_date, created_at, updated_at
+  FROM sprints`
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface SprintInput {
+  name: string
+  goal?: string | null
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Map a sprint row to the Sprint type
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapSprint = (row: any) => ({
+  id: row.id.toString(),
+  projectId: row.project_id.toString(),
+  name: row.name,
+  goal: row.goal || null,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  state: row.state,
+  startedAt: row.started_at ? formatDateToISO(row.started_at) : null,
+  closedAt: row.closed_at ? formatDateToISO(row.closed_at) : null,
+  createdAt: formatDateToISO(row.created_at),
+  updatedAt: formatDateToISO(row.updated_at),
+})
+
+/**
+ * Load the raw row of a sprint
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchSprintRow = async (id: number | string) => {
+  const rows = (await db.query(`${SPRINT_SELECT} WHERE id = ?`, [id])) as any[]
+  if (rows.length === 0) throw new Error('Sprint not found')
+  return rows[0]
+}
+
+/**
+ * Day after a YYYY-MM-DD date, or several days later
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const addDays = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+
+/**
+ * Trim and validate sprint fields; dates are calendar days in YYYY-MM-DD format
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const normalizeSprintInput = (input: SprintInput) => {
+  const name = input.name.trim()
+  if (!name || name.length > MAX_SPRINT_NAME_LENGTH) {
+    throw new Error(`Sprint name is required and can be at most ${MAX_SPRINT_NAME_LENGTH} characters`)
+  }
+  const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value
+  if (!isDay(input.startDate) || !isDay(input.endDate)) throw new Error('Sprint dates must be valid dates in YYYY-MM-DD format')
+  if (input.endDate < input.startDate) throw new Error('A sprint cannot end before it starts')
+  if (input.endDate > addDays(input.startDate, MAX_SPRINT_DAYS - 1)) {
+    throw new Error(`A sprint can cover at most ${MAX_SPRINT_DAYS} days`)
+  }
+  return { name, goal: (input.goal || '').trim() || null, startDate: input.startDate, endDate: input.endDate }
+}
+
+/**
+ * Sprints Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const sprintsQueryResolvers = {
+  /**
+   * Sprints of a project, active first, then planned by start date, then closed newest first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  projectSprints: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
+    const projects = (await db.query('SELECT id FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
+    if (projects.length === 0 || !isProjectInApiTokenScope(context.req, projects[0].id)) throw new Error('Project not found')
+    const rows = (await db.query(
+      `${SPRINT_SELECT} WHERE project_id = ?
+      ORDER BY FIELD(state, 'ACTIVE', 'PLANNED', 'CLOSED'),
+        CASE WHEN state = 'CLOSED' THEN NULL ELSE start_date END ASC, closed_at DESC, id ASC`,
+      [projectId]
+    )) as any[]
+    return rows.map(mapSprint)
+  },
+
+  /**
+   * Remaining work of a sprint for each of its days, next to the ideal straight line to zero
+   * A day takes the last snapshot stored up to it; days before the first snapshot take the first one
+   * The ideal line starts from the scope the sprint was started with
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  sprintBurndown: async (_: any, { sprintId }: { sprintId: string }, context: { req: any }) => {
+    const sprint = await fetchSprintRow(sprintId)
+    const projects = (await db.query('SELECT id FROM projects WHERE id = ? AND is_deleted = false', [sprint.project_id])) as any[]
+    if (projects.length === 0 || !isProjectInApiTokenScope(context.req, projects[0].id)) throw new Error('Sprint not found')
+
+    const current = await measureSprintWork(sprint.id, sprint.project_id)
+    const todayRows = (await db.query("SELECT DATE_FORMAT(CURDATE(), '%Y-%m-%d') as today")) as any[]
+    const today: string = todayRows[0].today
+    const snapshots = (await db.query(
+      `SELECT DATE_FORMAT(snapshot_date, '%Y-%m-%d') as snapshot_date, total_tasks, remaining_tasks, total_minutes, remaining_minutes
+      FROM sprint_snapshots WHERE sprint_id = ? ORDER BY snapshot_date ASC`,
+      [sprint.id]
+    )) as any[]
+    const points = snapshots.map((row: any) => ({
+      date: row.snapshot_date as string,
+      totalTasks: Number(row.total_tasks),
+      remainingTasks: Number(row.remaining_tasks),
+      totalMinutes: Number(row.total_minutes),
+      remainingMinutes: Number(row.remaining_minutes),
+    }))
+    if (sprint.state === 'ACTIVE') {
+      points.push({ date: today, ...current })
+    }
+    const lastKnownDate = sprint.state === 'ACTIVE' ? today : sprint.state === 'CLOSED' ? sprint.closed_date : null
+    const baseline = points[0] || { totalTasks: current.totalTasks, totalMinutes: current.totalMinutes }
+
+    const dayCount = Math.round((new Date(`${sprint.end_date}T00:00:00Z`).getTime() - new Date(`${sprint.start_date}T00:00:00Z`).getTime()) / DAY_MS) + 1
+    const days = Array.from({ length: dayCount }, (_, index) => {
+      const date = addDays(sprint.start_date, index)
+      const idealShare = dayCount > 1 ? 1 - index / (dayCount - 1) : 0
+      const known = lastKnownDate !== null && date <= lastKnownDate && points.length > 0
+      const point = known ? [...points].reverse().find((candidate) => candidate.date <= date) || points[0] : null
+      return {
+        date,
+        remainingTasks: point ? point.remainingTasks : null,
+        remainingMinutes: point ? point.remainingMinutes : null,
+        idealTasks: Math.round(baseline.totalTasks * idealShare * 100) / 100,
+        idealMinutes: Math.round(baseline.totalMinutes * idealShare * 100) / 100,
+      }
+    })
+
+    return {
+      sprint: mapSprint(sprint),
+      totalTasks: current.totalTasks,
+      totalMinutes: current.totalMinutes,
+      days,
+    }
+  },
+}
+
+/**
+ * Sprints Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const sprintsMutationResolvers = {
+  /**
+   * Plan a new sprint - requires WRITE permission on the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createSprint: async (_: any, { projectId, input }: { projectId: string; input: SprintInput }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'PROJECT', projectId, 'WRITE', 'You do not have permission to plan sprints in this project.')
+    const sprint = normalizeSprintInput(input)
+    const result = (await db.query(
+      'INSERT INTO sprints (project_id, name, goal, start_date, end_date) VALUES (?, ?, ?, ?, ?)',
+      [projectId, sprint.name, sprint.goal, sprint.startDate, sprint.endDate]
+    )) as any
+    await createActivityLog({
+      userId: actorUserId,
+      projectId,
+      type: 'PROJECT_UPDATED',
+      action: `Sprint "${sprint.name}" planned`,
+      metadata: { sprintId: result.insertId, startDate: sprint.startDate, endDate: sprint.endDate },
+    })
+    return mapSprint(await fetchSprintRow(result.insertId))
+  },
+
+  /**
+   * Change the name, goal or dates of a sprint that is not closed - requires WRITE permission on the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  updateSprint: async (_: any, { id, input }: { id: string; input: SprintInput }, context: { req: any }) => {
+    const existing = await fetchSprintRow(id)
+    await requirePermission(context, 'PROJECT', existing.project_id, 'WRITE', 'You do not have permission to plan sprints in this project.')
+    if (existing.state === 'CLOSED') throw new Error('A closed sprint cannot be changed')
+    const sprint = normalizeSprintInput(input)
+    await db.query(
+      'UPDATE sprints SET name = ?, goal = ?, start_date = ?, end_date = ? WHERE id = ?',
+      [sprint.name, sprint.goal, sprint.startDate, sprint.endDate, id]
+    )
+    return mapSprint(await fetchSprintRow(id))
+  },
+
+  /**
+   * Delete a planned sprint - requires WRITE permission on the project
+   * Its tasks go back to the backlog
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteSprint: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const existing = await fetchSprintRow(id)
+    const actorUserId = await requirePermission(context, 'PROJECT', existing.project_id, 'WRITE', 'You do not have permission to plan sprints in this project.')
+    if (existing.state !== 'PLANNED') throw new Error('Only planned sprints can be deleted')
+    await db.query('DELETE FROM sprints WHERE id = ?', [id])
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: existing.project_id,
+      type: 'PROJECT_UPDATED',
+      action: `Sprint "${existing.name}" deleted`,
+      metadata: { sprintId: existing.id },
+    })
+    return true
+  },
+
+  /**
+   * Start a planned sprint - requires WRITE permission on the project
+   * A project runs one sprint at a time; the first snapshot records the scope the sprint started with
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  startSprint: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const existing = await fetchSprintRow(id)
+    const actorUserId = await requirePermission(context, 'PROJECT', existing.project_id, 'WRITE', 'You do not have permission to start sprints in this project.')
+    if (existing.state !== 'PLANNED') throw new Error('Only planned sprints can be started')
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      // Locking the project row keeps two concurrent starts from both activating a sprint
+      await connection.query('SELECT id FROM projects WHERE id = ? FOR UPDATE', [existing.project_id])
+      const [active] = (await connection.query(
+        "SELECT name FROM sprints WHERE project_id = ? AND state = 'ACTIVE' LIMIT 1",
+        [existing.project_id]
+      )) as any
+      if (active.length > 0) throw new Error(`Close sprint "${active[0].name}" before starting another one`)
+      const [result] = (await connection.query(
+        "UPDATE sprints SET state = 'ACTIVE', started_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND state = 'PLANNED'",
+        [id]
+      )) as any
+      if (result.affectedRows === 0) throw new Error('Only planned sprints can be started')
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await recordSprintSnapshots([id])
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: existing.project_id,
+      type: 'PROJECT_UPDATED',
+      action: `Sprint "${existing.name}" started`,
+      metadata: { sprintId: existing.id },
+    })
+    return mapSprint(await fetchSprintRow(id))
+  },
+
+  /**
+   * Close the active sprint - requires WRITE permission on the project
+   * Tasks not in a DONE-category state move to moveUnfinishedTo, a planned sprint of the project, or to the backlog without it
+   * The last snapshot is taken before they move, so the burndown ends with the work left undone
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  closeSprint: async (
+    _: any,
+    { id, moveUnfinishedTo }: { id: string; moveUnfinishedTo?: string | null },
+    context: { req: any }
+  ) => {
+    const existing = await fetchSprintRow(id)
+    const actorUserId = await requirePermission(context, 'PROJECT', existing.project_id, 'WRITE', 'You do not have permission to close sprints in this project.')
+    if (existing.state !== 'ACTIVE') throw new Error('Only the active sprint can be closed')
+    if (moveUnfinishedTo) {
+      const target = (await db.query('SELECT project_id, state FROM sprints WHERE id = ?', [moveUnfinishedTo])) as any[]
+      if (target.length === 0 || Number(target[0].project_id) !== Number(existing.project_id) || target[0].state !== 'PLANNED') {
+        throw new Error('Unfinished tasks can only move to a planned sprint of the same project')
+      }
+    }
+
+    await recordSprintSnapshots([id])
+    const workflow = await getProjectWorkflow(existing.project_id)
+    const tasks = (await db.query('SELECT id, status FROM tasks WHERE sprint_id = ?', [id])) as any[]
+    const unfinishedIds = tasks.filter((task: any) => !isDoneStatus(workflow, task.status)).map((task: any) => task.id)
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      const [result] = (await connection.query(
+        "UPDATE sprints SET state = 'CLOSED', closed_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND state = 'ACTIVE'",
+        [id]
+      )) as any
+      if (result.affectedRows === 0) throw new Error('Only the active sprint can be closed')
+      if (unfinishedIds.length > 0) {
+        await connection.query(
+          `UPDATE tasks SET sprint_id = ? WHERE sprint_id = ? AND id IN (${unfinishedIds.map(() => '?').join(',')})`,
+          [moveUnfinishedTo || null, id, ...unfinishedIds]
+        )
+      }
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: existing.project_id,
+      type: 'PROJECT_UPDATED',
+      action: `Sprint "${existing.name}" closed with ${unfinishedIds.length} unfinished task(s) moved to ${moveUnfinishedTo ? 'the next sprint' : 'the backlog'}`,
+      metadata: { sprintId: existing.id, movedTaskIds: unfinishedIds, moveUnfinishedTo: moveUnfinishedTo || null },
+    })
+    return mapSprint(await fetchSprintRow(id))
+  },
+}
@@ -0,0 +1,60 @@
+/**
+ * Sprints Feature Schema
+ * GraphQL type definitions for time-boxed sprints of a project
+ * A sprint goes from PLANNED to ACTIVE to CLOSED; tasks without a sprint form the project backlog
+ * Burndown days after the last known day have no remaining values
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const sprintsTypeDefs = `
+  type Sprint {
+    id: ID!
+    projectId: String!
+    name: String!
+    goal: String
+    startDate: String!
+    endDate: String!
+    state: String!
+    startedAt: String
+    closedAt: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type SprintBurndownDay {
+    date: String!
+    remainingTasks: Int
+    remainingMinutes: Int
+    idealTasks: Float!
+    idealMinutes: Float!
+  }
+
+  type SprintBurndown {
+    sprint: Sprint!
+    totalTasks: Int!
+    totalMinutes: Int!
+    days: [SprintBurndownDay!]!
+  }
+
+  input SprintInput {
+    name: String!
+    goal: String
+    startDate: String!
+    endDate: String!
+  }
+`
+
+export const sprintsQueryDefs = `
+  projectSprints(projectId: ID!): [Sprint!]!
+  sprintBurndown(sprintId: ID!): SprintBurndown!
+`
+
+export const sprintsMutationDefs = `
+  createSprint(projectId: ID!, input: SprintInput!): Sprint!
+  updateSprint(id: ID!, input: SprintInput!): Sprint!
+  deleteSprint(id: ID!): Boolean!
+  startSprint(id: ID!): Sprint!
+  closeSprint(id: ID!, moveUnfinishedTo: ID): Sprint!
+`
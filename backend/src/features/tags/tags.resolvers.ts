@@ -9,6 +9,7 @@
 
 import { db } from '../../db'
 import { formatDateToISO } from '../../utils/formatters'
+import { requireAuthentication, requireGlobalAdmin } from '../../utils/helpers'
 
 /**
  * Tags Query Resolvers
@@ -78,12 +79,13 @@ export const tagsQueryResolvers = {
  */
 export const tagsMutationResolvers = {
   /**
-   * Create tag mutation
+   * Create tag mutation - requires authentication
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  createTag: async (_: any, { input }: { input: any }) => {
+  createTag: async (_: any, { input }: { input: any }, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required to create tags.')
     const { name, description, title, type, category } = input
 
     const existingTags = (await db.query(
@@ -123,12 +125,13 @@ export const tagsMutationResolvers = {
   },
 
   /**
-   * Update tag mutation
+   * Update tag mutation - requires authentication
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  updateTag: async (_: any, { id, input }: { id: string; input: any }) => {
+  updateTag: async (_: any, { id, input }: { id: string; input: any }, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required to update tags.')
     const updates: string[] = []
     const values: any[] = []
 
@@ -193,12 +196,13 @@ export const tagsMutationResolvers = {
   },
 
   /**
-   * Delete tag mutation
+   * Delete tag mutation - tags are shared by every project, so only administrators may delete them
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  deleteTag: async (_: any, { id }: { id: string }) => {
+  deleteTag: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can delete tags.')
     const result = (await db.query('DELETE FROM tags WHERE id = ?', [id])) as any
     if (result.affectedRows === 0) {
       throw new Error('Tag not found')
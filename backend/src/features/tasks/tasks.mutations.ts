@@ -7,11 +7,125 @@
  */
 
 import { db } from '../../db'
-import { verifyAccessToken } from '../../utils/auth'
 import { formatDateToISO } from '../../utils/formatters'
-import { getUserDisplayName, notifyProjectParticipants, createActivityLog } from '../../utils/helpers'
+import {
+  getUserDisplayName,
+  createActivityLog,
+  requirePermission,
+  createConflictError,
+  buildVersionCondition,
+} from '../../utils/helpers'
+import { assertValidTaskParent, collectSubtaskIds, getProjectTaskProgress } from '../../utils/taskHierarchy'
+import {
+  createTaskBlockedError,
+  getUnfinishedBlockers,
+  notifyBlockedTaskAssignees,
+  wouldCreateDependencyCycle,
+} from '../../utils/taskDependencies'
+import {
+  assertStatusInWorkflow,
+  assertStatusTransition,
+  assertWipLimit,
+  getProjectWorkflow,
+  isDoneStatus,
+  loadProjectWorkflows,
+} from '../../utils/workflows'
+import { getNextBoardRank, rebalanceBoardRanksIfCrowded } from '../../utils/taskBoard'
+import { assertSprintAcceptsTask, recordSprintSnapshots, recordSprintSnapshotsForTasks } from '../../utils/sprints'
+import { generateRecurringTasks } from '../../utils/recurrences'
+import { addTaskWatchers, notifyTaskWatchers } from '../../utils/watchers'
+import { normalizeChecklistTexts } from '../../utils/checklists'
+import { syncMentions } from '../../utils/mentions'
 import { randomUUID } from 'crypto'
 
+/**
+ * Load a task with its tags in the shape returned by the task mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchTaskRecord = async (id: string | number) => {
+  const tasks = (await db.query(
+    'SELECT id, uuid, title, description, status, priority, due_date, estimate_minutes, project_id, assigned_to, parent_task_id, sprint_id, board_rank, version, created_at, updated_at FROM tasks WHERE id = ? AND is_deleted = false',
+    [id]
+  )) as any[]
+  if (tasks.length === 0) return null
+
+  const task = tasks[0]
+  const taskTags = (await db.query(
+    'SELECT tg.id, tg.name, tg.description, tg.category FROM task_tags tt INNER JOIN tags tg ON tt.tag_id = tg.id WHERE tt.task_id = ?',
+    [id]
+  )) as any[]
+  const progressById = await getProjectTaskProgress(task.project_id)
+  return {
+    id: task.id.toString(),
+    uuid: task.uuid || '',
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+    estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
+    projectId: task.project_id.toString(),
+    assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+    parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+    sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+    boardRank: Number(task.board_rank),
+    progress: progressById.get(Number(task.id)) ?? 0,
+    tags: taskTags.map((t: any) => ({ id: t.id.toString(), name: t.name, description: t.description, category: t.category })),
+    version: task.version !== null ? Number(task.version) : null,
+    createdAt: formatDateToISO(task.created_at),
+    updatedAt: formatDateToISO(task.updated_at),
+  }
+}
+
+/**
+ * Throw unless an estimate is empty or a whole number of minutes
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const assertValidEstimate = (estimateMinutes?: number | null): void => {
+  if (estimateMinutes === undefined || estimateMinutes === null) return
+  if (!Number.isInteger(estimateMinutes) || estimateMinutes < 0) throw new Error('Estimate must be a whole number of minutes')
+}
+
+/**
+ * Tell the watchers of a task what an update changed in its status, assignee and due date
+ * A new assignee becomes a watcher first, so they hear about the assignment too
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param previous - Row read before the update with status, assigned_to and due_date as YYYY-MM-DD
+ */
+const notifyTaskChanges = async (
+  taskId: string,
+  previous: { status: string; assigned_to: number | null; due_date: string | null },
+  input: any,
+  task: { title: string; status: string; assignedTo: string | null },
+  actorUserId: number
+): Promise<void> => {
+  const changes: string[] = []
+  if (input.status !== undefined && task.status !== previous.status) changes.push(`status to "${task.status}"`)
+  if (input.assignedTo !== undefined && (task.assignedTo || '') !== (previous.assigned_to ? previous.assigned_to.toString() : '')) {
+    if (task.assignedTo) {
+      await addTaskWatchers(taskId, [task.assignedTo])
+      changes.push(`assignee to ${await getUserDisplayName(Number(task.assignedTo))}`)
+    } else {
+      changes.push('assignee removed')
+    }
+  }
+  if (input.dueDate !== undefined) {
+    const rows = (await db.query(`SELECT DATE_FORMAT(due_date, '%Y-%m-%d') as due_date FROM tasks WHERE id = ?`, [taskId])) as any[]
+    const dueDate = rows[0]?.due_date || null
+    if (dueDate !== previous.due_date) changes.push(dueDate ? `due date to ${dueDate}` : 'due date removed')
+  }
+  if (changes.length === 0) return
+
+  const actorName = await getUserDisplayName(actorUserId)
+  await notifyTaskWatchers({ taskId, actorUserId, message: `${actorName} changed task "${task.title}": ${changes.join(', ')}.` })
+}
+
 /**
  * Tasks Mutation Resolvers
  *
@@ -20,22 +134,37 @@ import { randomUUID } from 'crypto'
  */
 export const tasksMutationResolvers = {
   /**
-   * Create task mutation
+   * Create task mutation - requires WRITE permission on the project
    * Generates UUID server-side to avoid database defaults causing duplicates
+   * A parentTaskId creates the task as a subtask of a task in the same project
+   * The status must be a state of the project's workflow that is not at its WIP limit
+   * The task is ranked after the other tasks of the project on its board
+   * The creator and the assignee watch the new task
+   * input.checklist adds checklist items in the given order, as filled in from a task template
+   * Participants @mentioned in the description are notified
    *
    * @author Thang Truong
-   * @date 2025-12-09
+   * @date 2025-12-10
    */
-  createTask: async (_: any, { input }: { input: any }) => {
-    const { title, description, status, priority, dueDate, projectId, assignedTo, tagIds } = input
+  createTask: async (_: any, { input }: { input: any }, context: { req: any }) => {
+    const { title, description, status, priority, dueDate, estimateMinutes, projectId, assignedTo, parentTaskId, tagIds, checklist } = input
+    const creatorUserId = await requirePermission(context, 'PROJECT', projectId, 'WRITE', 'You do not have permission to create tasks in this project.')
+    if (parentTaskId) await assertValidTaskParent(null, parentTaskId, projectId)
+    const workflow = await getProjectWorkflow(projectId)
+    assertStatusInWorkflow(workflow, status)
+    await assertWipLimit(workflow, status)
+    assertValidEstimate(estimateMinutes)
+    const checklistItems = normalizeChecklistTexts(checklist)
     const taskUuid = randomUUID()
+    const boardRank = await getNextBoardRank(projectId)
 
     const result = (await db.query(
-      'INSERT INTO tasks (uuid, title, description, status, priority, due_date, project_id, assigned_to) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [taskUuid, title, description, status, priority, dueDate || null, projectId, assignedTo || null]
+      'INSERT INTO tasks (uuid, title, description, status, priority, due_date, estimate_minutes, project_id, assigned_to, parent_task_id, board_rank) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [taskUuid, title, description, status, priority, dueDate || null, estimateMinutes ?? null, projectId, assignedTo || null, parentTaskId || null, boardRank]
     )) as any
 
     const taskId = result.insertId
+    await addTaskWatchers(taskId, [creatorUserId, assignedTo])
 
     if (tagIds && tagIds.length > 0) {
       const tagValues = tagIds.map((tagId: string) => [taskId, tagId])
@@ -44,9 +173,15 @@ export const tasksMutationResolvers = {
         tagValues.flat()
       )
     }
+    if (checklistItems.length > 0) {
+      await db.query(
+        `INSERT INTO task_checklist_items (task_id, content, position) VALUES ${checklistItems.map(() => '(?, ?, ?)').join(', ')}`,
+        checklistItems.flatMap((text, index) => [taskId, text, index + 1])
+      )
+    }
 
     const tasks = (await db.query(
-      'SELECT id, uuid, title, description, status, priority, due_date, project_id, assigned_to, created_at, updated_at FROM tasks WHERE id = ?',
+      'SELECT id, uuid, title, description, status, priority, due_date, estimate_minutes, project_id, assigned_to, parent_task_id, sprint_id, board_rank, created_at, updated_at FROM tasks WHERE id = ?',
       [taskId]
     )) as any[]
 
@@ -58,6 +193,15 @@ export const tasksMutationResolvers = {
       [taskId]
     )) as any[]
 
+    await syncMentions({
+      targetType: 'TASK',
+      targetId: taskId,
+      text: task.description,
+      projectId,
+      actorUserId: creatorUserId,
+      location: `the description of task "${task.title}"`,
+    })
+
     await createActivityLog({
       userId: assignedTo || null,
       projectId,
@@ -74,40 +218,119 @@ export const tasksMutationResolvers = {
       status: task.status,
       priority: task.priority,
       dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+      estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
       projectId: task.project_id.toString(),
       assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+      parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+      sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+      boardRank: Number(task.board_rank),
       tags: taskTags.map((t: any) => ({ id: t.id.toString(), name: t.name, description: t.description, category: t.category })),
+      isWatching: true,
       createdAt: formatDateToISO(task.created_at),
       updatedAt: formatDateToISO(task.updated_at),
     }
   },
 
   /**
-   * Update task mutation
+   * Update task mutation - requires WRITE permission on the task (and on the target project when moving it)
+   * Rejects the edit with CONFLICT when input.expectedVersion is stale
+   * Moving a task to another project detaches it from its parent and its subtasks
+   * Status changes must follow the project's workflow transitions; a task moved to another project
+   * must end up in a state of that project's workflow
+   * A task cannot enter a state that is already at its WIP limit
+   * Moving a task into a DONE-category state while it has unfinished blockers needs input.force
+   * input.boardRank places the card within its board column; a task moved to another project without one goes last
+   * input.sprintId plans the task in a sprint of its project, or null for the backlog; moving project puts it in the backlog
+   * Finishing the current occurrence of a recurring task creates its next occurrence
+   * A new assignee starts watching the task; status, assignee and due date changes notify the watchers
+   * Editing the description notifies only the participants it newly @mentions
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  updateTask: async (_: any, { id, input }: { id: string; input: any }) => {
+  updateTask: async (_: any, { id, input }: { id: string; input: any }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'TASK', id, 'WRITE', 'You do not have permission to update this task.')
+    if (input.projectId !== undefined) {
+      await requirePermission(context, 'PROJECT', input.projectId, 'WRITE', 'You do not have permission to move tasks into this project.')
+    }
     const updates: string[] = []
     const values: any[] = []
+    const current = (await db.query(
+      `SELECT project_id, status, sprint_id, assigned_to, DATE_FORMAT(due_date, '%Y-%m-%d') as due_date
+      FROM tasks WHERE id = ? AND is_deleted = false`,
+      [id]
+    )) as any[]
+    const leavesProject = input.projectId !== undefined && current.length > 0 && Number(current[0].project_id) !== Number(input.projectId)
+    let becomesDone = false
+    if (current.length > 0 && (input.status !== undefined || leavesProject)) {
+      const targetProjectId = leavesProject ? input.projectId : current[0].project_id
+      const workflows = await loadProjectWorkflows([current[0].project_id, targetProjectId])
+      const sourceWorkflow = workflows.get(Number(current[0].project_id))
+      const targetWorkflow = workflows.get(Number(targetProjectId))
+      const nextStatus = input.status !== undefined ? input.status : current[0].status
+      if (sourceWorkflow && targetWorkflow) {
+        if (leavesProject) assertStatusInWorkflow(targetWorkflow, nextStatus)
+        else assertStatusTransition(targetWorkflow, current[0].status, nextStatus)
+        if (leavesProject || nextStatus !== current[0].status) await assertWipLimit(targetWorkflow, nextStatus, id)
+        becomesDone = isDoneStatus(targetWorkflow, nextStatus) && !isDoneStatus(sourceWorkflow, current[0].status)
+      }
+    }
+    if (becomesDone && !input.force) {
+      const blockers = await getUnfinishedBlockers(id)
+      if (blockers.length > 0) throw createTaskBlockedError(blockers)
+    }
 
     if (input.title !== undefined) { updates.push('title = ?'); values.push(input.title) }
     if (input.description !== undefined) { updates.push('description = ?'); values.push(input.description) }
     if (input.status !== undefined) { updates.push('status = ?'); values.push(input.status) }
     if (input.priority !== undefined) { updates.push('priority = ?'); values.push(input.priority) }
     if (input.dueDate !== undefined) { updates.push('due_date = ?'); values.push(input.dueDate) }
+    if (input.estimateMinutes !== undefined) {
+      assertValidEstimate(input.estimateMinutes)
+      updates.push('estimate_minutes = ?')
+      values.push(input.estimateMinutes)
+    }
     if (input.projectId !== undefined) { updates.push('project_id = ?'); values.push(input.projectId) }
+    if (leavesProject) updates.push('parent_task_id = NULL')
+    if (input.boardRank !== undefined && input.boardRank !== null) {
+      if (!Number.isFinite(input.boardRank)) throw new Error('Board rank must be a finite number')
+      updates.push('board_rank = ?')
+      values.push(input.boardRank)
+    } else if (leavesProject) {
+      updates.push('board_rank = ?')
+      values.push(await getNextBoardRank(input.projectId))
+    }
     if (input.assignedTo !== undefined) { updates.push('assigned_to = ?'); values.push(input.assignedTo || null) }
+    if (input.sprintId !== undefined) {
+      if (input.sprintId && current.length > 0) await assertSprintAcceptsTask(input.sprintId, leavesProject ? input.projectId : current[0].project_id)
+      updates.push('sprint_id = ?')
+      values.push(input.sprintId || null)
+    } else if (leavesProject) {
+      updates.push('sprint_id = NULL')
+    }
 
-    if (updates.length > 0) {
+    // A tag-only edit still touches the row so its version moves forward
+    if (updates.length > 0 || input.tagIds !== undefined) {
       values.push(id)
-      await db.query(
-        `UPDATE tasks SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false`,
+      const versionCondition = buildVersionCondition(input.expectedVersion, values)
+      const result = (await db.query(
+        `UPDATE tasks SET ${updates.length > 0 ? `${updates.join(', ')}, ` : ''}updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false${versionCondition}`,
         values
-      )
+      )) as any
+      if (versionCondition && result.affectedRows === 0) {
+        const currentTask = await fetchTaskRecord(id)
+        if (!currentTask) throw new Error('Task not found')
+        throw createConflictError('task', currentTask)
+      }
     }
 
+    if (leavesProject) {
+      await db.query('UPDATE tasks SET parent_task_id = NULL WHERE parent_task_id = ? AND is_deleted = false', [id])
+      // Task comments follow the task so access checks use its new project
+      await db.query('UPDATE comments SET project_id = ? WHERE task_id = ?', [input.projectId, id])
+    }
+    if (input.boardRank !== undefined && input.boardRank !== null) await rebalanceBoardRanksIfCrowded(id)
+
     if (input.tagIds !== undefined) {
       await db.query('DELETE FROM task_tags WHERE task_id = ?', [id])
       if (input.tagIds.length > 0) {
@@ -119,61 +342,66 @@ export const tasksMutationResolvers = {
       }
     }
 
-    const tasks = (await db.query(
-      'SELECT id, uuid, title, description, status, priority, due_date, project_id, assigned_to, created_at, updated_at FROM tasks WHERE id = ? AND is_deleted = false',
-      [id]
-    )) as any[]
-
-    if (tasks.length === 0) throw new Error('Task not found')
-
-    const task = tasks[0]
-    const taskTags = (await db.query(
-      'SELECT tg.id, tg.name, tg.description, tg.category FROM task_tags tt INNER JOIN tags tg ON tt.tag_id = tg.id WHERE tt.task_id = ?',
-      [id]
-    )) as any[]
+    const task = await fetchTaskRecord(id)
+    if (!task) throw new Error('Task not found')
+    if (becomesDone) {
+      await notifyBlockedTaskAssignees(id, task.title, actorUserId)
+      await generateRecurringTasks(id)
+    }
+    await recordSprintSnapshots([current[0]?.sprint_id, task.sprintId])
+    if (current.length > 0) await notifyTaskChanges(id, current[0], input, task, actorUserId)
+    if (input.description !== undefined) {
+      await syncMentions({
+        targetType: 'TASK',
+        targetId: id,
+        text: task.description,
+        projectId: task.projectId,
+        actorUserId,
+        location: `the description of task "${task.title}"`,
+      })
+    }
 
     await createActivityLog({
       userId: input.assignedTo || null,
-      projectId: task.project_id,
+      projectId: task.projectId,
       taskId: id,
       type: 'TASK_UPDATED',
       action: `Task "${task.title}" updated`,
       metadata: { status: task.status, priority: task.priority },
     })
-    return {
-      id: task.id.toString(),
-      uuid: task.uuid || '',
-      title: task.title,
-      description: task.description,
-      status: task.status,
-      priority: task.priority,
-      dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
-      projectId: task.project_id.toString(),
-      assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
-      tags: taskTags.map((t: any) => ({ id: t.id.toString(), name: t.name, description: t.description, category: t.category })),
-      createdAt: formatDateToISO(task.created_at),
-      updatedAt: formatDateToISO(task.updated_at),
-    }
+    return task
   },
 
   /**
-   * Delete task mutation (soft delete)
+   * Delete task mutation (soft delete) - requires DELETE permission on the task
+   * Subtasks go to the trash with it and share its deleted_at, so a restore brings them back together
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  deleteTask: async (_: any, { id }: { id: string }) => {
-    await db.query('DELETE FROM task_tags WHERE task_id = ?', [id])
+  deleteTask: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    await requirePermission(context, 'TASK', id, 'DELETE', 'You do not have permission to delete this task.')
     await db.query('DELETE FROM task_likes WHERE task_id = ?', [id])
 
-    // Comments are now project-level, not task-level, so no need to delete comments when deleting a task
+    // Comments on the task stay with it in the trash; they are hidden while the task is deleted
 
+    const subtaskIds = await collectSubtaskIds(id)
     const result = (await db.query(
-      'UPDATE tasks SET is_deleted = true, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
+      'UPDATE tasks SET is_deleted = true, deleted_at = CURRENT_TIMESTAMP(3), updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
       [id]
     )) as any
 
     if (result.affectedRows === 0) throw new Error('Task not found or already deleted')
+    if (subtaskIds.length > 0) {
+      const deleted = (await db.query('SELECT deleted_at FROM tasks WHERE id = ?', [id])) as any[]
+      const placeholders = subtaskIds.map(() => '?').join(',')
+      await db.query(`DELETE FROM task_likes WHERE task_id IN (${placeholders})`, subtaskIds)
+      await db.query(
+        `UPDATE tasks SET is_deleted = true, deleted_at = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id IN (${placeholders}) AND is_deleted = false`,
+        [deleted[0].deleted_at, ...subtaskIds]
+      )
+    }
+    await recordSprintSnapshotsForTasks([id, ...subtaskIds])
     await createActivityLog({
       userId: null,
       projectId: null,
@@ -184,6 +412,106 @@ export const tasksMutationResolvers = {
     return true
   },
 
+  /**
+   * Move task mutation - makes a task a subtask of parentId, or a top-level task when parentId is null
+   * Requires WRITE permission on the task; the parent must be in the same project and not below the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  moveTask: async (_: any, { id, parentId }: { id: string; parentId?: string | null }, context: { req: any }) => {
+    const actorUserId = await requirePermission(context, 'TASK', id, 'WRITE', 'You do not have permission to move this task.')
+    const current = await fetchTaskRecord(id)
+    if (!current) throw new Error('Task not found')
+    if (parentId) await assertValidTaskParent(id, parentId, current.projectId)
+
+    await db.query(
+      'UPDATE tasks SET parent_task_id = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
+      [parentId || null, id]
+    )
+    const task = await fetchTaskRecord(id)
+    if (!task) throw new Error('Task not found')
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: task.projectId,
+      taskId: id,
+      type: 'TASK_UPDATED',
+      action: parentId ? `Task "${task.title}" moved under task ${parentId}` : `Task "${task.title}" moved to top level`,
+      metadata: { parentTaskId: task.parentTaskId },
+    })
+    return task
+  },
+
+  /**
+   * Add dependency mutation - blockerTaskId must be finished before blockedTaskId can be DONE
+   * Requires WRITE permission on the blocked task; both tasks must be in the same project and the link must not close a loop
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   * @returns The blocked task
+   */
+  addTaskDependency: async (
+    _: any,
+    { blockerTaskId, blockedTaskId }: { blockerTaskId: string; blockedTaskId: string },
+    context: { req: any }
+  ) => {
+    const actorUserId = await requirePermission(context, 'TASK', blockedTaskId, 'WRITE', 'You do not have permission to change this task.')
+    if (Number(blockerTaskId) === Number(blockedTaskId)) throw new Error('A task cannot block itself')
+    const [blocker, blocked] = await Promise.all([fetchTaskRecord(blockerTaskId), fetchTaskRecord(blockedTaskId)])
+    if (!blocker || !blocked) throw new Error('Task not found')
+    if (blocker.projectId !== blocked.projectId) throw new Error('Dependencies can only link tasks in the same project')
+    if (await wouldCreateDependencyCycle(blockerTaskId, blockedTaskId)) {
+      throw new Error(`"${blocked.title}" already blocks "${blocker.title}", directly or through other tasks`)
+    }
+
+    await db.query(
+      'INSERT IGNORE INTO task_dependencies (blocker_task_id, blocked_task_id, created_by) VALUES (?, ?, ?)',
+      [blockerTaskId, blockedTaskId, actorUserId]
+    )
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: blocked.projectId,
+      taskId: blockedTaskId,
+      type: 'TASK_UPDATED',
+      action: `Task "${blocked.title}" is now blocked by "${blocker.title}"`,
+      metadata: { blockerTaskId: blocker.id },
+    })
+    return blocked
+  },
+
+  /**
+   * Remove dependency mutation - requires WRITE permission on the blocked task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   * @returns The blocked task
+   */
+  removeTaskDependency: async (
+    _: any,
+    { blockerTaskId, blockedTaskId }: { blockerTaskId: string; blockedTaskId: string },
+    context: { req: any }
+  ) => {
+    const actorUserId = await requirePermission(context, 'TASK', blockedTaskId, 'WRITE', 'You do not have permission to change this task.')
+    const result = (await db.query(
+      'DELETE FROM task_dependencies WHERE blocker_task_id = ? AND blocked_task_id = ?',
+      [blockerTaskId, blockedTaskId]
+    )) as any
+    if (result.affectedRows === 0) throw new Error('Dependency not found')
+
+    const blocked = await fetchTaskRecord(blockedTaskId)
+    if (!blocked) throw new Error('Task not found')
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: blocked.projectId,
+      taskId: blockedTaskId,
+      type: 'TASK_UPDATED',
+      action: `Task "${blocked.title}" is no longer blocked by task ${blockerTaskId}`,
+      metadata: { blockerTaskId },
+    })
+    return blocked
+  },
+
   /**
    * Like task mutation
    *
@@ -191,16 +519,7 @@ export const tasksMutationResolvers = {
    * @date 2025-11-26
    */
   likeTask: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
-    const authHeader = context.req?.headers?.authorization || ''
-    if (!authHeader || !authHeader.startsWith('Bearer '))
-      throw new Error('Authentication required. Please login to like tasks.')
-
-    const token = authHeader.replace('Bearer ', '')
-    const decoded = verifyAccessToken(token)
-    if (!decoded || !decoded.userId)
-      throw new Error('Invalid or expired token. Please login again.')
-
-    const userId = decoded.userId
+    const userId = await requirePermission(context, 'TASK', taskId, 'READ', 'Only project members can like tasks on this project.')
 
     const tasks = (await db.query(
       `SELECT t.id, t.title, t.project_id, p.name as project_name, p.owner_id FROM tasks t
@@ -225,8 +544,8 @@ export const tasksMutationResolvers = {
     const likesCountResult = (await db.query('SELECT COUNT(*) as count FROM task_likes WHERE task_id = ?', [taskId])) as any[]
 
     const actorName = await getUserDisplayName(userId)
-    await notifyProjectParticipants({
-      projectId: Number(task.project_id),
+    await notifyTaskWatchers({
+      taskId,
       actorUserId: userId,
       message: `${actorName} liked task "${task.title}" in project "${projectName}".`,
     })
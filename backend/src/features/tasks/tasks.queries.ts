@@ -1,6 +1,8 @@
 /**
  * Tasks Query Resolvers
  * Handles task query operations with likes and comments count
+ * Progress and status categories are computed per list so subtasks roll up without extra queries
+ * Checklist progress of the whole list is counted with one query
  *
  * @author Thang Truong
  * @date 2025-11-27
@@ -9,6 +11,11 @@
 import { db } from '../../db'
 import { formatDateToISO } from '../../utils/formatters'
 import { tryGetUserIdFromRequest } from '../../utils/helpers'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { calculateTaskProgress, getProjectTaskProgress } from '../../utils/taskHierarchy'
+import { categorizeStatus, getProjectWorkflow, loadProjectWorkflows } from '../../utils/workflows'
+import { getChecklistProgress } from '../../utils/checklists'
+import { getWatchedTaskIds } from '../../utils/watchers'
 
 /**
  * Tasks Query Resolvers
@@ -26,19 +33,25 @@ export const tasksQueryResolvers = {
   tasks: async (_: any, __: any, context: { req: any }) => {
     const userId = tryGetUserIdFromRequest(context.req)
 
-    const tasks = (await db.query(
-      `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date,
-        t.project_id, t.assigned_to, t.created_at, t.updated_at,
+    const allTasks = (await db.query(
+      `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date, t.estimate_minutes,
+        t.project_id, t.assigned_to, t.parent_task_id, t.sprint_id, t.board_rank, t.version, t.created_at, t.updated_at,
         COALESCE(tl.likes_count, 0) as likes_count,
-        0 as comments_count
+        COALESCE(tc.comments_count, 0) as comments_count
       FROM tasks t
       LEFT JOIN (SELECT task_id, COUNT(*) as likes_count FROM task_likes GROUP BY task_id) tl ON t.id = tl.task_id
+      LEFT JOIN (SELECT task_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NOT NULL GROUP BY task_id) tc ON t.id = tc.task_id
       WHERE t.is_deleted = false ORDER BY t.created_at DESC`
     )) as any[]
+    const tasks = allTasks.filter((t: any) => isProjectInApiTokenScope(context.req, t.project_id))
+    const workflows = await loadProjectWorkflows(allTasks.map((t: any) => t.project_id))
+    const categoryOf = (task: any) => categorizeStatus(workflows.get(Number(task.project_id)), task.status)
+    const progressById = calculateTaskProgress(allTasks, (task: any) => categoryOf(task) === 'DONE')
 
     const taskIds = tasks.map((t: any) => t.id)
     const taskTagsMap = new Map<number, any[]>()
     let userLikedTasks: Set<number> = new Set()
+    const [checklistProgressById, watchedTaskIds] = await Promise.all([getChecklistProgress(taskIds), getWatchedTaskIds(userId, taskIds)])
 
     if (taskIds.length > 0) {
       const placeholders = taskIds.map(() => '?').join(',')
@@ -73,14 +86,23 @@ export const tasksQueryResolvers = {
       title: task.title,
       description: task.description,
       status: task.status,
+      statusCategory: categoryOf(task),
       priority: task.priority,
       dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+      estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
       projectId: task.project_id.toString(),
       assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+      parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+      sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+      boardRank: Number(task.board_rank),
+      progress: progressById.get(Number(task.id)) ?? 0,
+      checklistProgress: checklistProgressById.get(Number(task.id)) ?? { completed: 0, total: 0 },
       tags: taskTagsMap.get(task.id) || [],
       likesCount: Number(task.likes_count || 0),
       commentsCount: Number(task.comments_count || 0),
       isLiked: userId ? userLikedTasks.has(Number(task.id)) : false,
+      isWatching: watchedTaskIds.has(Number(task.id)),
+      version: task.version !== null ? Number(task.version) : null,
       createdAt: formatDateToISO(task.created_at),
       updatedAt: formatDateToISO(task.updated_at),
     }))
@@ -96,19 +118,21 @@ export const tasksQueryResolvers = {
     const userId = tryGetUserIdFromRequest(context.req)
 
     const tasks = (await db.query(
-      `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date,
-        t.project_id, t.assigned_to, t.created_at, t.updated_at,
+      `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date, t.estimate_minutes,
+        t.project_id, t.assigned_to, t.parent_task_id, t.sprint_id, t.board_rank, t.version, t.created_at, t.updated_at,
         COALESCE(tl.likes_count, 0) as likes_count,
-        0 as comments_count
+        COALESCE(tc.comments_count, 0) as comments_count
       FROM tasks t
       LEFT JOIN (SELECT task_id, COUNT(*) as likes_count FROM task_likes GROUP BY task_id) tl ON t.id = tl.task_id
+      LEFT JOIN (SELECT task_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NOT NULL GROUP BY task_id) tc ON t.id = tc.task_id
       WHERE t.id = ? AND t.is_deleted = false`,
       [id]
     )) as any[]
 
-    if (tasks.length === 0) return null
+    if (tasks.length === 0 || !isProjectInApiTokenScope(context.req, tasks[0].project_id)) return null
 
     const task = tasks[0]
+    const [progressById, workflow] = await Promise.all([getProjectTaskProgress(task.project_id), getProjectWorkflow(task.project_id)])
 
     /** Fetch tags for the task */
     const taskTags = (await db.query(
@@ -133,16 +157,23 @@ export const tasksQueryResolvers = {
       title: task.title,
       description: task.description,
       status: task.status,
+      statusCategory: categorizeStatus(workflow, task.status),
       priority: task.priority,
       dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+      estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
       projectId: task.project_id.toString(),
       assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+      parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+      sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+      boardRank: Number(task.board_rank),
+      progress: progressById.get(Number(task.id)) ?? 0,
       tags: taskTags.map((tag: any) => ({
         id: tag.id.toString(), name: tag.name, description: tag.description, category: tag.category
       })),
       likesCount: Number(task.likes_count || 0),
       commentsCount: Number(task.comments_count || 0),
       isLiked,
+      version: task.version !== null ? Number(task.version) : null,
       createdAt: formatDateToISO(task.created_at),
       updatedAt: formatDateToISO(task.updated_at),
     }
@@ -2,6 +2,15 @@
  * Tasks Feature Schema
  * GraphQL type definitions for tasks
  * Includes task types, inputs, and like response types
+ * Tasks form a tree through parentTaskId; progress rolls up from subtasks
+ * blockedBy/blocks expose dependencies between tasks of the same project
+ * status is a state key of the project's workflow; statusCategory is its NOT_STARTED / ACTIVE / DONE category
+ * boardRank orders the cards of a board column, lowest first
+ * estimateMinutes is the planned effort; timeSpent sums the finished time entries in minutes
+ * sprintId is the sprint the task is planned in; tasks without one are in the project backlog
+ * recurrence is the repeat rule when the task is the latest occurrence of a recurring task
+ * checklist lists the task's checklist items in order; checklistProgress counts the done ones
+ * watchers are the users watching the task directly; isWatching tells whether the viewer is one of them
  *
  * @author Thang Truong
  * @date 2025-11-26
@@ -14,15 +23,33 @@ export const tasksTypeDefs = `
     title: String!
     description: String!
     status: String!
+    statusCategory: String!
     priority: String!
     dueDate: String
+    estimateMinutes: Int
+    timeSpent: Int!
+    recurrence: TaskRecurrence
+    checklist: [ChecklistItem!]!
+    checklistProgress: ChecklistProgress!
+    watchers: [User!]!
+    isWatching: Boolean!
     projectId: String!
     assignedTo: String
+    parentTaskId: String
+    sprintId: String
+    boardRank: Float!
+    parent: Task
+    subtasks: [Task!]!
+    progress: Int!
+    blockedBy: [Task!]!
+    blocks: [Task!]!
     owner: User
     tags: [Tag!]!
     likesCount: Int!
     commentsCount: Int!
+    comments: [Comment!]!
     isLiked: Boolean!
+    version: Int
     createdAt: String!
     updatedAt: String!
   }
@@ -40,9 +67,12 @@ export const tasksTypeDefs = `
     status: String!
     priority: String!
     dueDate: String
+    estimateMinutes: Int
     projectId: String!
     assignedTo: String
+    parentTaskId: String
     tagIds: [String!]
+    checklist: [String!]
   }
 
   input UpdateTaskInput {
@@ -51,9 +81,14 @@ export const tasksTypeDefs = `
     status: String
     priority: String
     dueDate: String
+    estimateMinutes: Int
     projectId: String
     assignedTo: String
+    sprintId: String
+    boardRank: Float
     tagIds: [String!]
+    expectedVersion: Int
+    force: Boolean
   }
 `
 
@@ -66,6 +101,9 @@ export const tasksMutationDefs = `
   createTask(input: CreateTaskInput!): Task!
   updateTask(id: ID!, input: UpdateTaskInput!): Task!
   deleteTask(id: ID!): Boolean!
+  moveTask(id: ID!, parentId: ID): Task!
+  addTaskDependency(blockerTaskId: ID!, blockedTaskId: ID!): Task!
+  removeTaskDependency(blockerTaskId: ID!, blockedTaskId: ID!): Task!
   likeTask(taskId: ID!): LikeTaskResponse!
 `
 
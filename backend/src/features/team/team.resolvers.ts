@@ -9,7 +9,7 @@
 
 import { db } from '../../db'
 import { mapTeamMemberRecord, formatDateToISO, formatTeamMemberName } from '../../utils/formatters'
-import { requireAuthentication } from '../../utils/helpers'
+import { requireAuthentication, requirePermission } from '../../utils/helpers'
 
 /**
  * Fetch team member record from database
@@ -69,14 +69,14 @@ export const teamQueryResolvers = {
  */
 export const teamMutationResolvers = {
   /**
-   * Create team member mutation - requires authentication
+   * Create team member mutation - requires ADMIN permission on the project
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   createTeamMember: async (_: any, { input }: { input: any }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to create team members.')
     const { projectId, userId, role } = input
+    await requirePermission(context, 'PROJECT', projectId, 'ADMIN', 'Only project owners can add team members.')
     const memberRole = role || 'VIEWER'
 
     const existingMembers = (await db.query(
@@ -86,7 +86,7 @@ export const teamMutationResolvers = {
 
     if (existingMembers.length > 0) {
       await db.query(
-        'UPDATE project_members SET is_deleted = false, role = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE project_id = ? AND user_id = ?',
+        'UPDATE project_members SET is_deleted = false, deleted_at = NULL, role = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE project_id = ? AND user_id = ?',
         [memberRole, projectId, userId]
       )
     } else {
@@ -100,14 +100,14 @@ export const teamMutationResolvers = {
   },
 
   /**
-   * Update team member mutation - requires authentication
+   * Update team member mutation - requires ADMIN permission on the project
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   updateTeamMember: async (_: any, { input }: { input: any }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to update team members.')
     const { projectId, userId, role } = input
+    await requirePermission(context, 'PROJECT', projectId, 'ADMIN', 'Only project owners can change team member roles.')
 
     await db.query(
       'UPDATE project_members SET role = ?, updated_at = CURRENT_TIMESTAMP(3) WHERE project_id = ? AND user_id = ? AND is_deleted = false',
@@ -118,15 +118,15 @@ export const teamMutationResolvers = {
   },
 
   /**
-   * Delete team member mutation (soft delete) - requires authentication
+   * Delete team member mutation (soft delete) - requires ADMIN permission on the project
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   deleteTeamMember: async (_: any, { projectId, userId }: { projectId: string; userId: string }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to delete team members.')
+    await requirePermission(context, 'PROJECT', projectId, 'ADMIN', 'Only project owners can remove team members.')
     const result = (await db.query(
-      'UPDATE project_members SET is_deleted = true, updated_at = CURRENT_TIMESTAMP(3) WHERE project_id = ? AND user_id = ? AND is_deleted = false',
+      'UPDATE project_members SET is_deleted = true, deleted_at = CURRENT_TIMESTAMP(3), updated_at = CURRENT_TIMESTAMP(3) WHERE project_id = ? AND user_id = ? AND is_deleted = false',
       [projectId, userId]
     )) as any
 
@@ -0,0 +1,10 @@
+/**
+ * Templates Feature Index
+ * Exports templates schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { templatesTypeDefs, templatesQueryDefs, templatesMutationDefs } from './templates.schema'
+export { templatesQueryResolvers, templatesMutationResolvers } from './templates.resolvers'
@@ -0,0 +1,342 @@
+/**
+ * Templates Feature Resolvers
+ * Saves projects as templates, creates projects from them and manages task templates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { MAX_PROJECT_NAME_LENGTH } from '../../constants/projects'
+import { formatDateToISO, formatUser } from '../../utils/formatters'
+import { createActivityLog, isGlobalAdmin, requireAuthentication, requirePermission, requireProjectCreator } from '../../utils/helpers'
+import { normalizeChecklistTexts } from '../../utils/checklists'
+import { isCalendarDay } from '../../utils/recurrences'
+import {
+  buildProjectSnapshot,
+  createProjectFromSnapshot,
+  getCreatedProject,
+  parseJsonColumn,
+  ProjectTemplateContent,
+} from '../../utils/templates'
+
+interface ProjectTemplateOverrides {
+  name: string
+  description?: string | null
+  status?: string | null
+  startDate?: string | null
+  includeMembers?: boolean | null
+}
+
+interface TaskTemplateInput {
+  name: string
+  title: string
+  description?: string | null
+  priority?: string | null
+  estimateMinutes?: number | null
+  tagIds?: string[] | null
+  checklist?: string[] | null
+}
+
+const CREATED_BY_COLUMNS = `u.id as creator_user_id, u.first_name as creator_first_name, u.last_name as creator_last_name,
+  u.email as creator_email, u.role as creator_role, u.uuid as creator_uuid,
+  u.created_at as creator_created_at, u.updated_at as creator_updated_at`
+
+/**
+ * Map a project template row; the task preview carries only what the gallery shows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapProjectTemplate = (row: any) => {
+  const content = parseJsonColumn<ProjectTemplateContent>(row.content, { workflow: null, tasks: [], members: [], milestones: [] })
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    description: row.description,
+    sourceProjectId: row.source_project_id ? row.source_project_id.toString() : null,
+    taskCount: content.tasks.length,
+    milestoneCount: content.milestones.length,
+    memberCount: content.members.length,
+    tasks: content.tasks.map((task) => ({ title: task.title, priority: task.priority, dueOffsetDays: task.dueOffsetDays })),
+    createdBy: formatUser(row, 'creator_'),
+    createdAt: formatDateToISO(row.created_at),
+    updatedAt: formatDateToISO(row.updated_at),
+  }
+}
+
+/**
+ * Load task templates with their tags, newest first
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const loadTaskTemplates = async (templateId?: number) => {
+  const rows = (await db.query(
+    `SELECT tt.id, tt.name, tt.title, tt.description, tt.priority, tt.estimate_minutes, tt.checklist,
+      tt.created_at, tt.updated_at, ${CREATED_BY_COLUMNS}
+    FROM task_templates tt
+    LEFT JOIN users u ON u.id = tt.created_by AND u.is_deleted = false
+    ${templateId ? 'WHERE tt.id = ?' : ''}
+    ORDER BY tt.created_at DESC, tt.id DESC`,
+    templateId ? [templateId] : []
+  )) as any[]
+  if (rows.length === 0) return []
+  const templateIds = rows.map((row: any) => row.id)
+  const tags = (await db.query(
+    `SELECT ttt.template_id, tg.id, tg.name, tg.description, tg.title, tg.type, tg.category, tg.created_at, tg.updated_at
+    FROM task_template_tags ttt INNER JOIN tags tg ON tg.id = ttt.tag_id
+    WHERE ttt.template_id IN (${templateIds.map(() => '?').join(',')}) ORDER BY tg.name ASC`,
+    templateIds
+  )) as any[]
+
+  return rows.map((row: any) => ({
+    id: row.id.toString(),
+    name: row.name,
+    title: row.title,
+    description: row.description,
+    priority: row.priority,
+    estimateMinutes: row.estimate_minutes !== null ? Number(row.estimate_minutes) : null,
+    tags: tags
+      .filter((tag: any) => Number(tag.template_id) === Number(row.id))
+      .map((tag: any) => ({
+        id: tag.id.toString(),
+        name: tag.name,
+        description: tag.description,
+        title: tag.title,
+        type: tag.type,
+        category: tag.category,
+        createdAt: formatDateToISO(tag.created_at),
+        updatedAt: formatDateToISO(tag.updated_at),
+      })),
+    checklist: parseJsonColumn<string[]>(row.checklist, []),
+    createdBy: formatUser(row, 'creator_'),
+    createdAt: formatDateToISO(row.created_at),
+    updatedAt: formatDateToISO(row.updated_at),
+  }))
+}
+
+/**
+ * Throw unless the signed-in user created the template or is a global admin
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const assertCanDeleteTemplate = async (userId: number, createdBy: any, kind: string): Promise<void> => {
+  if (createdBy !== null && Number(createdBy) === userId) return
+  if (await isGlobalAdmin(userId)) return
+  throw new Error(`Only the creator of this ${kind} template or an administrator can delete it.`)
+}
+
+/**
+ * Templates Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const templatesQueryResolvers = {
+  /**
+   * Project templates shared with every signed-in user, newest first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  projectTemplates: async (_: any, __: any, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required. Please login to view templates.')
+    const rows = (await db.query(
+      `SELECT pt.id, pt.name, pt.description, pt.content, pt.source_project_id, pt.created_at, pt.updated_at, ${CREATED_BY_COLUMNS}
+      FROM project_templates pt
+      LEFT JOIN users u ON u.id = pt.created_by AND u.is_deleted = false
+      ORDER BY pt.created_at DESC, pt.id DESC`
+    )) as any[]
+    return rows.map(mapProjectTemplate)
+  },
+
+  /**
+   * Task templates shared with every signed-in user, newest first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  taskTemplates: async (_: any, __: any, context: { req: any }) => {
+    requireAuthentication(context, 'Authentication required. Please login to view templates.')
+    return loadTaskTemplates()
+  },
+}
+
+/**
+ * Templates Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const templatesMutationResolvers = {
+  /**
+   * Save the skeleton of a project as a template - requires WRITE permission on the project
+   * Stores the workflow, tasks with tags and checklists, members and milestones; trashed tasks are left out
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  saveProjectAsTemplate: async (
+    _: any,
+    { projectId, name, description }: { projectId: string; name: string; description?: string | null },
+    context: { req: any }
+  ) => {
+    const userId = await requirePermission(context, 'PROJECT', projectId, 'WRITE', 'You do not have permission to save this project as a template.')
+    const trimmedName = (name || '').trim()
+    if (!trimmedName) throw new Error('Template name is required')
+    const projects = (await db.query('SELECT id, name FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
+    if (projects.length === 0) throw new Error('Project not found')
+
+    const content = await buildProjectSnapshot(projectId)
+    const result = (await db.query(
+      'INSERT INTO project_templates (name, description, content, source_project_id, created_by) VALUES (?, ?, ?, ?, ?)',
+      [trimmedName, description || null, JSON.stringify(content), projectId, userId]
+    )) as any
+    await createActivityLog({
+      userId,
+      projectId: Number(projectId),
+      type: 'PROJECT_UPDATED',
+      action: `Project "${projects[0].name}" saved as template "${trimmedName}"`,
+      metadata: { templateId: result.insertId, taskCount: content.tasks.length },
+    })
+
+    const rows = (await db.query(
+      `SELECT pt.id, pt.name, pt.description, pt.content, pt.source_project_id, pt.created_at, pt.updated_at, ${CREATED_BY_COLUMNS}
+      FROM project_templates pt
+      LEFT JOIN users u ON u.id = pt.created_by AND u.is_deleted = false
+      WHERE pt.id = ?`,
+      [result.insertId]
+    )) as any[]
+    return mapProjectTemplate(rows[0])
+  },
+
+  /**
+   * Create a project owned by the signed-in user from a project template
+   * Due dates of tasks and milestones are shifted to count from overrides.startDate (today by default);
+   * members are copied only when overrides.includeMembers is set
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createProjectFromTemplate: async (
+    _: any,
+    { templateId, overrides }: { templateId: string; overrides: ProjectTemplateOverrides },
+    context: { req: any }
+  ) => {
+    const ownerId = requireProjectCreator(context, 'Authentication required. Please login to create projects.')
+    const name = (overrides.name || '').trim()
+    if (!name) throw new Error('Project name is required')
+    if (name.length > MAX_PROJECT_NAME_LENGTH) throw new Error(`Project name can be at most ${MAX_PROJECT_NAME_LENGTH} characters`)
+    if (overrides.startDate && !isCalendarDay(overrides.startDate)) throw new Error('Start date must be a date in YYYY-MM-DD format')
+    const templates = (await db.query('SELECT id, name, description, content FROM project_templates WHERE id = ?', [templateId])) as any[]
+    if (templates.length === 0) throw new Error('Template not found')
+
+    const template = templates[0]
+    const content = parseJsonColumn<ProjectTemplateContent>(template.content, { workflow: null, tasks: [], members: [], milestones: [] })
+    const [today] = (await db.query("SELECT DATE_FORMAT(CURDATE(), '%Y-%m-%d') as day")) as any[]
+    const startDate = overrides.startDate || today.day
+
+    const connection = await db.getConnection()
+    let projectId: number
+    try {
+      await connection.beginTransaction()
+      projectId = await createProjectFromSnapshot(
+        connection,
+        content,
+        {
+          name,
+          description: overrides.description ?? template.description ?? '',
+          status: overrides.status || 'PLANNING',
+          ownerId,
+        },
+        startDate,
+        Boolean(overrides.includeMembers)
+      )
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    const project = await getCreatedProject(projectId)
+    await createActivityLog({
+      userId: ownerId,
+      projectId,
+      type: 'PROJECT_CREATED',
+      action: `Project "${project.name}" created from template "${template.name}"`,
+      metadata: { status: project.status, templateId: Number(template.id), startDate },
+    })
+    return project
+  },
+
+  /**
+   * Delete a project template - only its creator or a global admin
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteProjectTemplate: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const userId = requireAuthentication(context, 'Authentication required. Please login to delete templates.')
+    const templates = (await db.query('SELECT created_by FROM project_templates WHERE id = ?', [id])) as any[]
+    if (templates.length === 0) throw new Error('Template not found')
+    await assertCanDeleteTemplate(userId, templates[0].created_by, 'project')
+    await db.query('DELETE FROM project_templates WHERE id = ?', [id])
+    return true
+  },
+
+  /**
+   * Create a task template that pre-fills new tasks with a description, priority, tags and a checklist
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  createTaskTemplate: async (_: any, { input }: { input: TaskTemplateInput }, context: { req: any }) => {
+    const userId = requireAuthentication(context, 'Authentication required. Please login to create templates.')
+    const name = (input.name || '').trim()
+    const title = (input.title || '').trim()
+    if (!name) throw new Error('Template name is required')
+    if (!title) throw new Error('Task title is required')
+    if (input.estimateMinutes !== undefined && input.estimateMinutes !== null &&
+      (!Number.isInteger(input.estimateMinutes) || input.estimateMinutes < 0)) {
+      throw new Error('Estimate must be a whole number of minutes')
+    }
+    const checklist = normalizeChecklistTexts(input.checklist)
+    const tagIds = Array.from(new Set(input.tagIds || []))
+    if (tagIds.length > 0) {
+      const tags = (await db.query(`SELECT id FROM tags WHERE id IN (${tagIds.map(() => '?').join(',')})`, tagIds)) as any[]
+      if (tags.length !== tagIds.length) throw new Error('Tag not found')
+    }
+
+    const result = (await db.query(
+      'INSERT INTO task_templates (name, title, description, priority, estimate_minutes, checklist, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [name, title, input.description || '', input.priority || 'MEDIUM', input.estimateMinutes ?? null, JSON.stringify(checklist), userId]
+    )) as any
+    if (tagIds.length > 0) {
+      await db.query(
+        `INSERT INTO task_template_tags (template_id, tag_id) VALUES ${tagIds.map(() => '(?, ?)').join(', ')}`,
+        tagIds.flatMap((tagId) => [result.insertId, tagId])
+      )
+    }
+    const [template] = await loadTaskTemplates(result.insertId)
+    return template
+  },
+
+  /**
+   * Delete a task template - only its creator or a global admin
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteTaskTemplate: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const userId = requireAuthentication(context, 'Authentication required. Please login to delete templates.')
+    const templates = (await db.query('SELECT created_by FROM task_templates WHERE id = ?', [id])) as any[]
+    if (templates.length === 0) throw new Error('Template not found')
+    await assertCanDeleteTemplate(userId, templates[0].created_by, 'task')
+    await db.query('DELETE FROM task_templates WHERE id = ?', [id])
+    return true
+  },
+}
@@ -0,0 +1,75 @@
+/**
+ * Templates Feature Schema
+ * GraphQL type definitions for project templates and task templates
+ * Project templates keep due dates as day offsets, so a new project shifts them to its own start date
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const templatesTypeDefs = `
+  type ProjectTemplateTask {
+    title: String!
+    priority: String!
+    dueOffsetDays: Int
+  }
+
+  type ProjectTemplate {
+    id: ID!
+    name: String!
+    description: String
+    sourceProjectId: ID
+    taskCount: Int!
+    milestoneCount: Int!
+    memberCount: Int!
+    tasks: [ProjectTemplateTask!]!
+    createdBy: User
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type TaskTemplate {
+    id: ID!
+    name: String!
+    title: String!
+    description: String!
+    priority: String!
+    estimateMinutes: Int
+    tags: [Tag!]!
+    checklist: [String!]!
+    createdBy: User
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  input ProjectTemplateOverrides {
+    name: String!
+    description: String
+    status: String
+    startDate: String
+    includeMembers: Boolean
+  }
+
+  input TaskTemplateInput {
+    name: String!
+    title: String!
+    description: String
+    priority: String
+    estimateMinutes: Int
+    tagIds: [String!]
+    checklist: [String!]
+  }
+`
+
+export const templatesQueryDefs = `
+  projectTemplates: [ProjectTemplate!]!
+  taskTemplates: [TaskTemplate!]!
+`
+
+export const templatesMutationDefs = `
+  saveProjectAsTemplate(projectId: ID!, name: String!, description: String): ProjectTemplate!
+  createProjectFromTemplate(templateId: ID!, overrides: ProjectTemplateOverrides!): Project!
+  deleteProjectTemplate(id: ID!): Boolean!
+  createTaskTemplate(input: TaskTemplateInput!): TaskTemplate!
+  deleteTaskTemplate(id: ID!): Boolean!
+`
@@ -0,0 +1,10 @@
+/**
+ * Time Tracking Feature Index
+ * Exports time tracking schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { timeTrackingTypeDefs, timeTrackingQueryDefs, timeTrackingMutationDefs } from './timeTracking.schema'
+export { timeTrackingQueryResolvers, timeTrackingMutationResolvers } from './timeTracking.resolvers'
@@ -0,0 +1,222 @@
+/**
+ * Time Tracking Feature Resolvers
+ * Timers and manual time entries on tasks, and the weekly timesheet of the signed-in user
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { formatDateToISO, formatTeamMemberName } from '../../utils/formatters'
+import { requireAuthentication, requirePermission } from '../../utils/helpers'
+import { MAX_TIME_ENTRY_MINUTES, MAX_TIME_ENTRY_NOTE_LENGTH } from '../../constants/timeTracking'
+
+const TIME_ENTRY_SELECT = `SELECT te.id, te.user_id, te.task_id, te.started_at, te.ended_at, te.duration_minutes, te.note, te.created_at,
+    t.title as task_title, t.project_id, p.name as project_name, u.first_name, u.last_name
+  FROM time_entries te
+  INNER JOIN tasks t ON t.id = te.task_id
+  INNER JOIN projects p ON p.id = t.project_id
+  INNER JOIN users u ON u.id = te.user_id`
+
+/**
+ * SQL that ends the running timers matched by the WHERE clause appended to it
+ * Every stopped timer counts at least one minute
+ */
+const STOP_RUNNING_TIMER_SQL = `UPDATE time_entries
+  SET ended_at = CURRENT_TIMESTAMP(3),
+    duration_minutes = GREATEST(1, ROUND(TIMESTAMPDIFF(SECOND, started_at, CURRENT_TIMESTAMP(3)) / 60))`
+
+/**
+ * Map a time entry row to the TimeEntry type
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapTimeEntry = (row: any) => ({
+  id: row.id.toString(),
+  userId: row.user_id.toString(),
+  userName: formatTeamMemberName(row.first_name, row.last_name),
+  taskId: row.task_id.toString(),
+  taskTitle: row.task_title,
+  projectId: row.project_id.toString(),
+  projectName: row.project_name,
+  startedAt: formatDateToISO(row.started_at),
+  endedAt: row.ended_at ? formatDateToISO(row.ended_at) : null,
+  durationMinutes: Number(row.duration_minutes || 0),
+  note: row.note || null,
+  isRunning: !row.ended_at,
+  createdAt: formatDateToISO(row.created_at),
+})
+
+/**
+ * Load one time entry
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchTimeEntry = async (id: number | string) => {
+  const rows = (await db.query(`${TIME_ENTRY_SELECT} WHERE te.id = ?`, [id])) as any[]
+  if (rows.length === 0) throw new Error('Time entry not found')
+  return mapTimeEntry(rows[0])
+}
+
+/**
+ * Trim a note and reject notes that are too long
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const normalizeNote = (note?: string | null): string | null => {
+  const trimmed = (note || '').trim()
+  if (trimmed.length > MAX_TIME_ENTRY_NOTE_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_TIME_ENTRY_NOTE_LENGTH} characters`)
+  }
+  return trimmed || null
+}
+
+/**
+ * Time Tracking Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const timeTrackingQueryResolvers = {
+  /**
+   * The signed-in user's running timer, if any
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  runningTimer: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    const rows = (await db.query(`${TIME_ENTRY_SELECT} WHERE te.user_id = ? AND te.ended_at IS NULL LIMIT 1`, [userId])) as any[]
+    return rows.length > 0 ? mapTimeEntry(rows[0]) : null
+  },
+
+  /**
+   * Time logged on a task by everyone, newest first - requires READ permission on the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  taskTimeEntries: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    await requirePermission(context, 'TASK', taskId, 'READ', 'You do not have permission to view time on this task.')
+    const rows = (await db.query(`${TIME_ENTRY_SELECT} WHERE te.task_id = ? ORDER BY te.started_at DESC`, [taskId])) as any[]
+    return rows.map(mapTimeEntry)
+  },
+
+  /**
+   * The signed-in user's time entries started in the seven days from weekStart (YYYY-MM-DD)
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  myTimesheet: async (_: any, { weekStart }: { weekStart: string }, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart) || Number.isNaN(new Date(weekStart).getTime())) {
+      throw new Error('weekStart must be a date in YYYY-MM-DD format')
+    }
+    const rows = (await db.query(
+      `${TIME_ENTRY_SELECT}
+      WHERE te.user_id = ? AND t.is_deleted = false AND te.started_at >= ? AND te.started_at < DATE_ADD(?, INTERVAL 7 DAY)
+      ORDER BY te.started_at ASC`,
+      [userId, weekStart, weekStart]
+    )) as any[]
+    return rows.map(mapTimeEntry)
+  },
+}
+
+/**
+ * Time Tracking Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const timeTrackingMutationResolvers = {
+  /**
+   * Start a timer on a task - requires WRITE permission on the task
+   * A timer the user already has running is stopped first, so each user runs at most one
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  startTimer: async (_: any, { taskId, note }: { taskId: string; note?: string | null }, context: { req: any }) => {
+    const userId = await requirePermission(context, 'TASK', taskId, 'WRITE', 'You do not have permission to track time on this task.')
+    const cleanNote = normalizeNote(note)
+    const connection = await db.getConnection()
+    let entryId: number
+    try {
+      await connection.beginTransaction()
+      // Locking the user row keeps two concurrent starts from both leaving a timer running
+      await connection.query('SELECT id FROM users WHERE id = ? FOR UPDATE', [userId])
+      await connection.query(`${STOP_RUNNING_TIMER_SQL} WHERE user_id = ? AND ended_at IS NULL`, [userId])
+      const [result] = (await connection.query(
+        'INSERT INTO time_entries (user_id, task_id, started_at, note) VALUES (?, ?, CURRENT_TIMESTAMP(3), ?)',
+        [userId, taskId, cleanNote]
+      )) as any
+      entryId = result.insertId
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+    return fetchTimeEntry(entryId)
+  },
+
+  /**
+   * Stop the signed-in user's running timer
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  stopTimer: async (_: any, __: any, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    const running = (await db.query('SELECT id FROM time_entries WHERE user_id = ? AND ended_at IS NULL LIMIT 1', [userId])) as any[]
+    if (running.length === 0) throw new Error('No timer is running')
+    await db.query(`${STOP_RUNNING_TIMER_SQL} WHERE id = ? AND ended_at IS NULL`, [running[0].id])
+    return fetchTimeEntry(running[0].id)
+  },
+
+  /**
+   * Log time spent on a task without a timer - requires WRITE permission on the task
+   * Without startedAt the entry ends now
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  logTime: async (
+    _: any,
+    { input }: { input: { taskId: string; minutes: number; startedAt?: string | null; note?: string | null } },
+    context: { req: any }
+  ) => {
+    const userId = await requirePermission(context, 'TASK', input.taskId, 'WRITE', 'You do not have permission to log time on this task.')
+    if (!Number.isInteger(input.minutes) || input.minutes < 1 || input.minutes > MAX_TIME_ENTRY_MINUTES) {
+      throw new Error(`Minutes must be a whole number between 1 and ${MAX_TIME_ENTRY_MINUTES}`)
+    }
+    const cleanNote = normalizeNote(input.note)
+    const startedAt = input.startedAt ? new Date(input.startedAt) : new Date(Date.now() - input.minutes * 60 * 1000)
+    if (Number.isNaN(startedAt.getTime())) throw new Error('startedAt must be a valid date')
+    const endedAt = new Date(startedAt.getTime() + input.minutes * 60 * 1000)
+
+    const result = (await db.query(
+      'INSERT INTO time_entries (user_id, task_id, started_at, ended_at, duration_minutes, note) VALUES (?, ?, ?, ?, ?, ?)',
+      [userId, input.taskId, startedAt, endedAt, input.minutes, cleanNote]
+    )) as any
+    return fetchTimeEntry(result.insertId)
+  },
+
+  /**
+   * Delete one of the signed-in user's own time entries
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  deleteTimeEntry: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const userId = requireAuthentication(context)
+    const result = (await db.query('DELETE FROM time_entries WHERE id = ? AND user_id = ?', [id, userId])) as any
+    if (result.affectedRows === 0) throw new Error('Time entry not found')
+    return true
+  },
+}
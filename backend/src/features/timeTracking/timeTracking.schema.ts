@@ -0,0 +1,46 @@
+/**
+ * Time Tracking Feature Schema
+ * GraphQL type definitions for time logged on tasks with timers or by hand
+ * A running timer has no endedAt; durationMinutes is filled when it stops
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const timeTrackingTypeDefs = `
+  type TimeEntry {
+    id: ID!
+    userId: String!
+    userName: String!
+    taskId: String!
+    taskTitle: String!
+    projectId: String!
+    projectName: String!
+    startedAt: String!
+    endedAt: String
+    durationMinutes: Int!
+    note: String
+    isRunning: Boolean!
+    createdAt: String!
+  }
+
+  input LogTimeInput {
+    taskId: ID!
+    minutes: Int!
+    startedAt: String
+    note: String
+  }
+`
+
+export const timeTrackingQueryDefs = `
+  runningTimer: TimeEntry
+  taskTimeEntries(taskId: ID!): [TimeEntry!]!
+  myTimesheet(weekStart: String!): [TimeEntry!]!
+`
+
+export const timeTrackingMutationDefs = `
+  startTimer(taskId: ID!, note: String): TimeEntry!
+  stopTimer: TimeEntry!
+  logTime(input: LogTimeInput!): TimeEntry!
+  deleteTimeEntry(id: ID!): Boolean!
+`
@@ -0,0 +1,10 @@
+/**
+ * Trash Feature Index
+ * Exports trash schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { trashTypeDefs, trashQueryDefs, trashMutationDefs } from './trash.schema'
+export { trashQueryResolvers, trashMutationResolvers } from './trash.resolvers'
@@ -0,0 +1,290 @@
+/**
+ * Trash Feature Resolvers
+ * Lists soft-deleted projects, tasks, comments and users and restores or purges them
+ * All operations require the global Admin role
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { formatDateToISO } from '../../utils/formatters'
+import { clampPageNumber, clampPageSize, createActivityLog, requireGlobalAdmin } from '../../utils/helpers'
+import { getTrashRetentionDays, isTrashResourceType, purgeTrashItem, TrashResourceType } from '../../utils/trash'
+import { collectSubtaskIds } from '../../utils/taskHierarchy'
+import { recordSprintSnapshotsForTasks } from '../../utils/sprints'
+
+/**
+ * Per-type SQL for trash listings
+ * Tasks and comments of a deleted project are listed under the project instead
+ */
+const TRASH_LISTINGS: Record<TrashResourceType, { select: string; from: string }> = {
+  PROJECT: {
+    select: `SELECT p.id, p.name as title, COALESCE(p.deleted_at, p.updated_at) as deleted_at,
+      NULL as project_id, NULL as project_name,
+      (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id AND t.is_deleted = true AND t.deleted_at <=> p.deleted_at) as cascaded_tasks`,
+    from: 'FROM projects p WHERE p.is_deleted = true',
+  },
+  TASK: {
+    select: `SELECT t.id, t.title, COALESCE(t.deleted_at, t.updated_at) as deleted_at, t.status,
+      t.project_id, p.name as project_name`,
+    from: 'FROM tasks t INNER JOIN projects p ON t.project_id = p.id AND p.is_deleted = false WHERE t.is_deleted = true',
+  },
+  COMMENT: {
+    select: `SELECT c.id, LEFT(c.content, 120) as title, COALESCE(c.deleted_at, c.updated_at) as deleted_at,
+      c.project_id, p.name as project_name, u.first_name, u.last_name`,
+    from: `FROM comments c
+      LEFT JOIN projects p ON c.project_id = p.id
+      LEFT JOIN users u ON c.user_id = u.id
+      WHERE c.is_deleted = true AND (p.id IS NULL OR p.is_deleted = false)`,
+  },
+  USER: {
+    select: `SELECT u.id, CONCAT(u.first_name, ' ', u.last_name) as title, COALESCE(u.deleted_at, u.updated_at) as deleted_at,
+      u.email, NULL as project_id, NULL as project_name`,
+    from: 'FROM users u WHERE u.is_deleted = true',
+  },
+}
+
+/**
+ * Describe a trash row in one line for the list
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const describeTrashRow = (resourceType: TrashResourceType, row: any): string | null => {
+  if (resourceType === 'PROJECT') {
+    const count = Number(row.cascaded_tasks || 0)
+    return count > 0 ? `${count} task${count === 1 ? '' : 's'} deleted with it` : null
+  }
+  if (resourceType === 'TASK') return row.status
+  if (resourceType === 'COMMENT') return row.first_name ? `by ${row.first_name} ${row.last_name}` : null
+  return row.email
+}
+
+/**
+ * Map a trash row to the GraphQL TrashItem shape
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapTrashRow = (resourceType: TrashResourceType, row: any, retentionDays: number) => {
+  const deletedAt = row.deleted_at ? new Date(row.deleted_at) : null
+  const purgeAt = deletedAt && retentionDays > 0 ? new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000) : null
+  return {
+    id: row.id.toString(),
+    resourceType,
+    title: row.title || '(untitled)',
+    details: describeTrashRow(resourceType, row),
+    projectId: row.project_id ? row.project_id.toString() : null,
+    projectName: row.project_name || null,
+    deletedAt: deletedAt ? formatDateToISO(deletedAt) : null,
+    purgeAt: purgeAt ? purgeAt.toISOString() : null,
+  }
+}
+
+/**
+ * Refuse to restore a child row while its project is still in the trash
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const assertProjectActive = async (projectId: number | null) => {
+  if (!projectId) return
+  const projects = (await db.query('SELECT name, is_deleted FROM projects WHERE id = ?', [projectId])) as any[]
+  if (projects.length > 0 && projects[0].is_deleted) {
+    throw new Error(`Restore the project "${projects[0].name}" first.`)
+  }
+}
+
+/**
+ * Trash Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const trashQueryResolvers = {
+  /**
+   * Paginated trash listing for one resource type, most recently deleted first
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  trash: async (
+    _: any,
+    { resourceType, page, pageSize }: { resourceType: string; page?: number | null; pageSize?: number | null },
+    context: { req: any }
+  ) => {
+    await requireGlobalAdmin(context, 'Only administrators can view the trash.')
+    if (!isTrashResourceType(resourceType)) throw new Error('Invalid resource type. Expected PROJECT, TASK, COMMENT or USER')
+    const listing = TRASH_LISTINGS[resourceType]
+    const currentPage = clampPageNumber(page)
+    const currentPageSize = clampPageSize(pageSize)
+    const retentionDays = getTrashRetentionDays()
+
+    const rows = (await db.query(
+      `${listing.select} ${listing.from} ORDER BY deleted_at DESC LIMIT ${currentPageSize} OFFSET ${(currentPage - 1) * currentPageSize}`
+    )) as any[]
+    const totals = (await db.query(`SELECT COUNT(*) as total ${listing.from}`)) as any[]
+
+    return {
+      items: rows.map((row: any) => mapTrashRow(resourceType, row, retentionDays)),
+      total: Number(totals[0]?.total || 0),
+      page: currentPage,
+      pageSize: currentPageSize,
+      retentionDays,
+    }
+  },
+}
+
+/**
+ * Trash Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const trashMutationResolvers = {
+  /**
+   * Restore a project with the tasks and memberships its deletion cascaded
+   * Tasks deleted on their own before the project stay in the trash
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  restoreProject: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const actorUserId = await requireGlobalAdmin(context, 'Only administrators can restore projects.')
+    const connection = await db.getConnection()
+    let projectName = ''
+    try {
+      await connection.beginTransaction()
+      const [projects] = (await connection.query(
+        'SELECT id, name, deleted_at FROM projects WHERE id = ? AND is_deleted = true FOR UPDATE',
+        [id]
+      )) as any[]
+      if (projects.length === 0) throw new Error('Project not found in trash')
+      projectName = projects[0].name
+      const deletedAt = projects[0].deleted_at
+
+      await connection.query(
+        'UPDATE tasks SET is_deleted = false, deleted_at = NULL WHERE project_id = ? AND is_deleted = true AND deleted_at <=> ?',
+        [id, deletedAt]
+      )
+      await connection.query(
+        'UPDATE project_members SET is_deleted = false, deleted_at = NULL WHERE project_id = ? AND is_deleted = true AND deleted_at <=> ?',
+        [id, deletedAt]
+      )
+      await connection.query(
+        'UPDATE projects SET is_deleted = false, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ?',
+        [id]
+      )
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: id,
+      type: 'PROJECT_RESTORED',
+      action: `Project "${projectName}" restored`,
+    })
+    return true
+  },
+
+  /**
+   * Restore a task with the subtasks deleted together with it - its project must not be in the trash
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  restoreTask: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const actorUserId = await requireGlobalAdmin(context, 'Only administrators can restore tasks.')
+    const tasks = (await db.query('SELECT id, title, project_id, deleted_at FROM tasks WHERE id = ? AND is_deleted = true', [id])) as any[]
+    if (tasks.length === 0) throw new Error('Task not found in trash')
+    await assertProjectActive(tasks[0].project_id)
+
+    const taskIds = [Number(id), ...(await collectSubtaskIds(id, tasks[0].deleted_at))]
+    await db.query(
+      `UPDATE tasks SET is_deleted = false, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP(3) WHERE id IN (${taskIds.map(() => '?').join(',')})`,
+      taskIds
+    )
+    await recordSprintSnapshotsForTasks(taskIds)
+    await createActivityLog({
+      userId: actorUserId,
+      projectId: tasks[0].project_id,
+      taskId: id,
+      type: 'TASK_RESTORED',
+      action: `Task "${tasks[0].title}" restored`,
+    })
+    return true
+  },
+
+  /**
+   * Restore a comment with the replies deleted together with it - its project (and task, for a task comment)
+   * must not be in the trash and a reply can only come back once its comment is restored
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  restoreComment: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can restore comments.')
+    const comments = (await db.query(
+      `SELECT c.id, c.project_id, c.deleted_at, c.parent_comment_id, parent.is_deleted as parent_is_deleted,
+        t.title as task_title, t.is_deleted as task_is_deleted
+      FROM comments c
+      LEFT JOIN comments parent ON c.parent_comment_id = parent.id
+      LEFT JOIN tasks t ON c.task_id = t.id
+      WHERE c.id = ? AND c.is_deleted = true`,
+      [id]
+    )) as any[]
+    if (comments.length === 0) throw new Error('Comment not found in trash')
+    if (comments[0].parent_is_deleted) throw new Error('Restore the comment this reply belongs to first')
+    await assertProjectActive(comments[0].project_id)
+    if (comments[0].task_is_deleted) throw new Error(`Restore the task "${comments[0].task_title}" first.`)
+
+    await db.query(
+      `UPDATE comments SET is_deleted = false, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP(3)
+      WHERE is_deleted = true AND (id = ? OR (parent_comment_id = ? AND deleted_at <=> ?))`,
+      [id, id, comments[0].deleted_at]
+    )
+    return true
+  },
+
+  /**
+   * Restore a user account
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  restoreUser: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const actorUserId = await requireGlobalAdmin(context, 'Only administrators can restore users.')
+    const result = (await db.query(
+      'UPDATE users SET is_deleted = false, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = true',
+      [id]
+    )) as any
+    if (result.affectedRows === 0) throw new Error('User not found in trash')
+
+    await createActivityLog({
+      userId: actorUserId,
+      targetUserId: id,
+      type: 'USER_RESTORED',
+      action: `User ${id} restored`,
+    })
+    return true
+  },
+
+  /**
+   * Permanently delete an item from the trash
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  purge: async (_: any, { resourceType, id }: { resourceType: string; id: string }, context: { req: any }) => {
+    await requireGlobalAdmin(context, 'Only administrators can empty the trash.')
+    if (!isTrashResourceType(resourceType)) throw new Error('Invalid resource type. Expected PROJECT, TASK, COMMENT or USER')
+    if (!(await purgeTrashItem(resourceType, id))) throw new Error('Item not found in trash')
+    return true
+  },
+}
@@ -0,0 +1,40 @@
+/**
+ * Trash Feature Schema
+ * GraphQL type definitions for browsing, restoring and purging soft-deleted items
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const trashTypeDefs = `
+  type TrashItem {
+    id: ID!
+    resourceType: String!
+    title: String!
+    details: String
+    projectId: String
+    projectName: String
+    deletedAt: String
+    purgeAt: String
+  }
+
+  type TrashPage {
+    items: [TrashItem!]!
+    total: Int!
+    page: Int!
+    pageSize: Int!
+    retentionDays: Int!
+  }
+`
+
+export const trashQueryDefs = `
+  trash(resourceType: String!, page: Int, pageSize: Int): TrashPage!
+`
+
+export const trashMutationDefs = `
+  restoreProject(id: ID!): Boolean!
+  restoreTask(id: ID!): Boolean!
+  restoreComment(id: ID!): Boolean!
+  restoreUser(id: ID!): Boolean!
+  purge(resourceType: String!, id: ID!): Boolean!
+`
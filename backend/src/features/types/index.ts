@@ -6,5 +6,5 @@
  * @date 2025-11-26
  */
 
-export { taskTypeResolvers, projectTypeResolvers } from './types.resolvers'
+export { taskTypeResolvers, projectTypeResolvers, commentTypeResolvers } from './types.resolvers'
 
@@ -9,6 +9,66 @@
 import { db } from '../../db'
 import { formatDateToISO, mapTeamMemberRecord } from '../../utils/formatters'
 import { tryGetUserIdFromRequest } from '../../utils/helpers'
+import { calculateTaskProgress, getProjectTaskProgress } from '../../utils/taskHierarchy'
+import { categorizeStatus, getProjectWorkflow } from '../../utils/workflows'
+import { getProjectTimeSpent, getTaskTimeSpent } from '../../utils/timeTracking'
+import { getProjectMilestones } from '../../utils/milestones'
+import { getTaskRecurrence } from '../../utils/recurrences'
+import { getChecklistProgress, getTaskChecklist } from '../../utils/checklists'
+import { getTaskWatchers, getWatchedTaskIds, isWatchingProject } from '../../utils/watchers'
+import { fetchComments, getCommentReplies } from '../../utils/comments'
+import { getMentionCandidates } from '../../utils/mentions'
+
+/**
+ * Load tasks in the Task shape used by the parent, subtasks and dependency fields
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchRelatedTasks = async (condition: string, params: any[], userId: number | null) => {
+  const tasks = (await db.query(
+    `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date, t.estimate_minutes,
+      t.project_id, t.assigned_to, t.parent_task_id, t.sprint_id, t.board_rank, t.version, t.created_at, t.updated_at,
+      u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
+      u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
+      u.created_at as owner_created_at, u.updated_at as owner_updated_at,
+      (SELECT COUNT(*) FROM task_likes tl WHERE tl.task_id = t.id) as likes_count,
+      (SELECT COUNT(*) FROM task_likes tl WHERE tl.task_id = t.id AND tl.user_id = ?) as user_likes,
+      (SELECT COUNT(*) FROM comments c WHERE c.task_id = t.id AND c.is_deleted = false) as comments_count
+    FROM tasks t
+    LEFT JOIN users u ON t.assigned_to = u.id AND u.is_deleted = false
+    WHERE ${condition} AND t.is_deleted = false ORDER BY t.created_at ASC`,
+    [userId || 0, ...params]
+  )) as any[]
+
+  return tasks.map((task: any) => ({
+    id: task.id.toString(),
+    uuid: task.uuid || '',
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+    estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
+    projectId: task.project_id.toString(),
+    assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+    parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+    sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+    boardRank: Number(task.board_rank),
+    owner: task.owner_user_id ? {
+      id: task.owner_user_id.toString(), uuid: task.owner_uuid || '',
+      firstName: task.owner_first_name || '', lastName: task.owner_last_name || '',
+      email: task.owner_email || '', role: task.owner_role || '',
+      createdAt: formatDateToISO(task.owner_created_at), updatedAt: formatDateToISO(task.owner_updated_at),
+    } : null,
+    likesCount: Number(task.likes_count || 0),
+    commentsCount: Number(task.comments_count || 0),
+    isLiked: Number(task.user_likes || 0) > 0,
+    version: task.version !== null ? Number(task.version) : null,
+    createdAt: formatDateToISO(task.created_at),
+    updatedAt: formatDateToISO(task.updated_at),
+  }))
+}
 
 /**
  * Task type resolvers
@@ -40,6 +100,94 @@ export const taskTypeResolvers = {
       return []
     }
   },
+
+  parent: async (parent: { parentTaskId?: string | null }, _: any, context: { req: any }) => {
+    if (!parent.parentTaskId) return null
+    const tasks = await fetchRelatedTasks('t.id = ?', [parent.parentTaskId], tryGetUserIdFromRequest(context.req))
+    return tasks[0] || null
+  },
+
+  subtasks: async (parent: { id: string }, _: any, context: { req: any }) => {
+    try {
+      return await fetchRelatedTasks('t.parent_task_id = ?', [Number(parent.id)], tryGetUserIdFromRequest(context.req))
+    } catch {
+      return []
+    }
+  },
+
+  blockedBy: async (parent: { id: string }, _: any, context: { req: any }) => {
+    try {
+      return await fetchRelatedTasks(
+        't.id IN (SELECT blocker_task_id FROM task_dependencies WHERE blocked_task_id = ?)',
+        [Number(parent.id)],
+        tryGetUserIdFromRequest(context.req)
+      )
+    } catch {
+      return []
+    }
+  },
+
+  blocks: async (parent: { id: string }, _: any, context: { req: any }) => {
+    try {
+      return await fetchRelatedTasks(
+        't.id IN (SELECT blocked_task_id FROM task_dependencies WHERE blocker_task_id = ?)',
+        [Number(parent.id)],
+        tryGetUserIdFromRequest(context.req)
+      )
+    } catch {
+      return []
+    }
+  },
+
+  /** List resolvers precompute progress; tasks loaded elsewhere compute it from their project */
+  progress: async (parent: { id: string; projectId: string; progress?: number }) => {
+    if (typeof parent.progress === 'number') return parent.progress
+    const progressById = await getProjectTaskProgress(parent.projectId)
+    return progressById.get(Number(parent.id)) ?? 0
+  },
+
+  /** List resolvers precompute the category; other tasks look it up in their project's workflow */
+  statusCategory: async (parent: { status: string; projectId: string; statusCategory?: string }) => {
+    if (parent.statusCategory) return parent.statusCategory
+    return categorizeStatus(await getProjectWorkflow(parent.projectId), parent.status)
+  },
+
+  timeSpent: async (parent: { id: string }) => getTaskTimeSpent(parent.id),
+
+  recurrence: async (parent: { id: string }) => getTaskRecurrence(parent.id),
+
+  checklist: async (parent: { id: string }) => getTaskChecklist(parent.id),
+
+  /** List resolvers precompute checklist progress; other tasks count their own items */
+  checklistProgress: async (parent: { id: string; checklistProgress?: { completed: number; total: number } }) => {
+    if (parent.checklistProgress) return parent.checklistProgress
+    const progressById = await getChecklistProgress([parent.id])
+    return progressById.get(Number(parent.id)) ?? { completed: 0, total: 0 }
+  },
+
+  /** Top-level comments on the task, newest first, each with its replies */
+  comments: async (parent: { id: string }, _: any, context: { req: any }) => {
+    const userId = tryGetUserIdFromRequest(context.req)
+    const comments = await fetchComments('c.task_id = ? AND c.parent_comment_id IS NULL', [Number(parent.id)], userId)
+    const replies = await getCommentReplies(comments.map((comment) => comment.id), userId)
+    return comments.map((comment) => ({ ...comment, replies: replies.get(comment.id) || [] }))
+  },
+
+  /** List resolvers precompute the count, replies included; mutation results count here */
+  commentsCount: async (parent: { id: string; commentsCount?: number }) => {
+    if (parent.commentsCount !== undefined) return parent.commentsCount
+    const rows = (await db.query('SELECT COUNT(*) as count FROM comments WHERE task_id = ? AND is_deleted = false', [parent.id])) as any[]
+    return Number(rows[0]?.count || 0)
+  },
+
+  watchers: async (parent: { id: string }) => getTaskWatchers(parent.id),
+
+  /** List resolvers precompute whether the viewer watches the task; other tasks look it up */
+  isWatching: async (parent: { id: string; isWatching?: boolean }, _: any, context: { req: any }) => {
+    if (typeof parent.isWatching === 'boolean') return parent.isWatching
+    const watched = await getWatchedTaskIds(tryGetUserIdFromRequest(context.req), [parent.id])
+    return watched.has(Number(parent.id))
+  },
 }
 
 /**
@@ -55,16 +203,17 @@ export const projectTypeResolvers = {
       const userId = tryGetUserIdFromRequest(context.req)
 
       const tasks = (await db.query(
-        `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date,
-          t.project_id, t.assigned_to, t.created_at, t.updated_at,
+        `SELECT t.id, t.uuid, t.title, t.description, t.status, t.priority, t.due_date, t.estimate_minutes,
+          t.project_id, t.assigned_to, t.parent_task_id, t.sprint_id, t.board_rank, t.created_at, t.updated_at,
           u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
           u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
           u.created_at as owner_created_at, u.updated_at as owner_updated_at,
           COALESCE(tl.likes_count, 0) as likes_count,
-          0 as comments_count
+          COALESCE(tc.comments_count, 0) as comments_count
         FROM tasks t
         LEFT JOIN users u ON t.assigned_to = u.id AND u.is_deleted = false
         LEFT JOIN (SELECT task_id, COUNT(*) as likes_count FROM task_likes GROUP BY task_id) tl ON t.id = tl.task_id
+        LEFT JOIN (SELECT task_id, COUNT(*) as comments_count FROM comments WHERE is_deleted = false AND task_id IS NOT NULL GROUP BY task_id) tc ON t.id = tc.task_id
         WHERE t.project_id = ? AND t.is_deleted = false ORDER BY t.created_at DESC`,
         [projectId]
       )) as any[]
@@ -79,6 +228,9 @@ export const projectTypeResolvers = {
         )) as any[]
         userLikedTasks = new Set(userLikes.map((like: any) => Number(like.task_id)))
       }
+      const watchedTaskIds = await getWatchedTaskIds(userId, tasks.map((t: any) => t.id))
+      const workflow = await getProjectWorkflow(projectId)
+      const progressById = calculateTaskProgress(tasks, (task: any) => categorizeStatus(workflow, task.status) === 'DONE')
 
       return tasks.map((task: any) => ({
         id: task.id.toString(),
@@ -86,10 +238,16 @@ export const projectTypeResolvers = {
         title: task.title,
         description: task.description,
         status: task.status,
+        statusCategory: categorizeStatus(workflow, task.status),
         priority: task.priority,
         dueDate: task.due_date ? formatDateToISO(task.due_date) : null,
+        estimateMinutes: task.estimate_minutes !== null ? Number(task.estimate_minutes) : null,
         projectId: task.project_id.toString(),
         assignedTo: task.assigned_to ? task.assigned_to.toString() : null,
+        parentTaskId: task.parent_task_id ? task.parent_task_id.toString() : null,
+        sprintId: task.sprint_id ? task.sprint_id.toString() : null,
+        boardRank: Number(task.board_rank),
+        progress: progressById.get(Number(task.id)) ?? 0,
         owner: task.owner_user_id ? {
           id: task.owner_user_id.toString(), uuid: task.owner_uuid || '',
           firstName: task.owner_first_name || '', lastName: task.owner_last_name || '',
@@ -99,6 +257,7 @@ export const projectTypeResolvers = {
         likesCount: Number(task.likes_count || 0),
         commentsCount: Number(task.comments_count || 0),
         isLiked: userId ? userLikedTasks.has(Number(task.id)) : false,
+        isWatching: watchedTaskIds.has(Number(task.id)),
         createdAt: formatDateToISO(task.created_at),
         updatedAt: formatDateToISO(task.updated_at),
       }))
@@ -107,6 +266,21 @@ export const projectTypeResolvers = {
     }
   },
 
+  workflow: async (parent: { id: string }) => getProjectWorkflow(parent.id),
+
+  timeSpent: async (parent: { id: string }, { from, to }: { from?: string | null; to?: string | null }) =>
+    getProjectTimeSpent(parent.id, { from, to }),
+
+  milestones: async (parent: { id: string }) => getProjectMilestones(parent.id),
+
+  isWatching: async (parent: { id: string }, _: any, context: { req: any }) =>
+    isWatchingProject(tryGetUserIdFromRequest(context.req), parent.id),
+
+  mentionCandidates: async (parent: { id: string }) =>
+    (await getMentionCandidates(parent.id))
+      .filter((candidate) => candidate.fullName)
+      .map((candidate) => ({ userId: candidate.id.toString(), name: candidate.fullName })),
+
   members: async (parent: { id: string }) => {
     try {
       const projectId = Number(parent.id)
@@ -128,50 +302,32 @@ export const projectTypeResolvers = {
 
   comments: async (parent: { id: string }, _: any, context: { req: any }) => {
     try {
-      const projectId = Number(parent.id)
       const userId = tryGetUserIdFromRequest(context.req)
-
-      const comments = (await db.query(
-        `SELECT c.id, c.uuid, c.content, c.project_id, c.created_at, c.updated_at,
-          u.id as user_id, u.first_name, u.last_name, u.email, u.role, u.uuid as user_uuid,
-          u.created_at as user_created_at, u.updated_at as user_updated_at,
-          COALESCE(cl.likes_count, 0) as likes_count
-        FROM comments c
-        LEFT JOIN users u ON c.user_id = u.id AND u.is_deleted = false
-        LEFT JOIN (SELECT comment_id, COUNT(*) as likes_count FROM comment_likes GROUP BY comment_id) cl ON c.id = cl.comment_id
-        WHERE c.project_id = ? AND c.is_deleted = false ORDER BY c.created_at DESC`,
-        [projectId]
-      )) as any[]
-
-      let userLikedComments: Set<number> = new Set()
-      if (userId && comments.length > 0) {
-        const commentIds = comments.map((c: any) => c.id)
-        const placeholders = commentIds.map(() => '?').join(',')
-        const userLikes = (await db.query(
-          `SELECT comment_id FROM comment_likes WHERE user_id = ? AND comment_id IN (${placeholders})`,
-          [userId, ...commentIds]
-        )) as any[]
-        userLikedComments = new Set(userLikes.map((like: any) => Number(like.comment_id)))
-      }
-
-      return comments.map((c: any) => ({
-        id: c.id.toString(),
-        uuid: c.uuid || '',
-        content: c.content,
-        projectId: c.project_id ? c.project_id.toString() : null,
-        user: c.user_id ? {
-          id: c.user_id.toString(), uuid: c.user_uuid || '', firstName: c.first_name || '',
-          lastName: c.last_name || '', email: c.email || '', role: c.role || '',
-          createdAt: formatDateToISO(c.user_created_at), updatedAt: formatDateToISO(c.user_updated_at),
-        } : null,
-        likesCount: Number(c.likes_count || 0),
-        isLiked: userId ? userLikedComments.has(Number(c.id)) : false,
-        createdAt: formatDateToISO(c.created_at),
-        updatedAt: formatDateToISO(c.updated_at),
-      }))
+      // Top-level comments only; replies are attached to their thread, oldest first
+      // Comments on the project's tasks are listed on the tasks
+      const comments = await fetchComments('c.project_id = ? AND c.task_id IS NULL AND c.parent_comment_id IS NULL', [Number(parent.id)], userId)
+      const replies = await getCommentReplies(comments.map((comment) => comment.id), userId)
+      return comments.map((comment) => ({ ...comment, replies: replies.get(comment.id) || [] }))
     } catch {
       return []
     }
   },
 }
 
+
+/**
+ * Comment type resolvers
+ * Project.comments precomputes replies; other comment lists load them here
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const commentTypeResolvers = {
+  replies: async (parent: { id: string; replies?: any[] }, _: any, context: { req: any }) => {
+    if (parent.replies) return parent.replies
+    const replies = await getCommentReplies([parent.id], tryGetUserIdFromRequest(context.req))
+    return replies.get(parent.id) || []
+  },
+
+  replyCount: (parent: { replyCount?: number; replies?: any[] }) => parent.replyCount ?? parent.replies?.length ?? 0,
+}
@@ -11,7 +11,17 @@ import crypto from 'crypto'
 import { db } from '../../db'
 import { hashPassword } from '../../utils/auth'
 import { formatDateToISO } from '../../utils/formatters'
-import { requireAuthentication } from '../../utils/helpers'
+import {
+  requireAuthentication,
+  requireSessionUser,
+  requireGlobalAdmin,
+  isGlobalAdmin,
+  createForbiddenError,
+  createActivityLog,
+  createConflictError,
+  buildVersionCondition,
+} from '../../utils/helpers'
+import { clearLoginFailures } from '../../utils/loginThrottle'
 
 /**
  * Users Query Resolvers
@@ -29,7 +39,12 @@ export const usersQueryResolvers = {
   users: async (_: any, __: any, context: { req: any }) => {
     requireAuthentication(context, 'Authentication required to fetch users.')
     const users = (await db.query(
-      'SELECT id, uuid, first_name, last_name, email, role, created_at, updated_at FROM users WHERE is_deleted = false ORDER BY created_at DESC'
+      `SELECT u.id, u.uuid, u.first_name, u.last_name, u.email, u.role, u.two_factor_enabled, u.version, u.created_at, u.updated_at,
+         lt.locked_until
+       FROM users u
+       LEFT JOIN login_throttles lt ON lt.scope = 'EMAIL' AND lt.identifier = LOWER(u.email) AND lt.locked_until > NOW(3)
+       WHERE u.is_deleted = false
+       ORDER BY u.created_at DESC`
     )) as any[]
     return users.map((user: any) => ({
       id: user.id.toString(),
@@ -38,6 +53,9 @@ export const usersQueryResolvers = {
       lastName: user.last_name,
       email: user.email,
       role: user.role,
+      twoFactorEnabled: Boolean(user.two_factor_enabled),
+      lockedUntil: user.locked_until ? formatDateToISO(user.locked_until) : null,
+      version: user.version !== null ? Number(user.version) : null,
       createdAt: formatDateToISO(user.created_at),
       updatedAt: formatDateToISO(user.updated_at),
     }))
@@ -52,13 +70,13 @@ export const usersQueryResolvers = {
  */
 export const usersMutationResolvers = {
   /**
-   * Create user mutation - requires authentication
+   * Create user mutation - requires the global Admin role
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   createUser: async (_: any, { input }: { input: any }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to create users.')
+    await requireGlobalAdmin(context, 'Only administrators can create users.')
     const existingUsers = (await db.query(
       'SELECT * FROM users WHERE email = ? AND is_deleted = false',
       [input.email]
@@ -103,13 +121,18 @@ export const usersMutationResolvers = {
   },
 
   /**
-   * Update user mutation - requires authentication
+   * Update user mutation - users may edit their own profile, administrators may edit anyone
+   * Changing a role always requires the global Admin role
+   * Rejects the edit with CONFLICT when input.expectedVersion is stale
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   updateUser: async (_: any, { id, input }: { id: string; input: any }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to update users.')
+    const actorUserId = requireSessionUser(context)
+    const isAdmin = await isGlobalAdmin(actorUserId)
+    if (!isAdmin && Number(id) !== actorUserId) throw createForbiddenError('You can only update your own profile.')
+    if (!isAdmin && input.role !== undefined) throw createForbiddenError('Only administrators can change user roles.')
     const updates: string[] = []
     const values: any[] = []
 
@@ -135,13 +158,14 @@ export const usersMutationResolvers = {
     }
 
     values.push(id)
-    await db.query(
-      `UPDATE users SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false`,
+    const versionCondition = buildVersionCondition(input.expectedVersion, values)
+    const result = (await db.query(
+      `UPDATE users SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false${versionCondition}`,
       values
-    )
+    )) as any
 
     const users = (await db.query(
-      'SELECT id, uuid, first_name, last_name, email, role, created_at, updated_at FROM users WHERE id = ? AND is_deleted = false',
+      'SELECT id, uuid, first_name, last_name, email, role, version, created_at, updated_at FROM users WHERE id = ? AND is_deleted = false',
       [id]
     )) as any[]
 
@@ -150,29 +174,32 @@ export const usersMutationResolvers = {
     }
 
     const user = users[0]
-
-    return {
+    const formattedUser = {
       id: user.id.toString(),
       uuid: user.uuid,
       firstName: user.first_name,
       lastName: user.last_name,
       email: user.email,
       role: user.role,
+      version: user.version !== null ? Number(user.version) : null,
       createdAt: formatDateToISO(user.created_at),
       updatedAt: formatDateToISO(user.updated_at),
     }
+    if (versionCondition && result.affectedRows === 0) throw createConflictError('user', formattedUser)
+
+    return formattedUser
   },
 
   /**
-   * Delete user mutation (soft delete) - requires authentication
+   * Delete user mutation (soft delete) - requires the global Admin role
    *
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   deleteUser: async (_: any, { id }: { id: string }, context: { req: any }) => {
-    requireAuthentication(context, 'Authentication required to delete users.')
+    await requireGlobalAdmin(context, 'Only administrators can delete users.')
     const result = (await db.query(
-      'UPDATE users SET is_deleted = true, updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
+      'UPDATE users SET is_deleted = true, deleted_at = CURRENT_TIMESTAMP(3), updated_at = CURRENT_TIMESTAMP(3) WHERE id = ? AND is_deleted = false',
       [id]
     )) as any
 
@@ -182,5 +209,41 @@ export const usersMutationResolvers = {
 
     return true
   },
-}
 
+  /**
+   * Unlock user mutation - clears a temporary login lockout - requires the global Admin role
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  unlockUser: async (_: any, { id }: { id: string }, context: { req: any }) => {
+    const adminId = await requireGlobalAdmin(context, 'Only administrators can unlock users.')
+    const users = (await db.query(
+      'SELECT id, uuid, first_name, last_name, email, role, two_factor_enabled, created_at, updated_at FROM users WHERE id = ? AND is_deleted = false',
+      [id]
+    )) as any[]
+    if (users.length === 0) throw new Error('User not found')
+
+    const user = users[0]
+    await clearLoginFailures(user.email)
+    await createActivityLog({
+      userId: adminId,
+      targetUserId: user.id,
+      type: 'USER_UNLOCKED',
+      metadata: { email: user.email },
+    })
+
+    return {
+      id: user.id.toString(),
+      uuid: user.uuid,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      email: user.email,
+      role: user.role,
+      twoFactorEnabled: Boolean(user.two_factor_enabled),
+      lockedUntil: null,
+      createdAt: formatDateToISO(user.created_at),
+      updatedAt: formatDateToISO(user.updated_at),
+    }
+  },
+}
@@ -15,6 +15,9 @@ export const usersTypeDefs = `
     lastName: String!
     email: String!
     role: String!
+    twoFactorEnabled: Boolean
+    lockedUntil: String
+    version: Int
     createdAt: String!
     updatedAt: String!
   }
@@ -32,6 +35,7 @@ export const usersTypeDefs = `
     lastName: String
     email: String
     role: String
+    expectedVersion: Int
   }
 `
 
@@ -43,5 +47,6 @@ export const usersMutationDefs = `
   createUser(input: CreateUserInput!): User!
   updateUser(id: ID!, input: UpdateUserInput!): User!
   deleteUser(id: ID!): Boolean!
+  unlockUser(id: ID!): User!
 `
 
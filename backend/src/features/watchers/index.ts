@@ -0,0 +1,10 @@
+/**
+ * Watchers Feature Index
+ * Exports watchers schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { watchersTypeDefs, watchersQueryDefs, watchersMutationDefs } from './watchers.schema'
+export { watchersQueryResolvers, watchersMutationResolvers } from './watchers.resolvers'
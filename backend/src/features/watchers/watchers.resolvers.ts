@@ -0,0 +1,89 @@
+/**
+ * Watchers Feature Resolvers
+ * Watches and unwatches tasks and projects for the signed-in user
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { requirePermission } from '../../utils/helpers'
+import { addProjectWatcher, addTaskWatchers, getTaskWatchers } from '../../utils/watchers'
+
+/**
+ * Watchers Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const watchersQueryResolvers = {
+  /**
+   * Users watching a task directly
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  taskWatchers: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const tasks = (await db.query('SELECT project_id FROM tasks WHERE id = ? AND is_deleted = false', [taskId])) as any[]
+    if (tasks.length === 0 || !isProjectInApiTokenScope(context.req, tasks[0].project_id)) return []
+    return getTaskWatchers(taskId)
+  },
+}
+
+/**
+ * Watchers Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const watchersMutationResolvers = {
+  /**
+   * Watch a task - requires READ permission on the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  watchTask: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const userId = await requirePermission(context, 'TASK', taskId, 'READ', 'You do not have permission to view this task.')
+    await addTaskWatchers(taskId, [userId])
+    return { taskId, isWatching: true, watchers: await getTaskWatchers(taskId) }
+  },
+
+  /**
+   * Stop watching a task
+   * Watchers of the task's project keep hearing about it until they unwatch the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  unwatchTask: async (_: any, { taskId }: { taskId: string }, context: { req: any }) => {
+    const userId = await requirePermission(context, 'TASK', taskId, 'READ', 'You do not have permission to view this task.')
+    await db.query('DELETE FROM task_watchers WHERE task_id = ? AND user_id = ?', [taskId, userId])
+    return { taskId, isWatching: false, watchers: await getTaskWatchers(taskId) }
+  },
+
+  /**
+   * Watch a project and so every task of it - requires READ permission on the project
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  watchProject: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
+    const userId = await requirePermission(context, 'PROJECT', projectId, 'READ', 'You do not have permission to view this project.')
+    await addProjectWatcher(projectId, userId)
+    return { projectId, isWatching: true }
+  },
+
+  /**
+   * Stop watching a project; tasks watched directly stay watched
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  unwatchProject: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
+    const userId = await requirePermission(context, 'PROJECT', projectId, 'READ', 'You do not have permission to view this project.')
+    await db.query('DELETE FROM project_watchers WHERE project_id = ? AND user_id = ?', [projectId, userId])
+    return { projectId, isWatching: false }
+  },
+}
@@ -0,0 +1,32 @@
+/**
+ * Watchers Feature Schema
+ * GraphQL type definitions for watching tasks and projects
+ * Task events notify only the watchers of the task and of its project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const watchersTypeDefs = `
+  type TaskWatchResponse {
+    taskId: ID!
+    isWatching: Boolean!
+    watchers: [User!]!
+  }
+
+  type ProjectWatchResponse {
+    projectId: ID!
+    isWatching: Boolean!
+  }
+`
+
+export const watchersQueryDefs = `
+  taskWatchers(taskId: ID!): [User!]!
+`
+
+export const watchersMutationDefs = `
+  watchTask(taskId: ID!): TaskWatchResponse!
+  unwatchTask(taskId: ID!): TaskWatchResponse!
+  watchProject(projectId: ID!): ProjectWatchResponse!
+  unwatchProject(projectId: ID!): ProjectWatchResponse!
+`
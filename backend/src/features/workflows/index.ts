@@ -0,0 +1,10 @@
+/**
+ * Workflows Feature Index
+ * Exports workflow schema and resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { workflowsTypeDefs, workflowsQueryDefs, workflowsMutationDefs } from './workflows.schema'
+export { workflowsQueryResolvers, workflowsMutationResolvers } from './workflows.resolvers'
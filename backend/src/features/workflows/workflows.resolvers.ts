@@ -0,0 +1,158 @@
+/**
+ * Workflows Feature Resolvers
+ * Reads and replaces the ordered states and allowed transitions of a project's workflow
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../../db'
+import { isProjectInApiTokenScope } from '../../utils/apiTokens'
+import { createActivityLog, requirePermission } from '../../utils/helpers'
+import { getProjectWorkflow } from '../../utils/workflows'
+import {
+  MAX_WORKFLOW_STATES,
+  WORKFLOW_CATEGORIES,
+  WORKFLOW_STATE_KEY_PATTERN,
+  WorkflowCategory,
+} from '../../constants/workflows'
+
+interface WorkflowInput {
+  states: Array<{ key: string; name: string; category: string; wipLimit?: number | null }>
+  transitions?: Array<{ from: string; to: string }> | null
+}
+
+/**
+ * Normalise and validate a workflow before it is stored
+ * Keys are upper-cased, duplicate transitions are dropped
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const normalizeWorkflowInput = (input: WorkflowInput) => {
+  if (input.states.length === 0) throw new Error('A workflow needs at least one state')
+  if (input.states.length > MAX_WORKFLOW_STATES) throw new Error(`A workflow can have at most ${MAX_WORKFLOW_STATES} states`)
+
+  const states = input.states.map((state) => ({
+    key: state.key.trim().toUpperCase(),
+    name: state.name.trim(),
+    category: state.category as WorkflowCategory,
+    wipLimit: state.wipLimit ?? null,
+  }))
+  const keys = new Set<string>()
+  states.forEach((state) => {
+    if (!WORKFLOW_STATE_KEY_PATTERN.test(state.key)) {
+      throw new Error(`"${state.key}" is not a valid state key. Use letters, digits and underscores, starting with a letter.`)
+    }
+    if (keys.has(state.key)) throw new Error(`State "${state.key}" is listed twice`)
+    if (!state.name || state.name.length > 50) throw new Error(`State "${state.key}" needs a name of at most 50 characters`)
+    if (!WORKFLOW_CATEGORIES.includes(state.category)) {
+      throw new Error(`State "${state.key}" has an unknown category. Use one of: ${WORKFLOW_CATEGORIES.join(', ')}.`)
+    }
+    if (state.wipLimit !== null && (!Number.isInteger(state.wipLimit) || state.wipLimit < 1)) {
+      throw new Error(`The WIP limit of "${state.key}" must be a whole number of at least 1`)
+    }
+    keys.add(state.key)
+  })
+  if (!states.some((state) => state.category === 'DONE')) throw new Error('A workflow needs at least one state in the DONE category')
+
+  const transitions: Array<{ from: string; to: string }> = []
+  for (const transition of input.transitions || []) {
+    const from = transition.from.trim().toUpperCase()
+    const to = transition.to.trim().toUpperCase()
+    if (!keys.has(from) || !keys.has(to)) throw new Error(`Transition ${from} -> ${to} uses a state that is not in the workflow`)
+    if (from === to || transitions.some((existing) => existing.from === from && existing.to === to)) continue
+    transitions.push({ from, to })
+  }
+  return { states, transitions }
+}
+
+/**
+ * Workflows Query Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const workflowsQueryResolvers = {
+  /**
+   * Fetch a project's workflow - projects without their own get the default TODO / IN_PROGRESS / DONE workflow
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  projectWorkflow: async (_: any, { projectId }: { projectId: string }, context: { req: any }) => {
+    const projects = (await db.query('SELECT id FROM projects WHERE id = ? AND is_deleted = false', [projectId])) as any[]
+    if (projects.length === 0 || !isProjectInApiTokenScope(context.req, projects[0].id)) throw new Error('Project not found')
+    return getProjectWorkflow(projectId)
+  },
+}
+
+/**
+ * Workflows Mutation Resolvers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const workflowsMutationResolvers = {
+  /**
+   * Replace a project's workflow - requires ADMIN permission on the project
+   * States still used by tasks of the project, including tasks in the trash, cannot be removed
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  updateProjectWorkflow: async (
+    _: any,
+    { projectId, input }: { projectId: string; input: WorkflowInput },
+    context: { req: any }
+  ) => {
+    const actorUserId = await requirePermission(context, 'PROJECT', projectId, 'ADMIN', 'Only project owners can change the workflow.')
+    const { states, transitions } = normalizeWorkflowInput(input)
+
+    const usedStatuses = (await db.query(
+      'SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? GROUP BY status',
+      [projectId]
+    )) as any[]
+    const missing = usedStatuses.filter((row: any) => !states.some((state) => state.key === row.status))
+    if (missing.length > 0) {
+      throw new Error(
+        `Move the tasks out of these states before removing them: ${missing.map((row: any) => `${row.status} (${row.count})`).join(', ')}`
+      )
+    }
+
+    const connection = await db.getConnection()
+    try {
+      await connection.beginTransaction()
+      await connection.query('DELETE FROM workflow_states WHERE project_id = ?', [projectId])
+      const stateIds = new Map<string, number>()
+      for (const [position, state] of states.entries()) {
+        const [result] = (await connection.query(
+          'INSERT INTO workflow_states (project_id, state_key, name, category, position, wip_limit) VALUES (?, ?, ?, ?, ?, ?)',
+          [projectId, state.key, state.name, state.category, position, state.wipLimit]
+        )) as any
+        stateIds.set(state.key, result.insertId)
+      }
+      for (const transition of transitions) {
+        await connection.query(
+          'INSERT INTO workflow_transitions (project_id, from_state_id, to_state_id) VALUES (?, ?, ?)',
+          [projectId, stateIds.get(transition.from), stateIds.get(transition.to)]
+        )
+      }
+      await connection.commit()
+    } catch (error) {
+      await connection.rollback()
+      throw error
+    } finally {
+      connection.release()
+    }
+
+    await createActivityLog({
+      userId: actorUserId,
+      projectId,
+      type: 'PROJECT_UPDATED',
+      action: `Workflow updated to ${states.map((state) => state.key).join(' / ')}`,
+      metadata: { states: states.map((state) => state.key), transitions: transitions.length },
+    })
+    return getProjectWorkflow(projectId)
+  },
+}
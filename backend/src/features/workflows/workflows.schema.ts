@@ -0,0 +1,57 @@
+/**
+ * Workflows Feature Schema
+ * GraphQL type definitions for per-project task workflows
+ * A workflow is an ordered list of states, each in the NOT_STARTED, ACTIVE or DONE category,
+ * plus the transitions allowed between them (none means any move is allowed)
+ * wipLimit caps the cards in the state's board column
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export const workflowsTypeDefs = `
+  type WorkflowState {
+    key: String!
+    name: String!
+    category: String!
+    position: Int!
+    wipLimit: Int
+  }
+
+  type WorkflowTransition {
+    from: String!
+    to: String!
+  }
+
+  type Workflow {
+    projectId: String!
+    states: [WorkflowState!]!
+    transitions: [WorkflowTransition!]!
+    isCustom: Boolean!
+  }
+
+  input WorkflowStateInput {
+    key: String!
+    name: String!
+    category: String!
+    wipLimit: Int
+  }
+
+  input WorkflowTransitionInput {
+    from: String!
+    to: String!
+  }
+
+  input UpdateProjectWorkflowInput {
+    states: [WorkflowStateInput!]!
+    transitions: [WorkflowTransitionInput!]
+  }
+`
+
+export const workflowsQueryDefs = `
+  projectWorkflow(projectId: ID!): Workflow!
+`
+
+export const workflowsMutationDefs = `
+  updateProjectWorkflow(projectId: ID!, input: UpdateProjectWorkflowInput!): Workflow!
+`
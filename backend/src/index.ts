@@ -16,12 +16,21 @@ import { createServer } from 'http'
 import { typeDefs } from './schema'
 import { resolvers } from './resolvers'
 import { setupWebSocketServer } from './server/websocketSetup'
+import { getTrustProxySetting } from './server/trustProxy'
 import { testDatabaseConnection } from './server/databaseConnection'
 import { isPusherAvailable } from './utils/pusher'
+import { apiTokenScopePlugin, authenticateApiTokenRequest } from './utils/apiTokens'
+import { startTrashRetentionJob } from './utils/trash'
+import { startMilestoneDeadlineJob } from './utils/milestones'
+import { startRecurringTaskJob } from './utils/recurrences'
+import { assertMailTransportConfigured } from './utils/mailer'
 
 const app = express()
 const httpServer = createServer(app)
 
+// Client IPs (sessions, login throttling) come from req.ip, so only trusted proxy hops may set them
+app.set('trust proxy', getTrustProxySetting())
+
 // Parse cookies from requests (needed for HTTP-only refresh token cookies)
 app.use(cookieParser())
 
@@ -89,6 +98,7 @@ const server = new ApolloServer({
     }
   },
   plugins: [
+    apiTokenScopePlugin,
     {
       async serverWillStart() {
         return {
@@ -111,6 +121,7 @@ const server = new ApolloServer({
  */
 async function startServer(): Promise<void> {
   try {
+    assertMailTransportConfigured()
     await server.start()
 
     /**
@@ -158,6 +169,8 @@ async function startServer(): Promise<void> {
       express.json({ limit: '10mb', type: 'application/json' }),
       expressMiddleware(server, {
         context: async ({ req, res }: { req: Request; res: Response }) => {
+          // Personal API tokens are resolved here so tryGetUserIdFromRequest can stay synchronous
+          await authenticateApiTokenRequest(req)
           return { req, res }
         },
       })
@@ -212,6 +225,27 @@ async function startServer(): Promise<void> {
       // Don't exit - let server continue running
     })
 
+    /**
+     * Purge trash items older than TRASH_RETENTION_DAYS in the background
+     * @author Thang Truong
+     * @date 2025-12-10
+     */
+    startTrashRetentionJob()
+
+    /**
+     * Alert project participants about milestones that are at risk or missed
+     * @author Thang Truong
+     * @date 2025-12-10
+     */
+    startMilestoneDeadlineJob()
+
+    /**
+     * Create the next occurrences of recurring tasks that were finished or passed their due date
+     * @author Thang Truong
+     * @date 2025-12-10
+     */
+    startRecurringTaskJob()
+
     /**
      * Log Pusher configuration status for real-time features
      * @author Thang Truong
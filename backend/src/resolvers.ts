@@ -29,8 +29,31 @@ import {
   teamQueryResolvers,
   teamMutationResolvers,
   searchQueryResolvers,
+  permissionsQueryResolvers,
+  permissionsMutationResolvers,
+  apiTokensQueryResolvers,
+  apiTokensMutationResolvers,
+  trashQueryResolvers,
+  trashMutationResolvers,
+  workflowsQueryResolvers,
+  workflowsMutationResolvers,
+  timeTrackingQueryResolvers,
+  timeTrackingMutationResolvers,
+  sprintsQueryResolvers,
+  sprintsMutationResolvers,
+  milestonesQueryResolvers,
+  milestonesMutationResolvers,
+  recurrencesQueryResolvers,
+  recurrencesMutationResolvers,
+  checklistsQueryResolvers,
+  checklistsMutationResolvers,
+  watchersQueryResolvers,
+  watchersMutationResolvers,
+  templatesQueryResolvers,
+  templatesMutationResolvers,
   taskTypeResolvers,
   projectTypeResolvers,
+  commentTypeResolvers,
 } from './features'
 
 /**
@@ -52,6 +75,17 @@ export const resolvers = {
     ...activitiesQueryResolvers,
     ...teamQueryResolvers,
     ...searchQueryResolvers,
+    ...permissionsQueryResolvers,
+    ...apiTokensQueryResolvers,
+    ...trashQueryResolvers,
+    ...workflowsQueryResolvers,
+    ...timeTrackingQueryResolvers,
+    ...sprintsQueryResolvers,
+    ...milestonesQueryResolvers,
+    ...recurrencesQueryResolvers,
+    ...checklistsQueryResolvers,
+    ...watchersQueryResolvers,
+    ...templatesQueryResolvers,
   },
   Mutation: {
     ...authMutationResolvers,
@@ -63,6 +97,17 @@ export const resolvers = {
     ...notificationsMutationResolvers,
     ...activitiesMutationResolvers,
     ...teamMutationResolvers,
+    ...permissionsMutationResolvers,
+    ...apiTokensMutationResolvers,
+    ...trashMutationResolvers,
+    ...workflowsMutationResolvers,
+    ...timeTrackingMutationResolvers,
+    ...sprintsMutationResolvers,
+    ...milestonesMutationResolvers,
+    ...recurrencesMutationResolvers,
+    ...checklistsMutationResolvers,
+    ...watchersMutationResolvers,
+    ...templatesMutationResolvers,
   },
   Subscription: {
     ...commentsSubscriptionResolvers,
@@ -70,4 +115,5 @@ export const resolvers = {
   },
   Task: taskTypeResolvers,
   Project: projectTypeResolvers,
+  Comment: commentTypeResolvers,
 }
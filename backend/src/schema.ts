@@ -41,6 +41,39 @@ import {
   teamMutationDefs,
   searchTypeDefs,
   searchQueryDefs,
+  permissionsTypeDefs,
+  permissionsQueryDefs,
+  permissionsMutationDefs,
+  apiTokensTypeDefs,
+  apiTokensQueryDefs,
+  apiTokensMutationDefs,
+  trashTypeDefs,
+  trashQueryDefs,
+  trashMutationDefs,
+  workflowsTypeDefs,
+  workflowsQueryDefs,
+  workflowsMutationDefs,
+  timeTrackingTypeDefs,
+  timeTrackingQueryDefs,
+  timeTrackingMutationDefs,
+  sprintsTypeDefs,
+  sprintsQueryDefs,
+  sprintsMutationDefs,
+  milestonesTypeDefs,
+  milestonesQueryDefs,
+  milestonesMutationDefs,
+  recurrencesTypeDefs,
+  recurrencesQueryDefs,
+  recurrencesMutationDefs,
+  checklistsTypeDefs,
+  checklistsQueryDefs,
+  checklistsMutationDefs,
+  watchersTypeDefs,
+  watchersQueryDefs,
+  watchersMutationDefs,
+  templatesTypeDefs,
+  templatesQueryDefs,
+  templatesMutationDefs,
 } from './features'
 
 /**
@@ -60,6 +93,17 @@ export const typeDefs = gql`
   ${activitiesTypeDefs}
   ${teamTypeDefs}
   ${searchTypeDefs}
+  ${permissionsTypeDefs}
+  ${apiTokensTypeDefs}
+  ${trashTypeDefs}
+  ${workflowsTypeDefs}
+  ${timeTrackingTypeDefs}
+  ${sprintsTypeDefs}
+  ${milestonesTypeDefs}
+  ${recurrencesTypeDefs}
+  ${checklistsTypeDefs}
+  ${watchersTypeDefs}
+  ${templatesTypeDefs}
 
   type Query {
     hello: String
@@ -73,6 +117,17 @@ export const typeDefs = gql`
     ${activitiesQueryDefs}
     ${teamQueryDefs}
     ${searchQueryDefs}
+    ${permissionsQueryDefs}
+    ${apiTokensQueryDefs}
+    ${trashQueryDefs}
+    ${workflowsQueryDefs}
+    ${timeTrackingQueryDefs}
+    ${sprintsQueryDefs}
+    ${milestonesQueryDefs}
+    ${recurrencesQueryDefs}
+    ${checklistsQueryDefs}
+    ${watchersQueryDefs}
+    ${templatesQueryDefs}
   }
 
   type Mutation {
@@ -85,6 +140,17 @@ export const typeDefs = gql`
     ${notificationsMutationDefs}
     ${activitiesMutationDefs}
     ${teamMutationDefs}
+    ${permissionsMutationDefs}
+    ${apiTokensMutationDefs}
+    ${trashMutationDefs}
+    ${workflowsMutationDefs}
+    ${timeTrackingMutationDefs}
+    ${sprintsMutationDefs}
+    ${milestonesMutationDefs}
+    ${recurrencesMutationDefs}
+    ${checklistsMutationDefs}
+    ${watchersMutationDefs}
+    ${templatesMutationDefs}
   }
 
   type Subscription {
@@ -0,0 +1,23 @@
+/**
+ * Trust Proxy Setting
+ * How many reverse proxies sit in front of the API, so req.ip is the real client address
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Express 'trust proxy' value from TRUST_PROXY: a hop count, or false to ignore X-Forwarded-For
+ * Defaults to one hop - Vercel, Railway and Render each put a single proxy in front of the app
+ * Only the trusted hops are read, so clients cannot pick their own IP by sending X-Forwarded-For
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTrustProxySetting = (): number | false => {
+  const value = (process.env.TRUST_PROXY || '1').trim().toLowerCase()
+  if (value === 'false') return false
+  const hops = Number(value)
+  if (!Number.isInteger(hops) || hops < 0) throw new Error('TRUST_PROXY must be false or a number of proxy hops')
+  return hops === 0 ? false : hops
+}
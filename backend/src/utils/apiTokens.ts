@@ -0,0 +1,120 @@
+/**
+ * API Token Utilities
+ * Authenticates personal API tokens sent as bearer tokens and enforces their scope
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { ApolloServerPlugin } from '@apollo/server'
+import { GraphQLError } from 'graphql'
+import { db } from '../db'
+import { hashApiToken, isApiToken } from './auth'
+
+export type ApiTokenScope = 'READ_ONLY' | 'READ_WRITE'
+
+/**
+ * Personal API token attached to the request as req.apiToken once authenticated
+ */
+export interface ApiTokenAuth {
+  id: number
+  userId: number
+  scope: ApiTokenScope
+  projectIds: number[]
+}
+
+/**
+ * Read the bearer token from the authorization header
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getBearerToken = (req: any): string | null => {
+  const authHeader = req?.headers?.authorization || ''
+  if (!authHeader.startsWith('Bearer ')) return null
+  return authHeader.replace('Bearer ', '').trim()
+}
+
+/**
+ * Authenticate a personal API token and attach it to the request
+ * JWT bearer tokens are left untouched for tryGetUserIdFromRequest to verify
+ * Also records the token's last-used timestamp
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param req - Express request
+ */
+export const authenticateApiTokenRequest = async (req: any): Promise<void> => {
+  const token = getBearerToken(req)
+  if (!token || !isApiToken(token)) return
+
+  const tokens = (await db.query(
+    `SELECT t.id, t.user_id, t.scope
+     FROM api_tokens t
+     INNER JOIN users u ON u.id = t.user_id AND u.is_deleted = false
+     WHERE t.token_hash = ? AND t.revoked_at IS NULL AND (t.expires_at IS NULL OR t.expires_at > NOW(3))`,
+    [hashApiToken(token)]
+  )) as any[]
+  if (tokens.length === 0) {
+    throw new GraphQLError('Invalid, expired or revoked API token', { extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } } })
+  }
+
+  const projects = (await db.query('SELECT project_id FROM api_token_projects WHERE token_id = ?', [tokens[0].id])) as any[]
+  await db.query('UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [tokens[0].id])
+
+  const apiToken: ApiTokenAuth = {
+    id: Number(tokens[0].id),
+    userId: Number(tokens[0].user_id),
+    scope: tokens[0].scope,
+    projectIds: projects.map((project: any) => Number(project.project_id)),
+  }
+  req.apiToken = apiToken
+}
+
+/**
+ * Check whether a project is reachable with the request's API token
+ * Always true for JWT sessions and for tokens without a project restriction
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isProjectInApiTokenScope = (req: any, projectId: number | string | null | undefined): boolean => {
+  const apiToken: ApiTokenAuth | undefined = req?.apiToken
+  if (!apiToken || apiToken.projectIds.length === 0) return true
+  return projectId !== null && projectId !== undefined && apiToken.projectIds.includes(Number(projectId))
+}
+
+/**
+ * SQL condition limiting rows to the projects of a project-restricted API token
+ * Empty for JWT sessions and for tokens without a project restriction
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param column - Project ID column to filter on
+ * @param values - Query parameters, extended with the token's project IDs
+ */
+export const buildApiTokenProjectClause = (req: any, column: string, values: any[]): string => {
+  const apiToken: ApiTokenAuth | undefined = req?.apiToken
+  if (!apiToken || apiToken.projectIds.length === 0) return ''
+  values.push(...apiToken.projectIds)
+  return ` AND ${column} IN (${apiToken.projectIds.map(() => '?').join(', ')})`
+}
+
+/**
+ * Apollo plugin rejecting mutations made with read-only API tokens
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const apiTokenScopePlugin: ApolloServerPlugin = {
+  async requestDidStart() {
+    return {
+      async didResolveOperation({ operation, contextValue }) {
+        const apiToken: ApiTokenAuth | undefined = (contextValue as any).req?.apiToken
+        if (apiToken?.scope === 'READ_ONLY' && operation?.operation === 'mutation') {
+          throw new GraphQLError('This API token is read-only.', { extensions: { code: 'FORBIDDEN' } })
+        }
+      },
+    }
+  },
+}
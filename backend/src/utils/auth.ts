@@ -21,9 +21,13 @@ if (!JWT_SECRET) {
 
 import {
   ACCESS_TOKEN_EXPIRY,
+  API_TOKEN_PREFIX,
+  INVITATION_EXPIRY,
+  PASSWORD_RESET_TOKEN_EXPIRY,
   REFRESH_TOKEN_EXPIRY,
   REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS,
   ROTATION_SAFETY_MARGIN_SECONDS,
+  TWO_FACTOR_CHALLENGE_EXPIRY,
 } from '../constants/auth'
 
 /**
@@ -159,6 +163,21 @@ export const clearRefreshTokenCookie = (res: any): void => {
   })
 }
 
+/**
+ * Extract client details stored with a refresh token session
+ * The IP is req.ip, which reads X-Forwarded-For only as far as the app's 'trust proxy' setting allows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param req - Express request object
+ * @returns User agent and IP address (null when unavailable)
+ */
+export const getSessionClientInfo = (req: any): { userAgent: string | null; ipAddress: string | null } => {
+  const userAgent = req?.headers?.['user-agent'] ? String(req.headers['user-agent']).slice(0, 512) : null
+  const ipAddress = req?.ip || req?.socket?.remoteAddress || null
+  return { userAgent, ipAddress: ipAddress ? String(ipAddress).slice(0, 45) : null }
+}
+
 /**
  * Hash password using bcrypt
  * @param password - Plain text password
@@ -214,6 +233,67 @@ export const hashRefreshToken = (token: string): string => {
   return crypto.createHash('sha256').update(token).digest('hex')
 }
 
+/**
+ * Generate password reset token
+ * Random 32-byte hex string - only its sha256 hash is stored in the database
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Plain password reset token
+ */
+export const generatePasswordResetToken = (): string => {
+  return crypto.randomBytes(32).toString('hex')
+}
+
+/**
+ * Hash password reset token for storage
+ * @param token - Plain password reset token
+ * @returns Hashed token
+ */
+export const hashPasswordResetToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Calculate expiration date based on PASSWORD_RESET_TOKEN_EXPIRY constant
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Date object representing the expiration time
+ */
+export const calculatePasswordResetTokenExpiry = (): Date => {
+  return new Date(Date.now() + parseTimeStringToSeconds(PASSWORD_RESET_TOKEN_EXPIRY) * 1000)
+}
+
+/**
+ * Generate personal API token
+ * Prefixed random 32-byte hex string - only its sha256 hash is stored in the database
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Plain personal API token
+ */
+export const generateApiToken = (): string => {
+  return `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Hash personal API token for storage
+ * @param token - Plain personal API token
+ * @returns Hashed token
+ */
+export const hashApiToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Check whether a bearer token is a personal API token rather than a JWT
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isApiToken = (token: string): boolean => token.startsWith(API_TOKEN_PREFIX)
+
 /**
  * Generate refresh token JWT
  * @param userId - User ID
@@ -228,14 +308,116 @@ export const generateRefreshToken = (userId: number, tokenId: string): string =>
   )
 }
 
+/**
+ * Generate two-factor challenge token
+ * Issued after a correct password when the second factor is still pending
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param userId - User ID
+ * @returns Short-lived JWT challenge token
+ */
+export const generateTwoFactorChallengeToken = (userId: number): string => {
+  return jwt.sign(
+    { userId, type: 'two_factor_challenge' },
+    JWT_SECRET,
+    { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY }
+  )
+}
+
+/**
+ * Verify two-factor challenge token
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param token - JWT challenge token
+ * @returns User ID or null when the token is invalid or expired
+ */
+export const verifyTwoFactorChallengeToken = (token: string): number | null => {
+  try {
+    const decoded: any = jwt.verify(token, JWT_SECRET)
+    return decoded?.type === 'two_factor_challenge' && decoded.userId ? Number(decoded.userId) : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Generate signed invitation token
+ * Short-lived JWT tied to an invitations row - its sha256 hash is stored so it can be revoked
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param invitationId - Invitation ID
+ * @param email - Invited email address
+ * @returns JWT invitation token
+ */
+export const generateInvitationToken = (invitationId: number, email: string): string => {
+  return jwt.sign(
+    { invitationId, email, type: 'invitation' },
+    JWT_SECRET,
+    { expiresIn: INVITATION_EXPIRY }
+  )
+}
+
+/**
+ * Verify signed invitation token
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param token - JWT invitation token
+ * @returns Invitation ID or null when the token is invalid or expired
+ */
+export const verifyInvitationToken = (token: string): number | null => {
+  try {
+    const decoded: any = jwt.verify(token, JWT_SECRET)
+    return decoded?.type === 'invitation' && decoded.invitationId ? Number(decoded.invitationId) : null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Hash invitation token for storage
+ * @param token - Plain invitation token
+ * @returns Hashed token
+ */
+export const hashInvitationToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Calculate expiration date based on INVITATION_EXPIRY constant
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Date object representing the expiration time
+ */
+export const calculateInvitationExpiry = (): Date => {
+  return new Date(Date.now() + parseTimeStringToSeconds(INVITATION_EXPIRY) * 1000)
+}
+
+/**
+ * Whether anyone may create an account through register
+ * Set ALLOW_OPEN_REGISTRATION=false to make onboarding invitation-only
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isOpenRegistrationEnabled = (): boolean => {
+  return (process.env.ALLOW_OPEN_REGISTRATION || 'true').toLowerCase() !== 'false'
+}
+
 /**
  * Verify access token
+ * Other JWTs signed with the same secret (refresh, two-factor challenge) are rejected
  * @param token - JWT access token
  * @returns Decoded token payload or null
  */
 export const verifyAccessToken = (token: string): any => {
   try {
-    return jwt.verify(token, JWT_SECRET)
+    const decoded: any = jwt.verify(token, JWT_SECRET)
+    return decoded?.type === 'access' ? decoded : null
   } catch (error) {
     return null
   }
@@ -0,0 +1,112 @@
+/**
+ * Checklist Utilities
+ * Loading checklist items of tasks and their done / total progress
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { formatDateToISO } from './formatters'
+import { MAX_CHECKLIST_ITEM_LENGTH, MAX_CHECKLIST_ITEMS } from '../constants/checklists'
+
+export interface ChecklistItemRecord {
+  id: string
+  taskId: string
+  text: string
+  isDone: boolean
+  position: number
+  assignedTo: string | null
+  doneAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ChecklistProgress {
+  completed: number
+  total: number
+}
+
+/**
+ * Columns read by mapChecklistItem
+ */
+export const CHECKLIST_ITEM_COLUMNS = 'id, task_id, content, is_done, position, assigned_to, done_at, created_at, updated_at'
+
+/**
+ * Map a task_checklist_items row
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const mapChecklistItem = (row: any): ChecklistItemRecord => ({
+  id: row.id.toString(),
+  taskId: row.task_id.toString(),
+  text: row.content,
+  isDone: Boolean(row.is_done),
+  position: Number(row.position),
+  assignedTo: row.assigned_to ? row.assigned_to.toString() : null,
+  doneAt: row.done_at ? formatDateToISO(row.done_at) : null,
+  createdAt: formatDateToISO(row.created_at),
+  updatedAt: formatDateToISO(row.updated_at),
+})
+
+/**
+ * Checklist items of a task in their saved order
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTaskChecklist = async (taskId: number | string): Promise<ChecklistItemRecord[]> => {
+  const rows = (await db.query(
+    `SELECT ${CHECKLIST_ITEM_COLUMNS} FROM task_checklist_items WHERE task_id = ? ORDER BY position ASC, id ASC`,
+    [taskId]
+  )) as any[]
+  return rows.map(mapChecklistItem)
+}
+
+/**
+ * Done and total checklist items of several tasks with one query
+ * Tasks without items are missing from the map
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Map of task ID to progress
+ */
+export const getChecklistProgress = async (taskIds: Array<number | string>): Promise<Map<number, ChecklistProgress>> => {
+  const progress = new Map<number, ChecklistProgress>()
+  if (taskIds.length === 0) return progress
+  const rows = (await db.query(
+    `SELECT task_id, COUNT(*) as total, SUM(is_done = true) as completed FROM task_checklist_items
+    WHERE task_id IN (${taskIds.map(() => '?').join(',')}) GROUP BY task_id`,
+    taskIds
+  )) as any[]
+  rows.forEach((row: any) => progress.set(Number(row.task_id), { completed: Number(row.completed || 0), total: Number(row.total) }))
+  return progress
+}
+
+/**
+ * Trim item text and check its length
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const normalizeItemText = (text: string): string => {
+  const trimmed = (text || '').trim()
+  if (!trimmed) throw new Error('Checklist item text is required')
+  if (trimmed.length > MAX_CHECKLIST_ITEM_LENGTH) {
+    throw new Error(`Checklist item text must be at most ${MAX_CHECKLIST_ITEM_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+/**
+ * Normalize the item texts of a whole checklist, as given when creating a task or a task template
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const normalizeChecklistTexts = (texts: string[] | null | undefined): string[] => {
+  const items = (texts || []).map(normalizeItemText)
+  if (items.length > MAX_CHECKLIST_ITEMS) throw new Error(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`)
+  return items
+}
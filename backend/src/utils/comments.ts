@@ -0,0 +1,151 @@
+/**
+ * Comment Utilities
+ * Loading comments with their likes and replies, validating reply targets and publishing comment events
+ * Threads are one level deep: a reply to a reply hangs off the same top-level comment
+ * A comment with a task_id belongs to that task; project_id still names the task's project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { formatDateToISO } from './formatters'
+import { pubsub } from './pubsub'
+
+/**
+ * Map a comment row with its author; rows come from fetchComments or share its column names
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const mapCommentRecord = (c: any, isLiked: boolean) => ({
+  id: c.id.toString(),
+  uuid: c.uuid || '',
+  content: c.content,
+  projectId: c.project_id ? c.project_id.toString() : null,
+  taskId: c.task_id ? c.task_id.toString() : null,
+  parentCommentId: c.parent_comment_id ? c.parent_comment_id.toString() : null,
+  user: c.user_id ? {
+    id: c.user_id.toString(), uuid: c.user_uuid || '', firstName: c.first_name || '',
+    lastName: c.last_name || '', email: c.email || '', role: c.role || '',
+    createdAt: formatDateToISO(c.user_created_at), updatedAt: formatDateToISO(c.user_updated_at),
+  } : null,
+  likesCount: Number(c.likes_count || 0),
+  replyCount: Number(c.reply_count || 0),
+  isLiked,
+  version: c.version !== null && c.version !== undefined ? Number(c.version) : null,
+  createdAt: formatDateToISO(c.created_at),
+  updatedAt: formatDateToISO(c.updated_at),
+})
+
+/**
+ * Load comments that are not in the trash, with like and reply counts and whether userId liked them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param condition - SQL condition on the comments alias c
+ * @param order - Sort direction by creation time
+ */
+export const fetchComments = async (condition: string, params: any[], userId: number | null, order: 'ASC' | 'DESC' = 'DESC') => {
+  const comments = (await db.query(
+    `SELECT c.id, c.uuid, c.content, c.project_id, c.task_id, c.parent_comment_id, c.version, c.created_at, c.updated_at,
+      u.id as user_id, u.first_name, u.last_name, u.email, u.role, u.uuid as user_uuid,
+      u.created_at as user_created_at, u.updated_at as user_updated_at,
+      COALESCE(cl.likes_count, 0) as likes_count,
+      (SELECT COUNT(*) FROM comments r WHERE r.parent_comment_id = c.id AND r.is_deleted = false) as reply_count
+    FROM comments c
+    LEFT JOIN users u ON c.user_id = u.id AND u.is_deleted = false
+    LEFT JOIN (SELECT comment_id, COUNT(*) as likes_count FROM comment_likes GROUP BY comment_id) cl ON c.id = cl.comment_id
+    WHERE c.is_deleted = false AND ${condition} ORDER BY c.created_at ${order}, c.id ${order}`,
+    params
+  )) as any[]
+
+  let userLikedComments: Set<number> = new Set()
+  if (userId && comments.length > 0) {
+    const commentIds = comments.map((c: any) => c.id)
+    const userLikes = (await db.query(
+      `SELECT comment_id FROM comment_likes WHERE user_id = ? AND comment_id IN (${commentIds.map(() => '?').join(',')})`,
+      [userId, ...commentIds]
+    )) as any[]
+    userLikedComments = new Set(userLikes.map((like: any) => Number(like.comment_id)))
+  }
+  return comments.map((c: any) => mapCommentRecord(c, userLikedComments.has(Number(c.id))))
+}
+
+/**
+ * Replies of several comments, oldest first, keyed by the parent comment ID
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getCommentReplies = async (commentIds: Array<number | string>, userId: number | null) => {
+  const replies = new Map<string, ReturnType<typeof mapCommentRecord>[]>()
+  if (commentIds.length === 0) return replies
+  const rows = await fetchComments(
+    `c.parent_comment_id IN (${commentIds.map(() => '?').join(',')})`,
+    commentIds,
+    userId,
+    'ASC'
+  )
+  rows.forEach((reply) => {
+    const parentId = reply.parentCommentId as string
+    replies.set(parentId, [...(replies.get(parentId) || []), reply])
+  })
+  return replies
+}
+
+/**
+ * Find the comment a reply answers and the top-level comment the reply is filed under
+ * Throws unless the comment exists, is not in the trash and is on the same project or task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const resolveReplyTarget = async (
+  parentCommentId: number | string,
+  target: { projectId: number | string; taskId?: number | string | null }
+) => {
+  const comments = (await db.query(
+    'SELECT id, user_id, project_id, task_id, parent_comment_id FROM comments WHERE id = ? AND is_deleted = false',
+    [parentCommentId]
+  )) as any[]
+  if (comments.length === 0) throw new Error('The comment you are replying to was not found or has been deleted')
+  const comment = comments[0]
+  if (target.taskId) {
+    if (Number(comment.task_id) !== Number(target.taskId)) throw new Error('Replies must be posted on the same task as the comment')
+  } else if (comment.task_id || Number(comment.project_id) !== Number(target.projectId)) {
+    throw new Error('Replies must be posted on the same project as the comment')
+  }
+  return {
+    rootCommentId: Number(comment.parent_comment_id || comment.id),
+    authorId: Number(comment.user_id),
+  }
+}
+
+export type CommentEvent = 'CREATED' | 'UPDATED' | 'DELETED' | 'LIKE_UPDATED'
+
+const COMMENT_EVENT_FIELDS: Record<CommentEvent, string> = {
+  CREATED: 'Created',
+  UPDATED: 'Updated',
+  DELETED: 'Deleted',
+  LIKE_UPDATED: 'LikeUpdated',
+}
+
+/**
+ * Publish a comment event on the topic of the task or project the comment belongs to
+ * Task comments go to TASK_COMMENT_<event>_<taskId> only, so project comment panels do not hear them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const publishCommentEvent = async (
+  event: CommentEvent,
+  payload: { projectId: string | null; taskId: string | null }
+): Promise<void> => {
+  const field = COMMENT_EVENT_FIELDS[event]
+  if (payload.taskId) {
+    await pubsub.publish(`TASK_COMMENT_${event}_${payload.taskId}`, { [`taskComment${field}`]: payload })
+  } else if (payload.projectId) {
+    await pubsub.publish(`COMMENT_${event}_${payload.projectId}`, { [`comment${field}`]: payload })
+  }
+}
@@ -4,19 +4,23 @@
  * @date 2025-12-09
  */
 
+import { GraphQLError } from 'graphql'
 import { db } from '../db'
 import { verifyAccessToken } from './auth'
 import { pubsub } from './pubsub'
 import { formatDateToISO } from './formatters'
+import { isProjectInApiTokenScope } from './apiTokens'
 
 const userNameCache = new Map<number, string>()
 
 /**
  * Try to extract user ID from request authorization header
+ * Accepts JWT access tokens and personal API tokens authenticated in the request context
  * @author Thang Truong
  * @date 2025-11-26
  */
 export const tryGetUserIdFromRequest = (req: any): number | null => {
+  if (req?.apiToken) return req.apiToken.userId
   try {
     const authHeader = req?.headers?.authorization || ''
     if (!authHeader || !authHeader.startsWith('Bearer ')) return null
@@ -39,6 +43,226 @@ export const requireAuthentication = (context: { req: any }, errorMessage?: stri
   return userId
 }
 
+export type ResourceType = 'PROJECT' | 'TASK' | 'COMMENT'
+export type PermissionLevel = 'READ' | 'WRITE' | 'DELETE' | 'ADMIN'
+
+const ALL_PERMISSIONS: PermissionLevel[] = ['READ', 'WRITE', 'DELETE', 'ADMIN']
+
+/** Permissions granted by project_members.role */
+const MEMBER_ROLE_PERMISSIONS: Record<string, PermissionLevel[]> = {
+  VIEWER: ['READ'],
+  EDITOR: ['READ', 'WRITE'],
+  OWNER: ALL_PERMISSIONS,
+}
+
+/**
+ * Build a GraphQL error carrying the FORBIDDEN code
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const createForbiddenError = (message?: string): GraphQLError =>
+  new GraphQLError(message || 'You do not have permission to perform this action.', {
+    extensions: { code: 'FORBIDDEN' },
+  })
+
+/**
+ * Build a GraphQL error carrying the CONFLICT code and the record as currently stored
+ * Raised when an update's expectedVersion no longer matches the row's version
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const createConflictError = (resourceLabel: string, currentState: any): GraphQLError =>
+  new GraphQLError(`This ${resourceLabel} was changed by someone else since you opened it.`, {
+    extensions: { code: 'CONFLICT', currentVersion: currentState?.version ?? null, currentState },
+  })
+
+/**
+ * Append the optimistic concurrency check to an UPDATE's WHERE clause when a version is expected
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const buildVersionCondition = (expectedVersion: number | null | undefined, values: any[]): string => {
+  if (expectedVersion === undefined || expectedVersion === null) return ''
+  values.push(expectedVersion)
+  return ' AND version = ?'
+}
+
+/**
+ * Expand a stored permission into every level it implies (ADMIN implies all, WRITE/DELETE imply READ)
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const expandPermission = (permission: string): PermissionLevel[] => {
+  if (permission === 'ADMIN') return ALL_PERMISSIONS
+  if (permission === 'WRITE' || permission === 'DELETE') return [permission, 'READ']
+  return permission === 'READ' ? ['READ'] : []
+}
+
+/**
+ * Check whether a user holds the global 'Admin' role
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isGlobalAdmin = async (userId: number): Promise<boolean> => {
+  const users = (await db.query(
+    'SELECT role FROM users WHERE id = ? AND is_deleted = false', [userId]
+  )) as any[]
+  return users.length > 0 && users[0].role === 'Admin'
+}
+
+/**
+ * Collect explicit grants from the permissions table for a single resource
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const fetchExplicitPermissions = async (
+  userId: number, resourceType: ResourceType, resourceId: number
+): Promise<PermissionLevel[]> => {
+  const rows = (await db.query(
+    'SELECT permission FROM permissions WHERE user_id = ? AND resource_type = ? AND resource_id = ?',
+    [userId, resourceType, resourceId]
+  )) as any[]
+  return rows.flatMap((row: any) => expandPermission(row.permission))
+}
+
+/**
+ * Resolve project-level permissions from ownership, membership role and explicit grants
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const resolveProjectPermissions = async (userId: number, projectId: number): Promise<Set<PermissionLevel>> => {
+  const projects = (await db.query(
+    'SELECT owner_id FROM projects WHERE id = ? AND is_deleted = false', [projectId]
+  )) as any[]
+  if (projects.length === 0) return new Set()
+  if (projects[0].owner_id && Number(projects[0].owner_id) === userId) return new Set(ALL_PERMISSIONS)
+  const members = (await db.query(
+    'SELECT role FROM project_members WHERE project_id = ? AND user_id = ? AND is_deleted = false',
+    [projectId, userId]
+  )) as any[]
+  const granted = new Set<PermissionLevel>(members.length ? MEMBER_ROLE_PERMISSIONS[members[0].role] || [] : [])
+  const explicitGrants = await fetchExplicitPermissions(userId, 'PROJECT', projectId)
+  explicitGrants.forEach((permission) => granted.add(permission))
+  return granted
+}
+
+/**
+ * Work out a user's effective permissions on a project, task or comment
+ * Tasks inherit from their project; comments inherit READ and ADMIN from their project,
+ * and the comment author may always edit or delete their own comment
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getEffectivePermissions = async (
+  userId: number, resourceType: ResourceType, resourceId: number | string
+): Promise<Set<PermissionLevel>> => {
+  const id = Number(resourceId)
+  if (Number.isNaN(id)) return new Set()
+  if (await isGlobalAdmin(userId)) return new Set(ALL_PERMISSIONS)
+
+  if (resourceType === 'PROJECT') return resolveProjectPermissions(userId, id)
+
+  if (resourceType === 'TASK') {
+    const tasks = (await db.query('SELECT project_id FROM tasks WHERE id = ? AND is_deleted = false', [id])) as any[]
+    if (tasks.length === 0) return new Set()
+    const granted = await resolveProjectPermissions(userId, Number(tasks[0].project_id))
+    const explicitGrants = await fetchExplicitPermissions(userId, 'TASK', id)
+    explicitGrants.forEach((permission) => granted.add(permission))
+    return granted
+  }
+
+  const comments = (await db.query(
+    'SELECT user_id, project_id FROM comments WHERE id = ? AND is_deleted = false', [id]
+  )) as any[]
+  if (comments.length === 0) return new Set()
+  const granted = new Set<PermissionLevel>(Number(comments[0].user_id) === userId ? ['READ', 'WRITE', 'DELETE'] : [])
+  if (comments[0].project_id) {
+    const projectPermissions = await resolveProjectPermissions(userId, Number(comments[0].project_id))
+    if (projectPermissions.has('ADMIN')) return new Set(ALL_PERMISSIONS)
+    if (projectPermissions.has('READ')) granted.add('READ')
+  }
+  const explicitGrants = await fetchExplicitPermissions(userId, 'COMMENT', id)
+  explicitGrants.forEach((permission) => granted.add(permission))
+  return granted
+}
+
+/**
+ * Check whether a user holds a given permission on a resource
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const hasPermission = async (
+  userId: number, resourceType: ResourceType, resourceId: number | string, permission: PermissionLevel
+): Promise<boolean> => (await getEffectivePermissions(userId, resourceType, resourceId)).has(permission)
+
+/**
+ * Find the project a project, task or comment belongs to
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const resolveResourceProjectId = async (resourceType: ResourceType, resourceId: number | string): Promise<number | null> => {
+  if (resourceType === 'PROJECT') return Number(resourceId)
+  const table = resourceType === 'TASK' ? 'tasks' : 'comments'
+  const rows = (await db.query(`SELECT project_id FROM ${table} WHERE id = ?`, [resourceId])) as any[]
+  return rows.length && rows[0].project_id ? Number(rows[0].project_id) : null
+}
+
+/**
+ * Require authentication plus a permission on a resource, throws FORBIDDEN otherwise
+ * Project-restricted API tokens are also refused outside their projects
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const requirePermission = async (
+  context: { req: any },
+  resourceType: ResourceType,
+  resourceId: number | string,
+  permission: PermissionLevel,
+  errorMessage?: string
+): Promise<number> => {
+  const userId = requireAuthentication(context)
+  if (!(await hasPermission(userId, resourceType, resourceId, permission))) throw createForbiddenError(errorMessage)
+  if (context.req?.apiToken?.projectIds.length) {
+    const projectId = await resolveResourceProjectId(resourceType, resourceId)
+    if (!isProjectInApiTokenScope(context.req, projectId)) throw createForbiddenError('This API token is not allowed to access this project.')
+  }
+  return userId
+}
+
+/**
+ * Require authentication plus the global 'Admin' role, throws FORBIDDEN otherwise
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const requireGlobalAdmin = async (context: { req: any }, errorMessage?: string): Promise<number> => {
+  const userId = requireAuthentication(context)
+  if (!(await isGlobalAdmin(userId))) throw createForbiddenError(errorMessage || 'Only administrators can perform this action.')
+  return userId
+}
+
+/**
+ * Require a signed-in session, throws FORBIDDEN for personal API tokens
+ * Used by account and security changes (profile, sessions, two-factor, API tokens)
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const requireSessionUser = (context: { req: any }, errorMessage?: string): number => {
+  const userId = requireAuthentication(context)
+  if (context.req?.apiToken) throw createForbiddenError(errorMessage || 'Sign in to change account or security settings; API tokens cannot be used for this.')
+  return userId
+}
+
+/**
+ * Require authentication for creating a project, throws FORBIDDEN for project-restricted API tokens
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const requireProjectCreator = (context: { req: any }, errorMessage?: string): number => {
+  const userId = requireAuthentication(context, errorMessage)
+  if (context.req?.apiToken?.projectIds.length) throw createForbiddenError('This API token is restricted to specific projects and cannot create projects.')
+  return userId
+}
+
 /**
  * Get user display name from cache or database
  * @author Thang Truong
@@ -167,6 +391,8 @@ export const resolveActivityAction = (type: string, customAction?: string | null
     USER_CREATED: 'User created', USER_UPDATED: 'User updated', USER_DELETED: 'User deleted',
     PROJECT_CREATED: 'Project created', PROJECT_UPDATED: 'Project updated', PROJECT_DELETED: 'Project deleted',
     TASK_CREATED: 'Task created', TASK_UPDATED: 'Task updated', TASK_DELETED: 'Task deleted',
+    USER_LOGIN_FAILED: 'Failed login attempt', USER_LOCKED: 'Account locked', USER_UNLOCKED: 'Account unlocked',
+    USER_RESTORED: 'User restored', PROJECT_RESTORED: 'Project restored', TASK_RESTORED: 'Task restored',
   }
   return actionLabels[type] || 'Activity recorded'
 }
@@ -0,0 +1,256 @@
+/**
+ * Login Throttle Utilities
+ * Tracks failed logins per email and per IP with exponential backoff
+ * and temporarily locks accounts after repeated failures
+ * The USER scope throttles code checks made by a signed-in user (two-factor enrollment)
+ * RESET_EMAIL and RESET_IP throttle password reset emails the same way
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { GraphQLError } from 'graphql'
+import {
+  ACCOUNT_LOCKOUT_DURATION,
+  ACCOUNT_LOCKOUT_THRESHOLD,
+  LOGIN_BACKOFF_BASE_SECONDS,
+  LOGIN_BACKOFF_FREE_ATTEMPTS,
+  LOGIN_BACKOFF_MAX_SECONDS,
+  LOGIN_FAILURE_WINDOW,
+  LOGIN_IP_BACKOFF_FREE_ATTEMPTS,
+  PASSWORD_RESET_FREE_REQUESTS,
+} from '../constants/auth'
+import { db } from '../db'
+import { parseTimeStringToSeconds } from './auth'
+import { createActivityLog } from './helpers'
+
+type ThrottleScope = 'EMAIL' | 'IP' | 'USER' | 'RESET_EMAIL' | 'RESET_IP'
+
+/**
+ * Normalize email so throttling is case-insensitive
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const normalizeLoginEmail = (email: string): string => (email || '').trim().toLowerCase()
+
+/**
+ * Backoff delay after a failure: doubles with every failure past the free attempts
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const calculateBackoffSeconds = (failedCount: number, freeAttempts: number): number => {
+  if (failedCount <= freeAttempts) return 0
+  const delay = LOGIN_BACKOFF_BASE_SECONDS * 2 ** (failedCount - freeAttempts - 1)
+  return Math.min(delay, LOGIN_BACKOFF_MAX_SECONDS)
+}
+
+/**
+ * Increment the failure counter for one scope and apply its backoff window
+ * Counters older than LOGIN_FAILURE_WINDOW start again from zero
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Failure count after this attempt
+ */
+const recordThrottleFailure = async (scope: ThrottleScope, identifier: string, freeAttempts: number): Promise<number> => {
+  const rows = (await db.query(
+    'SELECT failed_count, TIMESTAMPDIFF(SECOND, last_failed_at, NOW(3)) AS seconds_since_failure FROM login_throttles WHERE scope = ? AND identifier = ?',
+    [scope, identifier]
+  )) as any[]
+  const windowSeconds = parseTimeStringToSeconds(LOGIN_FAILURE_WINDOW)
+  const isWithinWindow = rows.length > 0 && rows[0].seconds_since_failure !== null && Number(rows[0].seconds_since_failure) < windowSeconds
+  const failedCount = (isWithinWindow ? Number(rows[0].failed_count) : 0) + 1
+  const backoffSeconds = calculateBackoffSeconds(failedCount, freeAttempts)
+
+  await db.query(
+    `INSERT INTO login_throttles (scope, identifier, failed_count, last_failed_at, blocked_until)
+     VALUES (?, ?, ?, NOW(3), IF(? > 0, DATE_ADD(NOW(3), INTERVAL ? SECOND), NULL))
+     ON DUPLICATE KEY UPDATE failed_count = VALUES(failed_count), last_failed_at = VALUES(last_failed_at), blocked_until = VALUES(blocked_until)`,
+    [scope, identifier, failedCount, backoffSeconds, backoffSeconds]
+  )
+  return failedCount
+}
+
+/**
+ * Reject the attempt when the account is locked or the email/IP is in a backoff window
+ * Runs before the password check so locked accounts cannot be probed
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param email - Email used for the attempt
+ * @param ipAddress - Client IP address (may be null)
+ */
+export const assertLoginAllowed = async (email: string, ipAddress: string | null): Promise<void> => {
+  const rows = (await db.query(
+    `SELECT scope,
+       TIMESTAMPDIFF(SECOND, NOW(3), blocked_until) AS blocked_seconds,
+       TIMESTAMPDIFF(SECOND, NOW(3), locked_until) AS locked_seconds
+     FROM login_throttles
+     WHERE (scope = 'EMAIL' AND identifier = ?) OR (scope = 'IP' AND identifier = ?)`,
+    [normalizeLoginEmail(email), ipAddress || '']
+  )) as any[]
+
+  const lockedSeconds = Math.max(0, ...rows.map((row: any) => Number(row.locked_seconds) || 0))
+  if (lockedSeconds > 0) {
+    throw new GraphQLError(
+      `This account is temporarily locked after too many failed login attempts. Try again in ${Math.ceil(lockedSeconds / 60)} minute(s) or contact an administrator.`,
+      { extensions: { code: 'ACCOUNT_LOCKED', retryAfterSeconds: lockedSeconds } }
+    )
+  }
+
+  const blockedSeconds = Math.max(0, ...rows.map((row: any) => Number(row.blocked_seconds) || 0))
+  if (blockedSeconds > 0) {
+    throw new GraphQLError(
+      `Too many failed login attempts. Please wait ${blockedSeconds} second(s) before trying again.`,
+      { extensions: { code: 'TOO_MANY_REQUESTS', retryAfterSeconds: blockedSeconds } }
+    )
+  }
+}
+
+/**
+ * Record a failed login for the email and IP, locking the account past the threshold
+ * Failed logins and lockouts of existing users are written to activity_logs
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recordFailedLogin = async ({
+  email,
+  ipAddress,
+  userId = null,
+}: {
+  email: string
+  ipAddress: string | null
+  userId?: number | null
+}): Promise<void> => {
+  const normalizedEmail = normalizeLoginEmail(email)
+  const emailFailures = await recordThrottleFailure('EMAIL', normalizedEmail, LOGIN_BACKOFF_FREE_ATTEMPTS)
+  if (ipAddress) await recordThrottleFailure('IP', ipAddress, LOGIN_IP_BACKOFF_FREE_ATTEMPTS)
+
+  if (userId) {
+    await createActivityLog({
+      userId,
+      targetUserId: userId,
+      type: 'USER_LOGIN_FAILED',
+      metadata: { email: normalizedEmail, ipAddress, failedAttempts: emailFailures },
+    })
+  }
+
+  if (emailFailures < ACCOUNT_LOCKOUT_THRESHOLD) return
+
+  const lockoutSeconds = parseTimeStringToSeconds(ACCOUNT_LOCKOUT_DURATION)
+  await db.query(
+    `UPDATE login_throttles
+     SET locked_until = DATE_ADD(NOW(3), INTERVAL ? SECOND), failed_count = 0, blocked_until = NULL
+     WHERE scope = 'EMAIL' AND identifier = ?`,
+    [lockoutSeconds, normalizedEmail]
+  )
+  if (userId) {
+    await createActivityLog({
+      userId,
+      targetUserId: userId,
+      type: 'USER_LOCKED',
+      metadata: { email: normalizedEmail, ipAddress, failedAttempts: emailFailures, lockedForSeconds: lockoutSeconds },
+    })
+  }
+}
+
+/**
+ * Clear failed attempts and any lock for an email (successful login or admin unlock)
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns True when a throttle record existed
+ */
+export const clearLoginFailures = async (email: string): Promise<boolean> => {
+  const result = (await db.query(
+    "DELETE FROM login_throttles WHERE scope = 'EMAIL' AND identifier = ?",
+    [normalizeLoginEmail(email)]
+  )) as any
+  return result.affectedRows > 0
+}
+
+/**
+ * Reject a code check by the user while it is locked or in a backoff window
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertUserAttemptAllowed = async (userId: number): Promise<void> => {
+  const rows = (await db.query(
+    `SELECT TIMESTAMPDIFF(SECOND, NOW(3), blocked_until) AS blocked_seconds,
+       TIMESTAMPDIFF(SECOND, NOW(3), locked_until) AS locked_seconds
+     FROM login_throttles WHERE scope = 'USER' AND identifier = ?`,
+    [String(userId)]
+  )) as any[]
+  const waitSeconds = Math.max(0, ...rows.map((row: any) => Math.max(Number(row.locked_seconds) || 0, Number(row.blocked_seconds) || 0)))
+  if (waitSeconds > 0) {
+    throw new GraphQLError(
+      `Too many failed attempts. Please wait ${waitSeconds} second(s) before trying again.`,
+      { extensions: { code: 'TOO_MANY_REQUESTS', retryAfterSeconds: waitSeconds } }
+    )
+  }
+}
+
+/**
+ * Record a failed code check by the user, locking further checks past the threshold
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recordFailedUserAttempt = async (userId: number): Promise<void> => {
+  const failures = await recordThrottleFailure('USER', String(userId), LOGIN_BACKOFF_FREE_ATTEMPTS)
+  if (failures < ACCOUNT_LOCKOUT_THRESHOLD) return
+  await db.query(
+    `UPDATE login_throttles
+     SET locked_until = DATE_ADD(NOW(3), INTERVAL ? SECOND), failed_count = 0, blocked_until = NULL
+     WHERE scope = 'USER' AND identifier = ?`,
+    [parseTimeStringToSeconds(ACCOUNT_LOCKOUT_DURATION), String(userId)]
+  )
+}
+
+/**
+ * Clear failed code checks of the user after a successful one
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const clearUserAttemptFailures = async (userId: number): Promise<void> => {
+  await db.query("DELETE FROM login_throttles WHERE scope = 'USER' AND identifier = ?", [String(userId)])
+}
+
+/**
+ * Reject a password reset request while its email or IP is in a backoff window
+ * Applies to unknown emails too, so throttling does not reveal which emails are registered
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertPasswordResetAllowed = async (email: string, ipAddress: string | null): Promise<void> => {
+  const rows = (await db.query(
+    `SELECT TIMESTAMPDIFF(SECOND, NOW(3), blocked_until) AS blocked_seconds
+     FROM login_throttles
+     WHERE (scope = 'RESET_EMAIL' AND identifier = ?) OR (scope = 'RESET_IP' AND identifier = ?)`,
+    [normalizeLoginEmail(email), ipAddress || '']
+  )) as any[]
+  const blockedSeconds = Math.max(0, ...rows.map((row: any) => Number(row.blocked_seconds) || 0))
+  if (blockedSeconds > 0) {
+    throw new GraphQLError(
+      `Too many password reset requests. Please wait ${blockedSeconds} second(s) before trying again.`,
+      { extensions: { code: 'TOO_MANY_REQUESTS', retryAfterSeconds: blockedSeconds } }
+    )
+  }
+}
+
+/**
+ * Count a password reset request for the email and IP
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recordPasswordResetRequest = async (email: string, ipAddress: string | null): Promise<void> => {
+  await recordThrottleFailure('RESET_EMAIL', normalizeLoginEmail(email), PASSWORD_RESET_FREE_REQUESTS)
+  if (ipAddress) await recordThrottleFailure('RESET_IP', ipAddress, LOGIN_IP_BACKOFF_FREE_ATTEMPTS)
+}
@@ -0,0 +1,114 @@
+/**
+ * Mailer Utility
+ * Pluggable mail transport used for outgoing emails (password resets, etc.)
+ * Ships with console and file transports as local stand-ins for a real provider
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Outgoing mail message
+ */
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Mail transport contract - implement this to plug in a real provider (SMTP, SES, ...)
+ */
+export interface MailTransport {
+  send: (message: MailMessage & { from: string }) => Promise<void>
+}
+
+/**
+ * Console transport - prints messages to stdout for local development
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const consoleMailTransport: MailTransport = {
+  send: async (message) => {
+    console.log(`[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`)
+  },
+}
+
+/**
+ * Create file transport - appends each message as a .txt file in the outbox directory
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param outboxDir - Directory where messages are written
+ */
+export const createFileMailTransport = (outboxDir: string): MailTransport => ({
+  send: async (message) => {
+    await fs.promises.mkdir(outboxDir, { recursive: true })
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.txt`
+    const content = `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toISOString()}\n\n${message.text}\n`
+    await fs.promises.writeFile(path.join(outboxDir, fileName), content, 'utf8')
+  },
+})
+
+/**
+ * Resolve transport from MAIL_TRANSPORT env variable ('console' | 'file')
+ * Left unset, the console stand-in is used only when NODE_ENV is development or test,
+ * so a deploy without a real transport fails instead of logging reset links to stdout
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const resolveDefaultTransport = (): MailTransport => {
+  const transport = (process.env.MAIL_TRANSPORT || '').toLowerCase()
+  if (transport === 'file') {
+    return createFileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'mail-outbox'))
+  }
+  if (transport === 'console' || ['development', 'test'].includes(process.env.NODE_ENV || '')) {
+    return consoleMailTransport
+  }
+  throw new Error('No mail transport configured. Set MAIL_TRANSPORT or call setMailTransport with a real provider.')
+}
+
+let activeTransport: MailTransport | null = null
+
+/**
+ * Replace the active mail transport (e.g. with a real provider at startup)
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param transport - Transport implementation to use for subsequent sends
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  activeTransport = transport
+}
+
+/**
+ * Resolve the mail transport now so a missing configuration fails at startup, not on the first email
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertMailTransportConfigured = (): void => {
+  if (!activeTransport) {
+    activeTransport = resolveDefaultTransport()
+  }
+}
+
+/**
+ * Send an email through the active transport
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param message - Message to deliver
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!activeTransport) {
+    activeTransport = resolveDefaultTransport()
+  }
+  const from = process.env.MAIL_FROM || 'Project Tracker <no-reply@project-tracker.local>'
+  await activeTransport.send({ ...message, from })
+}
@@ -0,0 +1,133 @@
+/**
+ * Mention Utilities
+ * Finds @mentions of project participants in comments and task descriptions and notifies new ones
+ * Participants are the owner, the members and users granted access to the project
+ * A mention is "@First Last" or "@First" when no other participant shares that first name
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { createNotificationRecord, getUserDisplayName } from './helpers'
+
+export type MentionTargetType = 'COMMENT' | 'TASK'
+
+export interface MentionCandidate {
+  id: number
+  firstName: string
+  fullName: string
+}
+
+const TARGET_COLUMNS: Record<MentionTargetType, string> = { COMMENT: 'comment_id', TASK: 'task_id' }
+
+/**
+ * The project owner, its members and users granted access to the project, who can be mentioned
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getMentionCandidates = async (projectId: number | string): Promise<MentionCandidate[]> => {
+  const users = (await db.query(
+    `SELECT DISTINCT u.id, u.first_name, u.last_name FROM users u
+    WHERE u.is_deleted = false AND (
+      u.id = (SELECT owner_id FROM projects WHERE id = ?)
+      OR u.id IN (SELECT user_id FROM project_members WHERE project_id = ? AND is_deleted = false)
+      OR u.id IN (SELECT user_id FROM permissions WHERE resource_type = 'PROJECT' AND resource_id = ?)
+    )`,
+    [projectId, projectId, projectId]
+  )) as any[]
+  return users.map((user: any) => ({
+    id: Number(user.id),
+    firstName: (user.first_name || '').trim(),
+    fullName: `${user.first_name || ''} ${user.last_name || ''}`.trim(),
+  }))
+}
+
+/**
+ * Whether text contains @name as a whole word, ignoring case
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const hasMention = (text: string, name: string): boolean => {
+  if (!name) return false
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(?<![\\p{L}\\p{N}_])@${escaped}(?![\\p{L}\\p{N}_])`, 'iu').test(text)
+}
+
+/**
+ * IDs of the candidates mentioned in text
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const parseMentionedUserIds = (text: string, candidates: MentionCandidate[]): number[] => {
+  if (!text.includes('@')) return []
+  const firstNameCounts = new Map<string, number>()
+  candidates.forEach((candidate) => {
+    const key = candidate.firstName.toLowerCase()
+    firstNameCounts.set(key, (firstNameCounts.get(key) || 0) + 1)
+  })
+  return candidates
+    .filter((candidate) =>
+      hasMention(text, candidate.fullName) ||
+      (firstNameCounts.get(candidate.firstName.toLowerCase()) === 1 && hasMention(text, candidate.firstName))
+    )
+    .map((candidate) => candidate.id)
+}
+
+/**
+ * Store the mentions found in the current text of a comment or task description
+ * Mentions removed from the text are only flagged with removed_at, so mentioning someone again is not news:
+ * only users never mentioned there before are notified
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param location - Where the mention happened, e.g. 'a comment on project "Apollo"'
+ * @returns IDs of the newly mentioned users
+ */
+export const syncMentions = async ({
+  targetType, targetId, text, projectId, actorUserId, location,
+}: {
+  targetType: MentionTargetType
+  targetId: number | string
+  text: string | null | undefined
+  projectId: number | string
+  actorUserId: number
+  location: string
+}): Promise<number[]> => {
+  const column = TARGET_COLUMNS[targetType]
+  const mentionedIds = parseMentionedUserIds(text || '', text && text.includes('@') ? await getMentionCandidates(projectId) : [])
+  const existing = (await db.query(`SELECT user_id, removed_at FROM mentions WHERE ${column} = ?`, [targetId])) as any[]
+  const activeIds = new Set(existing.filter((row: any) => !row.removed_at).map((row: any) => Number(row.user_id)))
+  const knownIds = new Set(existing.map((row: any) => Number(row.user_id)))
+  const addedIds = mentionedIds.filter((userId) => !knownIds.has(userId))
+  const restoredIds = mentionedIds.filter((userId) => knownIds.has(userId) && !activeIds.has(userId))
+  const removedIds = [...activeIds].filter((userId) => !mentionedIds.includes(userId))
+
+  if (removedIds.length > 0) {
+    await db.query(
+      `UPDATE mentions SET removed_at = CURRENT_TIMESTAMP(3) WHERE ${column} = ? AND user_id IN (${removedIds.map(() => '?').join(',')})`,
+      [targetId, ...removedIds]
+    )
+  }
+  if (restoredIds.length > 0) {
+    await db.query(
+      `UPDATE mentions SET removed_at = NULL WHERE ${column} = ? AND user_id IN (${restoredIds.map(() => '?').join(',')})`,
+      [targetId, ...restoredIds]
+    )
+  }
+  if (addedIds.length > 0) {
+    await db.query(
+      `INSERT INTO mentions (user_id, mentioned_by, ${column}) VALUES ${addedIds.map(() => '(?, ?, ?)').join(', ')}`,
+      addedIds.flatMap((userId) => [userId, actorUserId, targetId])
+    )
+    const recipientIds = addedIds.filter((userId) => userId !== Number(actorUserId))
+    if (recipientIds.length > 0) {
+      const actorName = await getUserDisplayName(actorUserId)
+      await Promise.all(recipientIds.map((userId) => createNotificationRecord(userId, `${actorName} mentioned you in ${location}.`)))
+    }
+  }
+  return addedIds
+}
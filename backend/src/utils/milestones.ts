@@ -0,0 +1,184 @@
+/**
+ * Milestone Utilities
+ * Progress and health of project milestones, and the alerts sent when one is at risk or missed
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { formatDateToISO } from './formatters'
+import { notifyProjectParticipants } from './helpers'
+import { isDoneStatus, loadProjectWorkflows } from './workflows'
+import {
+  MILESTONE_AT_RISK_DAYS,
+  MILESTONE_AT_RISK_PERCENT,
+  MILESTONE_CHECK_INTERVAL_MS,
+  MilestoneStatus,
+} from '../constants/milestones'
+
+export interface MilestoneRecord {
+  id: string
+  projectId: string
+  projectName: string
+  name: string
+  description: string | null
+  dueDate: string
+  status: MilestoneStatus
+  percentComplete: number
+  taskCount: number
+  completedTaskCount: number
+  isOverdue: boolean
+  taskIds: string[]
+  atRiskNotified: boolean
+  missedNotified: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+const MILESTONE_SELECT = `SELECT m.id, m.project_id, p.name as project_name, m.name, m.description,
+    DATE_FORMAT(m.due_date, '%Y-%m-%d') as due_date, DATEDIFF(m.due_date, CURDATE()) as days_left,
+    m.at_risk_notified_at, m.missed_notified_at, m.created_at, m.updated_at
+  FROM milestones m
+  INNER JOIN projects p ON p.id = m.project_id AND p.is_deleted = false`
+
+/**
+ * Health of a milestone
+ * Completed once every linked task is done; missed when its due date passed before that;
+ * at risk when due within MILESTONE_AT_RISK_DAYS days and less than MILESTONE_AT_RISK_PERCENT complete
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getMilestoneStatus = (taskCount: number, completedTaskCount: number, daysLeft: number): MilestoneStatus => {
+  if (taskCount > 0 && completedTaskCount === taskCount) return 'COMPLETED'
+  if (daysLeft < 0) return 'MISSED'
+  const percentComplete = taskCount > 0 ? (completedTaskCount / taskCount) * 100 : 0
+  if (daysLeft <= MILESTONE_AT_RISK_DAYS && percentComplete < MILESTONE_AT_RISK_PERCENT) return 'AT_RISK'
+  return 'ON_TRACK'
+}
+
+/**
+ * Load milestones matching a WHERE clause with the progress of their linked tasks
+ * Tasks in the trash do not count
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const loadMilestones = async (where: string, params: any[]): Promise<MilestoneRecord[]> => {
+  const rows = (await db.query(`${MILESTONE_SELECT} WHERE ${where} ORDER BY m.due_date ASC, m.id ASC`, params)) as any[]
+  if (rows.length === 0) return []
+
+  const milestoneIds = rows.map((row: any) => row.id)
+  const links = (await db.query(
+    `SELECT mt.milestone_id, t.id, t.status FROM milestone_tasks mt
+    INNER JOIN tasks t ON t.id = mt.task_id AND t.is_deleted = false
+    WHERE mt.milestone_id IN (${milestoneIds.map(() => '?').join(',')})`,
+    milestoneIds
+  )) as any[]
+  const workflows = await loadProjectWorkflows(rows.map((row: any) => row.project_id))
+
+  return rows.map((row: any) => {
+    const workflow = workflows.get(Number(row.project_id))
+    const tasks = links.filter((link: any) => Number(link.milestone_id) === Number(row.id))
+    const completedTaskCount = tasks.filter((task: any) => workflow && isDoneStatus(workflow, task.status)).length
+    const status = getMilestoneStatus(tasks.length, completedTaskCount, Number(row.days_left))
+    return {
+      id: row.id.toString(),
+      projectId: row.project_id.toString(),
+      projectName: row.project_name,
+      name: row.name,
+      description: row.description || null,
+      dueDate: row.due_date,
+      status,
+      percentComplete: tasks.length > 0 ? Math.round((completedTaskCount / tasks.length) * 100) : 0,
+      taskCount: tasks.length,
+      completedTaskCount,
+      isOverdue: status === 'MISSED',
+      taskIds: tasks.map((task: any) => task.id.toString()),
+      atRiskNotified: Boolean(row.at_risk_notified_at),
+      missedNotified: Boolean(row.missed_notified_at),
+      createdAt: formatDateToISO(row.created_at),
+      updatedAt: formatDateToISO(row.updated_at),
+    }
+  })
+}
+
+/**
+ * Milestones of a project, earliest due first
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getProjectMilestones = async (projectId: number | string): Promise<MilestoneRecord[]> =>
+  loadMilestones('m.project_id = ?', [projectId])
+
+/**
+ * One milestone, or null when it does not exist or its project is in the trash
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getMilestone = async (id: number | string): Promise<MilestoneRecord | null> => {
+  const milestones = await loadMilestones('m.id = ?', [id])
+  return milestones[0] || null
+}
+
+/**
+ * Notify project participants once when a milestone becomes at risk and once when it is missed
+ * Only milestones due within the at-risk window or already past due are looked at
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Limit the check to one project; all projects when omitted
+ * @returns Number of alerts sent
+ */
+export const checkMilestoneDeadlines = async (projectId?: number | string | null): Promise<number> => {
+  const params: any[] = [MILESTONE_AT_RISK_DAYS]
+  let where = 'm.due_date <= CURDATE() + INTERVAL ? DAY AND m.missed_notified_at IS NULL'
+  if (projectId) {
+    where += ' AND m.project_id = ?'
+    params.push(projectId)
+  }
+  const milestones = await loadMilestones(where, params)
+
+  let sent = 0
+  for (const milestone of milestones) {
+    if (milestone.status === 'MISSED') {
+      await notifyProjectParticipants({
+        projectId: milestone.projectId,
+        message: `Milestone "${milestone.name}" in project "${milestone.projectName}" was missed: due ${milestone.dueDate}, ${milestone.percentComplete}% complete`,
+      })
+      await db.query(
+        'UPDATE milestones SET missed_notified_at = CURRENT_TIMESTAMP(3), at_risk_notified_at = COALESCE(at_risk_notified_at, CURRENT_TIMESTAMP(3)) WHERE id = ?',
+        [milestone.id]
+      )
+      sent += 1
+    } else if (milestone.status === 'AT_RISK' && !milestone.atRiskNotified) {
+      await notifyProjectParticipants({
+        projectId: milestone.projectId,
+        message: `Milestone "${milestone.name}" in project "${milestone.projectName}" is at risk: due ${milestone.dueDate}, ${milestone.percentComplete}% complete`,
+      })
+      await db.query('UPDATE milestones SET at_risk_notified_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [milestone.id])
+      sent += 1
+    }
+  }
+  return sent
+}
+
+/**
+ * Start the background job that sends milestone alerts
+ * Runs once shortly after startup, then on a fixed interval
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const startMilestoneDeadlineJob = (): void => {
+  const run = () => {
+    checkMilestoneDeadlines().catch(() => {
+      // Database may be unavailable - the next run retries
+    })
+  }
+  setTimeout(run, 60 * 1000).unref()
+  setInterval(run, MILESTONE_CHECK_INTERVAL_MS).unref()
+}
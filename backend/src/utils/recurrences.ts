@@ -0,0 +1,374 @@
+/**
+ * Recurrence Utilities
+ * Repeat rules of recurring tasks, their RRULE-like text form and the scheduler that creates the next occurrences
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { randomUUID } from 'crypto'
+import { db } from '../db'
+import { formatDateToISO } from './formatters'
+import { createActivityLog } from './helpers'
+import { getNextBoardRank } from './taskBoard'
+import { isDoneStatus, isWipLimitReached, loadProjectWorkflows } from './workflows'
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  RECURRENCE_CHECK_INTERVAL_MS,
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_SEARCH_DAYS,
+  RECURRENCE_WEEKDAYS,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+} from '../constants/recurrences'
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  weekdays: RecurrenceWeekday[]
+  monthDay: number | null
+  endAfterCount: number | null
+  endDate: string | null
+}
+
+export interface TaskRecurrenceRecord extends RecurrenceRule {
+  id: string
+  taskId: string
+  startDate: string
+  occurrenceCount: number
+  nextDueDate: string | null
+  rule: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RECURRENCE_SELECT = `SELECT r.id, r.task_id, r.frequency, r.interval_count, r.weekdays, r.month_day,
+    DATE_FORMAT(r.start_date, '%Y-%m-%d') as start_date, DATE_FORMAT(r.end_date, '%Y-%m-%d') as end_date,
+    r.end_after_count, r.occurrence_count, r.ended_at, r.created_at, r.updated_at,
+    DATE_FORMAT(t.due_date, '%Y-%m-%d') as occurrence_date, DATE_FORMAT(CURDATE(), '%Y-%m-%d') as today
+  FROM task_recurrences r
+  INNER JOIN tasks t ON t.id = r.task_id`
+
+const toDay = (date: string): Date => new Date(`${date}T00:00:00Z`)
+
+const formatDay = (day: Date): string => day.toISOString().slice(0, 10)
+
+const weekdayOf = (day: Date): RecurrenceWeekday => RECURRENCE_WEEKDAYS[(day.getUTCDay() + 6) % 7]
+
+/**
+ * Whether a string is a real calendar day in YYYY-MM-DD format
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isCalendarDay = (date: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(toDay(date).getTime()) && formatDay(toDay(date)) === date
+
+/**
+ * Whether a day is an occurrence of a rule that started on startDate
+ * Weekly intervals count whole weeks from the Monday of the start week;
+ * a monthly day past the end of a short month falls on its last day
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const matchesRule = (rule: RecurrenceRule, start: Date, day: Date): boolean => {
+  const step = (count: number) => ((count % rule.interval) + rule.interval) % rule.interval === 0
+  if (rule.frequency === 'DAILY') return step(Math.round((day.getTime() - start.getTime()) / DAY_MS))
+  if (rule.frequency === 'WEEKLY') {
+    const mondayOf = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS
+    return rule.weekdays.includes(weekdayOf(day)) && step(Math.round((mondayOf(day) - mondayOf(start)) / (7 * DAY_MS)))
+  }
+  const lastDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate()
+  const months = (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth()
+  return day.getUTCDate() === Math.min(rule.monthDay || start.getUTCDate(), lastDay) && step(months)
+}
+
+/**
+ * First occurrence of a rule after a given day and not before another
+ * An occurrence completed late or skipped while the server was down does not produce a backlog of past dates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param startDate - First occurrence of the series, the anchor of its intervals
+ * @param after - The next occurrence comes strictly after this day; null for the first occurrence of a series
+ * @param notBefore - The next occurrence is on or after this day, usually today
+ * @returns YYYY-MM-DD, or null when the end date comes first
+ */
+export const getNextOccurrenceDate = (rule: RecurrenceRule, startDate: string, after: string | null, notBefore: string): string | null => {
+  const start = toDay(startDate)
+  let day = after ? new Date(Math.max(toDay(after).getTime() + DAY_MS, toDay(notBefore).getTime())) : toDay(notBefore)
+  for (let i = 0; i < RECURRENCE_SEARCH_DAYS; i += 1) {
+    if (rule.endDate && formatDay(day) > rule.endDate) return null
+    if (matchesRule(rule, start, day)) return formatDay(day)
+    day = new Date(day.getTime() + DAY_MS)
+  }
+  return null
+}
+
+/**
+ * Parse an RRULE-like text such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10" or "RRULE:FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231"
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const parseRecurrenceRule = (text: string): Partial<RecurrenceRule> & { frequency: RecurrenceFrequency } => {
+  const parts = new Map<string, string>()
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) throw new Error(`Invalid recurrence rule part "${part}"`)
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase())
+  }
+
+  const frequency = parts.get('FREQ') as RecurrenceFrequency
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) throw new Error(`Recurrence rule FREQ must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`)
+  const parsed: Partial<RecurrenceRule> & { frequency: RecurrenceFrequency } = { frequency }
+  for (const [key, value] of parts) {
+    if (key === 'FREQ') continue
+    if (key === 'INTERVAL') parsed.interval = Number(value)
+    else if (key === 'BYDAY') parsed.weekdays = value.split(',') as RecurrenceWeekday[]
+    else if (key === 'BYMONTHDAY') parsed.monthDay = Number(value)
+    else if (key === 'COUNT') parsed.endAfterCount = Number(value)
+    else if (key === 'UNTIL') {
+      const digits = value.replace(/-/g, '').slice(0, 8)
+      parsed.endDate = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`
+    } else throw new Error(`Recurrence rule part ${key} is not supported`)
+  }
+  return parsed
+}
+
+/**
+ * Throw unless a rule can be stored; fills the weekday or month day from the start date when missing
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const normalizeRecurrenceRule = (rule: Partial<RecurrenceRule> & { frequency: RecurrenceFrequency }, startDate: string): RecurrenceRule => {
+  const interval = rule.interval ?? 1
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+    throw new Error(`Recurrence interval must be a whole number from 1 to ${MAX_RECURRENCE_INTERVAL}`)
+  }
+  const weekdays = rule.frequency === 'WEEKLY' ? (rule.weekdays?.length ? rule.weekdays : [weekdayOf(toDay(startDate))]) : []
+  if (weekdays.some((weekday) => !RECURRENCE_WEEKDAYS.includes(weekday))) {
+    throw new Error(`Recurrence weekdays must be among ${RECURRENCE_WEEKDAYS.join(', ')}`)
+  }
+  const monthDay = rule.frequency === 'MONTHLY' ? rule.monthDay ?? toDay(startDate).getUTCDate() : null
+  if (monthDay !== null && (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31)) {
+    throw new Error('Recurrence month day must be from 1 to 31')
+  }
+  const endAfterCount = rule.endAfterCount ?? null
+  if (endAfterCount !== null && (!Number.isInteger(endAfterCount) || endAfterCount < 1 || endAfterCount > MAX_RECURRENCE_COUNT)) {
+    throw new Error(`Recurrence must end after 1 to ${MAX_RECURRENCE_COUNT} occurrences`)
+  }
+  const endDate = rule.endDate || null
+  if (endDate !== null && !isCalendarDay(endDate)) throw new Error('Recurrence end date must be a valid date in YYYY-MM-DD format')
+  if (endDate !== null && endDate < startDate) throw new Error('Recurrence end date cannot be before the first occurrence')
+
+  return {
+    frequency: rule.frequency,
+    interval,
+    weekdays: RECURRENCE_WEEKDAYS.filter((weekday) => weekdays.includes(weekday)),
+    monthDay,
+    endAfterCount,
+    endDate,
+  }
+}
+
+/**
+ * RRULE-like text of a rule, the inverse of parseRecurrenceRule
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`]
+  if (rule.weekdays.length > 0) parts.push(`BYDAY=${rule.weekdays.join(',')}`)
+  if (rule.monthDay !== null) parts.push(`BYMONTHDAY=${rule.monthDay}`)
+  if (rule.endAfterCount !== null) parts.push(`COUNT=${rule.endAfterCount}`)
+  if (rule.endDate) parts.push(`UNTIL=${rule.endDate.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+/**
+ * Map a task_recurrences row joined with its current occurrence
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const mapRecurrenceRow = (row: any): TaskRecurrenceRecord => {
+  const rule: RecurrenceRule = {
+    frequency: row.frequency,
+    interval: Number(row.interval_count),
+    weekdays: row.weekdays ? row.weekdays.split(',') : [],
+    monthDay: row.month_day !== null ? Number(row.month_day) : null,
+    endAfterCount: row.end_after_count !== null ? Number(row.end_after_count) : null,
+    endDate: row.end_date || null,
+  }
+  const occurrenceCount = Number(row.occurrence_count)
+  const isActive = !row.ended_at
+  const hasMore = isActive && (rule.endAfterCount === null || occurrenceCount < rule.endAfterCount)
+  return {
+    ...rule,
+    id: row.id.toString(),
+    taskId: row.task_id.toString(),
+    startDate: row.start_date,
+    occurrenceCount,
+    nextDueDate: hasMore ? getNextOccurrenceDate(rule, row.start_date, row.occurrence_date || row.today, row.today) : null,
+    rule: formatRecurrenceRule(rule),
+    isActive,
+    createdAt: formatDateToISO(row.created_at),
+    updatedAt: formatDateToISO(row.updated_at),
+  }
+}
+
+/**
+ * Repeat rule of a task, or null when the task is not the latest occurrence of a recurring series
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTaskRecurrence = async (taskId: number | string): Promise<TaskRecurrenceRecord | null> => {
+  const rows = (await db.query(`${RECURRENCE_SELECT} WHERE r.task_id = ?`, [taskId])) as any[]
+  return rows.length > 0 ? mapRecurrenceRow(rows[0]) : null
+}
+
+/**
+ * Create the next occurrence of a series and make it the series' current task
+ * Copies title, description, priority, estimate, assignee, tags, watchers and unchecked checklist items; the copy starts in the first
+ * not-started state of the project's workflow, outside any sprint
+ * The series row is locked so the scheduler and a task update cannot both create the same occurrence
+ * While that state is at its WIP limit the series waits and the scheduler tries again on its next run
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param expectedTaskId - Only advance while this task is still the current occurrence
+ * @returns ID of the new task, or null when the series ended, already moved on or is waiting for room
+ */
+const createNextOccurrence = async (recurrenceId: number | string, expectedTaskId: number | string): Promise<number | null> => {
+  const connection = await db.getConnection()
+  let created: { id: number; title: string; projectId: number; dueDate: string } | null = null
+  try {
+    await connection.beginTransaction()
+    const [rows] = (await connection.query(
+      `${RECURRENCE_SELECT} WHERE r.id = ? AND r.task_id = ? AND r.ended_at IS NULL FOR UPDATE`,
+      [recurrenceId, expectedTaskId]
+    )) as any
+    if (rows.length === 0) {
+      await connection.commit()
+      return null
+    }
+    const recurrence = mapRecurrenceRow(rows[0])
+    if (!recurrence.nextDueDate) {
+      await connection.query('UPDATE task_recurrences SET ended_at = CURRENT_TIMESTAMP(3) WHERE id = ?', [recurrenceId])
+      await connection.commit()
+      return null
+    }
+
+    const [tasks] = (await connection.query(
+      'SELECT title, description, priority, estimate_minutes, project_id, assigned_to FROM tasks WHERE id = ?',
+      [expectedTaskId]
+    )) as any
+    const source = tasks[0]
+    const workflow = (await loadProjectWorkflows([source.project_id])).get(Number(source.project_id))
+    const initialState = workflow?.states.find((state) => state.category === 'NOT_STARTED') || workflow?.states[0]
+    if (workflow && initialState && (await isWipLimitReached(workflow, initialState.key))) {
+      await connection.commit()
+      return null
+    }
+    const boardRank = await getNextBoardRank(source.project_id)
+
+    const [result] = (await connection.query(
+      'INSERT INTO tasks (uuid, title, description, status, priority, due_date, estimate_minutes, project_id, assigned_to, board_rank) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [randomUUID(), source.title, source.description, initialState?.key || 'TODO', source.priority, recurrence.nextDueDate,
+        source.estimate_minutes, source.project_id, source.assigned_to, boardRank]
+    )) as any
+    await connection.query('INSERT INTO task_tags (task_id, tag_id) SELECT ?, tag_id FROM task_tags WHERE task_id = ?', [result.insertId, expectedTaskId])
+    await connection.query(
+      `INSERT INTO task_checklist_items (task_id, content, position, assigned_to)
+      SELECT ?, content, position, assigned_to FROM task_checklist_items WHERE task_id = ?`,
+      [result.insertId, expectedTaskId]
+    )
+    await connection.query('INSERT INTO task_watchers (task_id, user_id) SELECT ?, user_id FROM task_watchers WHERE task_id = ?', [result.insertId, expectedTaskId])
+    const occurrenceCount = recurrence.occurrenceCount + 1
+    await connection.query(
+      `UPDATE task_recurrences SET task_id = ?, occurrence_count = ?${recurrence.endAfterCount !== null && occurrenceCount >= recurrence.endAfterCount ? ', ended_at = CURRENT_TIMESTAMP(3)' : ''}
+      WHERE id = ?`,
+      [result.insertId, occurrenceCount, recurrenceId]
+    )
+    await connection.commit()
+    created = { id: result.insertId, title: source.title, projectId: source.project_id, dueDate: recurrence.nextDueDate }
+  } catch (error) {
+    await connection.rollback()
+    throw error
+  } finally {
+    connection.release()
+  }
+
+  await createActivityLog({
+    userId: null,
+    projectId: created.projectId,
+    taskId: created.id,
+    type: 'TASK_CREATED',
+    action: `Recurring task "${created.title}" created for ${created.dueDate}`,
+    metadata: { recurrenceId: Number(recurrenceId), previousTaskId: Number(expectedTaskId) },
+  })
+  return created.id
+}
+
+/**
+ * Create the next occurrence of every recurring series whose current task is finished or past its due date
+ * Series whose current task is in the trash wait until it is restored
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Only look at the series this task is the current occurrence of
+ * @returns Number of tasks created
+ */
+export const generateRecurringTasks = async (taskId?: number | string | null): Promise<number> => {
+  const params: any[] = []
+  let where = 'r.ended_at IS NULL'
+  if (taskId) {
+    where += ' AND r.task_id = ?'
+    params.push(taskId)
+  }
+  const rows = (await db.query(
+    `SELECT r.id, r.task_id, t.project_id, t.status, (t.due_date IS NOT NULL AND t.due_date < CURDATE()) as is_past
+    FROM task_recurrences r
+    INNER JOIN tasks t ON t.id = r.task_id AND t.is_deleted = false
+    INNER JOIN projects p ON p.id = t.project_id AND p.is_deleted = false
+    WHERE ${where}`,
+    params
+  )) as any[]
+  if (rows.length === 0) return 0
+
+  const workflows = await loadProjectWorkflows(rows.map((row: any) => row.project_id))
+  let created = 0
+  for (const row of rows) {
+    const workflow = workflows.get(Number(row.project_id))
+    if (!Number(row.is_past) && !(workflow && isDoneStatus(workflow, row.status))) continue
+    if (await createNextOccurrence(row.id, row.task_id)) created += 1
+  }
+  return created
+}
+
+/**
+ * Start the background job that creates the next occurrences of recurring tasks
+ * Runs once shortly after startup, then on a fixed interval
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const startRecurringTaskJob = (): void => {
+  const run = () => {
+    generateRecurringTasks().catch(() => {
+      // Database may be unavailable - the next run retries
+    })
+  }
+  setTimeout(run, 60 * 1000).unref()
+  setInterval(run, RECURRENCE_CHECK_INTERVAL_MS).unref()
+}
@@ -0,0 +1,102 @@
+/**
+ * Sprint Utilities
+ * Sprint membership checks and the daily snapshots behind sprint burndown charts
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { getProjectWorkflow, isDoneStatus } from './workflows'
+
+export interface SprintWork {
+  totalTasks: number
+  remainingTasks: number
+  totalMinutes: number
+  remainingMinutes: number
+}
+
+/**
+ * Throw unless a task of the project can be put in the sprint
+ * Closed sprints keep the work they finished and take no new tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertSprintAcceptsTask = async (sprintId: number | string, projectId: number | string): Promise<void> => {
+  const sprints = (await db.query('SELECT project_id, state FROM sprints WHERE id = ?', [sprintId])) as any[]
+  if (sprints.length === 0 || Number(sprints[0].project_id) !== Number(projectId)) {
+    throw new Error('Sprint not found in this project')
+  }
+  if (sprints[0].state === 'CLOSED') throw new Error('Tasks cannot be added to a closed sprint')
+}
+
+/**
+ * Count the tasks and estimated minutes of a sprint, and how much of each is not in a DONE-category state
+ * Tasks in the trash are left out
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const measureSprintWork = async (sprintId: number | string, projectId: number | string): Promise<SprintWork> => {
+  const workflow = await getProjectWorkflow(projectId)
+  const tasks = (await db.query(
+    'SELECT status, estimate_minutes FROM tasks WHERE sprint_id = ? AND is_deleted = false',
+    [sprintId]
+  )) as any[]
+  return tasks.reduce(
+    (work: SprintWork, task: any) => {
+      const minutes = Number(task.estimate_minutes || 0)
+      const isDone = isDoneStatus(workflow, task.status)
+      return {
+        totalTasks: work.totalTasks + 1,
+        remainingTasks: work.remainingTasks + (isDone ? 0 : 1),
+        totalMinutes: work.totalMinutes + minutes,
+        remainingMinutes: work.remainingMinutes + (isDone ? 0 : minutes),
+      }
+    },
+    { totalTasks: 0, remainingTasks: 0, totalMinutes: 0, remainingMinutes: 0 }
+  )
+}
+
+/**
+ * Store today's remaining work of the given sprints that are active
+ * Called whenever sprint work may have changed; the last write of a day is the one the burndown shows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recordSprintSnapshots = async (sprintIds: Array<number | string | null | undefined>): Promise<void> => {
+  const ids = Array.from(new Set(sprintIds.filter((id) => id !== null && id !== undefined).map((id) => Number(id))))
+  if (ids.length === 0) return
+
+  const sprints = (await db.query(
+    `SELECT id, project_id FROM sprints WHERE id IN (${ids.map(() => '?').join(',')}) AND state = 'ACTIVE'`,
+    ids
+  )) as any[]
+  for (const sprint of sprints) {
+    const work = await measureSprintWork(sprint.id, sprint.project_id)
+    await db.query(
+      `INSERT INTO sprint_snapshots (sprint_id, snapshot_date, total_tasks, remaining_tasks, total_minutes, remaining_minutes)
+      VALUES (?, CURDATE(), ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE total_tasks = VALUES(total_tasks), remaining_tasks = VALUES(remaining_tasks),
+        total_minutes = VALUES(total_minutes), remaining_minutes = VALUES(remaining_minutes)`,
+      [sprint.id, work.totalTasks, work.remainingTasks, work.totalMinutes, work.remainingMinutes]
+    )
+  }
+}
+
+/**
+ * Store today's remaining work of the active sprints the given tasks belong to
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const recordSprintSnapshotsForTasks = async (taskIds: Array<number | string>): Promise<void> => {
+  if (taskIds.length === 0) return
+  const rows = (await db.query(
+    `SELECT DISTINCT sprint_id FROM tasks WHERE id IN (${taskIds.map(() => '?').join(',')}) AND sprint_id IS NOT NULL`,
+    taskIds
+  )) as any[]
+  await recordSprintSnapshots(rows.map((row: any) => row.sprint_id))
+}
@@ -0,0 +1,62 @@
+/**
+ * Task Board Utilities
+ * Manual ordering of task cards within the columns of a project board
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { BOARD_RANK_MIN_GAP, BOARD_RANK_STEP } from '../constants/taskBoard'
+
+/**
+ * Rank that places a task after every other task of a project
+ * Trashed tasks count too, so a restored task keeps a free slot
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getNextBoardRank = async (projectId: number | string): Promise<number> => {
+  const rows = (await db.query('SELECT MAX(board_rank) as max_rank FROM tasks WHERE project_id = ?', [projectId])) as any[]
+  const maxRank = rows[0]?.max_rank
+  return maxRank !== null && maxRank !== undefined ? Number(maxRank) + BOARD_RANK_STEP : BOARD_RANK_STEP
+}
+
+/**
+ * Renumber a project's ranks when a task sits too close to a neighbour in its column
+ * Repeatedly dropping cards between the same two neighbours halves the gap each time,
+ * so the column is spread out again before the ranks run out of precision
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Whether the ranks were renumbered
+ */
+export const rebalanceBoardRanksIfCrowded = async (taskId: number | string): Promise<boolean> => {
+  const crowded = (await db.query(
+    `SELECT t.project_id FROM tasks t
+    INNER JOIN tasks n ON n.project_id = t.project_id AND n.status = t.status AND n.id <> t.id AND n.is_deleted = false
+    WHERE t.id = ? AND ABS(n.board_rank - t.board_rank) < ?
+    LIMIT 1`,
+    [taskId, BOARD_RANK_MIN_GAP]
+  )) as any[]
+  if (crowded.length === 0) return false
+
+  const tasks = (await db.query(
+    'SELECT id FROM tasks WHERE project_id = ? ORDER BY board_rank ASC, id ASC',
+    [crowded[0].project_id]
+  )) as any[]
+  const connection = await db.getConnection()
+  try {
+    await connection.beginTransaction()
+    for (const [index, task] of tasks.entries()) {
+      await connection.query('UPDATE tasks SET board_rank = ? WHERE id = ?', [(index + 1) * BOARD_RANK_STEP, task.id])
+    }
+    await connection.commit()
+  } catch (error) {
+    await connection.rollback()
+    throw error
+  } finally {
+    connection.release()
+  }
+  return true
+}
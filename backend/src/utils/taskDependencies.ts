@@ -0,0 +1,108 @@
+/**
+ * Task Dependency Utilities
+ * Cycle detection, unfinished blocker lookup and unblock notifications for task dependencies
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { GraphQLError } from 'graphql'
+import { db } from '../db'
+import { createNotificationRecord } from './helpers'
+import { isDoneStatus, loadProjectWorkflows } from './workflows'
+
+/**
+ * Drop the rows whose status is in the DONE category of their project's workflow
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const filterUnfinishedTasks = async <T extends { project_id: number | string; status: string }>(rows: T[]): Promise<T[]> => {
+  const workflows = await loadProjectWorkflows(rows.map((row) => row.project_id))
+  return rows.filter((row) => {
+    const workflow = workflows.get(Number(row.project_id))
+    return !workflow || !isDoneStatus(workflow, row.status)
+  })
+}
+
+/**
+ * Check whether "blocker blocks blocked" would close a loop
+ * Follows existing links from the blocked task, including links of deleted tasks since a restore brings them back
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const wouldCreateDependencyCycle = async (blockerTaskId: number | string, blockedTaskId: number | string): Promise<boolean> => {
+  const target = Number(blockerTaskId)
+  const visited = new Set<number>()
+  let frontier = [Number(blockedTaskId)]
+  while (frontier.length > 0) {
+    if (frontier.includes(target)) return true
+    frontier.forEach((id) => visited.add(id))
+    const placeholders = frontier.map(() => '?').join(',')
+    const links = (await db.query(
+      `SELECT blocked_task_id FROM task_dependencies WHERE blocker_task_id IN (${placeholders})`,
+      frontier
+    )) as any[]
+    frontier = links.map((link: any) => Number(link.blocked_task_id)).filter((id: number) => !visited.has(id))
+  }
+  return false
+}
+
+/**
+ * Active blockers of a task whose status is not in a DONE category yet
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getUnfinishedBlockers = async (taskId: number | string): Promise<Array<{ id: string; title: string; status: string }>> => {
+  const blockers = (await db.query(
+    `SELECT t.id, t.title, t.status, t.project_id FROM task_dependencies td
+    INNER JOIN tasks t ON t.id = td.blocker_task_id AND t.is_deleted = false
+    WHERE td.blocked_task_id = ?
+    ORDER BY t.title ASC`,
+    [taskId]
+  )) as any[]
+  return (await filterUnfinishedTasks(blockers)).map((blocker: any) => ({ id: blocker.id.toString(), title: blocker.title, status: blocker.status }))
+}
+
+/**
+ * Build the error returned when a task with unfinished blockers is moved to a DONE state without force
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const createTaskBlockedError = (blockers: Array<{ id: string; title: string; status: string }>): GraphQLError =>
+  new GraphQLError(
+    `This task is blocked by ${blockers.length} unfinished task${blockers.length === 1 ? '' : 's'}: ${blockers.map((blocker) => `"${blocker.title}"`).join(', ')}.`,
+    { extensions: { code: 'TASK_BLOCKED', blockers } }
+  )
+
+/**
+ * Tell the assignees of the tasks a finished task was blocking
+ * Each message says whether the task is now free or still waiting on other blockers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const notifyBlockedTaskAssignees = async (
+  finishedTaskId: number | string,
+  finishedTaskTitle: string,
+  actorUserId?: number | null
+): Promise<void> => {
+  const blockedTasks = await filterUnfinishedTasks((await db.query(
+    `SELECT t.id, t.title, t.status, t.project_id, t.assigned_to FROM task_dependencies td
+    INNER JOIN tasks t ON t.id = td.blocked_task_id AND t.is_deleted = false
+    WHERE td.blocker_task_id = ? AND t.assigned_to IS NOT NULL`,
+    [finishedTaskId]
+  )) as any[])
+
+  for (const blocked of blockedTasks) {
+    if (actorUserId && Number(blocked.assigned_to) === Number(actorUserId)) continue
+    const remaining = (await getUnfinishedBlockers(blocked.id)).length
+    const message = remaining === 0
+      ? `"${finishedTaskTitle}" is done, so "${blocked.title}" is no longer blocked.`
+      : `"${finishedTaskTitle}" is done; "${blocked.title}" is still waiting on ${remaining} other task${remaining === 1 ? '' : 's'}.`
+    await createNotificationRecord(Number(blocked.assigned_to), message)
+  }
+}
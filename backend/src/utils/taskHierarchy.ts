@@ -0,0 +1,140 @@
+/**
+ * Task Hierarchy Utilities
+ * Parent/subtask validation, subtree lookup and progress rollup
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { getProjectWorkflow, isDoneStatus } from './workflows'
+
+interface TaskProgressRow {
+  id: number | string
+  parent_task_id: number | string | null
+  status: string
+}
+
+/**
+ * Compute progress (0-100) for every task in a list
+ * A task without subtasks is 100 when its status is in the DONE category and 0 otherwise;
+ * a parent is the average of its subtasks, so progress rolls up through every level
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param isDone - Decides whether a row is finished, by default by the DONE status of the default workflow
+ * @returns Map of task ID to progress percentage
+ */
+export const calculateTaskProgress = <T extends TaskProgressRow>(
+  rows: T[],
+  isDone: (row: T) => boolean = (row) => row.status === 'DONE'
+): Map<number, number> => {
+  const childrenByParent = new Map<number, number[]>()
+  const doneById = new Map<number, boolean>()
+  rows.forEach((row) => {
+    doneById.set(Number(row.id), isDone(row))
+    if (row.parent_task_id === null || row.parent_task_id === undefined) return
+    const parentId = Number(row.parent_task_id)
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), Number(row.id)])
+  })
+
+  const progress = new Map<number, number>()
+  const resolve = (taskId: number, visiting: Set<number>): number => {
+    const known = progress.get(taskId)
+    if (known !== undefined) return known
+    const children = (childrenByParent.get(taskId) || []).filter((childId) => !visiting.has(childId))
+    let value = doneById.get(taskId) ? 100 : 0
+    if (children.length > 0) {
+      visiting.add(taskId)
+      const total = children.reduce((sum, childId) => sum + resolve(childId, visiting), 0)
+      visiting.delete(taskId)
+      value = Math.round(total / children.length)
+    }
+    progress.set(taskId, value)
+    return value
+  }
+  doneById.forEach((_, taskId) => resolve(taskId, new Set()))
+  return progress
+}
+
+/**
+ * Load progress for every active task in a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getProjectTaskProgress = async (projectId: number | string): Promise<Map<number, number>> => {
+  const rows = (await db.query(
+    'SELECT id, parent_task_id, status FROM tasks WHERE project_id = ? AND is_deleted = false',
+    [projectId]
+  )) as any[]
+  const workflow = await getProjectWorkflow(projectId)
+  return calculateTaskProgress(rows, (row) => isDoneStatus(workflow, row.status))
+}
+
+/**
+ * Collect the IDs of every subtask below a task, at any depth
+ * By default only active subtasks are followed; pass deletedAt to follow
+ * the subtasks that were soft deleted together with the task instead
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const collectSubtaskIds = async (taskId: number | string, deletedAt?: Date | null): Promise<number[]> => {
+  const collected: number[] = []
+  let frontier = [Number(taskId)]
+  while (frontier.length > 0) {
+    const placeholders = frontier.map(() => '?').join(',')
+    const children = (deletedAt === undefined
+      ? await db.query(
+        `SELECT id FROM tasks WHERE parent_task_id IN (${placeholders}) AND is_deleted = false`,
+        frontier
+      )
+      : await db.query(
+        `SELECT id FROM tasks WHERE parent_task_id IN (${placeholders}) AND is_deleted = true AND deleted_at <=> ?`,
+        [...frontier, deletedAt]
+      )) as any[]
+    frontier = children.map((child: any) => Number(child.id)).filter((id: number) => !collected.includes(id))
+    collected.push(...frontier)
+  }
+  return collected
+}
+
+/**
+ * Validate a parent for a task
+ * The parent must be an active task in the same project and must not sit below the task itself
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task being moved, or null for a task that is being created
+ */
+export const assertValidTaskParent = async (
+  taskId: number | string | null,
+  parentId: number | string,
+  projectId: number | string
+): Promise<void> => {
+  if (taskId !== null && Number(taskId) === Number(parentId)) {
+    throw new Error('A task cannot be its own parent')
+  }
+  const parents = (await db.query(
+    'SELECT id, project_id FROM tasks WHERE id = ? AND is_deleted = false',
+    [parentId]
+  )) as any[]
+  if (parents.length === 0) throw new Error('Parent task not found')
+  if (Number(parents[0].project_id) !== Number(projectId)) {
+    throw new Error('A subtask must belong to the same project as its parent')
+  }
+  if (taskId === null) return
+
+  // Walk up from the new parent, including deleted rows, since a restore would bring those links back
+  const visited = new Set<number>()
+  let ancestorId: number | null = Number(parentId)
+  while (ancestorId !== null && !visited.has(ancestorId)) {
+    if (ancestorId === Number(taskId)) {
+      throw new Error('A task cannot be moved under one of its own subtasks')
+    }
+    visited.add(ancestorId)
+    const ancestors = (await db.query('SELECT parent_task_id FROM tasks WHERE id = ?', [ancestorId])) as any[]
+    ancestorId = ancestors.length > 0 && ancestors[0].parent_task_id !== null ? Number(ancestors[0].parent_task_id) : null
+  }
+}
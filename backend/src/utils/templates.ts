@@ -0,0 +1,281 @@
+/**
+ * Template Utilities
+ * Snapshots of a project's skeleton and new projects built from them, used by templates and project duplication
+ * A snapshot holds the workflow, tasks with tags and checklists, members and milestones;
+ * due dates are kept as day offsets from the day the source project was created
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { randomUUID } from 'crypto'
+import { db } from '../db'
+import { formatDateToISO, formatUser } from './formatters'
+import { assertNewTasksFitWipLimit, getProjectWorkflow } from './workflows'
+import { DEFAULT_WORKFLOW_STATES, WorkflowCategory } from '../constants/workflows'
+import { BOARD_RANK_STEP } from '../constants/taskBoard'
+
+export interface TemplateTask {
+  ref: number
+  parentRef: number | null
+  title: string
+  description: string
+  priority: string
+  estimateMinutes: number | null
+  dueOffsetDays: number | null
+  tagIds: number[]
+  checklist: string[]
+}
+
+export interface ProjectTemplateContent {
+  workflow: {
+    states: Array<{ key: string; name: string; category: WorkflowCategory; wipLimit: number | null }>
+    transitions: Array<{ from: string; to: string }>
+  } | null
+  tasks: TemplateTask[]
+  members: Array<{ userId: number; role: string }>
+  milestones: Array<{ name: string; description: string | null; dueOffsetDays: number; taskRefs: number[] }>
+}
+
+/**
+ * Read a JSON column; the driver returns objects, older rows may come back as text
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const parseJsonColumn = <T>(value: any, fallback: T): T => {
+  if (value === null || value === undefined) return fallback
+  if (typeof value !== 'string') return value as T
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Snapshot the skeleton of a project
+ * Tasks in the trash are left out; parents come before their subtasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const buildProjectSnapshot = async (projectId: number | string): Promise<ProjectTemplateContent> => {
+  const workflow = await getProjectWorkflow(projectId)
+  const rows = (await db.query(
+    `SELECT t.id, t.title, t.description, t.priority, t.estimate_minutes, t.parent_task_id,
+      DATEDIFF(t.due_date, DATE(p.created_at)) as due_offset
+    FROM tasks t INNER JOIN projects p ON p.id = t.project_id
+    WHERE t.project_id = ? AND t.is_deleted = false ORDER BY t.board_rank ASC, t.id ASC`,
+    [projectId]
+  )) as any[]
+  const taskIds = rows.map((row: any) => row.id)
+  const placeholders = taskIds.map(() => '?').join(',')
+  const [tags, checklistItems] = taskIds.length > 0
+    ? await Promise.all([
+      db.query(`SELECT task_id, tag_id FROM task_tags WHERE task_id IN (${placeholders})`, taskIds) as Promise<any[]>,
+      db.query(
+        `SELECT task_id, content FROM task_checklist_items WHERE task_id IN (${placeholders}) ORDER BY position ASC, id ASC`,
+        taskIds
+      ) as Promise<any[]>,
+    ])
+    : [[], []]
+
+  const ids = new Set(taskIds.map((id: any) => Number(id)))
+  const tasks: TemplateTask[] = rows.map((row: any) => ({
+    ref: Number(row.id),
+    parentRef: row.parent_task_id && ids.has(Number(row.parent_task_id)) ? Number(row.parent_task_id) : null,
+    title: row.title,
+    description: row.description,
+    priority: row.priority,
+    estimateMinutes: row.estimate_minutes !== null ? Number(row.estimate_minutes) : null,
+    dueOffsetDays: row.due_offset !== null ? Number(row.due_offset) : null,
+    tagIds: tags.filter((tag: any) => Number(tag.task_id) === Number(row.id)).map((tag: any) => Number(tag.tag_id)),
+    checklist: checklistItems.filter((item: any) => Number(item.task_id) === Number(row.id)).map((item: any) => item.content),
+  }))
+
+  // Parents first, so a new project can link each subtask to an already created parent
+  const ordered: TemplateTask[] = []
+  const placed = new Set<number>()
+  const place = (parentRef: number | null) => {
+    tasks.filter((task) => task.parentRef === parentRef && !placed.has(task.ref)).forEach((task) => {
+      placed.add(task.ref)
+      ordered.push(task)
+      place(task.ref)
+    })
+  }
+  place(null)
+
+  const members = (await db.query(
+    `SELECT pm.user_id, pm.role FROM project_members pm INNER JOIN users u ON u.id = pm.user_id AND u.is_deleted = false
+    WHERE pm.project_id = ? AND pm.is_deleted = false`,
+    [projectId]
+  )) as any[]
+  const milestones = (await db.query(
+    `SELECT m.id, m.name, m.description, DATEDIFF(m.due_date, DATE(p.created_at)) as due_offset
+    FROM milestones m INNER JOIN projects p ON p.id = m.project_id
+    WHERE m.project_id = ? ORDER BY m.due_date ASC, m.id ASC`,
+    [projectId]
+  )) as any[]
+  const milestoneIds = milestones.map((milestone: any) => milestone.id)
+  const milestoneTasks = milestoneIds.length > 0
+    ? ((await db.query(
+      `SELECT milestone_id, task_id FROM milestone_tasks WHERE milestone_id IN (${milestoneIds.map(() => '?').join(',')})`,
+      milestoneIds
+    )) as any[])
+    : []
+
+  return {
+    workflow: workflow.isCustom
+      ? {
+        states: workflow.states.map((state) => ({ key: state.key, name: state.name, category: state.category, wipLimit: state.wipLimit })),
+        transitions: workflow.transitions,
+      }
+      : null,
+    tasks: ordered,
+    members: members.map((member: any) => ({ userId: Number(member.user_id), role: member.role })),
+    milestones: milestones.map((milestone: any) => ({
+      name: milestone.name,
+      description: milestone.description,
+      dueOffsetDays: Number(milestone.due_offset),
+      taskRefs: milestoneTasks
+        .filter((link: any) => Number(link.milestone_id) === Number(milestone.id) && ids.has(Number(link.task_id)))
+        .map((link: any) => Number(link.task_id)),
+    })),
+  }
+}
+
+/**
+ * Create a project from a snapshot inside the caller's transaction
+ * Every task starts in the first not-started state of the workflow, unassigned and outside any sprint,
+ * so the snapshot is refused when that state's WIP limit is smaller than its task count
+ * Due dates are the snapshot offsets counted from startDate
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param connection - Connection with an open transaction
+ * @param startDate - Day the offsets count from, YYYY-MM-DD
+ * @returns ID of the new project
+ */
+export const createProjectFromSnapshot = async (
+  connection: any,
+  content: ProjectTemplateContent,
+  project: { name: string; description: string; status: string; ownerId: number },
+  startDate: string,
+  includeMembers: boolean
+): Promise<number> => {
+  const states = content.workflow?.states || DEFAULT_WORKFLOW_STATES.map((state) => ({ ...state, wipLimit: null }))
+  const initialState = states.find((state) => state.category === 'NOT_STARTED') || states[0]
+  assertNewTasksFitWipLimit(initialState, content.tasks.length)
+
+  const [projectResult] = (await connection.query(
+    'INSERT INTO projects (uuid, name, description, status, owner_id) VALUES (?, ?, ?, ?, ?)',
+    [randomUUID(), project.name, project.description, project.status, project.ownerId]
+  )) as any
+  const projectId = Number(projectResult.insertId)
+
+  if (content.workflow) {
+    const stateIds = new Map<string, number>()
+    for (const [position, state] of content.workflow.states.entries()) {
+      const [result] = (await connection.query(
+        'INSERT INTO workflow_states (project_id, state_key, name, category, position, wip_limit) VALUES (?, ?, ?, ?, ?, ?)',
+        [projectId, state.key, state.name, state.category, position, state.wipLimit]
+      )) as any
+      stateIds.set(state.key, result.insertId)
+    }
+    for (const transition of content.workflow.transitions) {
+      if (!stateIds.has(transition.from) || !stateIds.has(transition.to)) continue
+      await connection.query(
+        'INSERT INTO workflow_transitions (project_id, from_state_id, to_state_id) VALUES (?, ?, ?)',
+        [projectId, stateIds.get(transition.from), stateIds.get(transition.to)]
+      )
+    }
+  }
+  const initialStatus = initialState.key
+
+  const taskIds = new Map<number, number>()
+  for (const [index, task] of content.tasks.entries()) {
+    const [result] = (await connection.query(
+      `INSERT INTO tasks (uuid, title, description, status, priority, due_date, estimate_minutes, project_id, parent_task_id, board_rank)
+      VALUES (?, ?, ?, ?, ?, IF(? IS NULL, NULL, DATE_ADD(?, INTERVAL ? DAY)), ?, ?, ?, ?)`,
+      [
+        randomUUID(), task.title, task.description, initialStatus, task.priority,
+        task.dueOffsetDays, startDate, task.dueOffsetDays ?? 0,
+        task.estimateMinutes, projectId,
+        task.parentRef !== null ? taskIds.get(task.parentRef) ?? null : null,
+        (index + 1) * BOARD_RANK_STEP,
+      ]
+    )) as any
+    const taskId = Number(result.insertId)
+    taskIds.set(task.ref, taskId)
+    if (task.tagIds.length > 0) {
+      await connection.query(
+        `INSERT INTO task_tags (task_id, tag_id) SELECT ?, id FROM tags WHERE id IN (${task.tagIds.map(() => '?').join(',')})`,
+        [taskId, ...task.tagIds]
+      )
+    }
+    for (const [position, text] of task.checklist.entries()) {
+      await connection.query('INSERT INTO task_checklist_items (task_id, content, position) VALUES (?, ?, ?)', [taskId, text, position + 1])
+    }
+  }
+
+  if (includeMembers) {
+    for (const member of content.members) {
+      if (member.userId === project.ownerId) continue
+      await connection.query(
+        'INSERT INTO project_members (project_id, user_id, role) SELECT ?, id, ? FROM users WHERE id = ? AND is_deleted = false',
+        [projectId, member.role, member.userId]
+      )
+    }
+  }
+
+  for (const milestone of content.milestones) {
+    const [result] = (await connection.query(
+      'INSERT INTO milestones (project_id, name, description, due_date) VALUES (?, ?, ?, DATE_ADD(?, INTERVAL ? DAY))',
+      [projectId, milestone.name, milestone.description, startDate, milestone.dueOffsetDays]
+    )) as any
+    for (const taskRef of milestone.taskRefs) {
+      if (!taskIds.has(taskRef)) continue
+      await connection.query('INSERT INTO milestone_tasks (milestone_id, task_id) VALUES (?, ?)', [result.insertId, taskIds.get(taskRef)])
+    }
+  }
+
+  await connection.query('INSERT INTO project_watchers (project_id, user_id) VALUES (?, ?)', [projectId, project.ownerId])
+  return projectId
+}
+
+/**
+ * Load a project built from a snapshot in the shape returned by createProject
+ * The owner watches it and nobody has liked or commented on it yet
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getCreatedProject = async (projectId: number) => {
+  const projects = (await db.query(
+    `SELECT p.id, p.name, p.description, p.status, p.owner_id, p.created_at, p.updated_at,
+      u.id as owner_user_id, u.first_name as owner_first_name, u.last_name as owner_last_name,
+      u.email as owner_email, u.role as owner_role, u.uuid as owner_uuid,
+      u.created_at as owner_created_at, u.updated_at as owner_updated_at
+    FROM projects p
+    LEFT JOIN users u ON p.owner_id = u.id AND u.is_deleted = false
+    WHERE p.id = ?`,
+    [projectId]
+  )) as any[]
+  if (projects.length === 0) throw new Error('Failed to retrieve created project')
+
+  const project = projects[0]
+  return {
+    id: project.id.toString(),
+    name: project.name,
+    description: project.description,
+    status: project.status,
+    owner: formatUser(project, 'owner_'),
+    likesCount: 0,
+    commentsCount: 0,
+    isLiked: false,
+    isWatching: true,
+    createdAt: formatDateToISO(project.created_at),
+    updatedAt: formatDateToISO(project.updated_at),
+  }
+}
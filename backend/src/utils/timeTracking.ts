@@ -0,0 +1,61 @@
+/**
+ * Time Tracking Utilities
+ * Totals of the time logged on tasks and projects
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+
+interface TimeSpentRange {
+  from?: string | null
+  to?: string | null
+}
+
+/**
+ * Add the optional started_at range to a time entry filter
+ * to is exclusive, so a month is from the 1st to the 1st of the next month
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const buildRangeClause = ({ from, to }: TimeSpentRange, values: any[]): string => {
+  let clause = ''
+  if (from) { clause += ' AND te.started_at >= ?'; values.push(from) }
+  if (to) { clause += ' AND te.started_at < ?'; values.push(to) }
+  return clause
+}
+
+/**
+ * Minutes logged on a task by stopped timers and manual entries
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTaskTimeSpent = async (taskId: number | string): Promise<number> => {
+  const rows = (await db.query(
+    'SELECT COALESCE(SUM(duration_minutes), 0) as minutes FROM time_entries WHERE task_id = ? AND ended_at IS NOT NULL',
+    [taskId]
+  )) as any[]
+  return Number(rows[0]?.minutes || 0)
+}
+
+/**
+ * Minutes logged on the tasks of a project, optionally for entries started within a range
+ * Time on tasks in the trash is left out
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getProjectTimeSpent = async (projectId: number | string, range: TimeSpentRange = {}): Promise<number> => {
+  const values: any[] = [projectId]
+  const rangeClause = buildRangeClause(range, values)
+  const rows = (await db.query(
+    `SELECT COALESCE(SUM(te.duration_minutes), 0) as minutes FROM time_entries te
+    INNER JOIN tasks t ON t.id = te.task_id AND t.is_deleted = false
+    WHERE t.project_id = ? AND te.ended_at IS NOT NULL${rangeClause}`,
+    values
+  )) as any[]
+  return Number(rows[0]?.minutes || 0)
+}
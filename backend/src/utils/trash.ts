@@ -0,0 +1,87 @@
+/**
+ * Trash Utilities
+ * Permanent deletion of soft-deleted rows and the retention job that auto-purges them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_PURGE_INTERVAL_MS, TRASH_RESOURCE_TABLES } from '../constants/trash'
+
+export type TrashResourceType = keyof typeof TRASH_RESOURCE_TABLES
+
+/**
+ * Check whether a value is a supported trash resource type
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isTrashResourceType = (value: string): value is TrashResourceType =>
+  Object.prototype.hasOwnProperty.call(TRASH_RESOURCE_TABLES, value)
+
+/**
+ * Read the retention period from TRASH_RETENTION_DAYS
+ * Invalid values fall back to the default; 0 disables auto-purge
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTrashRetentionDays = (): number => {
+  const configured = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10)
+  return Number.isNaN(configured) || configured < 0 ? DEFAULT_TRASH_RETENTION_DAYS : configured
+}
+
+/**
+ * Permanently delete one soft-deleted row
+ * Foreign keys cascade to tags, likes, memberships, comments and activity logs
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns True when a row was deleted
+ */
+export const purgeTrashItem = async (resourceType: TrashResourceType, id: number | string): Promise<boolean> => {
+  const table = TRASH_RESOURCE_TABLES[resourceType]
+  const result = (await db.query(`DELETE FROM ${table} WHERE id = ? AND is_deleted = true`, [id])) as any
+  return result.affectedRows > 0
+}
+
+/**
+ * Permanently delete every item that has been in the trash longer than the retention period
+ * Rows deleted before deleted_at existed fall back to their last update time
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Number of rows purged across all tables
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const retentionDays = getTrashRetentionDays()
+  if (retentionDays === 0) return 0
+  let purged = 0
+  // Projects go first so their cascaded tasks are removed with them
+  for (const table of Object.values(TRASH_RESOURCE_TABLES)) {
+    const result = (await db.query(
+      `DELETE FROM ${table} WHERE is_deleted = true AND COALESCE(deleted_at, updated_at) < NOW(3) - INTERVAL ? DAY`,
+      [retentionDays]
+    )) as any
+    purged += Number(result.affectedRows || 0)
+  }
+  return purged
+}
+
+/**
+ * Start the background job that applies the retention policy
+ * Runs once shortly after startup, then on a fixed interval
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const startTrashRetentionJob = (): void => {
+  const run = () => {
+    purgeExpiredTrash().catch(() => {
+      // Database may be unavailable - the next run retries
+    })
+  }
+  setTimeout(run, 60 * 1000).unref()
+  setInterval(run, TRASH_PURGE_INTERVAL_MS).unref()
+}
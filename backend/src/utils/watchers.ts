@@ -0,0 +1,103 @@
+/**
+ * Watcher Utilities
+ * Who watches a task or a project, and notifications that go to those watchers only
+ * Project watchers also hear about every task of the project, whether or not they watch the task itself
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { db } from '../db'
+import { createNotificationRecord } from './helpers'
+import { formatUser } from './formatters'
+
+/**
+ * Make users watch a task; empty values and users who already watch it are skipped
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const addTaskWatchers = async (taskId: number | string, userIds: Array<number | string | null | undefined>): Promise<void> => {
+  const uniqueIds = [...new Set(userIds.filter((userId) => userId).map((userId) => Number(userId)))]
+  if (uniqueIds.length === 0) return
+  await db.query(
+    `INSERT IGNORE INTO task_watchers (task_id, user_id) VALUES ${uniqueIds.map(() => '(?, ?)').join(', ')}`,
+    uniqueIds.flatMap((userId) => [taskId, userId])
+  )
+}
+
+/**
+ * Make a user watch a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const addProjectWatcher = async (projectId: number | string, userId: number | string): Promise<void> => {
+  await db.query('INSERT IGNORE INTO project_watchers (project_id, user_id) VALUES (?, ?)', [projectId, userId])
+}
+
+/**
+ * Users watching a task directly, in the order they started watching
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getTaskWatchers = async (taskId: number | string): Promise<any[]> => {
+  const rows = (await db.query(
+    `SELECT u.id as user_user_id, u.uuid as user_uuid, u.first_name as user_first_name, u.last_name as user_last_name,
+      u.email as user_email, u.role as user_role, u.created_at as user_created_at, u.updated_at as user_updated_at
+    FROM task_watchers tw INNER JOIN users u ON u.id = tw.user_id AND u.is_deleted = false
+    WHERE tw.task_id = ? ORDER BY tw.created_at ASC, tw.id ASC`,
+    [taskId]
+  )) as any[]
+  return rows.map((row: any) => formatUser(row, 'user_'))
+}
+
+/**
+ * Which of the given tasks a user watches directly
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Set of watched task IDs
+ */
+export const getWatchedTaskIds = async (userId: number | null, taskIds: Array<number | string>): Promise<Set<number>> => {
+  if (!userId || taskIds.length === 0) return new Set()
+  const rows = (await db.query(
+    `SELECT task_id FROM task_watchers WHERE user_id = ? AND task_id IN (${taskIds.map(() => '?').join(',')})`,
+    [userId, ...taskIds]
+  )) as any[]
+  return new Set(rows.map((row: any) => Number(row.task_id)))
+}
+
+/**
+ * Whether a user watches a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isWatchingProject = async (userId: number | null, projectId: number | string): Promise<boolean> => {
+  if (!userId) return false
+  const rows = (await db.query('SELECT id FROM project_watchers WHERE project_id = ? AND user_id = ?', [projectId, userId])) as any[]
+  return rows.length > 0
+}
+
+/**
+ * Notify the watchers of a task and of its project, except the actor
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const notifyTaskWatchers = async ({
+  taskId, actorUserId, message,
+}: { taskId: number | string; actorUserId?: number | null; message: string }): Promise<void> => {
+  const rows = (await db.query(
+    `SELECT tw.user_id FROM task_watchers tw WHERE tw.task_id = ?
+    UNION
+    SELECT pw.user_id FROM project_watchers pw INNER JOIN tasks t ON t.project_id = pw.project_id WHERE t.id = ?`,
+    [taskId, taskId]
+  )) as any[]
+  const recipientIds = new Set<number>(rows.map((row: any) => Number(row.user_id)))
+  if (actorUserId) recipientIds.delete(Number(actorUserId))
+  if (recipientIds.size === 0) return
+  await Promise.all([...recipientIds].map((recipientId) => createNotificationRecord(recipientId, message)))
+}
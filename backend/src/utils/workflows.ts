@@ -0,0 +1,218 @@
+/**
+ * Workflow Utilities
+ * Loading project workflows and validating task statuses, transitions and WIP limits against them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { GraphQLError } from 'graphql'
+import { db } from '../db'
+import { DEFAULT_WORKFLOW_STATES, WorkflowCategory } from '../constants/workflows'
+
+export interface WorkflowStateRecord {
+  key: string
+  name: string
+  category: WorkflowCategory
+  position: number
+  wipLimit: number | null
+}
+
+export interface WorkflowRecord {
+  projectId: string
+  states: WorkflowStateRecord[]
+  transitions: Array<{ from: string; to: string }>
+  isCustom: boolean
+}
+
+/**
+ * Workflow of a project that has not defined its own states
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const buildDefaultWorkflow = (projectId: number | string): WorkflowRecord => ({
+  projectId: projectId.toString(),
+  states: DEFAULT_WORKFLOW_STATES.map((state, index) => ({ ...state, position: index, wipLimit: null })),
+  transitions: [],
+  isCustom: false,
+})
+
+/**
+ * Load the workflows of several projects with two queries
+ * Projects without stored states get the default workflow
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Map of project ID to workflow
+ */
+export const loadProjectWorkflows = async (projectIds: Array<number | string>): Promise<Map<number, WorkflowRecord>> => {
+  const ids = Array.from(new Set(projectIds.map((id) => Number(id))))
+  const workflows = new Map<number, WorkflowRecord>()
+  if (ids.length === 0) return workflows
+
+  const placeholders = ids.map(() => '?').join(',')
+  const states = (await db.query(
+    `SELECT project_id, state_key, name, category, position, wip_limit FROM workflow_states
+    WHERE project_id IN (${placeholders}) ORDER BY project_id, position ASC, id ASC`,
+    ids
+  )) as any[]
+  const transitions = (await db.query(
+    `SELECT wt.project_id, fs.state_key as from_key, ts.state_key as to_key FROM workflow_transitions wt
+    INNER JOIN workflow_states fs ON fs.id = wt.from_state_id
+    INNER JOIN workflow_states ts ON ts.id = wt.to_state_id
+    WHERE wt.project_id IN (${placeholders})`,
+    ids
+  )) as any[]
+
+  states.forEach((state: any) => {
+    const projectId = Number(state.project_id)
+    const workflow = workflows.get(projectId) || { projectId: projectId.toString(), states: [], transitions: [], isCustom: true }
+    workflow.states.push({
+      key: state.state_key,
+      name: state.name,
+      category: state.category,
+      position: Number(state.position),
+      wipLimit: state.wip_limit !== null ? Number(state.wip_limit) : null,
+    })
+    workflows.set(projectId, workflow)
+  })
+  transitions.forEach((transition: any) => {
+    workflows.get(Number(transition.project_id))?.transitions.push({ from: transition.from_key, to: transition.to_key })
+  })
+  ids.forEach((id) => {
+    if (!workflows.has(id)) workflows.set(id, buildDefaultWorkflow(id))
+  })
+  return workflows
+}
+
+/**
+ * Load the workflow of one project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getProjectWorkflow = async (projectId: number | string): Promise<WorkflowRecord> => {
+  const workflows = await loadProjectWorkflows([projectId])
+  return workflows.get(Number(projectId)) || buildDefaultWorkflow(projectId)
+}
+
+/**
+ * Category of a status within a workflow, or null when the workflow does not know the status
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getStatusCategory = (workflow: WorkflowRecord, status: string): WorkflowCategory | null =>
+  workflow.states.find((state) => state.key === status)?.category || null
+
+/**
+ * Category to show for a task's status
+ * A status the workflow does not know counts as not started
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const categorizeStatus = (workflow: WorkflowRecord | undefined, status: string): WorkflowCategory =>
+  (workflow && getStatusCategory(workflow, status)) || 'NOT_STARTED'
+
+/**
+ * Whether a status counts as finished in its project's workflow
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const isDoneStatus = (workflow: WorkflowRecord, status: string): boolean =>
+  getStatusCategory(workflow, status) === 'DONE'
+
+/**
+ * Throw unless the status is one of the workflow's states
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertStatusInWorkflow = (workflow: WorkflowRecord, status: string): void => {
+  if (getStatusCategory(workflow, status)) return
+  throw new GraphQLError(
+    `"${status}" is not a status of this project. Use one of: ${workflow.states.map((state) => state.key).join(', ')}.`,
+    { extensions: { code: 'INVALID_STATUS', allowedStatuses: workflow.states.map((state) => state.key) } }
+  )
+}
+
+/**
+ * Throw unless a task may move from one status to another
+ * Staying in the same status is always allowed; a workflow without transitions allows every move
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertStatusTransition = (workflow: WorkflowRecord, from: string, to: string): void => {
+  assertStatusInWorkflow(workflow, to)
+  if (from === to || workflow.transitions.length === 0) return
+  if (workflow.transitions.some((transition) => transition.from === from && transition.to === to)) return
+  const allowed = workflow.transitions.filter((transition) => transition.from === from).map((transition) => transition.to)
+  throw new GraphQLError(
+    allowed.length > 0
+      ? `A task in "${from}" can only move to: ${allowed.join(', ')}.`
+      : `A task in "${from}" cannot move to another status.`,
+    { extensions: { code: 'INVALID_TRANSITION', from, to, allowedStatuses: allowed } }
+  )
+}
+
+/**
+ * Error for a move or creation that would take a state past its WIP limit
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const createWipLimitError = (state: Pick<WorkflowStateRecord, 'key' | 'name' | 'wipLimit'>, message: string): GraphQLError =>
+  new GraphQLError(message, { extensions: { code: 'WIP_LIMIT_REACHED', status: state.key, wipLimit: state.wipLimit } })
+
+/**
+ * Whether the state already holds as many tasks of the project as its WIP limit allows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task being moved, left out of the count; null for a new task
+ */
+export const isWipLimitReached = async (
+  workflow: WorkflowRecord,
+  status: string,
+  taskId: number | string | null = null
+): Promise<boolean> => {
+  const state = workflow.states.find((candidate) => candidate.key === status)
+  if (!state?.wipLimit) return false
+  const rows = (await db.query(
+    `SELECT COUNT(*) as count FROM tasks WHERE project_id = ? AND status = ? AND is_deleted = false${taskId !== null ? ' AND id <> ?' : ''}`,
+    taskId !== null ? [workflow.projectId, status, taskId] : [workflow.projectId, status]
+  )) as any[]
+  return Number(rows[0]?.count || 0) >= state.wipLimit
+}
+
+/**
+ * Throw when the state already holds as many tasks of the project as its WIP limit allows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task being moved, left out of the count; null for a new task
+ */
+export const assertWipLimit = async (
+  workflow: WorkflowRecord,
+  status: string,
+  taskId: number | string | null = null
+): Promise<void> => {
+  if (!(await isWipLimitReached(workflow, status, taskId))) return
+  const state = workflow.states.find((candidate) => candidate.key === status) as WorkflowStateRecord
+  throw createWipLimitError(state, `"${state.name}" is at its WIP limit of ${state.wipLimit}. Finish a task there first.`)
+}
+
+/**
+ * Throw when more tasks are created in a state of a new project than its WIP limit allows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const assertNewTasksFitWipLimit = (state: Pick<WorkflowStateRecord, 'key' | 'name' | 'wipLimit'>, taskCount: number): void => {
+  if (!state.wipLimit || taskCount <= state.wipLimit) return
+  throw createWipLimitError(state, `"${state.name}" has a WIP limit of ${state.wipLimit}, fewer than the ${taskCount} tasks that would start there.`)
+}
@@ -30,6 +30,8 @@ const Dashboard = lazy(() => import('./pages/Dashboard'))
 const Projects = lazy(() => import('./pages/Projects'))
 const ProjectsPublic = lazy(() => import('./pages/ProjectsPublic'))
 const ProjectDetail = lazy(() => import('./pages/ProjectDetail'))
+const ProjectBoard = lazy(() => import('./pages/ProjectBoard'))
+const ProjectSprints = lazy(() => import('./pages/ProjectSprints'))
 const Abouts = lazy(() => import('./pages/Abouts'))
 const Search = lazy(() => import('./pages/Search'))
 const SearchResultsPage = lazy(() => import('./pages/SearchResultsPage'))
@@ -40,6 +42,8 @@ const Comments = lazy(() => import('./pages/Comments'))
 const Notifications = lazy(() => import('./pages/Notifications'))
 const Activity = lazy(() => import('./pages/Activity'))
 const Team = lazy(() => import('./pages/Team'))
+const Trash = lazy(() => import('./pages/Trash'))
+const Timesheet = lazy(() => import('./pages/Timesheet'))
 
 /**
  * Loading fallback component
@@ -94,6 +98,8 @@ function App() {
                     <Route path="tags" element={<Tags />} />
                     <Route path="activity" element={<Activity />} />
                     <Route path="notifications" element={<Notifications />} />
+                    <Route path="trash" element={<Trash />} />
+                    <Route path="timesheet" element={<Timesheet />} />
                   </Route>
 
                   {/* Routes with navbar and footer */}
@@ -139,6 +145,34 @@ function App() {
                       </div>
                     }
                   />
+                  <Route
+                    path="/projects/:id/board"
+                    element={
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <main className="flex-grow">
+                          <Suspense fallback={<PageLoadingFallback />}>
+                            <ProjectBoard />
+                          </Suspense>
+                        </main>
+                        <Footer />
+                      </div>
+                    }
+                  />
+                  <Route
+                    path="/projects/:id/sprints"
+                    element={
+                      <div className="flex flex-col min-h-screen">
+                        <Navbar />
+                        <main className="flex-grow">
+                          <Suspense fallback={<PageLoadingFallback />}>
+                            <ProjectSprints />
+                          </Suspense>
+                        </main>
+                        <Footer />
+                      </div>
+                    }
+                  />
                   <Route
                     path="/about"
                     element={
@@ -0,0 +1,123 @@
+/**
+ * ApiTokenCreateForm Component
+ * Form for creating a personal API token with a scope, optional projects and expiry
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery, useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { PROJECTS_QUERY } from '../graphql/queries'
+import { CREATE_API_TOKEN_MUTATION } from '../graphql/apiTokens'
+import { ApiTokenScope } from '../types/apiToken'
+
+interface ApiTokenCreateFormProps {
+  onCreated: (token: string) => Promise<void>
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'No expiry' },
+]
+
+/**
+ * ApiTokenCreateForm - Name, scope, project restriction and expiry inputs
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const ApiTokenCreateForm = ({ onCreated }: ApiTokenCreateFormProps) => {
+  const { showToast } = useToast()
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState<ApiTokenScope>('READ_ONLY')
+  const [projectIds, setProjectIds] = useState<string[]>([])
+  const [expiresInDays, setExpiresInDays] = useState('90')
+  const { data: projectsData } = useQuery<{ projects: Array<{ id: string; name: string }> }>(PROJECTS_QUERY)
+  const [createApiToken, { loading }] = useMutation(CREATE_API_TOKEN_MUTATION)
+
+  /**
+   * Submit the form and hand the plain token to the parent once
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const result = await createApiToken({
+        variables: {
+          input: {
+            name: name.trim(),
+            scope,
+            projectIds,
+            expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+          },
+        },
+      })
+      setName('')
+      setProjectIds([])
+      await onCreated(result.data?.createApiToken?.token || '')
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to create API token', 'error', 7000)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+        placeholder="Token name, e.g. CI pipeline"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as ApiTokenScope)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Token scope"
+        >
+          <option value="READ_ONLY">Read-only</option>
+          <option value="READ_WRITE">Read-write</option>
+        </select>
+        <select
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Token expiry"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.label} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Limit to projects (leave empty for all projects)</label>
+        <select
+          multiple
+          value={projectIds}
+          onChange={(e) => setProjectIds(Array.from(e.target.selectedOptions, (option) => option.value))}
+          className="w-full h-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Limit to projects"
+        >
+          {(projectsData?.projects || []).map((project) => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="submit"
+        disabled={loading || !name.trim()}
+        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+      >
+        {loading ? 'Creating...' : 'Create token'}
+      </button>
+    </form>
+  )
+}
+
+export default ApiTokenCreateForm
@@ -0,0 +1,187 @@
+/**
+ * ApiTokensModal Component
+ * Personal API token management: create, copy once, review last use and revoke
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery, useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { MY_API_TOKENS_QUERY, REVOKE_API_TOKEN_MUTATION } from '../graphql/apiTokens'
+import ApiTokenCreateForm from './ApiTokenCreateForm'
+import { ApiToken } from '../types/apiToken'
+
+interface ApiTokensModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * Format an optional timestamp for display
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const formatTimestamp = (value: string | null, fallback: string): string => {
+  if (!value) return fallback
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? fallback : date.toLocaleString()
+}
+
+/**
+ * Describe whether a token can still be used
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getTokenState = (token: ApiToken): { label: string; className: string } => {
+  if (token.revokedAt) return { label: 'Revoked', className: 'bg-gray-100 text-gray-600' }
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+    return { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' }
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' }
+}
+
+/**
+ * ApiTokensModal - Token list with create form
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const ApiTokensModal = ({ isOpen, onClose }: ApiTokensModalProps) => {
+  const { showToast } = useToast()
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const { data, loading, refetch } = useQuery<{ myApiTokens: ApiToken[] }>(MY_API_TOKENS_QUERY, {
+    skip: !isOpen,
+    fetchPolicy: 'network-only',
+  })
+  const [revokeApiToken, { loading: isRevoking }] = useMutation(REVOKE_API_TOKEN_MUTATION)
+  const tokens = data?.myApiTokens || []
+
+  /**
+   * Close modal and forget the one-time token
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleClose = () => {
+    setNewToken(null)
+    onClose()
+  }
+
+  /**
+   * Show the freshly created token and reload the list
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleCreated = async (token: string) => {
+    setNewToken(token)
+    await refetch()
+  }
+
+  /**
+   * Copy the new token to the clipboard
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleCopy = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      await showToast('Token copied to clipboard', 'success', 7000)
+    } catch {
+      await showToast('Could not copy the token. Please copy it manually.', 'error', 7000)
+    }
+  }
+
+  /**
+   * Revoke a token - scripts using it stop working immediately
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRevoke = async (token: ApiToken) => {
+    try {
+      await revokeApiToken({ variables: { id: token.id } })
+      await showToast(`API token "${token.name}" revoked`, 'success', 7000)
+      await refetch()
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to revoke API token', 'error', 7000)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">API tokens</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Personal tokens for scripts and CI. Send them as <code className="bg-gray-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+
+          {/* One-time token display */}
+          {newToken && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 space-y-2">
+              <p className="text-xs text-green-800 font-medium">Copy your new token now. It will not be shown again.</p>
+              <div className="flex gap-2">
+                <code className="flex-1 text-xs bg-white border border-green-200 rounded px-2 py-1.5 break-all">{newToken}</code>
+                <button onClick={handleCopy} className="px-3 py-1.5 bg-green-600 text-white rounded-md text-xs font-medium hover:bg-green-700">
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+
+          <ApiTokenCreateForm onCreated={handleCreated} />
+
+          {/* Token list */}
+          <div className="border-t border-gray-200 pt-4 space-y-2">
+            {loading && tokens.length === 0 && <div className="h-16 bg-gray-100 rounded animate-pulse" />}
+            {!loading && tokens.length === 0 && <p className="text-sm text-gray-500">No API tokens yet.</p>}
+            {tokens.map((token) => {
+              const state = getTokenState(token)
+              return (
+                <div key={token.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{token.name}</p>
+                      <p className="text-xs text-gray-500">
+                        <code>{token.tokenPrefix}…</code> · {token.scope === 'READ_WRITE' ? 'Read-write' : 'Read-only'}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${state.className}`}>{state.label}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Projects: {token.projects.length > 0 ? token.projects.map((project) => project.name).join(', ') : 'All'}
+                  </p>
+                  <p className="text-xs text-gray-500">Last used: {formatTimestamp(token.lastUsedAt, 'Never')}</p>
+                  <p className="text-xs text-gray-500">Expires: {formatTimestamp(token.expiresAt, 'Never')}</p>
+                  {!token.revokedAt && (
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      disabled={isRevoking}
+                      className="mt-2 px-3 py-1 bg-red-200 text-red-700 rounded-md text-xs font-medium hover:bg-red-100 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ApiTokensModal
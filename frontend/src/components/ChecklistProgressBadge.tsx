@@ -0,0 +1,37 @@
+/**
+ * ChecklistProgressBadge Component
+ * Done / total checklist items of a task, e.g. "3/7"
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { ChecklistProgress } from '../types/checklist'
+
+interface ChecklistProgressBadgeProps {
+  progress?: ChecklistProgress | null
+}
+
+/**
+ * ChecklistProgressBadge - Renders nothing for tasks without checklist items; turns green when every item is done
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const ChecklistProgressBadge = ({ progress }: ChecklistProgressBadgeProps) => {
+  if (!progress || progress.total === 0) return null
+  const isComplete = progress.completed === progress.total
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium ${isComplete ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}
+      title={`${progress.completed} of ${progress.total} checklist items done`}
+    >
+      <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4M7 4h10a2 2 0 012 2v12a2 2 0 01-2 2H7a2 2 0 01-2-2V6a2 2 0 012-2z" />
+      </svg>
+      {progress.completed}/{progress.total}
+    </span>
+  )
+}
+
+export default ChecklistProgressBadge
@@ -0,0 +1,114 @@
+/**
+ * CloseSprintModal Component
+ * Confirms closing the active sprint and picks where its unfinished tasks go
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { CLOSE_SPRINT_MUTATION } from '../graphql/mutations'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+import { Sprint } from '../types/sprint'
+
+interface CloseSprintModalProps {
+  sprint: Sprint | null
+  unfinishedCount: number
+  plannedSprints: Sprint[]
+  isOpen: boolean
+  onClose: () => void
+  onClosed: () => Promise<void>
+}
+
+/**
+ * CloseSprintModal Component
+ * Unfinished tasks go to the first planned sprint by default, or to the backlog when there is none
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param sprint - Active sprint to close
+ * @param unfinishedCount - Tasks of the sprint not in a done state
+ * @param plannedSprints - Sprints the unfinished tasks can move to
+ * @param onClosed - Called after the sprint was closed, to reload the plan
+ */
+const CloseSprintModal = ({ sprint, unfinishedCount, plannedSprints, isOpen, onClose, onClosed }: CloseSprintModalProps) => {
+  const { showToast } = useToast()
+  const [target, setTarget] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [closeSprint] = useMutation(CLOSE_SPRINT_MUTATION)
+
+  /**
+   * Preselect the next planned sprint whenever the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isOpen) return
+    setTarget(plannedSprints[0]?.id || '')
+    setError('')
+  }, [isOpen, plannedSprints])
+
+  /**
+   * Close the sprint and move its unfinished tasks
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!sprint) return
+    setError('')
+    setIsSubmitting(true)
+    try {
+      await closeSprint({ variables: { id: sprint.id, moveUnfinishedTo: target || null } })
+      await showToast(`Sprint "${sprint.name}" closed`, 'success', 7000)
+      await onClosed()
+      onClose()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to close sprint.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen || !sprint) return null
+
+  return (
+    /* Close Sprint Modal Container */
+    <ModalWrapper isOpen={isOpen} title={`Close "${sprint.name}"`} onClose={onClose} maxWidth="max-w-lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {unfinishedCount > 0 ? (
+          <div>
+            <label htmlFor="close-sprint-target" className="block text-sm text-gray-700 mb-2">
+              {`${unfinishedCount} task(s) are not done. Move them to:`}
+            </label>
+            <select
+              id="close-sprint-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {plannedSprints.map((planned) => (
+                <option key={planned.id} value={planned.id}>{planned.name}</option>
+              ))}
+              <option value="">Backlog</option>
+            </select>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-700">Every task of this sprint is done.</p>
+        )}
+
+        <FormErrorMessage message={error} />
+        <FormActions onCancel={onClose} isSubmitting={isSubmitting} submitLabel="Close Sprint" submittingLabel="Closing..." />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default CloseSprintModal
@@ -2,6 +2,7 @@
  * CommentItem Component
  * Displays a single comment with user info, content, like, edit, and delete functionality
  * Only comment owners can edit and delete their comments
+ * Outside the project page (task comments) onChanged reloads the list instead of the project query
  *
  * @author Thang Truong
  * @date 2025-12-09
@@ -17,6 +18,8 @@ import { useParams } from 'react-router-dom'
 import CommentEditForm from './CommentEditForm'
 import CommentHeader from './CommentHeader'
 import DeleteCommentDialog from './DeleteCommentDialog'
+import MentionText from './MentionText'
+import { MentionCandidate } from '../utils/mentions'
 
 interface CommentUser {
   id: string
@@ -35,8 +38,13 @@ interface CommentItemProps {
   createdAt: string
   updatedAt: string
   projectId: string
+  onReply?: (commentId: string) => void
+  mentionCandidates?: MentionCandidate[]
+  onChanged?: () => Promise<void>
 }
-const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, updatedAt, projectId }: CommentItemProps) => {
+const CommentItem = ({
+  id, content, user, likesCount, isLiked, createdAt, updatedAt, projectId, onReply, mentionCandidates = [], onChanged,
+}: CommentItemProps) => {
   const { id: projectIdFromParams } = useParams<{ id: string }>()
   const { isAuthenticated, user: currentUser } = useAuth()
   const { showToast } = useToast()
@@ -45,9 +53,10 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const isCommentOwner = Boolean(isAuthenticated && currentUser && currentUser.id === user.id)
   const isEdited = createdAt !== updatedAt
+  const refetchQueries = onChanged ? [] : [{ query: PROJECT_QUERY, variables: { id: projectIdFromParams || projectId } }]
 
   const [likeComment] = useMutation(LIKE_COMMENT_MUTATION, {
-    refetchQueries: [{ query: PROJECT_QUERY, variables: { id: projectIdFromParams || projectId } }],
+    refetchQueries,
     onError: async (error) => {
       setIsSubmitting(false)
       await showToast(error.message || 'Failed to like comment. Please try again.', 'error', 7000)
@@ -55,7 +64,7 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
   })
 
   const [updateComment] = useMutation(UPDATE_COMMENT_MUTATION, {
-    refetchQueries: [{ query: PROJECT_QUERY, variables: { id: projectIdFromParams || projectId } }],
+    refetchQueries,
     awaitRefetchQueries: true,
     onError: async (error) => {
       setIsSubmitting(false)
@@ -84,6 +93,7 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
     try {
       const result = await likeComment({ variables: { commentId: id } })
       if (result.data?.likeComment?.success) {
+        if (onChanged) await onChanged()
         await showToast(result.data.likeComment.message || 'Comment liked successfully!', 'success', 7000)
       } else {
         await showToast(result.data?.likeComment?.message || 'Unable to like comment. Please try again.', 'info', 7000)
@@ -116,6 +126,7 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
     setIsSubmitting(true)
     try {
       await updateComment({ variables: { commentId: id, content: newContent } })
+      if (onChanged) await onChanged()
       await showToast('Comment updated successfully!', 'success', 7000)
       setIsEditing(false)
     } catch (error: unknown) {
@@ -161,6 +172,7 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
    */
   const handleDeleteSuccess = async (): Promise<void> => {
     setIsDeleteDialogOpen(false)
+    if (onChanged) await onChanged()
   }
 
   if (isEditing) {
@@ -200,19 +212,32 @@ const CommentItem = ({ id, content, user, likesCount, isLiked, createdAt, update
             onDelete={handleDelete}
           />
           {/* Comment text */}
-          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words mb-2">{content}</p>
-          {/* Like button */}
-          <button
-            onClick={handleLike}
-            disabled={isSubmitting}
-            className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label={`Like comment`}
-          >
-            <svg className={`w-4 h-4 flex-shrink-0 transition-colors ${isLiked ? 'text-blue-600 fill-blue-600' : 'text-gray-400 hover:text-blue-500'}`} fill={isLiked ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
-            </svg>
-            <span className="font-medium">{likesCount}</span>
-          </button>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words mb-2">
+            <MentionText text={content} candidates={mentionCandidates} />
+          </p>
+          {/* Like and reply buttons */}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleLike}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={`Like comment`}
+            >
+              <svg className={`w-4 h-4 flex-shrink-0 transition-colors ${isLiked ? 'text-blue-600 fill-blue-600' : 'text-gray-400 hover:text-blue-500'}`} fill={isLiked ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+              </svg>
+              <span className="font-medium">{likesCount}</span>
+            </button>
+            {onReply && (
+              <button
+                type="button"
+                onClick={() => onReply(id)}
+                className="text-xs font-medium text-gray-600 hover:text-blue-600 transition-colors"
+              >
+                Reply
+              </button>
+            )}
+          </div>
         </div>
       </div>
       {/* Delete confirmation dialog */}
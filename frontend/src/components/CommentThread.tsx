@@ -0,0 +1,124 @@
+/**
+ * CommentThread Component
+ * A top-level comment with its collapsible replies and a reply form
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { ProjectComment } from '../types/comments'
+import CommentItem from './CommentItem'
+import ProjectDetailCommentForm from './ProjectDetailCommentForm'
+import { MentionCandidate } from '../utils/mentions'
+
+interface CommentThreadProps {
+  comment: ProjectComment
+  projectId: string
+  isExpanded: boolean
+  isSubmitting: boolean
+  onToggle: () => void
+  onReply: (content: string, parentCommentId: string) => Promise<void>
+  mentionCandidates: MentionCandidate[]
+  onChanged?: () => Promise<void>
+}
+
+/**
+ * CommentThread Component
+ * Replying to a reply answers that reply's author; the backend files it under the same thread
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const CommentThread = ({
+  comment, projectId, isExpanded, isSubmitting, onToggle, onReply, mentionCandidates, onChanged,
+}: CommentThreadProps) => {
+  const [replyTo, setReplyTo] = useState<ProjectComment | null>(null)
+  const replies = comment.replies || []
+  const replyCount = comment.replyCount ?? replies.length
+
+  /**
+   * Open the reply form for a comment of this thread and show the replies
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleReplyClick = (commentId: string): void => {
+    setReplyTo(replies.find((reply) => reply.id === commentId) || comment)
+    if (!isExpanded) onToggle()
+  }
+
+  /**
+   * Post the reply and close the form
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleReplySubmit = async (content: string): Promise<void> => {
+    if (!replyTo) return
+    await onReply(content, replyTo.id)
+    setReplyTo(null)
+  }
+
+  return (
+    /* Comment thread container */
+    <div>
+      <CommentItem
+        id={comment.id}
+        content={comment.content}
+        user={comment.user}
+        likesCount={comment.likesCount}
+        isLiked={comment.isLiked}
+        createdAt={comment.createdAt}
+        updatedAt={comment.updatedAt}
+        projectId={projectId}
+        onReply={handleReplyClick}
+        mentionCandidates={mentionCandidates}
+        onChanged={onChanged}
+      />
+      {replyCount > 0 && (
+        <button
+          type="button"
+          onClick={onToggle}
+          className="mt-2 ml-11 text-xs font-medium text-blue-600 hover:text-blue-700"
+        >
+          {isExpanded ? 'Hide replies' : `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+        </button>
+      )}
+      {(isExpanded || replyTo) && (
+        /* Replies list */
+        <div className="mt-2 ml-11 space-y-2 border-l-2 border-gray-200 pl-3">
+          {isExpanded && replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              id={reply.id}
+              content={reply.content}
+              user={reply.user}
+              likesCount={reply.likesCount}
+              isLiked={reply.isLiked}
+              createdAt={reply.createdAt}
+              updatedAt={reply.updatedAt}
+              projectId={projectId}
+              onReply={handleReplyClick}
+              mentionCandidates={mentionCandidates}
+              onChanged={onChanged}
+            />
+          ))}
+          {replyTo && (
+            <ProjectDetailCommentForm
+              onSubmit={handleReplySubmit}
+              isSubmitting={isSubmitting}
+              placeholder={`Reply to ${replyTo.user.firstName}...`}
+              submitLabel="Reply"
+              onCancel={() => setReplyTo(null)}
+              className=""
+              mentionCandidates={mentionCandidates}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CommentThread
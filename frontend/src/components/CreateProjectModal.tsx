@@ -8,11 +8,14 @@
 
 import { useState } from 'react'
 import { useForm } from 'react-hook-form'
-import { useMutation } from '@apollo/client'
+import { useMutation, useQuery } from '@apollo/client'
 import { useToast } from '../hooks/useToast'
-import { CREATE_PROJECT_MUTATION } from '../graphql/mutations'
-import { PROJECTS_QUERY } from '../graphql/queries'
+import { CREATE_PROJECT_FROM_TEMPLATE_MUTATION, CREATE_PROJECT_MUTATION } from '../graphql/mutations'
+import { PROJECT_TEMPLATES_QUERY, PROJECTS_QUERY } from '../graphql/queries'
 import CreateProjectFormFields from './CreateProjectFormFields'
+import ProjectTemplateGallery from './ProjectTemplateGallery'
+import { ProjectTemplate } from '../types/template'
+import { toDateKey } from '../utils/timeTracking'
 
 interface CreateProjectModalProps {
   isOpen: boolean
@@ -38,6 +41,13 @@ interface CreateProjectFormData {
 const CreateProjectModal = ({ isOpen, onClose, onSuccess }: CreateProjectModalProps) => {
   const { showToast } = useToast()
   const [error, setError] = useState('')
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  const [startDate, setStartDate] = useState(() => toDateKey(new Date()))
+  const [includeMembers, setIncludeMembers] = useState(false)
+  const { data: templatesData } = useQuery<{ projectTemplates: ProjectTemplate[] }>(PROJECT_TEMPLATES_QUERY, {
+    skip: !isOpen,
+    fetchPolicy: 'cache-and-network',
+  })
 
   /**
    * Initialize react-hook-form with validation rules
@@ -67,10 +77,26 @@ const CreateProjectModal = ({ isOpen, onClose, onSuccess }: CreateProjectModalPr
       setError(err.message || 'Failed to create project. Please try again.')
     },
   })
+  const [createProjectFromTemplate] = useMutation(CREATE_PROJECT_FROM_TEMPLATE_MUTATION, {
+    refetchQueries: [{ query: PROJECTS_QUERY }],
+    awaitRefetchQueries: true,
+  })
+
+  /**
+   * Clear the template choice so the next project starts blank again
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const resetTemplate = () => {
+    setTemplateId(null)
+    setStartDate(toDateKey(new Date()))
+    setIncludeMembers(false)
+  }
 
   /**
    * Handle form submission with validated data
-   * Creates new project upon successful validation
+   * Creates new project upon successful validation, from the chosen template when there is one
    *
    * @param data - Form data containing name, description, and status
    */
@@ -78,18 +104,34 @@ const CreateProjectModal = ({ isOpen, onClose, onSuccess }: CreateProjectModalPr
     setError('') // Clear previous errors
 
     try {
-      await createProject({
-        variables: {
-          input: {
-            name: data.name.trim(),
-            description: data.description.trim() || null,
-            status: data.status,
+      if (templateId) {
+        await createProjectFromTemplate({
+          variables: {
+            templateId,
+            overrides: {
+              name: data.name.trim(),
+              description: data.description.trim() || null,
+              status: data.status,
+              startDate: startDate || null,
+              includeMembers,
+            },
           },
-        },
-      })
+        })
+      } else {
+        await createProject({
+          variables: {
+            input: {
+              name: data.name.trim(),
+              description: data.description.trim() || null,
+              status: data.status,
+            },
+          },
+        })
+      }
 
       await showToast('Project created successfully', 'success', 7000)
       reset()
+      resetTemplate()
       onSuccess()
       onClose()
     } catch (err: unknown) {
@@ -105,6 +147,7 @@ const CreateProjectModal = ({ isOpen, onClose, onSuccess }: CreateProjectModalPr
   const handleClose = () => {
     reset()
     setError('')
+    resetTemplate()
     onClose()
   }
 
@@ -131,7 +174,41 @@ const CreateProjectModal = ({ isOpen, onClose, onSuccess }: CreateProjectModalPr
 
         {/* Form */}
         <form onSubmit={handleSubmit(onSubmit)} className="p-6">
+          {(templatesData?.projectTemplates.length ?? 0) > 0 && (
+            <ProjectTemplateGallery
+              templates={templatesData?.projectTemplates || []}
+              selectedTemplateId={templateId}
+              onSelect={setTemplateId}
+            />
+          )}
           <CreateProjectFormFields register={register} errors={errors} />
+          {templateId && (
+            /* Template Options */
+            <div className="mt-4 space-y-3">
+              <div>
+                <label htmlFor="template-start-date" className="block text-sm font-medium text-gray-700 mb-1">
+                  Start date
+                </label>
+                <input
+                  id="template-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">Task and milestone due dates are shifted to count from this day.</p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeMembers}
+                  onChange={(e) => setIncludeMembers(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Copy the template's members
+              </label>
+            </div>
+          )}
 
           {/* Error Message Display */}
           {error && (
@@ -6,16 +6,21 @@
  * @date 2025-11-26
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { useMutation, useQuery } from '@apollo/client'
 import { useToast } from '../hooks/useToast'
-import { CREATE_TASK_MUTATION } from '../graphql/mutations'
-import { TASKS_QUERY, PROJECTS_QUERY, USERS_QUERY, TAGS_QUERY } from '../graphql/queries'
+import { useProjectWorkflow } from '../hooks/useProjectWorkflow'
+import { CREATE_TASK_MUTATION, CREATE_TASK_TEMPLATE_MUTATION } from '../graphql/mutations'
+import { TASKS_QUERY, PROJECTS_QUERY, USERS_QUERY, TAGS_QUERY, TASK_TEMPLATES_QUERY } from '../graphql/queries'
 import ModalWrapper from './ModalWrapper'
 import FormErrorMessage from './FormErrorMessage'
 import FormActions from './FormActions'
 import CreateTaskFormFields from './CreateTaskFormFields'
+import TaskTemplatePicker from './TaskTemplatePicker'
+import TaskChecklistDraft from './TaskChecklistDraft'
+import { TaskTemplate } from '../types/template'
+import { hoursToMinutes, minutesToHoursInput } from '../utils/timeTracking'
 
 interface Tag {
   id: string
@@ -36,13 +41,16 @@ interface CreateTaskFormData {
   status: string
   priority: string
   dueDate: string
+  estimateHours: string
   projectId: string
+  parentTaskId: string
   assignedTo: string
 }
 
 /**
  * CreateTaskModal Component
  * Renders a modal form for creating a new task with validation
+ * A task template pre-fills the form; the filled-in task can also be saved as a new template
  *
  * @author Thang Truong
  * @date 2025-12-09
@@ -55,6 +63,10 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
   const { showToast } = useToast()
   const [error, setError] = useState('')
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [checklist, setChecklist] = useState<string[]>([])
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false)
+  const [templateName, setTemplateName] = useState('')
 
   const { data: projectsData } = useQuery<{ projects: Array<{ id: string; name: string }> }>(
     PROJECTS_QUERY,
@@ -65,17 +77,60 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
     { skip: !isOpen }
   )
   const { data: tagsData } = useQuery<{ tags: Tag[] }>(TAGS_QUERY, { skip: !isOpen })
+  const { data: templatesData } = useQuery<{ taskTemplates: TaskTemplate[] }>(TASK_TEMPLATES_QUERY, {
+    skip: !isOpen,
+    fetchPolicy: 'cache-and-network',
+  })
+  const { data: tasksData } = useQuery<{ tasks: Array<{ id: string; title: string; projectId: string }> }>(
+    TASKS_QUERY,
+    { skip: !isOpen }
+  )
 
-  const { register, handleSubmit, formState: { errors, isSubmitting }, reset } = useForm<CreateTaskFormData>({
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset, watch, getValues, setValue } = useForm<CreateTaskFormData>({
     mode: 'onBlur',
-    defaultValues: { title: '', description: '', status: 'TODO', priority: 'MEDIUM', dueDate: '', projectId: '', assignedTo: '' },
+    defaultValues: { title: '', description: '', status: 'TODO', priority: 'MEDIUM', dueDate: '', estimateHours: '', projectId: '', parentTaskId: '', assignedTo: '' },
   })
 
+  const selectedProjectId = watch('projectId')
+  const parentTasks = useMemo(
+    () => (tasksData?.tasks || []).filter((candidate) => candidate.projectId === selectedProjectId),
+    [tasksData, selectedProjectId]
+  )
+  const { states: statuses } = useProjectWorkflow(selectedProjectId)
+
+  /**
+   * Start in the first state of the selected project's workflow when the chosen status is not part of it
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (statuses.length > 0 && !statuses.some((state) => state.key === getValues('status'))) {
+      setValue('status', statuses[0].key)
+    }
+  }, [statuses, getValues, setValue])
+
   const [createTask] = useMutation(CREATE_TASK_MUTATION, {
     refetchQueries: [{ query: TASKS_QUERY }],
     awaitRefetchQueries: true,
     onError: (err) => setError(err.message || 'Failed to create task.'),
   })
+  const [createTaskTemplate] = useMutation(CREATE_TASK_TEMPLATE_MUTATION, {
+    refetchQueries: [{ query: TASK_TEMPLATES_QUERY }],
+  })
+
+  /**
+   * Clear the template choice, the checklist draft and the save as template option
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const resetTemplateState = () => {
+    setTemplateId('')
+    setChecklist([])
+    setSaveAsTemplate(false)
+    setTemplateName('')
+  }
 
   /**
    * Reset form when modal closes
@@ -88,6 +143,7 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
       reset()
       setError('')
       setSelectedTagIds([])
+      resetTemplateState()
     }
   }, [isOpen, reset])
 
@@ -101,6 +157,23 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
     setSelectedTagIds(tagIds)
   }
 
+  /**
+   * Pre-fill the form from a task template; project, status, assignee and due date are kept
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleTemplateSelect = (template: TaskTemplate | null) => {
+    setTemplateId(template?.id || '')
+    if (!template) return
+    setValue('title', template.title)
+    setValue('description', template.description)
+    setValue('priority', template.priority)
+    setValue('estimateHours', minutesToHoursInput(template.estimateMinutes))
+    setSelectedTagIds(template.tags.map((tag) => tag.id))
+    setChecklist(template.checklist)
+  }
+
   /**
    * Handle form submission with validated data
    *
@@ -109,6 +182,10 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
    */
   const onSubmit = async (data: CreateTaskFormData) => {
     setError('')
+    if (saveAsTemplate && !templateName.trim()) {
+      setError('Template name is required to save the task as a template.')
+      return
+    }
     try {
       const result = await createTask({
         variables: {
@@ -118,9 +195,12 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
             status: data.status,
             priority: data.priority,
             dueDate: data.dueDate || null,
+            estimateMinutes: hoursToMinutes(data.estimateHours),
             projectId: data.projectId,
+            parentTaskId: parentTasks.some((candidate) => candidate.id === data.parentTaskId) ? data.parentTaskId : null,
             assignedTo: data.assignedTo || null,
             tagIds: selectedTagIds.length > 0 ? selectedTagIds : null,
+            checklist: checklist.length > 0 ? checklist : null,
           },
         },
       })
@@ -131,8 +211,30 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
         throw new Error(firstErrorMessage)
       }
       await showToast('Task created successfully', 'success', 7000)
+      if (saveAsTemplate) {
+        try {
+          await createTaskTemplate({
+            variables: {
+              input: {
+                name: templateName.trim(),
+                title: data.title.trim(),
+                description: data.description.trim(),
+                priority: data.priority,
+                estimateMinutes: hoursToMinutes(data.estimateHours),
+                tagIds: selectedTagIds,
+                checklist,
+              },
+            },
+          })
+          await showToast(`Template "${templateName.trim()}" saved`, 'success', 7000)
+        } catch (templateError: unknown) {
+          const message = templateError instanceof Error ? templateError.message : 'Failed to save template'
+          await showToast(message, 'error', 7000)
+        }
+      }
       reset()
       setSelectedTagIds([])
+      resetTemplateState()
       await onSuccess()
       onClose()
     } catch (err: unknown) {
@@ -150,6 +252,7 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
     reset()
     setError('')
     setSelectedTagIds([])
+    resetTemplateState()
     onClose()
   }
 
@@ -160,15 +263,45 @@ const CreateTaskModal = ({ isOpen, onClose, onSuccess }: CreateTaskModalProps) =
     <ModalWrapper isOpen={isOpen} title="Create New Task" onClose={handleClose}>
       {/* Task Creation Form */}
       <form onSubmit={handleSubmit(onSubmit)}>
+        <TaskTemplatePicker
+          templates={templatesData?.taskTemplates || []}
+          selectedTemplateId={templateId}
+          onSelect={handleTemplateSelect}
+        />
         <CreateTaskFormFields
           register={register}
           errors={errors}
           projects={projectsData?.projects || []}
+          parentTasks={parentTasks}
+          statuses={statuses}
           users={usersData?.users || []}
           tags={tagsData?.tags || []}
           selectedTagIds={selectedTagIds}
           onTagsChange={handleTagsChange}
         />
+        <TaskChecklistDraft items={checklist} onChange={setChecklist} />
+        {/* Save As Template Option */}
+        <div className="mt-4 space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={saveAsTemplate}
+              onChange={(e) => setSaveAsTemplate(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Also save as a task template
+          </label>
+          {saveAsTemplate && (
+            <input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              maxLength={100}
+              placeholder="Template name"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Template name"
+            />
+          )}
+        </div>
         <FormErrorMessage message={error} />
         <FormActions
           onCancel={handleClose}
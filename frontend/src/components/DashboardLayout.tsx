@@ -38,11 +38,13 @@ const DashboardLayout = () => {
     if (path.startsWith('/dashboard/users')) return 'Users'
     if (path.startsWith('/dashboard/projects')) return 'Projects'
     if (path.startsWith('/dashboard/tasks')) return 'Tasks'
+    if (path.startsWith('/dashboard/timesheet')) return 'Timesheet'
     if (path.startsWith('/dashboard/comments')) return 'Comments'
     if (path.startsWith('/dashboard/team')) return 'Team Members'
     if (path.startsWith('/dashboard/tags')) return 'Tags'
     if (path.startsWith('/dashboard/activity')) return 'Activity Logs'
     if (path.startsWith('/dashboard/notifications')) return 'Notifications'
+    if (path.startsWith('/dashboard/trash')) return 'Trash'
     return 'Dashboard' // Default title
   }
 
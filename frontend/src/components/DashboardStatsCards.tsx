@@ -9,7 +9,7 @@
 import { useMemo } from 'react'
 
 interface Project { id: string; status: string }
-interface Task { id: string; status: string }
+interface Task { id: string; status: string; statusCategory?: string }
 interface User { id: string; role: string }
 
 interface DashboardStatsCardsProps {
@@ -33,18 +33,19 @@ interface DashboardStatsCardsProps {
 const DashboardStatsCards = ({ projects, tasks, users, isLoading }: DashboardStatsCardsProps) => {
   /**
    * Calculate statistics with percentages from real database data
+   * Tasks are counted by workflow category, so custom states such as REVIEW or QA count as in progress
    *
    * @author Thang Truong
    * @date 2025-01-27
    */
   const stats = useMemo(() => {
     const totalProjects = projects.length
-    const activeProjects = projects.filter(p => ['active', 'in_progress', 'IN_PROGRESS'].includes(p.status)).length
-    const completedProjects = projects.filter(p => ['completed', 'COMPLETED'].includes(p.status)).length
+    const activeProjects = projects.filter(p => p.status === 'IN_PROGRESS').length
+    const completedProjects = projects.filter(p => p.status === 'COMPLETED').length
     const totalTasks = tasks.length
-    const completedTasks = tasks.filter(t => ['completed', 'COMPLETED', 'done', 'DONE'].includes(t.status)).length
-    const inProgressTasks = tasks.filter(t => ['in_progress', 'IN_PROGRESS'].includes(t.status)).length
-    const pendingTasks = tasks.filter(t => ['pending', 'PENDING', 'todo', 'TODO'].includes(t.status)).length
+    const completedTasks = tasks.filter(t => t.statusCategory === 'DONE').length
+    const inProgressTasks = tasks.filter(t => t.statusCategory === 'ACTIVE').length
+    const pendingTasks = totalTasks - completedTasks - inProgressTasks
     const totalUsers = users.length
     const adminUsers = users.filter(u => u.role === 'Admin').length
 
@@ -8,7 +8,7 @@
 
 import { useMemo } from 'react'
 
-interface Task { id: string; title: string; status: string; priority: string }
+interface Task { id: string; title: string; status: string; statusCategory?: string; priority: string }
 
 interface DashboardTasksOverviewProps {
   tasks: Task[]
@@ -21,13 +21,13 @@ interface DashboardTasksOverviewProps {
  * @date 2025-11-27
  */
 const DashboardTasksOverview = ({ tasks, isLoading }: DashboardTasksOverviewProps) => {
-  /** Calculate task status distribution with percentages from database */
+  /** Calculate task status distribution by workflow category with percentages from database */
   const statusDist = useMemo(() => {
     const total = tasks.length
     if (total === 0) return { pending: 0, inProgress: 0, completed: 0, pendingPct: 0, inProgressPct: 0, completedPct: 0 }
-    const pending = tasks.filter(t => ['pending', 'PENDING', 'todo', 'TODO'].includes(t.status)).length
-    const inProgress = tasks.filter(t => ['in_progress', 'IN_PROGRESS'].includes(t.status)).length
-    const completed = tasks.filter(t => ['completed', 'COMPLETED', 'done', 'DONE'].includes(t.status)).length
+    const inProgress = tasks.filter(t => t.statusCategory === 'ACTIVE').length
+    const completed = tasks.filter(t => t.statusCategory === 'DONE').length
+    const pending = total - inProgress - completed
     return {
       pending, inProgress, completed,
       pendingPct: Math.round((pending / total) * 100),
@@ -0,0 +1,111 @@
+/**
+ * DeleteMilestoneDialog Component
+ * Confirmation dialog for deleting a project milestone
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { DELETE_MILESTONE_MUTATION } from '../graphql/mutations'
+import { Milestone } from '../types/milestone'
+import { formatMilestoneDueDate } from '../utils/milestones'
+
+interface DeleteMilestoneDialogProps {
+  milestone: Milestone | null
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => Promise<void>
+}
+
+/**
+ * DeleteMilestoneDialog Component
+ * The linked tasks stay in the project
+ *
+ * @param milestone - Milestone to delete (null when closed)
+ * @param isOpen - Whether the dialog is open
+ * @param onClose - Callback when dialog is closed
+ * @param onSuccess - Callback when the milestone is successfully deleted
+ * @returns JSX element containing delete confirmation dialog
+ */
+const DeleteMilestoneDialog = ({ milestone, isOpen, onClose, onSuccess }: DeleteMilestoneDialogProps) => {
+  const { showToast } = useToast()
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteMilestone] = useMutation(DELETE_MILESTONE_MUTATION)
+
+  /**
+   * Handle delete confirmation
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDelete = async () => {
+    if (!milestone) return
+
+    setIsDeleting(true)
+    try {
+      await deleteMilestone({ variables: { id: milestone.id } })
+      await showToast('Milestone deleted successfully', 'success', 7000)
+      await onSuccess()
+      onClose()
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete milestone. Please try again.'
+      await showToast(errorMessage, 'error', 7000)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  if (!isOpen || !milestone) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Delete Milestone</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <p className="text-gray-700 mb-4">
+            Are you sure you want to delete{' '}
+            <span className="font-semibold">{milestone.name}</span>? Its tasks stay in the project.
+          </p>
+          <div className="bg-gray-50 rounded-lg p-4">
+            <p className="text-sm text-gray-600 mb-1">
+              <span className="font-medium">Due:</span> {formatMilestoneDueDate(milestone.dueDate)}
+            </p>
+            <p className="text-sm text-gray-600">
+              <span className="font-medium">Linked tasks:</span> {milestone.taskCount}
+            </p>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={isDeleting}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isDeleting ? 'Deleting...' : 'Delete Milestone'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DeleteMilestoneDialog
@@ -0,0 +1,147 @@
+/**
+ * DuplicateProjectModal Component
+ * Copies a project with a choice of tasks, task tags, team members and comments
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { DUPLICATE_PROJECT_MUTATION } from '../graphql/mutations'
+import { PROJECTS_QUERY } from '../graphql/queries'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+
+interface DuplicateProjectModalProps {
+  project: { id: string; name: string } | null
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: (projectId: string) => Promise<void>
+}
+
+interface DuplicateOptions {
+  includeTasks: boolean
+  includeTags: boolean
+  includeMembers: boolean
+  includeComments: boolean
+}
+
+const DEFAULT_OPTIONS: DuplicateOptions = { includeTasks: true, includeTags: true, includeMembers: true, includeComments: false }
+
+const OPTION_LABELS: Array<{ key: keyof DuplicateOptions; label: string }> = [
+  { key: 'includeTasks', label: 'Tasks with their checklists' },
+  { key: 'includeTags', label: 'Task tags' },
+  { key: 'includeMembers', label: 'Team members' },
+  { key: 'includeComments', label: 'Comments' },
+]
+
+/**
+ * DuplicateProjectModal Component
+ * The copy belongs to the signed-in user, starts in planning and its tasks start over in the first workflow state
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param onSuccess - Called with the ID of the new project
+ */
+const DuplicateProjectModal = ({ project, isOpen, onClose, onSuccess }: DuplicateProjectModalProps) => {
+  const { showToast } = useToast()
+  const [name, setName] = useState('')
+  const [options, setOptions] = useState<DuplicateOptions>(DEFAULT_OPTIONS)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [duplicateProject] = useMutation(DUPLICATE_PROJECT_MUTATION, {
+    refetchQueries: [{ query: PROJECTS_QUERY }],
+    awaitRefetchQueries: true,
+  })
+
+  /**
+   * Suggest a name for the copy each time the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (isOpen && project) {
+      setName(`Copy of ${project.name}`)
+      setOptions(DEFAULT_OPTIONS)
+      setError('')
+    }
+  }, [isOpen, project])
+
+  /**
+   * Duplicate the project and hand the new project ID to the caller
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!project) return
+    setError('')
+    if (!name.trim()) {
+      setError('Project name is required')
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      const result = await duplicateProject({
+        variables: { id: project.id, options: { ...options, includeTags: options.includeTasks && options.includeTags, name: name.trim() } },
+      })
+      const newProject = result.data?.duplicateProject
+      if (!newProject) throw new Error('Failed to duplicate project.')
+      await showToast(`Project duplicated as "${newProject.name}"`, 'success', 7000)
+      await onSuccess(newProject.id)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to duplicate project.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen || !project) return null
+
+  return (
+    /* Duplicate Project Modal Container */
+    <ModalWrapper isOpen={isOpen} title="Duplicate Project" onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="duplicate-project-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            id="duplicate-project-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={150}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Copy</legend>
+          <div className="space-y-2">
+            {OPTION_LABELS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={key === 'includeTags' ? options.includeTasks && options.includeTags : options[key]}
+                  disabled={key === 'includeTags' && !options.includeTasks}
+                  onChange={(e) => setOptions((current) => ({ ...current, [key]: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            The workflow and milestones are always copied. Tasks start over in the first state of the workflow.
+          </p>
+        </fieldset>
+        <FormErrorMessage message={error} />
+        <FormActions onCancel={onClose} isSubmitting={isSubmitting} submitLabel="Duplicate" submittingLabel="Duplicating..." />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default DuplicateProjectModal
@@ -30,12 +30,18 @@ const ACTIVITY_TYPES = [
   'USER_CREATED',
   'USER_UPDATED',
   'USER_DELETED',
+  'USER_RESTORED',
+  'USER_LOGIN_FAILED',
+  'USER_LOCKED',
+  'USER_UNLOCKED',
   'PROJECT_CREATED',
   'PROJECT_UPDATED',
   'PROJECT_DELETED',
+  'PROJECT_RESTORED',
   'TASK_CREATED',
   'TASK_UPDATED',
   'TASK_DELETED',
+  'TASK_RESTORED',
 ]
 
 /**
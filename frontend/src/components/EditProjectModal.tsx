@@ -6,19 +6,29 @@
  * @date 2024-12-24
  */
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { useMutation } from '@apollo/client'
 import { useToast } from '../hooks/useToast'
 import { UPDATE_PROJECT_MUTATION } from '../graphql/mutations'
 import { PROJECTS_QUERY } from '../graphql/queries'
 import EditProjectFormFields from './EditProjectFormFields'
+import VersionConflictDialog from './VersionConflictDialog'
+import {
+  ConflictChoice,
+  ConflictValues,
+  diffConflictValues,
+  getConflictState,
+  mergeConflictValues,
+} from '../utils/versionConflict'
+import { getStatusLabel } from '../utils/projectUtils'
 
 interface Project {
   id: string
   name: string
   description: string | null
   status: string
+  version?: number | null
   createdAt: string
   updatedAt: string
 }
@@ -36,6 +46,24 @@ interface EditProjectFormData {
   status: string
 }
 
+const PROJECT_CONFLICT_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  status: 'Status',
+}
+
+/**
+ * Map a project record into the same shape as the form values
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const toProjectFormData = (project: Project): EditProjectFormData => ({
+  name: project.name,
+  description: project.description || '',
+  status: project.status,
+})
+
 /**
  * EditProjectModal Component
  * Renders a modal form for editing project information with react-hook-form validation
@@ -49,6 +77,9 @@ interface EditProjectFormData {
 const EditProjectModal = ({ project, isOpen, onClose, onSuccess }: EditProjectModalProps) => {
   const { showToast } = useToast()
   const [error, setError] = useState('')
+  const [baseVersion, setBaseVersion] = useState<number | null>(null)
+  const [conflict, setConflict] = useState<{ mine: ConflictValues; server: Project } | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
 
   /**
    * Initialize react-hook-form with validation rules
@@ -74,56 +105,105 @@ const EditProjectModal = ({ project, isOpen, onClose, onSuccess }: EditProjectMo
   const [updateProject] = useMutation(UPDATE_PROJECT_MUTATION, {
     refetchQueries: [{ query: PROJECTS_QUERY }],
     awaitRefetchQueries: true,
-    onError: (err) => {
-      setError(err.message || 'Failed to update project. Please try again.')
-    },
   })
 
+  /**
+   * Load a project record into the form, remembering the version it was read at
+   */
+  const loadProject = useCallback((source: Project) => {
+    reset(toProjectFormData(source))
+    setBaseVersion(source.version ?? null)
+  }, [reset])
+
   /**
    * Initialize form data when project changes
    */
   useEffect(() => {
-    if (project) {
-      reset({
-        name: project.name,
-        description: project.description || '',
-        status: project.status,
-      })
-    }
-  }, [project, reset])
+    if (project) loadProject(project)
+  }, [project, loadProject])
 
   /**
-   * Handle form submission with validated data
-   * Updates project information upon successful validation
+   * Fields that differ between the local edit and the server copy
+   */
+  const conflictFields = useMemo(() => {
+    if (!conflict) return []
+    const serverValues = { ...toProjectFormData(conflict.server) }
+    return diffConflictValues(PROJECT_CONFLICT_LABELS, conflict.mine, serverValues, (key, value) =>
+      key === 'status' ? getStatusLabel(value) : value
+    )
+  }, [conflict])
+
+  /**
+   * Save values against the version they were based on
+   * Opens the conflict dialog when someone else saved the project in the meantime
    *
-   * @param data - Form data containing name, description, and status
+   * @param values - Form values to save
+   * @param expectedVersion - Version the values were based on
    */
-  const onSubmit = async (data: EditProjectFormData) => {
+  const saveProject = async (values: ConflictValues, expectedVersion: number | null) => {
     if (!project) return
 
-    setError('') // Clear previous errors
-
     try {
       await updateProject({
         variables: {
           id: project.id,
           input: {
-            name: data.name.trim(),
-            description: data.description.trim() || null,
-            status: data.status,
+            name: values.name.trim(),
+            description: values.description.trim() || null,
+            status: values.status,
+            expectedVersion,
           },
         },
       })
 
+      setConflict(null)
       await showToast('Project updated successfully', 'success', 7000)
       onSuccess()
       onClose()
     } catch (err: unknown) {
+      const server = getConflictState<Project>(err)
+      if (server) {
+        setConflict({ mine: values, server })
+        return
+      }
       const errorMessage = err instanceof Error ? err.message : 'Failed to update project. Please try again.'
       setError(errorMessage)
     }
   }
 
+  /**
+   * Handle form submission with validated data
+   * Updates project information upon successful validation
+   *
+   * @param data - Form data containing name, description, and status
+   */
+  const onSubmit = async (data: EditProjectFormData) => {
+    setError('') // Clear previous errors
+    await saveProject({ ...data }, baseVersion)
+  }
+
+  /**
+   * Save the merged values on top of the server's current version
+   *
+   * @param choices - Per-field choice between the local and the server value
+   */
+  const handleConflictSave = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return
+    const { mine, server } = conflict
+    setIsResolving(true)
+    await saveProject(mergeConflictValues(mine, { ...toProjectFormData(server) }, choices), server.version ?? null)
+    setIsResolving(false)
+  }
+
+  /**
+   * Drop the local edit and continue from the server's copy
+   */
+  const handleUseServer = () => {
+    if (!conflict) return
+    loadProject(conflict.server)
+    setConflict(null)
+  }
+
   /**
    * Handle modal close
    * Resets form data
@@ -131,6 +211,7 @@ const EditProjectModal = ({ project, isOpen, onClose, onSuccess }: EditProjectMo
   const handleClose = () => {
     reset()
     setError('')
+    setConflict(null)
     onClose()
   }
 
@@ -199,6 +280,15 @@ const EditProjectModal = ({ project, isOpen, onClose, onSuccess }: EditProjectMo
           </div>
         </form>
       </div>
+      <VersionConflictDialog
+        isOpen={!!conflict}
+        resourceLabel="project"
+        fields={conflictFields}
+        isSubmitting={isResolving}
+        onSave={handleConflictSave}
+        onUseServer={handleUseServer}
+        onCancel={() => setConflict(null)}
+      />
     </div>
   )
 }
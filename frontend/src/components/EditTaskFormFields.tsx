@@ -8,6 +8,7 @@
 
 import { UseFormRegister, FieldErrors } from 'react-hook-form'
 import TaskTagSelector from './TaskTagSelector'
+import { WorkflowState } from '../types/workflow'
 
 interface Tag {
   id: string
@@ -22,7 +23,9 @@ interface EditTaskFormData {
   status: string
   priority: string
   dueDate: string
+  estimateHours: string
   projectId: string
+  parentTaskId: string
   assignedTo: string
 }
 
@@ -30,17 +33,14 @@ interface EditTaskFormFieldsProps {
   register: UseFormRegister<EditTaskFormData>
   errors: FieldErrors<EditTaskFormData>
   projects: Array<{ id: string; name: string }>
+  parentTasks: Array<{ id: string; title: string }>
+  statuses: WorkflowState[]
   users: Array<{ id: string; firstName: string; lastName: string }>
   tags: Tag[]
   selectedTagIds: string[]
   onTagsChange: (tagIds: string[]) => void
 }
 
-/**
- * Available task statuses
- */
-const TASK_STATUSES = ['TODO', 'IN_PROGRESS', 'DONE']
-
 /**
  * Available task priorities
  */
@@ -53,6 +53,8 @@ const TASK_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH']
  * @param register - react-hook-form register function
  * @param errors - Form validation errors
  * @param projects - Array of available projects
+ * @param parentTasks - Tasks of the selected project that can be the parent
+ * @param statuses - Workflow states of the selected project the task can be set to
  * @param users - Array of available users for assignment
  * @param tags - Array of available tags
  * @param selectedTagIds - Array of selected tag IDs
@@ -63,6 +65,8 @@ const EditTaskFormFields = ({
   register,
   errors,
   projects,
+  parentTasks,
+  statuses,
   users,
   tags,
   selectedTagIds,
@@ -134,9 +138,9 @@ const EditTaskFormFields = ({
             }`}
             {...register('status', { required: 'Status is required' })}
           >
-            {TASK_STATUSES.map((status) => (
-              <option key={status} value={status}>
-                {status === 'TODO' ? 'To Do' : status === 'IN_PROGRESS' ? 'In Progress' : 'Done'}
+            {statuses.map((state) => (
+              <option key={state.key} value={state.key}>
+                {state.name}
               </option>
             ))}
           </select>
@@ -191,6 +195,23 @@ const EditTaskFormFields = ({
         )}
       </div>
 
+      {/* Parent Task Field */}
+      <div>
+        <label htmlFor="parentTaskId" className="block text-sm font-medium text-gray-700 mb-1">
+          Parent Task
+        </label>
+        <select
+          id="parentTaskId"
+          className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          {...register('parentTaskId')}
+        >
+          <option value="">None (top-level task)</option>
+          {parentTasks.map((parentTask) => (
+            <option key={parentTask.id} value={parentTask.id}>{parentTask.title}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Assigned To and Due Date Row */}
       <div className="grid grid-cols-2 gap-4">
         {/* Assigned To Field */}
@@ -224,6 +245,29 @@ const EditTaskFormFields = ({
         </div>
       </div>
 
+      {/* Estimate Field */}
+      <div>
+        <label htmlFor="estimateHours" className="block text-sm font-medium text-gray-700 mb-1">
+          Estimate (hours)
+        </label>
+        <input
+          id="estimateHours"
+          type="number"
+          min={0}
+          step={0.25}
+          placeholder="e.g. 1.5"
+          className={`block w-full px-3 py-2 border rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${
+            errors.estimateHours ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+          {...register('estimateHours', {
+            validate: (value) => !value || Number(value) >= 0 || 'Estimate cannot be negative',
+          })}
+        />
+        {errors.estimateHours && (
+          <p className="mt-1 text-sm text-red-600" role="alert">{errors.estimateHours.message}</p>
+        )}
+      </div>
+
       {/* Tags Field */}
       <TaskTagSelector
         tags={tags}
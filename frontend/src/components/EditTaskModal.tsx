@@ -6,16 +6,36 @@
  * @date 2025-11-26
  */
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { useMutation, useQuery } from '@apollo/client'
 import { useToast } from '../hooks/useToast'
-import { UPDATE_TASK_MUTATION } from '../graphql/mutations'
+import { useProjectWorkflow } from '../hooks/useProjectWorkflow'
+import { UPDATE_TASK_MUTATION, MOVE_TASK_MUTATION } from '../graphql/mutations'
 import { TASKS_QUERY, PROJECTS_QUERY, USERS_QUERY, TAGS_QUERY } from '../graphql/queries'
 import ModalWrapper from './ModalWrapper'
 import FormErrorMessage from './FormErrorMessage'
 import FormActions from './FormActions'
 import EditTaskFormFields from './EditTaskFormFields'
+import VersionConflictDialog from './VersionConflictDialog'
+import TaskDependenciesPanel from './TaskDependenciesPanel'
+import TaskTimerWidget from './TaskTimerWidget'
+import TaskRecurrencePanel from './TaskRecurrencePanel'
+import TaskChecklistPanel from './TaskChecklistPanel'
+import TaskWatchersPanel from './TaskWatchersPanel'
+import TaskCommentsPanel from './TaskCommentsPanel'
+import {
+  ConflictChoice,
+  ConflictValues,
+  diffConflictValues,
+  getConflictState,
+  mergeConflictValues,
+} from '../utils/versionConflict'
+import { collectDescendantIds } from '../utils/taskTree'
+import { getBlockingTasks, TaskDependencyRef } from '../utils/taskDependencies'
+import { getAllowedStates, getWorkflowStates } from '../utils/workflow'
+import { getStatusLabel } from '../utils/taskUtils'
+import { hoursToMinutes, minutesToHoursInput } from '../utils/timeTracking'
 
 interface Tag {
   id: string
@@ -32,9 +52,12 @@ interface Task {
   status: string
   priority: string
   dueDate: string | null
+  estimateMinutes?: number | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
   tags?: Tag[]
+  version?: number | null
   createdAt: string
   updatedAt: string
 }
@@ -52,10 +75,72 @@ interface EditTaskFormData {
   status: string
   priority: string
   dueDate: string
+  estimateHours: string
   projectId: string
+  parentTaskId: string
   assignedTo: string
 }
 
+const TASK_CONFLICT_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  estimateHours: 'Estimate (hours)',
+  projectId: 'Project',
+  parentTaskId: 'Parent task',
+  assignedTo: 'Assigned to',
+  tagIds: 'Tags',
+}
+
+/**
+ * Convert a stored due date into the YYYY-MM-DD value used by the date input
+ *
+ * @author Thang Truong
+ * @date 2025-11-26
+ */
+const formatDueDateForInput = (dueDate: string | null): string => {
+  if (!dueDate) return ''
+  try {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return dueDate
+    const date = new Date(dueDate)
+    if (isNaN(date.getTime())) return ''
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Flatten form data and selected tags into comparable conflict values
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const toConflictValues = (data: EditTaskFormData, tagIds: string[]): ConflictValues => ({
+  ...data,
+  tagIds: [...tagIds].sort().join(','),
+})
+
+/**
+ * Map a task record into the same shape as the form values
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const toTaskFormData = (task: Task): EditTaskFormData => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueDate: formatDueDateForInput(task.dueDate),
+  estimateHours: minutesToHoursInput(task.estimateMinutes),
+  projectId: task.projectId,
+  parentTaskId: task.parentTaskId || '',
+  assignedTo: task.assignedTo || '',
+})
+
 /**
  * EditTaskModal Component
  * Renders a modal form for editing task information with validation
@@ -72,6 +157,10 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
   const { showToast } = useToast()
   const [error, setError] = useState('')
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
+  const [baseVersion, setBaseVersion] = useState<number | null>(null)
+  const [conflict, setConflict] = useState<{ mine: ConflictValues; server: Task } | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
+  const [blockedSave, setBlockedSave] = useState<{ values: ConflictValues; expectedVersion: number | null; blockers: TaskDependencyRef[] } | null>(null)
 
   const { data: projectsData } = useQuery<{ projects: Array<{ id: string; name: string }> }>(
     PROJECTS_QUERY,
@@ -82,18 +171,87 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
     { skip: !isOpen }
   )
   const { data: tagsData } = useQuery<{ tags: Tag[] }>(TAGS_QUERY, { skip: !isOpen })
+  const { data: tasksData } = useQuery<{ tasks: Array<{ id: string; title: string; projectId: string; parentTaskId?: string | null }> }>(
+    TASKS_QUERY,
+    { skip: !isOpen }
+  )
 
-  const { register, handleSubmit, formState: { errors, isSubmitting }, reset } = useForm<EditTaskFormData>({
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset, watch, getValues, setValue } = useForm<EditTaskFormData>({
     mode: 'onBlur',
-    defaultValues: { title: '', description: '', status: 'TODO', priority: 'MEDIUM', dueDate: '', projectId: '', assignedTo: '' },
+    defaultValues: { title: '', description: '', status: 'TODO', priority: 'MEDIUM', dueDate: '', estimateHours: '', projectId: '', parentTaskId: '', assignedTo: '' },
   })
 
   const [updateTask] = useMutation(UPDATE_TASK_MUTATION, {
     refetchQueries: [{ query: TASKS_QUERY }],
     awaitRefetchQueries: true,
-    onError: (err) => setError(err.message || 'Failed to update task.'),
+  })
+  const [moveTask] = useMutation(MOVE_TASK_MUTATION, {
+    refetchQueries: [{ query: TASKS_QUERY }],
+    awaitRefetchQueries: true,
   })
 
+  /**
+   * Tasks in a project that this task can be moved under - not itself or its own subtasks
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const getParentOptions = useCallback((projectId: string) => {
+    if (!task) return []
+    const allTasks = tasksData?.tasks || []
+    const excluded = collectDescendantIds(allTasks, task.id)
+    excluded.add(task.id)
+    return allTasks.filter((candidate) => candidate.projectId === projectId && !excluded.has(candidate.id))
+  }, [task, tasksData])
+
+  const selectedProjectId = watch('projectId')
+  const parentTasks = useMemo(() => getParentOptions(selectedProjectId), [getParentOptions, selectedProjectId])
+  const projectTasks = useMemo(
+    () => (tasksData?.tasks || []).filter((candidate) => task && candidate.projectId === task.projectId),
+    [tasksData, task]
+  )
+  const { workflow } = useProjectWorkflow(selectedProjectId)
+
+  /**
+   * Statuses offered in the picker
+   * In its own project the task can stay put or follow the workflow's transitions;
+   * moved to another project it can take any state of that project's workflow
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const statuses = useMemo(() => {
+    if (!task) return []
+    const staysInProject = selectedProjectId === task.projectId
+    const options = staysInProject ? getAllowedStates(workflow, task.status) : getWorkflowStates(workflow)
+    if (!staysInProject || options.some((state) => state.key === task.status)) return options
+    return [{ key: task.status, name: getStatusLabel(task.status), category: 'NOT_STARTED' as const, position: -1 }, ...options]
+  }, [task, selectedProjectId, workflow])
+
+  /**
+   * Pick the first state of the target workflow when the chosen status does not exist there
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (statuses.length > 0 && !statuses.some((state) => state.key === getValues('status'))) {
+      setValue('status', statuses[0].key)
+    }
+  }, [statuses, getValues, setValue])
+
+  /**
+   * Load a task record into the form, remembering the version it was read at
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const loadTask = useCallback((source: Task) => {
+    reset(toTaskFormData(source))
+    setSelectedTagIds(source.tags?.map((tag) => tag.id) || [])
+    setBaseVersion(source.version ?? null)
+  }, [reset])
+
   /**
    * Initialize form data and tags when task changes
    *
@@ -101,34 +259,33 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
    * @date 2025-11-26
    */
   useEffect(() => {
-    if (task) {
-      let formattedDueDate = ''
-      if (task.dueDate) {
-        try {
-          if (/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate)) {
-            formattedDueDate = task.dueDate
-          } else {
-            const date = new Date(task.dueDate)
-            if (!isNaN(date.getTime())) {
-              formattedDueDate = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`
-            }
-          }
-        } catch {
-          formattedDueDate = ''
-        }
+    if (task) loadTask(task)
+  }, [task, loadTask])
+
+  /**
+   * Fields that differ between the local edit and the server copy, with readable values
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const conflictFields = useMemo(() => {
+    if (!conflict) return []
+    const { server } = conflict
+    const formatValue = (key: string, value: string): string => {
+      if (key === 'projectId') return projectsData?.projects.find((project) => project.id === value)?.name || value
+      if (key === 'parentTaskId') return value ? tasksData?.tasks.find((candidate) => candidate.id === value)?.title || value : 'None'
+      if (key === 'assignedTo') {
+        const user = usersData?.users.find((candidate) => candidate.id === value)
+        return user ? `${user.firstName} ${user.lastName}` : value
       }
-      reset({
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        dueDate: formattedDueDate,
-        projectId: task.projectId,
-        assignedTo: task.assignedTo || '',
-      })
-      setSelectedTagIds(task.tags?.map((tag) => tag.id) || [])
+      if (key === 'tagIds') {
+        return value.split(',').filter(Boolean).map((tagId) => tagsData?.tags.find((tag) => tag.id === tagId)?.name || tagId).join(', ')
+      }
+      return value
     }
-  }, [task, reset])
+    const serverValues = toConflictValues(toTaskFormData(server), server.tags?.map((tag) => tag.id) || [])
+    return diffConflictValues(TASK_CONFLICT_LABELS, conflict.mine, serverValues, formatValue)
+  }, [conflict, projectsData, usersData, tagsData, tasksData])
 
   /**
    * Handle tag selection change
@@ -141,38 +298,99 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
   }
 
   /**
-   * Handle form submission with validated data
+   * Save values against the version they were based on
+   * Opens the conflict dialog when someone else saved the task in the meantime
+   * A changed parent is applied afterwards with moveTask
+   * Finishing a task with unfinished blockers asks for confirmation and is retried with force
    *
    * @author Thang Truong
-   * @date 2025-11-26
+   * @date 2025-12-10
    */
-  const onSubmit = async (data: EditTaskFormData) => {
+  const saveTask = async (values: ConflictValues, expectedVersion: number | null, force = false) => {
     if (!task) return
-    setError('')
+    setBlockedSave(null)
     try {
-      await updateTask({
+      const result = await updateTask({
         variables: {
           id: task.id,
           input: {
-            title: data.title.trim(),
-            description: data.description.trim(),
-            status: data.status,
-            priority: data.priority,
-            dueDate: data.dueDate || null,
-            projectId: data.projectId,
-            assignedTo: data.assignedTo || null,
-            tagIds: selectedTagIds,
+            title: values.title.trim(),
+            description: values.description.trim(),
+            status: values.status,
+            priority: values.priority,
+            dueDate: values.dueDate || null,
+            estimateMinutes: hoursToMinutes(values.estimateHours),
+            projectId: values.projectId,
+            assignedTo: values.assignedTo || null,
+            tagIds: values.tagIds.split(',').filter(Boolean),
+            expectedVersion,
+            force,
           },
         },
       })
+      const parentId = getParentOptions(values.projectId).some((candidate) => candidate.id === values.parentTaskId)
+        ? values.parentTaskId
+        : ''
+      if ((result.data?.updateTask?.parentTaskId || '') !== parentId) {
+        await moveTask({ variables: { id: task.id, parentId: parentId || null } })
+      }
+      setConflict(null)
       await showToast('Task updated successfully', 'success', 7000)
       await onSuccess()
       onClose()
     } catch (err: unknown) {
+      const server = getConflictState<Task>(err)
+      if (server) {
+        setConflict({ mine: values, server })
+        return
+      }
+      const blockers = getBlockingTasks(err)
+      if (blockers) {
+        setBlockedSave({ values, expectedVersion, blockers })
+        return
+      }
       setError(err instanceof Error ? err.message : 'Failed to update task.')
     }
   }
 
+  /**
+   * Handle form submission with validated data
+   *
+   * @author Thang Truong
+   * @date 2025-11-26
+   */
+  const onSubmit = async (data: EditTaskFormData) => {
+    setError('')
+    await saveTask(toConflictValues(data, selectedTagIds), baseVersion)
+  }
+
+  /**
+   * Save the merged values on top of the server's current version
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleConflictSave = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return
+    const { mine, server } = conflict
+    const serverValues = toConflictValues(toTaskFormData(server), server.tags?.map((tag) => tag.id) || [])
+    setIsResolving(true)
+    await saveTask(mergeConflictValues(mine, serverValues, choices), server.version ?? null)
+    setIsResolving(false)
+  }
+
+  /**
+   * Drop the local edit and continue from the server's copy
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleUseServer = () => {
+    if (!conflict) return
+    loadTask(conflict.server)
+    setConflict(null)
+  }
+
   /**
    * Handle modal close and reset state
    *
@@ -183,6 +401,8 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
     reset()
     setError('')
     setSelectedTagIds([])
+    setConflict(null)
+    setBlockedSave(null)
     onClose()
   }
 
@@ -197,11 +417,42 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
           register={register}
           errors={errors}
           projects={projectsData?.projects || []}
+          parentTasks={parentTasks}
+          statuses={statuses}
           users={usersData?.users || []}
           tags={tagsData?.tags || []}
           selectedTagIds={selectedTagIds}
           onTagsChange={handleTagsChange}
         />
+        <TaskChecklistPanel taskId={task.id} users={usersData?.users || []} />
+        <TaskDependenciesPanel taskId={task.id} candidateTasks={projectTasks} />
+        <TaskTimerWidget taskId={task.id} estimateMinutes={task.estimateMinutes} />
+        <TaskRecurrencePanel taskId={task.id} />
+        <TaskWatchersPanel taskId={task.id} />
+        {/* Confirmation when finishing a task that still has unfinished blockers */}
+        {blockedSave && (
+          <div className="mt-4 rounded-lg bg-amber-50 border border-amber-200 p-4 text-sm text-amber-800">
+            <p className="font-medium">
+              {`This task is still blocked by ${blockedSave.blockers.map((blocker) => `"${blocker.title}"`).join(', ')}.`}
+            </p>
+            <div className="flex gap-2 mt-3">
+              <button
+                type="button"
+                onClick={() => saveTask(blockedSave.values, blockedSave.expectedVersion, true)}
+                className="px-3 py-1.5 bg-amber-600 text-white rounded-lg text-xs font-medium hover:bg-amber-700"
+              >
+                Mark as done anyway
+              </button>
+              <button
+                type="button"
+                onClick={() => setBlockedSave(null)}
+                className="px-3 py-1.5 border border-amber-300 rounded-lg text-xs font-medium hover:bg-amber-100"
+              >
+                Keep editing
+              </button>
+            </div>
+          </div>
+        )}
         <FormErrorMessage message={error} />
         <FormActions
           onCancel={handleClose}
@@ -210,6 +461,16 @@ const EditTaskModal = ({ task, isOpen, onClose, onSuccess }: EditTaskModalProps)
           submittingLabel="Updating..."
         />
       </form>
+      <TaskCommentsPanel taskId={task.id} projectId={task.projectId} />
+      <VersionConflictDialog
+        isOpen={!!conflict}
+        resourceLabel="task"
+        fields={conflictFields}
+        isSubmitting={isResolving}
+        onSave={handleConflictSave}
+        onUseServer={handleUseServer}
+        onCancel={() => setConflict(null)}
+      />
     </ModalWrapper>
   )
 }
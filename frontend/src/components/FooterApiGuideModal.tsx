@@ -191,6 +191,7 @@ Authorization: Bearer <your-accessToken>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• Use Postman Collections to organize your API requests</li>
               <li>• Set up environment variables for base URL and tokens</li>
+              <li>• For scripts and CI, create a personal API token from your profile menu and send it as <code className="bg-blue-100 px-1.5 py-0.5 rounded">Bearer ptk_…</code> instead of the short-lived accessToken</li>
               <li>• Enable "Automatically follow redirects" in Postman settings</li>
               <li>• Check the Network tab in browser DevTools for real queries</li>
             </ul>
@@ -1,27 +1,31 @@
 /**
  * ForgotPasswordForm Component
- * Handles password reset functionality with GraphQL mutation
+ * Two-step password reset: request an emailed reset link, then set a new password
+ * using the single-use token from that link (?token=...)
  * 
  * @author Thang Truong
  * @date 2025-11-27
  */
 
 import { useState, useEffect } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { useMutation } from '@apollo/client'
 import Logo from './Logo'
 import { useToast } from '../hooks/useToast'
 import ForgotPasswordSuccess from './ForgotPasswordSuccess'
 import ForgotPasswordFormFields from './ForgotPasswordFormFields'
-import { RESET_PASSWORD_MUTATION } from '../graphql/auth'
+import { REQUEST_PASSWORD_RESET_MUTATION, CONFIRM_PASSWORD_RESET_MUTATION } from '../graphql/auth'
 
 /**
- * ForgotPasswordForm - Password reset form with actual DB update
+ * ForgotPasswordForm - Password reset form driven by emailed reset tokens
  * @author Thang Truong
  * @date 2025-11-27
  */
 const ForgotPasswordForm = () => {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const resetToken = searchParams.get('token') || ''
+  const step: 'request' | 'confirm' = resetToken ? 'confirm' : 'request'
   const { showToast } = useToast()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -32,8 +36,10 @@ const ForgotPasswordForm = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [isInitializing, setIsInitializing] = useState(true)
 
-  /** Reset password mutation - @author Thang Truong @date 2025-11-27 */
-  const [resetPassword, { loading: isLoading }] = useMutation(RESET_PASSWORD_MUTATION)
+  /** Password reset mutations - @author Thang Truong @date 2025-12-10 */
+  const [requestPasswordReset, { loading: isRequesting }] = useMutation(REQUEST_PASSWORD_RESET_MUTATION)
+  const [confirmPasswordReset, { loading: isConfirming }] = useMutation(CONFIRM_PASSWORD_RESET_MUTATION)
+  const isLoading = isRequesting || isConfirming
 
   /** Simulate initial load for skeleton - @author Thang Truong @date 2025-11-27 */
   useEffect(() => {
@@ -43,15 +49,32 @@ const ForgotPasswordForm = () => {
 
   /**
    * Handles form submission for password reset
-   * Validates input and calls GraphQL mutation to update password
+   * Request step emails a reset link; confirm step consumes the token and sets the new password
    * @author Thang Truong
-   * @date 2025-11-27
+   * @date 2025-12-10
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
 
-    if (!email || !password || !confirmPassword) {
+    if (step === 'request') {
+      if (!email) {
+        setError('Please enter your email address')
+        return
+      }
+      try {
+        const result = await requestPasswordReset({ variables: { email } })
+        if (result.data?.requestPasswordReset) {
+          setSuccess(true)
+          await showToast('Check your email for a password reset link', 'success', 7000)
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to request password reset. Please try again.')
+      }
+      return
+    }
+
+    if (!password || !confirmPassword) {
       setError('Please fill in all fields')
       return
     }
@@ -65,8 +88,8 @@ const ForgotPasswordForm = () => {
     }
 
     try {
-      const result = await resetPassword({ variables: { email, newPassword: password } })
-      if (result.data?.resetPassword) {
+      const result = await confirmPasswordReset({ variables: { token: resetToken, newPassword: password } })
+      if (result.data?.confirmPasswordReset) {
         setSuccess(true)
         await showToast('Password updated successfully!', 'success', 7000)
         setTimeout(() => navigate('/login'), 100)
@@ -76,7 +99,7 @@ const ForgotPasswordForm = () => {
     }
   }
 
-  if (success) return <ForgotPasswordSuccess />
+  if (success) return <ForgotPasswordSuccess variant={step === 'request' ? 'emailSent' : 'passwordUpdated'} email={email} />
 
   if (isInitializing) {
     return (
@@ -113,12 +136,16 @@ const ForgotPasswordForm = () => {
               <Logo size="large" />
             </Link>
             <h2 className="text-3xl font-bold text-gray-900 mb-2">Reset password</h2>
-            <p className="text-gray-600">Enter your email address and create a new password for your account.</p>
+            <p className="text-gray-600">
+              {step === 'request'
+                ? "Enter your email address and we'll send you a link to reset your password."
+                : 'Create a new password for your account.'}
+            </p>
           </div>
 
           <form className="space-y-5" onSubmit={handleSubmit}>
             <ForgotPasswordFormFields
-              email={email} password={password} confirmPassword={confirmPassword}
+              step={step} email={email} password={password} confirmPassword={confirmPassword}
               showPassword={showPassword} showConfirmPassword={showConfirmPassword}
               onEmailChange={setEmail} onPasswordChange={setPassword} onConfirmPasswordChange={setConfirmPassword}
               onTogglePassword={() => setShowPassword(!showPassword)}
@@ -144,8 +171,8 @@ const ForgotPasswordForm = () => {
                 <><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                </svg>Resetting password...</>
-              ) : 'Reset password'}
+                </svg>{step === 'request' ? 'Sending reset link...' : 'Resetting password...'}</>
+              ) : step === 'request' ? 'Send reset link' : 'Reset password'}
             </button>
           </form>
 
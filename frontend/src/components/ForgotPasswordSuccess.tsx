@@ -1,6 +1,6 @@
 /**
  * ForgotPasswordSuccess Component
- * Displays success message after password reset
+ * Displays success message after requesting a reset link or resetting the password
  * 
  * @author Thang Truong
  * @date 2024-12-24
@@ -8,13 +8,21 @@
 
 import { Link } from 'react-router-dom'
 
+interface ForgotPasswordSuccessProps {
+  variant?: 'emailSent' | 'passwordUpdated'
+  email?: string
+}
+
 /**
  * ForgotPasswordSuccess Component
  * Renders success message after password reset
  * 
+ * @param variant - 'emailSent' after requesting a link, 'passwordUpdated' after resetting
+ * @param email - Email address the reset link was sent to
  * @returns JSX element containing success message
  */
-const ForgotPasswordSuccess = () => {
+const ForgotPasswordSuccess = ({ variant = 'passwordUpdated', email }: ForgotPasswordSuccessProps) => {
+  const isEmailSent = variant === 'emailSent'
   return (
     <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-blue-50 via-white to-gray-50">
       <div className="max-w-md w-full">
@@ -36,16 +44,20 @@ const ForgotPasswordSuccess = () => {
               </svg>
             </div>
             <h2 className="text-3xl font-bold text-gray-900 mb-2">
-              Password updated!
+              {isEmailSent ? 'Check your email' : 'Password updated!'}
             </h2>
             <p className="text-gray-600">
-              Your password has been successfully reset. Redirecting to login...
+              {isEmailSent
+                ? `If an account exists for ${email || 'this email'}, we sent a link to reset your password.`
+                : 'Your password has been successfully reset. Redirecting to login...'}
             </p>
           </div>
 
           <div className="bg-green-50 rounded-lg p-4 mb-6">
             <p className="text-sm text-gray-700 text-center">
-              You can now sign in with your new password.
+              {isEmailSent
+                ? 'The link expires shortly and can only be used once.'
+                : 'You can now sign in with your new password.'}
             </p>
           </div>
 
@@ -0,0 +1,179 @@
+/**
+ * InvitationsPanel Component
+ * Admin panel on the Users page to invite people by email and manage pending invitations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery, useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { INVITE_USER_MUTATION, LIST_INVITATIONS_QUERY, REVOKE_INVITATION_MUTATION } from '../graphql/auth'
+import { PROJECTS_QUERY } from '../graphql/queries'
+import { USER_ROLES } from './EditUserFormFields'
+import { Invitation, InvitationStatus } from '../types/invitation'
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  PENDING: 'bg-blue-100 text-blue-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  REVOKED: 'bg-gray-100 text-gray-600',
+  EXPIRED: 'bg-yellow-100 text-yellow-800',
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+/**
+ * InvitationsPanel - Collapsible invite form and invitation list
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const InvitationsPanel = () => {
+  const { showToast } = useToast()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState('Frontend Developer')
+  const [projectId, setProjectId] = useState('')
+  const [projectRole, setProjectRole] = useState('VIEWER')
+  const { data, loading, refetch } = useQuery<{ listInvitations: Invitation[] }>(LIST_INVITATIONS_QUERY, {
+    skip: !isExpanded,
+    fetchPolicy: 'cache-and-network',
+  })
+  const { data: projectsData } = useQuery<{ projects: Array<{ id: string; name: string }> }>(PROJECTS_QUERY, { skip: !isExpanded })
+  const [inviteUser, { loading: isInviting }] = useMutation(INVITE_USER_MUTATION)
+  const [revokeInvitation, { loading: isRevoking }] = useMutation(REVOKE_INVITATION_MUTATION)
+  const invitations = data?.listInvitations || []
+  const pendingCount = invitations.filter((invitation) => invitation.status === 'PENDING').length
+
+  /**
+   * Send an invitation email
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await inviteUser({
+        variables: { email: email.trim(), role, projectId: projectId || null, projectRole: projectId ? projectRole : null },
+      })
+      setEmail('')
+      await showToast(`Invitation sent to ${email.trim()}`, 'success', 7000)
+      await refetch()
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to send invitation', 'error', 7000)
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation({ variables: { id: invitation.id } })
+      await showToast(`Invitation for ${invitation.email} revoked`, 'success', 7000)
+      await refetch()
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to revoke invitation', 'error', 7000)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 mb-3 sm:mb-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+      >
+        <div>
+          <p className="text-sm font-semibold text-gray-900">Invitations</p>
+          <p className="text-xs text-gray-500">
+            {isExpanded && data ? `${pendingCount} pending` : 'Invite new users by email'}
+          </p>
+        </div>
+        <svg className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          {/* Invite Form */}
+          <form onSubmit={handleInvite} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className={`${inputClassName} lg:col-span-2`}
+              aria-label="Email to invite"
+            />
+            <select value={role} onChange={(e) => setRole(e.target.value)} className={inputClassName} aria-label="Role">
+              {USER_ROLES.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClassName} aria-label="Project">
+              <option value="">No project</option>
+              {(projectsData?.projects || []).map((project) => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              {projectId && (
+                <select value={projectRole} onChange={(e) => setProjectRole(e.target.value)} className={`${inputClassName} flex-1`} aria-label="Project role">
+                  <option value="VIEWER">Viewer</option>
+                  <option value="EDITOR">Editor</option>
+                  <option value="OWNER">Owner</option>
+                </select>
+              )}
+              <button
+                type="submit"
+                disabled={isInviting || !email.trim()}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isInviting ? 'Sending...' : 'Invite'}
+              </button>
+            </div>
+          </form>
+
+          {/* Invitation List */}
+          {loading && invitations.length === 0 && <div className="h-10 bg-gray-100 rounded animate-pulse" />}
+          {!loading && invitations.length === 0 && <p className="text-sm text-gray-500">No invitations yet.</p>}
+          <div className="divide-y divide-gray-100">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{invitation.email}</p>
+                  <p className="text-xs text-gray-500">
+                    {invitation.role}
+                    {invitation.projectName ? ` · ${invitation.projectName} (${invitation.projectRole})` : ''}
+                    {invitation.invitedByName ? ` · invited by ${invitation.invitedByName}` : ''}
+                    {` · expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[invitation.status]}`}>{invitation.status}</span>
+                  {invitation.status === 'PENDING' && (
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={isRevoking}
+                      className="px-3 py-1 bg-red-200 text-red-700 rounded-md text-xs font-medium hover:bg-red-100 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default InvitationsPanel
@@ -2,6 +2,7 @@
  * LoginForm Component
  * Handles user authentication with email and password using react-hook-form validation
  * Uses GraphQL mutation for login with async/await pattern
+ * Switches to a two-factor step when the server returns a challenge
  *
  * @author Thang Truong
  * @date 2025-12-09
@@ -14,7 +15,9 @@ import { useMutation } from '@apollo/client'
 import { LOGIN_MUTATION } from '../graphql/mutations'
 import { useAuth } from '../context/AuthContext'
 import LoginFormFields from './LoginFormFields'
+import LoginTwoFactorStep from './LoginTwoFactorStep'
 import Logo from './Logo'
+import { AuthSessionPayload } from '../types/twoFactor'
 
 interface LoginFormProps {
   onLoginSuccess?: () => void
@@ -30,6 +33,7 @@ const LoginForm = ({ onLoginSuccess }: LoginFormProps) => {
   const { login } = useAuth()
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ token: string; mode: 'verify' | 'setup' } | null>(null)
 
   const {
     register,
@@ -42,6 +46,38 @@ const LoginForm = ({ onLoginSuccess }: LoginFormProps) => {
 
   const [loginMutation, { loading: isLoading }] = useMutation(LOGIN_MUTATION)
 
+  /**
+   * Stores the session and redirects once login is fully authenticated
+   * @author Thang Truong
+   * @date 2025-12-10
+   * @param session - Access token and user returned by login or two-factor verification
+   */
+  const completeLogin = async (session: AuthSessionPayload): Promise<void> => {
+    const accessToken = session.accessToken
+    const user = session.user
+    if (!accessToken || !user) {
+      setError('Login failed. Invalid server response.')
+      return
+    }
+    const firstName = user.firstName ? String(user.firstName) : ''
+    const lastName = user.lastName ? String(user.lastName) : ''
+    const userData = {
+      id: user.id ? String(user.id) : '',
+      uuid: user.uuid ? String(user.uuid) : '',
+      firstName,
+      lastName,
+      email: user.email ? String(user.email) : '',
+      role: user.role ? String(user.role) : '',
+      name: `${firstName} ${lastName}`.trim(),
+      initials: firstName && lastName ? `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() : '',
+    }
+    await login(userData, String(accessToken))
+    if (onLoginSuccess) {
+      await Promise.resolve(onLoginSuccess())
+    }
+    navigate('/')
+  }
+
   /**
    * Handles form submission with validated data
    * Authenticates user and stores tokens upon successful validation
@@ -65,29 +101,11 @@ const LoginForm = ({ onLoginSuccess }: LoginFormProps) => {
         setError('Login failed. Please check your credentials.')
         return
       }
-      const accessToken = loginData.accessToken
-      const user = loginData.user
-      if (!accessToken || !user) {
-        setError('Login failed. Invalid server response.')
+      if (loginData.challengeToken && (loginData.twoFactorRequired || loginData.twoFactorSetupRequired)) {
+        setTwoFactorChallenge({ token: String(loginData.challengeToken), mode: loginData.twoFactorRequired ? 'verify' : 'setup' })
         return
       }
-      const firstName = user.firstName ? String(user.firstName) : ''
-      const lastName = user.lastName ? String(user.lastName) : ''
-      const userData = {
-        id: user.id ? String(user.id) : '',
-        uuid: user.uuid ? String(user.uuid) : '',
-        firstName,
-        lastName,
-        email: user.email ? String(user.email) : '',
-        role: user.role ? String(user.role) : '',
-        name: `${firstName} ${lastName}`.trim(),
-        initials: firstName && lastName ? `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() : '',
-      }
-      await login(userData, String(accessToken))
-      if (onLoginSuccess) {
-        await Promise.resolve(onLoginSuccess())
-      }
-      navigate('/')
+      await completeLogin(loginData)
     } catch (err: unknown) {
       let errorMessage = 'Login failed. Please try again.'
       if (err instanceof Error) {
@@ -117,47 +135,59 @@ const LoginForm = ({ onLoginSuccess }: LoginFormProps) => {
                 <Logo size="large" />
               </button>
             </div>
-            <h2 className="text-3xl font-bold text-gray-900 mb-2">Welcome back</h2>
-            <p className="text-gray-600">Sign in to continue to Project Tracker</p>
-          </div>
-          {/* Demo credentials info box */}
-          <div className="mb-6 rounded-lg bg-blue-50 border border-blue-200 p-4">
-            <div className="flex items-start">
-              <svg className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <div className="ml-3 flex-1">
-                <h3 className="text-sm font-semibold text-blue-900 mb-2">Demo Credentials</h3>
-                <div className="text-sm text-blue-800 space-y-1">
-                  <p><span className="font-medium">Email:</span> <span className="font-mono bg-blue-100 px-2 py-0.5 rounded">thangtruong1808@gmail.com</span></p>
-                  <p><span className="font-medium">Password:</span> <span className="font-mono bg-blue-100 px-2 py-0.5 rounded">UserTest123!&lt;&gt;</span></p>
-                </div>
-              </div>
-            </div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{twoFactorChallenge ? 'Two-factor authentication' : 'Welcome back'}</h2>
+            <p className="text-gray-600">{twoFactorChallenge ? 'One more step to verify it is you' : 'Sign in to continue to Project Tracker'}</p>
           </div>
-          {/* Login form with email and password fields */}
-          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
-            <LoginFormFields register={register} errors={errors} showPassword={showPassword} onTogglePassword={() => setShowPassword(!showPassword)} />
-            {/* Error message display */}
-            {error && (
-              <div className="rounded-lg bg-red-50 border border-red-200 p-4">
-                <div className="flex">
-                  <svg className="h-5 w-5 text-red-400 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          {twoFactorChallenge ? (
+            /* Second step - TOTP verification or forced enrollment */
+            <LoginTwoFactorStep
+              challengeToken={twoFactorChallenge.token}
+              mode={twoFactorChallenge.mode}
+              onAuthenticated={completeLogin}
+              onCancel={() => { setTwoFactorChallenge(null); setError('') }}
+            />
+          ) : (
+            <>
+              {/* Demo credentials info box */}
+              <div className="mb-6 rounded-lg bg-blue-50 border border-blue-200 p-4">
+                <div className="flex items-start">
+                  <svg className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  <p className="ml-3 text-sm font-medium text-red-800">{error}</p>
+                  <div className="ml-3 flex-1">
+                    <h3 className="text-sm font-semibold text-blue-900 mb-2">Demo Credentials</h3>
+                    <div className="text-sm text-blue-800 space-y-1">
+                      <p><span className="font-medium">Email:</span> <span className="font-mono bg-blue-100 px-2 py-0.5 rounded">thangtruong1808@gmail.com</span></p>
+                      <p><span className="font-medium">Password:</span> <span className="font-mono bg-blue-100 px-2 py-0.5 rounded">UserTest123!&lt;&gt;</span></p>
+                    </div>
+                  </div>
                 </div>
               </div>
-            )}
-            {/* Submit button with loading state */}
-            <button type="submit" disabled={isLoading || isSubmitting} className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-base font-semibold text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-[1.02] active:scale-[0.98]">
-              {isLoading || isSubmitting ? (<><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" /></svg>Signing in...</>) : ('Sign in')}
-            </button>
-          </form>
-          {/* Register link */}
-          <div className="mt-6 text-center">
-            <p className="text-sm text-gray-600">Don&apos;t have an account? <Link to="/register" className="font-semibold text-blue-600 hover:text-blue-700 transition-colors">Sign up</Link></p>
-          </div>
+              {/* Login form with email and password fields */}
+              <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+                <LoginFormFields register={register} errors={errors} showPassword={showPassword} onTogglePassword={() => setShowPassword(!showPassword)} />
+                {/* Error message display */}
+                {error && (
+                  <div className="rounded-lg bg-red-50 border border-red-200 p-4">
+                    <div className="flex">
+                      <svg className="h-5 w-5 text-red-400 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                      </svg>
+                      <p className="ml-3 text-sm font-medium text-red-800">{error}</p>
+                    </div>
+                  </div>
+                )}
+                {/* Submit button with loading state */}
+                <button type="submit" disabled={isLoading || isSubmitting} className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-base font-semibold text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-[1.02] active:scale-[0.98]">
+                  {isLoading || isSubmitting ? (<><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" /></svg>Signing in...</>) : ('Sign in')}
+                </button>
+              </form>
+              {/* Register link */}
+              <div className="mt-6 text-center">
+                <p className="text-sm text-gray-600">Don&apos;t have an account? <Link to="/register" className="font-semibold text-blue-600 hover:text-blue-700 transition-colors">Sign up</Link></p>
+              </div>
+            </>
+          )}
         </div>
         {/* Back to home link */}
         <div className="mt-6 text-center">
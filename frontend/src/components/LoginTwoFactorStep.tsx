@@ -0,0 +1,112 @@
+/**
+ * LoginTwoFactorStep Component
+ * Second login step - verifies a TOTP/recovery code, or enrolls users
+ * whose role requires two-factor authentication before their first session
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { VERIFY_TWO_FACTOR_MUTATION } from '../graphql/auth'
+import TwoFactorEnrollmentSetup from './TwoFactorEnrollmentSetup'
+import { AuthSessionPayload, TwoFactorEnrollmentResult } from '../types/twoFactor'
+
+interface LoginTwoFactorStepProps {
+  challengeToken: string
+  mode: 'verify' | 'setup'
+  onAuthenticated: (session: AuthSessionPayload) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * LoginTwoFactorStep - Code verification or forced enrollment
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const LoginTwoFactorStep = ({ challengeToken, mode, onAuthenticated, onCancel }: LoginTwoFactorStepProps) => {
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [verifyTwoFactor, { loading: isVerifying }] = useMutation(VERIFY_TWO_FACTOR_MUTATION)
+
+  /**
+   * Verify code and complete login
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the 6-digit code from your authenticator app')
+      return
+    }
+    try {
+      const result = await verifyTwoFactor({ variables: { challengeToken, code: code.trim() } })
+      if (result.data?.verifyTwoFactor) await onAuthenticated(result.data.verifyTwoFactor)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.')
+    }
+  }
+
+  /**
+   * Complete login after forced enrollment
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleEnrolled = async (result: TwoFactorEnrollmentResult) => {
+    if (result.session) await onAuthenticated(result.session)
+  }
+
+  if (mode === 'setup') {
+    return (
+      <div className="space-y-4">
+        <div className="rounded-lg bg-blue-50 border border-blue-200 p-3 text-sm text-blue-900">
+          Your role requires two-factor authentication. Set it up to finish signing in.
+        </div>
+        <TwoFactorEnrollmentSetup challengeToken={challengeToken} onComplete={handleEnrolled} onCancel={onCancel} />
+      </div>
+    )
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleVerify}>
+      <p className="text-sm text-gray-600">
+        {useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when enabling two-factor authentication.'
+          : 'Open your authenticator app and enter the 6-digit code for Project Tracker.'}
+      </p>
+      <input
+        type="text"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        autoFocus
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        className="block w-full px-3 py-3 border border-gray-300 rounded-lg text-center tracking-widest font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isVerifying}
+        className="w-full py-3 px-4 rounded-lg text-base font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isVerifying ? 'Verifying...' : 'Verify'}
+      </button>
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError('') }} className="font-medium text-blue-600 hover:text-blue-700">
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button type="button" onClick={onCancel} className="font-medium text-gray-600 hover:text-gray-900">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default LoginTwoFactorStep
@@ -0,0 +1,57 @@
+/**
+ * MentionSuggestions Component
+ * Popup under a comment box listing the project participants that match the @mention being typed
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { MentionCandidate } from '../utils/mentions'
+
+interface MentionSuggestionsProps {
+  candidates: MentionCandidate[]
+  activeIndex: number
+  onSelect: (candidate: MentionCandidate) => void
+}
+
+/**
+ * MentionSuggestions Component
+ * Selection uses mousedown so the textarea keeps focus and its caret
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const MentionSuggestions = ({ candidates, activeIndex, onSelect }: MentionSuggestionsProps) => {
+  if (candidates.length === 0) return null
+
+  return (
+    /* Mention suggestions list */
+    <ul
+      role="listbox"
+      aria-label="Mention a project member"
+      className="absolute left-0 top-full z-20 mt-1 w-64 overflow-hidden rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+    >
+      {candidates.map((candidate, index) => (
+        <li
+          key={candidate.userId}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => {
+            e.preventDefault()
+            onSelect(candidate)
+          }}
+          className={`flex cursor-pointer items-center gap-2 px-3 py-2 text-sm ${
+            index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <span className="flex h-6 w-6 items-center justify-center rounded-full bg-blue-100 text-xs font-medium text-blue-600">
+            {candidate.name.charAt(0).toUpperCase()}
+          </span>
+          {candidate.name}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default MentionSuggestions
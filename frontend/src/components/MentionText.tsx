@@ -0,0 +1,42 @@
+/**
+ * MentionText Component
+ * Renders text with @mentions of project participants as highlighted chips
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useMemo } from 'react'
+import { MentionCandidate, splitMentions } from '../utils/mentions'
+
+interface MentionTextProps {
+  text: string
+  candidates: MentionCandidate[]
+}
+
+/**
+ * MentionText Component
+ * Mentions of people who are not on the project stay plain text
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const MentionText = ({ text, candidates }: MentionTextProps) => {
+  const segments = useMemo(() => splitMentions(text, candidates), [text, candidates])
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.userId ? (
+          <span key={index} className="inline-flex items-center rounded bg-blue-100 px-1 font-medium text-blue-700">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+export default MentionText
@@ -0,0 +1,173 @@
+/**
+ * MilestoneFormModal Component
+ * Form to add or edit a project milestone and pick the tasks linked to it
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { CREATE_MILESTONE_MUTATION, UPDATE_MILESTONE_MUTATION } from '../graphql/mutations'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+import { Milestone } from '../types/milestone'
+import { ProjectTask } from '../types/project'
+
+interface MilestoneFormModalProps {
+  projectId: string
+  milestone: Milestone | null
+  tasks: ProjectTask[]
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+/**
+ * MilestoneFormModal Component
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Project the milestone belongs to
+ * @param milestone - Milestone to edit, or null to add a new one
+ * @param tasks - Tasks of the project that can be linked
+ * @param onSaved - Called after the milestone was saved, to reload the project
+ */
+const MilestoneFormModal = ({ projectId, milestone, tasks, isOpen, onClose, onSaved }: MilestoneFormModalProps) => {
+  const { showToast } = useToast()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [taskIds, setTaskIds] = useState<Set<string>>(new Set())
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [createMilestone] = useMutation(CREATE_MILESTONE_MUTATION)
+  const [updateMilestone] = useMutation(UPDATE_MILESTONE_MUTATION)
+
+  /**
+   * Fill the form from the milestone whenever the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isOpen) return
+    setName(milestone?.name || '')
+    setDescription(milestone?.description || '')
+    setDueDate(milestone?.dueDate || '')
+    setTaskIds(new Set(milestone?.taskIds || []))
+    setError('')
+  }, [isOpen, milestone])
+
+  /**
+   * Link or unlink a task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const toggleTask = (taskId: string) => {
+    setTaskIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(taskId)) next.delete(taskId)
+      else next.add(taskId)
+      return next
+    })
+  }
+
+  /**
+   * Save the milestone with the linked tasks
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    const input = { name: name.trim(), description: description.trim() || null, dueDate, taskIds: Array.from(taskIds) }
+    setIsSubmitting(true)
+    try {
+      if (milestone) await updateMilestone({ variables: { id: milestone.id, input } })
+      else await createMilestone({ variables: { projectId, input } })
+      await showToast(milestone ? 'Milestone updated successfully' : 'Milestone added successfully', 'success', 7000)
+      await onSaved()
+      onClose()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save milestone.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Milestone Form Modal Container */
+    <ModalWrapper isOpen={isOpen} title={milestone ? 'Edit Milestone' : 'Add Milestone'} onClose={onClose} maxWidth="max-w-lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="milestone-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            id="milestone-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="milestone-due-date" className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+          <input
+            id="milestone-due-date"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="milestone-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <textarea
+            id="milestone-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">{`Linked tasks (${taskIds.size})`}</p>
+          {tasks.length === 0 ? (
+            <p className="text-sm text-gray-500">This project has no tasks yet.</p>
+          ) : (
+            <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {tasks.map((task) => (
+                <li key={task.id}>
+                  <label className="flex items-center gap-2 px-3 py-2 text-sm text-gray-800 cursor-pointer hover:bg-gray-50">
+                    <input type="checkbox" checked={taskIds.has(task.id)} onChange={() => toggleTask(task.id)} />
+                    <span className="truncate">{task.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <FormErrorMessage message={error} />
+        <FormActions
+          onCancel={onClose}
+          isSubmitting={isSubmitting}
+          submitLabel={milestone ? 'Save Milestone' : 'Add Milestone'}
+          submittingLabel="Saving..."
+        />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default MilestoneFormModal
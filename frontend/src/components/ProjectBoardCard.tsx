@@ -0,0 +1,82 @@
+/**
+ * ProjectBoardCard Component
+ * A task card on the project Kanban board that can be dragged to another column or position
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { ProjectTask } from '../types/project'
+import { getPriorityBadge, getPriorityLabel } from '../utils/taskUtils'
+import TaskWatchButton from './TaskWatchButton'
+
+interface ProjectBoardCardProps {
+  task: ProjectTask
+  canDrag: boolean
+  isDragging: boolean
+  onDragStart: (taskId: string) => void
+  onDragEnd: () => void
+  onDropBefore: (taskId: string) => void
+}
+
+/**
+ * ProjectBoardCard Component
+ * Dropping another card on this one places it directly above
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param canDrag - Whether the viewer may move cards
+ * @param onDropBefore - Called with this card's ID when a card is dropped on it
+ */
+const ProjectBoardCard = ({ task, canDrag, isDragging, onDragStart, onDragEnd, onDropBefore }: ProjectBoardCardProps) => {
+  /**
+   * Remember the dragged task; the ID travels in dataTransfer for browsers that require a payload
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', task.id)
+    onDragStart(task.id)
+  }
+
+  /**
+   * Accept a card dropped on this card and keep the event from reaching the column
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    onDropBefore(task.id)
+  }
+
+  return (
+    /* Board Card */
+    <div
+      draggable={canDrag}
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+      className={`bg-white rounded-lg border border-gray-200 p-3 shadow-sm ${canDrag ? 'cursor-grab' : ''} ${isDragging ? 'opacity-40' : 'hover:shadow-md'}`}
+    >
+      <p className="text-sm font-medium text-gray-900 mb-2">{task.title}</p>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <span className={`px-2 py-0.5 font-semibold rounded-full ${getPriorityBadge(task.priority)}`}>
+          {getPriorityLabel(task.priority)}
+        </span>
+        {task.dueDate && <span>{`Due ${new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}</span>}
+        {task.parentTaskId && <span className="text-gray-400">Subtask</span>}
+      </div>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-600 truncate">{task.owner ? `${task.owner.firstName} ${task.owner.lastName}` : ''}</p>
+        <TaskWatchButton taskId={task.id} projectId={task.projectId} taskTitle={task.title} isWatching={Boolean(task.isWatching)} />
+      </div>
+    </div>
+  )
+}
+
+export default ProjectBoardCard
@@ -0,0 +1,80 @@
+/**
+ * ProjectBoardColumn Component
+ * The cards of one workflow state within one swimlane of the project Kanban board
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import ProjectBoardCard from './ProjectBoardCard'
+import { ProjectTask } from '../types/project'
+
+interface ProjectBoardColumnProps {
+  tasks: ProjectTask[]
+  canDrag: boolean
+  draggedTaskId: string | null
+  isDropAllowed: boolean
+  onDragStart: (taskId: string) => void
+  onDragEnd: () => void
+  onDrop: (beforeTaskId: string | null) => void
+}
+
+/**
+ * ProjectBoardColumn Component
+ * Dropping on the empty part of the column places the card last
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param tasks - Cards of the column, already in board order
+ * @param isDropAllowed - Whether the dragged card may move here; other columns are dimmed while dragging
+ * @param onDrop - Called with the card the dropped card goes above, or null for the end of the column
+ */
+const ProjectBoardColumn = ({ tasks, canDrag, draggedTaskId, isDropAllowed, onDragStart, onDragEnd, onDrop }: ProjectBoardColumnProps) => {
+  const [isOver, setIsOver] = useState(false)
+
+  /**
+   * Finish a drop on this column
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDrop = (beforeTaskId: string | null) => {
+    setIsOver(false)
+    onDrop(beforeTaskId)
+  }
+
+  const highlight = draggedTaskId && isOver && isDropAllowed ? 'bg-blue-50 border-blue-300' : 'bg-gray-100 border-transparent'
+
+  return (
+    /* Board Column Cell */
+    <div
+      onDragOver={(e) => {
+        e.preventDefault()
+        if (!isOver) setIsOver(true)
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOver(false)
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        handleDrop(null)
+      }}
+      className={`w-72 flex-shrink-0 min-h-[6rem] rounded-lg border-2 border-dashed p-2 space-y-2 transition-colors ${highlight} ${draggedTaskId && !isDropAllowed ? 'opacity-50' : ''}`}
+    >
+      {tasks.map((task) => (
+        <ProjectBoardCard
+          key={task.id}
+          task={task}
+          canDrag={canDrag}
+          isDragging={task.id === draggedTaskId}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+          onDropBefore={(taskId) => handleDrop(taskId)}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default ProjectBoardColumn
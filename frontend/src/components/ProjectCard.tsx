@@ -15,6 +15,8 @@ import { LIKE_PROJECT_MUTATION } from '../graphql/mutations'
 import { PROJECTS_QUERY } from '../graphql/queries'
 import StatusBadge from './StatusBadge'
 import { ProjectOwner } from '../types/project'
+import { MilestoneSummary } from '../types/milestone'
+import { formatMilestoneDueDate, getMilestoneSummary } from '../utils/milestones'
 
 interface ProjectCardProps {
   id: string
@@ -25,6 +27,7 @@ interface ProjectCardProps {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  milestones?: MilestoneSummary[]
 }
 
 /**
@@ -44,11 +47,13 @@ const ProjectCard = ({
   likesCount,
   commentsCount,
   isLiked,
+  milestones = [],
 }: ProjectCardProps) => {
   const navigate = useNavigate()
   const { isAuthenticated } = useAuth()
   const { showToast } = useToast()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const milestoneSummary = getMilestoneSummary(milestones)
 
   const [likeProject] = useMutation(LIKE_PROJECT_MUTATION, {
     refetchQueries: [{ query: PROJECTS_QUERY }],
@@ -124,6 +129,14 @@ const ProjectCard = ({
         </p>
       )}
 
+      {milestoneSummary.total > 0 && (
+        <p className="text-xs text-gray-600 mb-3 truncate">
+          {`${milestoneSummary.completed}/${milestoneSummary.total} milestones`}
+          {milestoneSummary.next && ` · next: ${milestoneSummary.next.name} due ${formatMilestoneDueDate(milestoneSummary.next.dueDate)}`}
+          {milestoneSummary.overdue > 0 && <span className="text-red-600 font-medium">{` · ${milestoneSummary.overdue} overdue`}</span>}
+        </p>
+      )}
+
       <div className="pt-3 mt-auto border-t border-gray-100 space-y-3">
         <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-600">
           <div className="flex items-center gap-2 min-w-0">
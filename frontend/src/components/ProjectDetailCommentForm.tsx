@@ -1,6 +1,6 @@
 /**
  * ProjectDetailCommentForm Component
- * Form for posting new comments with emoji picker
+ * Form for posting new comments with emoji picker and @mention autocomplete
  *
  * @author Thang Truong
  * @date 2025-01-27
@@ -8,10 +8,17 @@
 
 import { useState, useRef, useEffect } from 'react'
 import EmojiPicker from './EmojiPicker'
+import MentionSuggestions from './MentionSuggestions'
+import { MentionCandidate, filterMentionCandidates, getActiveMention } from '../utils/mentions'
 
 interface ProjectDetailCommentFormProps {
   onSubmit: (content: string) => Promise<void>
   isSubmitting: boolean
+  placeholder?: string
+  submitLabel?: string
+  onCancel?: () => void
+  className?: string
+  mentionCandidates?: MentionCandidate[]
 }
 
 /**
@@ -20,9 +27,20 @@ interface ProjectDetailCommentFormProps {
  * @author Thang Truong
  * @date 2025-01-27
  */
-const ProjectDetailCommentForm = ({ onSubmit, isSubmitting }: ProjectDetailCommentFormProps) => {
+const ProjectDetailCommentForm = ({
+  onSubmit,
+  isSubmitting,
+  placeholder = 'Write a comment...',
+  submitLabel = 'Post Comment',
+  onCancel,
+  className = 'mb-6',
+  mentionCandidates = [],
+}: ProjectDetailCommentFormProps) => {
   const [commentContent, setCommentContent] = useState('')
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
+  const [activeMention, setActiveMention] = useState<{ start: number; query: string } | null>(null)
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+  const mentionSuggestions = activeMention ? filterMentionCandidates(mentionCandidates, activeMention.query) : []
   const emojiPickerRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -73,6 +91,55 @@ const ProjectDetailCommentForm = ({ onSubmit, isSubmitting }: ProjectDetailComme
     }
   }
 
+  /**
+   * Track the text and the @mention being typed at the caret
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>): void => {
+    setCommentContent(e.target.value)
+    setActiveMention(mentionCandidates.length > 0 ? getActiveMention(e.target.value, e.target.selectionStart) : null)
+    setActiveSuggestion(0)
+  }
+
+  /**
+   * Replace the @mention being typed with the chosen participant's name
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleMentionSelect = (candidate: MentionCandidate): void => {
+    if (!activeMention) return
+    const caret = activeMention.start + 1 + activeMention.query.length
+    const mention = `@${candidate.name} `
+    setCommentContent(commentContent.substring(0, activeMention.start) + mention + commentContent.substring(caret))
+    setActiveMention(null)
+    setTimeout(() => {
+      const position = activeMention.start + mention.length
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    }, 0)
+  }
+
+  /**
+   * Keyboard navigation for the mention suggestions
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>): void => {
+    if (mentionSuggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : mentionSuggestions.length - 1
+      setActiveSuggestion((current) => (current + step) % mentionSuggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      handleMentionSelect(mentionSuggestions[Math.min(activeSuggestion, mentionSuggestions.length - 1)])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setActiveMention(null)
+    }
+  }
+
   /**
    * Toggle emoji picker visibility
    * @author Thang Truong
@@ -94,17 +161,20 @@ const ProjectDetailCommentForm = ({ onSubmit, isSubmitting }: ProjectDetailComme
 
     await onSubmit(trimmedContent)
     setCommentContent('')
+    setActiveMention(null)
   }
 
   return (
-    <form onSubmit={handleSubmit} className="mb-6">
+    <form onSubmit={handleSubmit} className={className}>
       <div className="flex flex-col gap-2">
         <div className="relative">
           <textarea
             ref={textareaRef}
             value={commentContent}
-            onChange={(e) => setCommentContent(e.target.value)}
-            placeholder="Write a comment..."
+            onChange={handleContentChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setActiveMention(null)}
+            placeholder={placeholder}
             rows={3}
             className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             disabled={isSubmitting}
@@ -119,19 +189,34 @@ const ProjectDetailCommentForm = ({ onSubmit, isSubmitting }: ProjectDetailComme
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
           </button>
+          <MentionSuggestions
+            candidates={mentionSuggestions}
+            activeIndex={Math.min(activeSuggestion, mentionSuggestions.length - 1)}
+            onSelect={handleMentionSelect}
+          />
           {showEmojiPicker && (
             <div ref={emojiPickerRef}>
               <EmojiPicker onEmojiSelect={handleEmojiSelect} isOpen={showEmojiPicker} onClose={() => setShowEmojiPicker(false)} />
             </div>
           )}
         </div>
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          )}
           <button
             type="submit"
             disabled={isSubmitting || !commentContent.trim()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
           >
-            {isSubmitting ? 'Posting...' : 'Post Comment'}
+            {isSubmitting ? 'Posting...' : submitLabel}
           </button>
         </div>
       </div>
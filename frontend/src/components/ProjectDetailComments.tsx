@@ -2,6 +2,7 @@
  * ProjectDetailComments Component
  * Displays comments section for a project with authentication and membership check
  * Only authenticated users who are project members (or owner) can view and post comments
+ * Replies are grouped into collapsible threads under their top-level comment
  *
  * @author Thang Truong
  * @date 2025-12-09
@@ -16,15 +17,17 @@ import { CREATE_COMMENT_MUTATION } from '../graphql/mutations'
 import { PROJECT_QUERY } from '../graphql/queries'
 import { ProjectComment, ProjectMember, ProjectOwner } from '../types/comments'
 import { usePusherCommentRealtime } from '../hooks/usePusherCommentRealtime'
-import CommentItem from './CommentItem'
+import CommentThread from './CommentThread'
 import ProjectDetailCommentsRestricted from './ProjectDetailCommentsRestricted'
 import ProjectDetailCommentForm from './ProjectDetailCommentForm'
+import { MentionCandidate } from '../utils/mentions'
 
 interface ProjectDetailCommentsProps {
   comments: ProjectComment[]
   projectId: string
   members: ProjectMember[]
   owner: ProjectOwner | null
+  mentionCandidates: MentionCandidate[]
   onRefetch?: () => Promise<void>
 }
 
@@ -36,12 +39,29 @@ interface ProjectDetailCommentsProps {
  * @author Thang Truong
  * @date 2025-12-09
  */
-const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch }: ProjectDetailCommentsProps) => {
+const ProjectDetailComments = ({ comments, projectId, members, owner, mentionCandidates, onRefetch }: ProjectDetailCommentsProps) => {
   const { id } = useParams<{ id: string }>()
   const { isAuthenticated, user } = useAuth()
   const { showToast } = useToast()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [deleteNotice, setDeleteNotice] = useState('')
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set())
+  const totalComments = comments.reduce((total, comment) => total + 1 + (comment.replyCount ?? comment.replies?.length ?? 0), 0)
+
+  /**
+   * Expand or collapse the replies of a thread
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const toggleThread = (commentId: string, expand?: boolean): void => {
+    setExpandedThreads((current) => {
+      const next = new Set(current)
+      if (expand ?? !next.has(commentId)) next.add(commentId)
+      else next.delete(commentId)
+      return next
+    })
+  }
 
   /**
    * Check if authenticated user is a project member or owner
@@ -72,6 +92,7 @@ const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch
     onRefetch,
     showToast,
     onCommentDeleted: (message) => setDeleteNotice(message),
+    onThreadActivity: (parentCommentId) => toggleThread(parentCommentId, true),
   })
 
   useEffect(() => {
@@ -91,12 +112,12 @@ const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch
 
   /**
    * Handle comment submission
-   * Only authenticated project members (or owner) can post comments
+   * Only authenticated project members (or owner) can post comments; parentCommentId posts a reply
    *
    * @author Thang Truong
    * @date 2025-12-09
    */
-  const handleCommentSubmit = async (content: string): Promise<void> => {
+  const handleCommentSubmit = async (content: string, parentCommentId?: string): Promise<void> => {
     if (isSubmitting) return
 
     setIsSubmitting(true)
@@ -105,9 +126,10 @@ const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch
         variables: {
           projectId,
           content,
+          parentCommentId,
         },
       })
-      await showToast('Comment posted successfully!', 'success', 7000)
+      await showToast(parentCommentId ? 'Reply posted successfully!' : 'Comment posted successfully!', 'success', 7000)
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to post comment. Please try again.'
       await showToast(errorMessage, 'error', 7000)
@@ -117,13 +139,13 @@ const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch
   }
 
   if (!isAuthenticated || !isProjectMember) {
-    return <ProjectDetailCommentsRestricted commentsCount={comments.length} isAuthenticated={isAuthenticated} />
+    return <ProjectDetailCommentsRestricted commentsCount={totalComments} isAuthenticated={isAuthenticated} />
   }
 
   return (
     <div className="bg-gray-50 rounded-lg p-4">
       {/* Comments section container */}
-      <h2 className="text-lg font-semibold text-gray-900 mb-4">Comments ({comments.length})</h2>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Comments ({totalComments})</h2>
       {/* Comment delete notice */}
       {deleteNotice && (
         <div className="mb-3 rounded-md border border-blue-100 bg-blue-50 px-3 py-2 text-sm text-blue-800">
@@ -131,23 +153,27 @@ const ProjectDetailComments = ({ comments, projectId, members, owner, onRefetch
         </div>
       )}
       {/* Comment form component */}
-      <ProjectDetailCommentForm onSubmit={handleCommentSubmit} isSubmitting={isSubmitting} />
+      <ProjectDetailCommentForm
+        onSubmit={(content) => handleCommentSubmit(content)}
+        isSubmitting={isSubmitting}
+        placeholder="Write a comment... Type @ to mention a project member"
+        mentionCandidates={mentionCandidates}
+      />
       {/* Comments list container */}
       <div className="space-y-4 max-h-96 overflow-y-auto">
         {comments.length === 0 ? (
           <p className="text-sm text-gray-500 text-center py-4">No comments yet. Be the first to comment!</p>
         ) : (
           comments.map((comment) => (
-            <CommentItem
+            <CommentThread
               key={comment.id}
-              id={comment.id}
-              content={comment.content}
-              user={comment.user}
-              likesCount={comment.likesCount}
-              isLiked={comment.isLiked}
-              createdAt={comment.createdAt}
-              updatedAt={comment.updatedAt}
+              comment={comment}
               projectId={projectId}
+              isExpanded={expandedThreads.has(comment.id)}
+              isSubmitting={isSubmitting}
+              onToggle={() => toggleThread(comment.id)}
+              onReply={handleCommentSubmit}
+              mentionCandidates={mentionCandidates}
             />
           ))
         )}
@@ -1,6 +1,6 @@
 /**
  * ProjectDetailHeader Component
- * Displays project header with title, status, owner, likes, and comments count
+ * Displays project header with title, status, owner, likes, comments count and a watch toggle
  *
  * @author Thang Truong
  * @date 2025-01-27
@@ -22,7 +22,12 @@ interface ProjectDetailHeaderProps {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  isWatching?: boolean
   onLike: () => Promise<void>
+  onWatch?: () => Promise<void>
+  onEditWorkflow?: () => void
+  onSaveAsTemplate?: () => void
+  onDuplicate?: () => void
 }
 
 /**
@@ -31,6 +36,10 @@ interface ProjectDetailHeaderProps {
  *
  * @author Thang Truong
  * @date 2025-01-27
+ * @param onWatch - Toggles watching the project; the button is hidden when not given
+ * @param onEditWorkflow - Opens the workflow editor; the button is hidden when not given
+ * @param onSaveAsTemplate - Opens the save as template dialog; the button is hidden when not given
+ * @param onDuplicate - Opens the duplicate project dialog; the button is hidden when not given
  */
 const ProjectDetailHeader = ({
   name,
@@ -39,7 +48,12 @@ const ProjectDetailHeader = ({
   likesCount,
   commentsCount,
   isLiked,
+  isWatching = false,
   onLike,
+  onWatch,
+  onEditWorkflow,
+  onSaveAsTemplate,
+  onDuplicate,
 }: ProjectDetailHeaderProps) => {
   return (
     <div className="flex items-start justify-between mb-4">
@@ -94,9 +108,59 @@ const ProjectDetailHeader = ({
               </svg>
               <span className="font-medium">{commentsCount}</span>
             </div>
+            {onWatch && (
+              <button
+                type="button"
+                onClick={onWatch}
+                className={`flex items-center gap-1.5 transition-colors ${isWatching ? 'text-blue-600 hover:text-blue-700' : 'hover:text-blue-600'}`}
+                aria-pressed={isWatching}
+                title="Watchers of a project are notified about changes to all of its tasks"
+              >
+                <svg className="w-5 h-5" fill={isWatching ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    fill="none"
+                    d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                  />
+                </svg>
+                <span className="font-medium">{isWatching ? 'Watching' : 'Watch'}</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
+      <div className="flex items-center gap-2">
+        {onDuplicate && (
+          <button
+            type="button"
+            onClick={onDuplicate}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Duplicate
+          </button>
+        )}
+        {onSaveAsTemplate && (
+          <button
+            type="button"
+            onClick={onSaveAsTemplate}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Save as template
+          </button>
+        )}
+        {onEditWorkflow && (
+          <button
+            type="button"
+            onClick={onEditWorkflow}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Workflow
+          </button>
+        )}
+      </div>
     </div>
   )
 }
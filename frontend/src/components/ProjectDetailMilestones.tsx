@@ -0,0 +1,128 @@
+/**
+ * ProjectDetailMilestones Component
+ * Timeline of project milestones with their progress, health and due dates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import MilestoneFormModal from './MilestoneFormModal'
+import DeleteMilestoneDialog from './DeleteMilestoneDialog'
+import { Milestone } from '../types/milestone'
+import { ProjectTask } from '../types/project'
+import { formatMilestoneDueDate, MILESTONE_STATUS_LABELS, MILESTONE_STATUS_STYLES } from '../utils/milestones'
+
+interface ProjectDetailMilestonesProps {
+  milestones: Milestone[]
+  tasks: ProjectTask[]
+  projectId: string
+  canEdit: boolean
+  onRefetch: () => Promise<void>
+}
+
+/**
+ * ProjectDetailMilestones Component
+ * Milestones arrive sorted by due date from the backend
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param canEdit - Show add, edit and delete actions; the backend enforces WRITE on the project
+ */
+const ProjectDetailMilestones = ({ milestones, tasks, projectId, canEdit, onRefetch }: ProjectDetailMilestonesProps) => {
+  const [editingMilestone, setEditingMilestone] = useState<Milestone | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [deletingMilestone, setDeletingMilestone] = useState<Milestone | null>(null)
+
+  /**
+   * Open the milestone form for a new milestone or an existing one
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const openForm = (milestone: Milestone | null) => {
+    setEditingMilestone(milestone)
+    setIsFormOpen(true)
+  }
+
+  if (milestones.length === 0 && !canEdit) return null
+
+  return (
+    /* Project Milestones Timeline */
+    <section className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-semibold text-gray-900">Milestones</h2>
+        {canEdit && (
+          <button
+            onClick={() => openForm(null)}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+          >
+            Add milestone
+          </button>
+        )}
+      </div>
+      {milestones.length === 0 ? (
+        <p className="text-sm text-gray-500">No milestones yet.</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-5">
+          {milestones.map((milestone) => {
+            const styles = MILESTONE_STATUS_STYLES[milestone.status]
+            return (
+              <li key={milestone.id} className="ml-5">
+                <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${styles.dot}`} />
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="text-sm font-semibold text-gray-900">{milestone.name}</h3>
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${styles.badge}`}>
+                        {MILESTONE_STATUS_LABELS[milestone.status]}
+                      </span>
+                    </div>
+                    <p className={`text-xs mt-0.5 ${milestone.isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      {`Due ${formatMilestoneDueDate(milestone.dueDate)}${milestone.isOverdue ? ' · overdue' : ''}`}
+                    </p>
+                    {milestone.description && <p className="text-sm text-gray-700 mt-1">{milestone.description}</p>}
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2">
+                      <button onClick={() => openForm(milestone)} className="text-xs text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button onClick={() => setDeletingMilestone(milestone)} className="text-xs text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 mt-2 max-w-md">
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className={`h-full ${styles.bar}`} style={{ width: `${milestone.percentComplete}%` }} />
+                  </div>
+                  <span className="text-xs text-gray-600 whitespace-nowrap">
+                    {`${milestone.percentComplete}% · ${milestone.completedTaskCount}/${milestone.taskCount} tasks`}
+                  </span>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      <MilestoneFormModal
+        projectId={projectId}
+        milestone={editingMilestone}
+        tasks={tasks}
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={onRefetch}
+      />
+      <DeleteMilestoneDialog
+        milestone={deletingMilestone}
+        isOpen={Boolean(deletingMilestone)}
+        onClose={() => setDeletingMilestone(null)}
+        onSuccess={onRefetch}
+      />
+    </section>
+  )
+}
+
+export default ProjectDetailMilestones
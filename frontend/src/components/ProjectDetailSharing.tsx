@@ -0,0 +1,203 @@
+/**
+ * ProjectDetailSharing Component
+ * Lets project owners grant individual users READ/WRITE/DELETE/ADMIN
+ * on the whole project or on a single task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { USERS_QUERY } from '../graphql/queries'
+import {
+  PERMISSIONS_FOR_RESOURCE_QUERY,
+  GRANT_PERMISSION_MUTATION,
+  REVOKE_PERMISSION_MUTATION,
+} from '../graphql/permissions'
+import { useToast } from '../hooks/useToast'
+import { ProjectTask } from '../types/project'
+import { PermissionLevel, ResourcePermission } from '../types/permission'
+
+interface ProjectDetailSharingProps {
+  projectId: string
+  tasks: ProjectTask[]
+}
+
+interface SharingUser {
+  id: string
+  firstName: string
+  lastName: string
+  email: string
+}
+
+const PERMISSION_LEVELS: PermissionLevel[] = ['READ', 'WRITE', 'DELETE', 'ADMIN']
+
+/**
+ * Get permission badge color
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const getPermissionColor = (permission: string): string => {
+  switch (permission) {
+    case 'ADMIN':
+      return 'bg-purple-100 text-purple-700'
+    case 'DELETE':
+      return 'bg-red-100 text-red-700'
+    case 'WRITE':
+      return 'bg-blue-100 text-blue-700'
+    default:
+      return 'bg-gray-100 text-gray-700'
+  }
+}
+
+/**
+ * ProjectDetailSharing Component
+ * Target "project" shares the whole project; any other value is a task ID
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const ProjectDetailSharing = ({ projectId, tasks }: ProjectDetailSharingProps) => {
+  const { showToast } = useToast()
+  const [target, setTarget] = useState('project')
+  const [selectedUserId, setSelectedUserId] = useState('')
+  const [permission, setPermission] = useState<PermissionLevel>('READ')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const resourceType = target === 'project' ? 'PROJECT' : 'TASK'
+  const resourceId = target === 'project' ? projectId : target
+
+  const { data: usersData } = useQuery<{ users: SharingUser[] }>(USERS_QUERY, { fetchPolicy: 'cache-first' })
+  const { data, loading, refetch } = useQuery<{ permissionsForResource: ResourcePermission[] }>(
+    PERMISSIONS_FOR_RESOURCE_QUERY,
+    { variables: { resourceType, resourceId }, fetchPolicy: 'network-only' }
+  )
+  const [grantPermission] = useMutation(GRANT_PERMISSION_MUTATION)
+  const [revokePermission] = useMutation(REVOKE_PERMISSION_MUTATION)
+
+  const grants = data?.permissionsForResource || []
+  const users = usersData?.users || []
+
+  /**
+   * Grant the selected permission to the selected user
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleGrant = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!selectedUserId || isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      await grantPermission({ variables: { input: { userId: selectedUserId, resourceType, resourceId, permission } } })
+      await refetch()
+      setSelectedUserId('')
+      await showToast('Permission granted successfully', 'success', 7000)
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to grant permission. Please try again.'
+      await showToast(errorMessage, 'error', 7000)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Revoke an existing grant
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRevoke = async (id: string): Promise<void> => {
+    try {
+      await revokePermission({ variables: { id } })
+      await refetch()
+      await showToast('Permission revoked successfully', 'success', 7000)
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke permission. Please try again.'
+      await showToast(errorMessage, 'error', 7000)
+    }
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Sharing</h2>
+      <p className="text-xs text-gray-500 mb-4">Give individual users access to this project or to a single task without making them project members.</p>
+      <form onSubmit={handleGrant} className="grid grid-cols-1 sm:grid-cols-4 gap-2 mb-4">
+        {/* Resource target: whole project or one task */}
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Share target"
+        >
+          <option value="project">Entire project</option>
+          {tasks.map((task) => (
+            <option key={task.id} value={task.id}>Task: {task.title}</option>
+          ))}
+        </select>
+        <select
+          value={selectedUserId}
+          onChange={(e) => setSelectedUserId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="User"
+        >
+          <option value="">Select a user...</option>
+          {users.map((u) => (
+            <option key={u.id} value={u.id}>{u.firstName} {u.lastName} ({u.email})</option>
+          ))}
+        </select>
+        <select
+          value={permission}
+          onChange={(e) => setPermission(e.target.value as PermissionLevel)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Permission"
+        >
+          {PERMISSION_LEVELS.map((level) => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!selectedUserId || isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+        >
+          {isSubmitting ? 'Granting...' : 'Grant access'}
+        </button>
+      </form>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading permissions...</p>
+      ) : grants.length === 0 ? (
+        <p className="text-sm text-gray-500">No individual permissions granted on this {target === 'project' ? 'project' : 'task'}.</p>
+      ) : (
+        <div className="space-y-2">
+          {grants.map((grant) => (
+            <div key={grant.id} className="bg-white rounded-lg px-4 py-3 border border-gray-200 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {grant.user ? `${grant.user.firstName} ${grant.user.lastName}` : 'Unknown user'}
+                </p>
+                <p className="text-xs text-gray-500">{grant.user?.email}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-1 text-xs font-medium rounded ${getPermissionColor(grant.permission)}`}>
+                  {grant.permission}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(grant.id)}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProjectDetailSharing
@@ -1,6 +1,8 @@
 /**
  * ProjectDetailTasks Component
- * Displays list of tasks associated with a project with like functionality and tags
+ * Displays list of tasks associated with a project with like and watch toggles and tags
+ * Subtasks are nested below their parent, which shows the rolled-up progress
+ * Status badges use the project's workflow state names
  *
  * @author Thang Truong
  * @date 2025-11-25
@@ -12,14 +14,19 @@ import { useAuth } from '../context/AuthContext'
 import { useToast } from '../hooks/useToast'
 import { LIKE_TASK_MUTATION } from '../graphql/mutations'
 import { PROJECT_QUERY } from '../graphql/queries'
-import { useParams } from 'react-router-dom'
+import { Link, useParams } from 'react-router-dom'
 import StatusBadge from './StatusBadge'
+import TaskTreeToggle from './TaskTreeToggle'
+import TaskWatchButton from './TaskWatchButton'
+import { buildTaskTreeRows } from '../utils/taskTree'
 import { ProjectMember, ProjectOwner, ProjectTask, ProjectTag } from '../types/project'
+import { WorkflowState } from '../types/workflow'
 
 interface ProjectDetailTasksProps {
   tasks: ProjectTask[]
   members: ProjectMember[]
   owner: ProjectOwner | null
+  workflowStates?: WorkflowState[]
 }
 
 /**
@@ -29,11 +36,13 @@ interface ProjectDetailTasksProps {
  * @author Thang Truong
  * @date 2025-01-27
  */
-const ProjectDetailTasks = ({ tasks, members, owner }: ProjectDetailTasksProps) => {
+const ProjectDetailTasks = ({ tasks, members, owner, workflowStates }: ProjectDetailTasksProps) => {
   const { id: projectId } = useParams<{ id: string }>()
   const { isAuthenticated, user } = useAuth()
   const { showToast } = useToast()
   const [submittingTasks, setSubmittingTasks] = useState<Set<string>>(new Set())
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const taskRows = useMemo(() => buildTaskTreeRows(tasks, collapsedIds), [tasks, collapsedIds])
 
   /**
    * Determine if authenticated user is a project member or owner
@@ -56,6 +65,21 @@ const ProjectDetailTasks = ({ tasks, members, owner }: ProjectDetailTasksProps)
     },
   })
 
+  /**
+   * Expand or collapse the subtasks of a task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggleSubtasks = (taskId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(taskId)) next.delete(taskId)
+      else next.add(taskId)
+      return next
+    })
+  }
+
   /**
    * Format date for display
    *
@@ -124,9 +148,19 @@ const ProjectDetailTasks = ({ tasks, members, owner }: ProjectDetailTasksProps)
   return (
     <div className="bg-gray-50 rounded-lg p-4">
       {/* Tasks section container */}
-      <h2 className="text-lg font-semibold text-gray-900 mb-4">
-        Tasks ({tasks.length})
-      </h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Tasks ({tasks.length})
+        </h2>
+        <div className="flex items-center gap-4">
+          <Link to={`/projects/${projectId}/sprints`} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            Sprints
+          </Link>
+          <Link to={`/projects/${projectId}/board`} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            Open board
+          </Link>
+        </div>
+      </div>
       {/* Membership notice */}
       {!isProjectMember && isAuthenticated && (
         <div className="mb-3 rounded-md border border-amber-100 bg-amber-50 px-3 py-2 text-xs text-amber-800">
@@ -137,15 +171,31 @@ const ProjectDetailTasks = ({ tasks, members, owner }: ProjectDetailTasksProps)
         <p className="text-sm text-gray-500">No tasks found for this project.</p>
       ) : (
         <div className="space-y-3 max-h-96 overflow-y-auto">
-          {tasks.map((task) => (
+          {taskRows.map(({ task, depth, childCount }) => (
             <div
               key={task.id}
               className="bg-white rounded-lg p-4 border border-gray-200 hover:shadow-md transition-shadow"
+              style={{ marginLeft: `${depth * 1.5}rem` }}
             >
               <div className="flex items-start justify-between mb-2">
+                <TaskTreeToggle
+                  depth={0}
+                  childCount={childCount}
+                  isCollapsed={collapsedIds.has(task.id)}
+                  onToggle={() => handleToggleSubtasks(task.id)}
+                />
                 <h3 className="text-sm font-medium text-gray-900 flex-1">{task.title}</h3>
-                <StatusBadge status={task.status} type="task" />
+                <StatusBadge status={task.status} type="task" states={workflowStates} category={task.statusCategory} />
               </div>
+              {/* Progress rolled up from subtasks */}
+              {childCount > 0 && (
+                <div className="flex items-center gap-2 mb-3 text-[11px] text-gray-500">
+                  <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 rounded-full" style={{ width: `${task.progress ?? 0}%` }} />
+                  </div>
+                  <span>{`${task.progress ?? 0}% · ${childCount} subtask${childCount === 1 ? '' : 's'}`}</span>
+                </div>
+              )}
               <p className="text-xs text-gray-600 mb-3 line-clamp-2">{task.description}</p>
 
               {task.owner && (
@@ -211,30 +261,33 @@ const ProjectDetailTasks = ({ tasks, members, owner }: ProjectDetailTasksProps)
                     </span>
                   )}
                 </div>
-                <button
-                  onClick={(e) => handleLike(task.id, e)}
-                  disabled={submittingTasks.has(task.id)}
-                  className="flex items-center gap-1.5 hover:text-blue-600 transition-colors disabled:opacity-50 text-xs text-gray-600"
-                  aria-label={`Like task ${task.title}`}
-                >
-                  <svg
-                    className={`w-4 h-4 flex-shrink-0 transition-colors ${task.isLiked
-                      ? 'text-blue-600 fill-blue-600'
-                      : 'text-gray-400 hover:text-blue-500'
-                      }`}
-                    fill={task.isLiked ? 'currentColor' : 'none'}
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+                <div className="flex items-center gap-3">
+                  <TaskWatchButton taskId={task.id} projectId={task.projectId} taskTitle={task.title} isWatching={Boolean(task.isWatching)} />
+                  <button
+                    onClick={(e) => handleLike(task.id, e)}
+                    disabled={submittingTasks.has(task.id)}
+                    className="flex items-center gap-1.5 hover:text-blue-600 transition-colors disabled:opacity-50 text-xs text-gray-600"
+                    aria-label={`Like task ${task.title}`}
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
-                    />
-                  </svg>
-                  <span className="font-medium">{task.likesCount}</span>
-                </button>
+                    <svg
+                      className={`w-4 h-4 flex-shrink-0 transition-colors ${task.isLiked
+                        ? 'text-blue-600 fill-blue-600'
+                        : 'text-gray-400 hover:text-blue-500'
+                        }`}
+                      fill={task.isLiked ? 'currentColor' : 'none'}
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+                      />
+                    </svg>
+                    <span className="font-medium">{task.likesCount}</span>
+                  </button>
+                </div>
               </div>
             </div>
           ))}
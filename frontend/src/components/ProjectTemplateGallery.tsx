@@ -0,0 +1,76 @@
+/**
+ * ProjectTemplateGallery Component
+ * Picker in the create project form for starting blank or from a saved project template
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { ProjectTemplate } from '../types/template'
+
+interface ProjectTemplateGalleryProps {
+  templates: ProjectTemplate[]
+  selectedTemplateId: string | null
+  onSelect: (templateId: string | null) => void
+}
+
+const PREVIEW_TASK_COUNT = 3
+
+/**
+ * ProjectTemplateGallery Component
+ * Each card previews the first tasks of a template with their due dates as days after the start
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param selectedTemplateId - Selected template, or null for a blank project
+ */
+const ProjectTemplateGallery = ({ templates, selectedTemplateId, onSelect }: ProjectTemplateGalleryProps) => {
+  const cardClass = (isSelected: boolean) =>
+    `w-full text-left p-3 rounded-lg border transition-colors ${
+      isSelected ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+    }`
+
+  return (
+    /* Project Template Gallery */
+    <div className="mb-4">
+      <p className="block text-sm font-medium text-gray-700 mb-2">Start from</p>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        <button type="button" onClick={() => onSelect(null)} className={cardClass(selectedTemplateId === null)} aria-pressed={selectedTemplateId === null}>
+          <p className="text-sm font-medium text-gray-900">Blank project</p>
+          <p className="text-xs text-gray-500">No tasks, default workflow</p>
+        </button>
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => onSelect(template.id)}
+            className={cardClass(selectedTemplateId === template.id)}
+            aria-pressed={selectedTemplateId === template.id}
+          >
+            <p className="text-sm font-medium text-gray-900">{template.name}</p>
+            {template.description && <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{template.description}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              {template.taskCount} task{template.taskCount === 1 ? '' : 's'} · {template.milestoneCount} milestone
+              {template.milestoneCount === 1 ? '' : 's'} · {template.memberCount} member{template.memberCount === 1 ? '' : 's'}
+            </p>
+            {template.tasks.length > 0 && (
+              <ul className="mt-1.5 space-y-0.5">
+                {template.tasks.slice(0, PREVIEW_TASK_COUNT).map((task, index) => (
+                  <li key={index} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                    <span className="truncate">{task.title}</span>
+                    {task.dueOffsetDays !== null && <span className="flex-shrink-0 text-gray-400">day {task.dueOffsetDays}</span>}
+                  </li>
+                ))}
+                {template.tasks.length > PREVIEW_TASK_COUNT && (
+                  <li className="text-xs text-gray-400">+{template.tasks.length - PREVIEW_TASK_COUNT} more</li>
+                )}
+              </ul>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ProjectTemplateGallery
@@ -0,0 +1,310 @@
+/**
+ * ProjectWorkflowModal Component
+ * Editor for a project's ordered task states, their categories and WIP limits, and the allowed status moves
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { UPDATE_PROJECT_WORKFLOW_MUTATION } from '../graphql/mutations'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+import { Workflow, WorkflowCategory, WorkflowState } from '../types/workflow'
+import { DEFAULT_WORKFLOW_STATES, getWorkflowStates, WORKFLOW_CATEGORY_LABELS } from '../utils/workflow'
+
+interface ProjectWorkflowModalProps {
+  projectId: string
+  workflow: Workflow | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+interface DraftState {
+  key: string
+  name: string
+  category: WorkflowCategory
+  wipLimit: string
+}
+
+const WORKFLOW_CATEGORIES = Object.keys(WORKFLOW_CATEGORY_LABELS) as WorkflowCategory[]
+
+/**
+ * Copy a workflow state into the draft; the WIP limit is edited as text so it can be cleared
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const toDraftState = ({ key, name, category, wipLimit }: WorkflowState): DraftState => ({
+  key,
+  name,
+  category,
+  wipLimit: wipLimit ? String(wipLimit) : '',
+})
+
+/**
+ * Identify a transition in the draft set
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const transitionId = (from: string, to: string): string => `${from}>${to}`
+
+/**
+ * ProjectWorkflowModal Component
+ * Without restricted moves any state can change to any other
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Project whose workflow is edited
+ * @param workflow - Current workflow of the project
+ * @param onSaved - Called after the workflow was saved, to reload the project
+ */
+const ProjectWorkflowModal = ({ projectId, workflow, isOpen, onClose, onSaved }: ProjectWorkflowModalProps) => {
+  const { showToast } = useToast()
+  const [states, setStates] = useState<DraftState[]>([])
+  const [transitions, setTransitions] = useState<Set<string>>(new Set())
+  const [restrictTransitions, setRestrictTransitions] = useState(false)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [updateWorkflow] = useMutation(UPDATE_PROJECT_WORKFLOW_MUTATION)
+
+  /**
+   * Load the current workflow into the draft whenever the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isOpen) return
+    setStates(getWorkflowStates(workflow).map(toDraftState))
+    setTransitions(new Set((workflow?.transitions || []).map((transition) => transitionId(transition.from, transition.to))))
+    setRestrictTransitions((workflow?.transitions || []).length > 0)
+    setError('')
+  }, [isOpen, workflow])
+
+  /**
+   * Change one field of a draft state
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const updateState = (index: number, changes: Partial<DraftState>) => {
+    setStates((prev) => prev.map((state, position) => (position === index ? { ...state, ...changes } : state)))
+  }
+
+  /**
+   * Move a state one place up or down in the board order
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const moveState = (index: number, offset: number) => {
+    setStates((prev) => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }
+
+  /**
+   * Remove a state and the moves that use it
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const removeState = (index: number) => {
+    const removedKey = states[index].key
+    setStates((prev) => prev.filter((_, position) => position !== index))
+    setTransitions((prev) => new Set(Array.from(prev).filter((id) => !id.split('>').includes(removedKey))))
+  }
+
+  /**
+   * Allow or forbid a move between two states
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const toggleTransition = (from: string, to: string) => {
+    setTransitions((prev) => {
+      const next = new Set(prev)
+      const id = transitionId(from, to)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  /**
+   * Replace the draft with the default To Do / In Progress / Done workflow
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleResetToDefault = () => {
+    setStates(DEFAULT_WORKFLOW_STATES.map(toDraftState))
+    setTransitions(new Set())
+    setRestrictTransitions(false)
+  }
+
+  /**
+   * Save the draft; the server rejects removing states that tasks still use
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    const keys = states.map((state) => state.key.trim().toUpperCase())
+    const input = {
+      states: states.map((state, index) => ({
+        key: keys[index],
+        name: state.name.trim(),
+        category: state.category,
+        wipLimit: state.wipLimit ? Number(state.wipLimit) : null,
+      })),
+      transitions: restrictTransitions
+        ? Array.from(transitions)
+          .map((id) => id.split('>'))
+          .filter(([from, to]) => keys.includes(from) && keys.includes(to))
+          .map(([from, to]) => ({ from, to }))
+        : [],
+    }
+    setIsSubmitting(true)
+    try {
+      await updateWorkflow({ variables: { projectId, input } })
+      await showToast('Workflow updated successfully', 'success', 7000)
+      await onSaved()
+      onClose()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update workflow.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Project Workflow Modal Container */
+    <ModalWrapper isOpen={isOpen} title="Task Workflow" onClose={onClose} maxWidth="max-w-3xl">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {/* States in board order */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-700">States</p>
+            <button type="button" onClick={handleResetToDefault} className="text-xs text-gray-500 hover:text-gray-700">
+              Reset to default
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {states.map((state, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-2">
+                <input
+                  value={state.key}
+                  onChange={(e) => updateState(index, { key: e.target.value.toUpperCase().replace(/\s+/g, '_') })}
+                  placeholder="KEY"
+                  className={`${inputClass} w-32 font-mono`}
+                  aria-label="State key"
+                />
+                <input
+                  value={state.name}
+                  onChange={(e) => updateState(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className={`${inputClass} flex-1 min-w-0`}
+                  aria-label="State name"
+                />
+                <select
+                  value={state.category}
+                  onChange={(e) => updateState(index, { category: e.target.value as WorkflowCategory })}
+                  className={inputClass}
+                  aria-label="State category"
+                >
+                  {WORKFLOW_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>{WORKFLOW_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={state.wipLimit}
+                  onChange={(e) => updateState(index, { wipLimit: e.target.value })}
+                  placeholder="WIP"
+                  title="Most cards allowed in this board column; leave empty for no limit"
+                  className={`${inputClass} w-20`}
+                  aria-label="WIP limit"
+                />
+                <button type="button" onClick={() => moveState(index, -1)} disabled={index === 0} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30" aria-label="Move state up">↑</button>
+                <button type="button" onClick={() => moveState(index, 1)} disabled={index === states.length - 1} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30" aria-label="Move state down">↓</button>
+                <button type="button" onClick={() => removeState(index)} disabled={states.length === 1} className="text-xs text-red-600 hover:text-red-700 disabled:opacity-30">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setStates((prev) => [...prev, { key: '', name: '', category: 'ACTIVE', wipLimit: '' }])}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            + Add state
+          </button>
+        </div>
+
+        {/* Allowed moves */}
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={restrictTransitions} onChange={(e) => setRestrictTransitions(e.target.checked)} />
+            Only allow the status changes ticked below
+          </label>
+          {restrictTransitions && (
+            <div className="mt-3 overflow-x-auto">
+              <table className="text-xs text-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">From \ To</th>
+                    {states.map((to, index) => <th key={index} className="px-2 py-1 font-mono">{to.key}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {states.map((from, fromIndex) => (
+                    <tr key={fromIndex}>
+                      <td className="px-2 py-1 font-mono">{from.key}</td>
+                      {states.map((to, toIndex) => (
+                        <td key={toIndex} className="px-2 py-1 text-center">
+                          {fromIndex !== toIndex && (
+                            <input
+                              type="checkbox"
+                              checked={transitions.has(transitionId(from.key, to.key))}
+                              onChange={() => toggleTransition(from.key, to.key)}
+                              aria-label={`Allow ${from.key} to ${to.key}`}
+                            />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <FormErrorMessage message={error} />
+        <FormActions onCancel={onClose} isSubmitting={isSubmitting} submitLabel="Save Workflow" submittingLabel="Saving..." />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default ProjectWorkflowModal
@@ -11,6 +11,7 @@ import { ApolloError } from '@apollo/client'
 import ProjectsGrid from './ProjectsGrid'
 import SearchLoadingState from './SearchLoadingState'
 import SearchEmptyState from './SearchEmptyState'
+import { MilestoneSummary } from '../types/milestone'
 
 interface ProjectOwner {
   id: string
@@ -29,6 +30,7 @@ interface Project {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  milestones?: MilestoneSummary[]
   createdAt: string
   updatedAt: string
 }
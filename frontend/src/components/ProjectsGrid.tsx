@@ -8,6 +8,7 @@
 
 import ProjectCard from './ProjectCard'
 import ProjectsGridPagination from './ProjectsGridPagination'
+import { MilestoneSummary } from '../types/milestone'
 
 interface ProjectOwner {
   id: string
@@ -26,6 +27,7 @@ interface Project {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  milestones?: MilestoneSummary[]
   createdAt: string
   updatedAt: string
 }
@@ -87,6 +89,7 @@ const ProjectsGrid = ({
             likesCount={project.likesCount}
             commentsCount={project.commentsCount}
             isLiked={project.isLiked}
+            milestones={project.milestones}
           />
         ))}
       </div>
@@ -29,19 +29,21 @@ interface ProjectsTableProps {
   sortDirection: SortDirection
   onSort: (field: SortField) => void
   onEdit: (projectId: string) => void
+  onDuplicate: (projectId: string) => void
   onDelete: (projectId: string) => void
   isLoading?: boolean
 }
 
 /**
  * ProjectsTable Component
- * Renders a sortable table of projects with edit and delete actions
+ * Renders a sortable table of projects with edit, duplicate and delete actions
  *
  * @param projects - Array of project objects to display
  * @param sortField - Currently active sort field
  * @param sortDirection - Current sort direction (ASC or DESC)
  * @param onSort - Callback function when column header is clicked
  * @param onEdit - Callback function when edit button is clicked
+ * @param onDuplicate - Callback function when duplicate button is clicked
  * @param onDelete - Callback function when delete button is clicked
  * @param isLoading - Whether data is currently loading
  * @returns JSX element containing projects table
@@ -52,6 +54,7 @@ const ProjectsTable = ({
   sortDirection,
   onSort,
   onEdit,
+  onDuplicate,
   onDelete,
   isLoading = false,
 }: ProjectsTableProps) => {
@@ -195,6 +198,16 @@ const ProjectsTable = ({
                       </svg>
                       <span>Edit</span>
                     </button>
+                    <button
+                      onClick={() => onDuplicate(project.id)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-100 transition-colors text-xs font-medium"
+                      aria-label="Duplicate project"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                      <span>Duplicate</span>
+                    </button>
                     <button
                       onClick={() => onDelete(project.id)}
                       className="flex items-center gap-1.5 px-3 py-1.5 bg-red-200 text-red-700 rounded-md hover:bg-red-100 transition-colors text-xs font-medium"
@@ -221,6 +234,7 @@ const ProjectsTable = ({
           sortDirection={sortDirection}
           onSort={onSort}
           onEdit={onEdit}
+          onDuplicate={onDuplicate}
           onDelete={onDelete}
           getSortIcon={getSortIcon}
         />
@@ -228,7 +242,7 @@ const ProjectsTable = ({
 
       {/* Mobile Card View */}
       <div className="md:hidden">
-        <ProjectsTableMobile projects={projects} onEdit={onEdit} onDelete={onDelete} />
+        <ProjectsTableMobile projects={projects} onEdit={onEdit} onDuplicate={onDuplicate} onDelete={onDelete} />
       </div>
     </div>
   )
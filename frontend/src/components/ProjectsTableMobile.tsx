@@ -18,6 +18,7 @@ interface Project {
 interface ProjectsTableMobileProps {
   projects: Project[]
   onEdit: (projectId: string) => void
+  onDuplicate: (projectId: string) => void
   onDelete: (projectId: string) => void
 }
 
@@ -29,10 +30,11 @@ import { formatDateToMelbourne, getStatusBadge, getStatusLabel } from '../utils/
  *
  * @param projects - Array of project objects to display
  * @param onEdit - Callback function when edit button is clicked
+ * @param onDuplicate - Callback function when duplicate button is clicked
  * @param onDelete - Callback function when delete button is clicked
  * @returns JSX element containing mobile card view
  */
-const ProjectsTableMobile = ({ projects, onEdit, onDelete }: ProjectsTableMobileProps) => {
+const ProjectsTableMobile = ({ projects, onEdit, onDuplicate, onDelete }: ProjectsTableMobileProps) => {
   return (
     <div className="space-y-3 p-3">
       {projects.map((project) => (
@@ -66,6 +68,16 @@ const ProjectsTableMobile = ({ projects, onEdit, onDelete }: ProjectsTableMobile
               </svg>
               <span>Edit</span>
             </button>
+            <button
+              onClick={() => onDuplicate(project.id)}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-100 transition-colors text-xs font-medium touch-manipulation"
+              aria-label="Duplicate project"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              <span>Duplicate</span>
+            </button>
             <button
               onClick={() => onDelete(project.id)}
               className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-red-200 text-red-700 rounded-md hover:bg-red-100 transition-colors text-xs font-medium touch-manipulation"
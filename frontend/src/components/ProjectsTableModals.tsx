@@ -9,6 +9,7 @@
 import EditProjectModal from './EditProjectModal'
 import DeleteProjectDialog from './DeleteProjectDialog'
 import CreateProjectModal from './CreateProjectModal'
+import DuplicateProjectModal from './DuplicateProjectModal'
 
 interface Project {
   id: string
@@ -24,15 +25,17 @@ interface ProjectsTableModalsProps {
   isEditModalOpen: boolean
   isDeleteDialogOpen: boolean
   isCreateModalOpen: boolean
+  isDuplicateModalOpen: boolean
   onCloseEdit: () => Promise<void>
   onCloseDelete: () => Promise<void>
   onCloseCreate: () => Promise<void>
+  onCloseDuplicate: () => Promise<void>
   onSuccess: () => Promise<void>
 }
 
 /**
  * ProjectsTableModals Component
- * Renders all project modals (edit, delete, create) for table view
+ * Renders all project modals (edit, delete, create, duplicate) for table view
  *
  * @author Thang Truong
  * @date 2025-01-27
@@ -42,9 +45,11 @@ const ProjectsTableModals = ({
   isEditModalOpen,
   isDeleteDialogOpen,
   isCreateModalOpen,
+  isDuplicateModalOpen,
   onCloseEdit,
   onCloseDelete,
   onCloseCreate,
+  onCloseDuplicate,
   onSuccess
 }: ProjectsTableModalsProps) => {
   return (
@@ -66,6 +71,12 @@ const ProjectsTableModals = ({
         onClose={onCloseCreate}
         onSuccess={onSuccess}
       />
+      <DuplicateProjectModal
+        project={selectedProject}
+        isOpen={isDuplicateModalOpen}
+        onClose={onCloseDuplicate}
+        onSuccess={onSuccess}
+      />
     </>
   )
 }
@@ -31,6 +31,7 @@ interface ProjectsTableSectionProps {
   loading: boolean
   onSort: (field: SortField) => Promise<void>
   onEdit: (projectId: string) => Promise<void>
+  onDuplicate: (projectId: string) => Promise<void>
   onDelete: (projectId: string) => Promise<void>
   onPageChange: (page: number) => void
   onEntriesPerPageChange: (value: number) => void
@@ -53,6 +54,7 @@ const ProjectsTableSection = ({
   loading,
   onSort,
   onEdit,
+  onDuplicate,
   onDelete,
   onPageChange,
   onEntriesPerPageChange
@@ -70,6 +72,7 @@ const ProjectsTableSection = ({
         sortDirection={sortDirection}
         onSort={onSort}
         onEdit={onEdit}
+        onDuplicate={onDuplicate}
         onDelete={onDelete}
         isLoading={loading}
       />
@@ -24,6 +24,7 @@ interface ProjectsTableTabletProps {
   sortDirection: SortDirection
   onSort: (field: SortField) => void
   onEdit: (projectId: string) => void
+  onDuplicate: (projectId: string) => void
   onDelete: (projectId: string) => void
   getSortIcon: (field: SortField) => JSX.Element
 }
@@ -39,6 +40,7 @@ import { getStatusBadge, getStatusLabel } from '../utils/projectUtils'
  * @param sortDirection - Current sort direction (ASC or DESC)
  * @param onSort - Callback function when column header is clicked
  * @param onEdit - Callback function when edit button is clicked
+ * @param onDuplicate - Callback function when duplicate button is clicked
  * @param onDelete - Callback function when delete button is clicked
  * @param getSortIcon - Function to get sort icon for column
  * @returns JSX element containing tablet table view
@@ -49,6 +51,7 @@ const ProjectsTableTablet = ({
   sortDirection: _sortDirection,
   onSort,
   onEdit,
+  onDuplicate,
   onDelete,
   getSortIcon,
 }: ProjectsTableTabletProps) => {
@@ -106,6 +109,16 @@ const ProjectsTableTablet = ({
                     </svg>
                     <span>Edit</span>
                   </button>
+                  <button
+                    onClick={() => onDuplicate(project.id)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-100 transition-colors text-xs font-medium"
+                    aria-label="Duplicate project"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                    <span>Duplicate</span>
+                  </button>
                   <button
                     onClick={() => onDelete(project.id)}
                     className="flex items-center gap-1.5 px-3 py-1.5 bg-red-200 text-red-700 rounded-md hover:bg-red-100 transition-colors text-xs font-medium"
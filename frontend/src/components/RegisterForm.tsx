@@ -2,6 +2,7 @@
  * RegisterForm Component
  * Handles user registration with form validation using react-hook-form
  * Uses GraphQL mutation to create new user account in database
+ * When an invitation is given, the account is created by accepting it instead
  *
  * @author Thang Truong
  * @date 2025-11-27
@@ -12,12 +13,16 @@ import { Link, useNavigate } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { useMutation } from '@apollo/client'
 import { REGISTER_MUTATION } from '../graphql/mutations'
+import { ACCEPT_INVITATION_MUTATION } from '../graphql/auth'
 import { useAuth } from '../context/AuthContext'
 import RegisterFormFields from './RegisterFormFields'
 import Logo from './Logo'
+import { Invitation } from '../types/invitation'
 
 interface RegisterFormProps {
   onRegisterSuccess?: () => void
+  invitation?: (Invitation & { token: string }) | null
+  onTwoFactorSetupRequired?: () => void
 }
 
 interface RegisterFormData {
@@ -28,7 +33,7 @@ interface RegisterFormData {
   confirmPassword: string
 }
 
-const RegisterForm = ({ onRegisterSuccess }: RegisterFormProps) => {
+const RegisterForm = ({ onRegisterSuccess, invitation = null, onTwoFactorSetupRequired }: RegisterFormProps) => {
   const navigate = useNavigate()
   const { login } = useAuth()
   const [error, setError] = useState('')
@@ -46,19 +51,23 @@ const RegisterForm = ({ onRegisterSuccess }: RegisterFormProps) => {
     defaultValues: {
       firstName: '',
       lastName: '',
-      email: '',
+      email: invitation?.email || '',
       password: '',
       confirmPassword: '',
     },
   })
 
   // GraphQL register mutation hook
-  const [registerMutation, { loading: isLoading }] = useMutation(REGISTER_MUTATION, {
+  const [registerMutation, { loading: isRegistering }] = useMutation(REGISTER_MUTATION, {
     onError: (err) => {
       setError(err.message || 'Registration failed. Please try again.')
     },
   })
 
+  // GraphQL accept invitation mutation hook
+  const [acceptInvitationMutation, { loading: isAccepting }] = useMutation(ACCEPT_INVITATION_MUTATION)
+  const isLoading = isRegistering || isAccepting
+
   /**
    * Handles form submission with validated data
    * Creates new user account and stores tokens upon successful validation
@@ -68,20 +77,36 @@ const RegisterForm = ({ onRegisterSuccess }: RegisterFormProps) => {
     setError('') // Clear previous errors
 
     try {
-      // Execute register mutation with validated form data
-      const { data: mutationData } = await registerMutation({
-        variables: {
-          input: {
+      // Accept the invitation, or execute register mutation with validated form data
+      const { data: mutationData } = invitation
+        ? await acceptInvitationMutation({
+          variables: {
+            token: invitation.token,
             firstName: data.firstName,
             lastName: data.lastName,
-            email: data.email,
             password: data.password,
           },
-        },
-      })
+        })
+        : await registerMutation({
+          variables: {
+            input: {
+              firstName: data.firstName,
+              lastName: data.lastName,
+              email: data.email,
+              password: data.password,
+            },
+          },
+        })
+      const session = invitation ? mutationData?.acceptInvitation : mutationData?.register
 
-      if (mutationData?.register) {
-        const { accessToken, user } = mutationData.register
+      // Role policy requires two-factor setup before the first session
+      if (session?.twoFactorSetupRequired) {
+        if (onTwoFactorSetupRequired) onTwoFactorSetupRequired()
+        return
+      }
+
+      if (session?.accessToken && session.user) {
+        const { accessToken, user } = session
 
         // Format user data for AuthContext
         const userData = {
@@ -118,8 +143,12 @@ const RegisterForm = ({ onRegisterSuccess }: RegisterFormProps) => {
             <Link to="/" className="inline-flex items-center justify-center mb-4 hover:opacity-80 transition-opacity" aria-label="Navigate to home">
               <Logo size="large" />
             </Link>
-            <h2 className="text-3xl font-bold text-gray-900 mb-2">Create your account</h2>
-            <p className="text-gray-600">Get started with Project Tracker today</p>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{invitation ? 'Accept your invitation' : 'Create your account'}</h2>
+            <p className="text-gray-600">
+              {invitation
+                ? `You are joining as ${invitation.role}${invitation.projectName ? ` on ${invitation.projectName}` : ''}`
+                : 'Get started with Project Tracker today'}
+            </p>
           </div>
 
           {/* Form */}
@@ -133,6 +162,7 @@ const RegisterForm = ({ onRegisterSuccess }: RegisterFormProps) => {
               showConfirmPassword={showConfirmPassword}
               onTogglePassword={() => setShowPassword(!showPassword)}
               onToggleConfirmPassword={() => setShowConfirmPassword(!showConfirmPassword)}
+              emailReadOnly={Boolean(invitation)}
             />
 
             {/* Error Message Display */}
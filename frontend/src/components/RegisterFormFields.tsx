@@ -26,6 +26,7 @@ interface RegisterFormFieldsProps {
   showConfirmPassword: boolean
   onTogglePassword: () => void
   onToggleConfirmPassword: () => void
+  emailReadOnly?: boolean
 }
 
 const RegisterFormFields = ({
@@ -36,6 +37,7 @@ const RegisterFormFields = ({
   showConfirmPassword,
   onTogglePassword,
   onToggleConfirmPassword,
+  emailReadOnly = false,
 }: RegisterFormFieldsProps) => {
   // Watch password field for confirmation validation
   const password = watch('password')
@@ -126,7 +128,8 @@ const RegisterFormFields = ({
             type="email"
             autoComplete="email"
             placeholder="you@example.com"
-            className={`block w-full pl-10 pr-3 py-3 border rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${
+            readOnly={emailReadOnly}
+            className={`block w-full pl-10 pr-3 py-3 border rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all ${emailReadOnly ? 'bg-gray-50 cursor-not-allowed ' : ''}${
               errors.email
                 ? 'border-red-300 focus:ring-red-500'
                 : 'border-gray-300 focus:ring-blue-500'
@@ -0,0 +1,37 @@
+/**
+ * RegisterUnavailable Component
+ * Shown on the register page when open sign-up is disabled or an invitation link is not valid
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { Link } from 'react-router-dom'
+import Logo from './Logo'
+
+interface RegisterUnavailableProps {
+  title: string
+  message: string
+}
+
+/**
+ * RegisterUnavailable - Explains why an account cannot be created here
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const RegisterUnavailable = ({ title, message }: RegisterUnavailableProps) => (
+  <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-blue-50 via-white to-gray-50">
+    <div className="max-w-xl w-full bg-white rounded-2xl shadow-xl p-8 sm:p-10 border border-gray-100 text-center">
+      <Link to="/" className="inline-flex items-center justify-center mb-4 hover:opacity-80 transition-opacity" aria-label="Navigate to home">
+        <Logo size="large" />
+      </Link>
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{title}</h2>
+      <p className="text-gray-600 mb-6">{message}</p>
+      <Link to="/login" className="font-semibold text-blue-600 hover:text-blue-700 transition-colors">
+        Go to sign in
+      </Link>
+    </div>
+  </div>
+)
+
+export default RegisterUnavailable
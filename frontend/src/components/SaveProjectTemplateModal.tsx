@@ -0,0 +1,116 @@
+/**
+ * SaveProjectTemplateModal Component
+ * Saves the skeleton of a project as a reusable project template
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { SAVE_PROJECT_AS_TEMPLATE_MUTATION } from '../graphql/mutations'
+import { PROJECT_TEMPLATES_QUERY } from '../graphql/queries'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+
+interface SaveProjectTemplateModalProps {
+  projectId: string
+  projectName: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * SaveProjectTemplateModal Component
+ * The template keeps the workflow, tasks with tags and checklists, members and milestones;
+ * due dates are kept relative to the day the project was created
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const SaveProjectTemplateModal = ({ projectId, projectName, isOpen, onClose }: SaveProjectTemplateModalProps) => {
+  const { showToast } = useToast()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [saveTemplate] = useMutation(SAVE_PROJECT_AS_TEMPLATE_MUTATION, {
+    refetchQueries: [{ query: PROJECT_TEMPLATES_QUERY }],
+  })
+
+  /**
+   * Suggest the project name each time the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setName(`${projectName} template`)
+      setDescription('')
+      setError('')
+    }
+  }, [isOpen, projectName])
+
+  /**
+   * Save the template and close the modal
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!name.trim()) {
+      setError('Template name is required')
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      const result = await saveTemplate({ variables: { projectId, name: name.trim(), description: description.trim() || null } })
+      const taskCount = result.data?.saveProjectAsTemplate?.taskCount ?? 0
+      await showToast(`Template "${name.trim()}" saved with ${taskCount} task${taskCount === 1 ? '' : 's'}`, 'success', 7000)
+      onClose()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save template.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Save Project Template Modal Container */
+    <ModalWrapper isOpen={isOpen} title="Save as Template" onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Saves the workflow, tasks with their tags and checklists, members and milestones. Due dates are kept relative
+          to the project's start, so new projects can begin on any date.
+        </p>
+        <div>
+          <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 mb-1">Template name</label>
+          <input id="template-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={150} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="template-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <textarea
+            id="template-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+        <FormErrorMessage message={error} />
+        <FormActions onCancel={onClose} isSubmitting={isSubmitting} submitLabel="Save Template" submittingLabel="Saving..." />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default SaveProjectTemplateModal
@@ -12,6 +12,7 @@ import TaskSearchCard from './TaskSearchCard'
 import SearchPagination from './SearchPagination'
 import SearchEmptyState from './SearchEmptyState'
 import { ProjectOwner } from '../types/project'
+import { ChecklistProgress } from '../types/checklist'
 
 interface SearchResultsPanelProps {
   query: string
@@ -32,12 +33,14 @@ interface SearchResultsPanelProps {
     id: string
     title: string
     status: string
+    statusCategory?: string
     projectId: string
     description?: string | null
     owner: ProjectOwner | null
     likesCount: number
     commentsCount: number
     isLiked: boolean
+    checklistProgress?: ChecklistProgress
     updatedAt: string
   }>
   projectTotal: number
@@ -216,12 +219,14 @@ const SearchResultsPanel = ({
                     id={task.id}
                     title={task.title}
                     status={task.status}
+                    statusCategory={task.statusCategory}
                     projectId={task.projectId}
                     description={task.description}
                     owner={task.owner}
                     likesCount={task.likesCount}
                     commentsCount={task.commentsCount}
                     isLiked={task.isLiked}
+                    checklistProgress={task.checklistProgress}
                     updatedAt={task.updatedAt}
                   />
                 ))}
@@ -11,6 +11,7 @@ import { Link, useLocation } from 'react-router-dom'
 import Logo from './Logo'
 import ProjectHeaderBio from './ProjectHeaderBio'
 import SidebarUserProfile from './SidebarUserProfile'
+import { useAuth } from '../context/AuthContext'
 
 interface SidebarProps {
   isOpen: boolean
@@ -27,6 +28,7 @@ interface SidebarProps {
  */
 const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
   const location = useLocation()
+  const { user } = useAuth()
 
   /**
    * Check if a route is currently active
@@ -95,6 +97,16 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
         </svg>
       ),
     },
+    {
+      id: 'timesheet',
+      label: 'Timesheet',
+      path: '/dashboard/timesheet',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      ),
+    },
     {
       id: 'comments',
       label: 'Comments',
@@ -145,6 +157,21 @@ const Sidebar = ({ isOpen, onToggle }: SidebarProps) => {
         </svg>
       ),
     },
+    // Trash is admin-only
+    ...(user?.role === 'Admin'
+      ? [
+        {
+          id: 'trash',
+          label: 'Trash',
+          path: '/dashboard/trash',
+          icon: (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          ),
+        },
+      ]
+      : []),
   ]
 
   return (
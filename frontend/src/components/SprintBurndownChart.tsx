@@ -0,0 +1,108 @@
+/**
+ * SprintBurndownChart Component
+ * Line chart of the work left in a sprint each day against the ideal line to zero
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery } from '@apollo/client'
+import { SPRINT_BURNDOWN_QUERY } from '../graphql/queries'
+import { SprintBurndown } from '../types/sprint'
+import { formatSprintDay } from '../utils/sprints'
+import { formatMinutes } from '../utils/timeTracking'
+
+interface SprintBurndownChartProps {
+  sprintId: string
+}
+
+type BurndownUnit = 'TASKS' | 'ESTIMATE'
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 220
+const PADDING = { top: 12, right: 12, bottom: 28, left: 44 }
+
+/**
+ * SprintBurndownChart Component
+ * Work is counted in tasks, or in estimated time when the sprint's tasks have estimates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param sprintId - Active or closed sprint to chart
+ */
+const SprintBurndownChart = ({ sprintId }: SprintBurndownChartProps) => {
+  const [unit, setUnit] = useState<BurndownUnit>('TASKS')
+  const { data, loading, error } = useQuery<{ sprintBurndown: SprintBurndown }>(SPRINT_BURNDOWN_QUERY, {
+    variables: { sprintId },
+    fetchPolicy: 'cache-and-network',
+  })
+
+  const burndown = data?.sprintBurndown
+  if (!burndown) {
+    return (
+      <p className="text-sm text-gray-500">{loading ? 'Loading burndown...' : error ? 'Failed to load the burndown.' : 'No burndown yet.'}</p>
+    )
+  }
+
+  const byEstimate = unit === 'ESTIMATE'
+  const remaining = burndown.days.map((day) => (byEstimate ? day.remainingMinutes : day.remainingTasks))
+  const ideal = burndown.days.map((day) => (byEstimate ? day.idealMinutes : day.idealTasks))
+  const maxValue = Math.max(1, ...ideal, ...remaining.map((value) => value ?? 0))
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+  const x = (index: number) => PADDING.left + (burndown.days.length > 1 ? (index / (burndown.days.length - 1)) * plotWidth : plotWidth / 2)
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight
+  const formatValue = (value: number) => (byEstimate ? formatMinutes(value) : String(Math.round(value * 10) / 10))
+
+  const idealPoints = ideal.map((value, index) => `${x(index)},${y(value)}`).join(' ')
+  const actualPoints = remaining
+    .map((value, index) => (value === null ? null : `${x(index)},${y(value)}`))
+    .filter((point): point is string => point !== null)
+    .join(' ')
+  const labelIndexes = Array.from(new Set([0, Math.floor((burndown.days.length - 1) / 2), burndown.days.length - 1]))
+
+  return (
+    /* Sprint Burndown Chart */
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-700">Burndown</p>
+        {burndown.totalMinutes > 0 && (
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as BurndownUnit)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900 bg-white"
+            aria-label="Burndown unit"
+          >
+            <option value="TASKS">Tasks</option>
+            <option value="ESTIMATE">Estimated time</option>
+          </select>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Sprint burndown chart">
+        <line x1={PADDING.left} y1={y(0)} x2={CHART_WIDTH - PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(0)} stroke="#d1d5db" />
+        <text x={PADDING.left - 6} y={y(maxValue) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">{formatValue(maxValue)}</text>
+        <text x={PADDING.left - 6} y={y(0) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">0</text>
+        {labelIndexes.map((index) => (
+          <text key={index} x={x(index)} y={CHART_HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {formatSprintDay(burndown.days[index].date)}
+          </text>
+        ))}
+        <polyline points={idealPoints} fill="none" stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="4 4" />
+        {actualPoints && <polyline points={actualPoints} fill="none" stroke="#2563eb" strokeWidth={2} />}
+        {remaining.map((value, index) => (value === null ? null : (
+          <circle key={index} cx={x(index)} cy={y(value)} r={2.5} fill="#2563eb">
+            <title>{`${formatSprintDay(burndown.days[index].date)}: ${formatValue(value)} left`}</title>
+          </circle>
+        )))}
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-500 mt-1">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-blue-600" />Remaining</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-gray-400" />Ideal</span>
+      </div>
+    </div>
+  )
+}
+
+export default SprintBurndownChart
@@ -0,0 +1,157 @@
+/**
+ * SprintFormModal Component
+ * Form to plan a new sprint or change the name, goal and dates of an existing one
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { CREATE_SPRINT_MUTATION, UPDATE_SPRINT_MUTATION } from '../graphql/mutations'
+import ModalWrapper from './ModalWrapper'
+import FormErrorMessage from './FormErrorMessage'
+import FormActions from './FormActions'
+import { Sprint } from '../types/sprint'
+
+interface SprintFormModalProps {
+  projectId: string
+  sprint: Sprint | null
+  defaultDates: { startDate: string; endDate: string }
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+/**
+ * SprintFormModal Component
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Project the sprint belongs to
+ * @param sprint - Sprint to edit, or null to plan a new one
+ * @param defaultDates - Dates that prefill a new sprint
+ * @param onSaved - Called after the sprint was saved, to reload the sprints
+ */
+const SprintFormModal = ({ projectId, sprint, defaultDates, isOpen, onClose, onSaved }: SprintFormModalProps) => {
+  const { showToast } = useToast()
+  const [name, setName] = useState('')
+  const [goal, setGoal] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [createSprint] = useMutation(CREATE_SPRINT_MUTATION)
+  const [updateSprint] = useMutation(UPDATE_SPRINT_MUTATION)
+
+  /**
+   * Fill the form from the sprint, or with defaults for a new one, whenever the modal opens
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isOpen) return
+    setName(sprint?.name || '')
+    setGoal(sprint?.goal || '')
+    setStartDate(sprint?.startDate || defaultDates.startDate)
+    setEndDate(sprint?.endDate || defaultDates.endDate)
+    setError('')
+  }, [isOpen, sprint, defaultDates])
+
+  /**
+   * Save the sprint; the server checks the name and the dates
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (endDate < startDate) {
+      setError('A sprint cannot end before it starts.')
+      return
+    }
+    const input = { name: name.trim(), goal: goal.trim() || null, startDate, endDate }
+    setIsSubmitting(true)
+    try {
+      if (sprint) await updateSprint({ variables: { id: sprint.id, input } })
+      else await createSprint({ variables: { projectId, input } })
+      await showToast(sprint ? 'Sprint updated successfully' : 'Sprint planned successfully', 'success', 7000)
+      await onSaved()
+      onClose()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save sprint.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Sprint Form Modal Container */
+    <ModalWrapper isOpen={isOpen} title={sprint ? 'Edit Sprint' : 'Plan Sprint'} onClose={onClose} maxWidth="max-w-lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="sprint-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            id="sprint-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="sprint-goal" className="block text-sm font-medium text-gray-700 mb-1">Goal</label>
+          <textarea
+            id="sprint-goal"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="sprint-start" className="block text-sm font-medium text-gray-700 mb-1">Start date</label>
+            <input
+              id="sprint-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="sprint-end" className="block text-sm font-medium text-gray-700 mb-1">End date</label>
+            <input
+              id="sprint-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <FormErrorMessage message={error} />
+        <FormActions
+          onCancel={onClose}
+          isSubmitting={isSubmitting}
+          submitLabel={sprint ? 'Save Sprint' : 'Plan Sprint'}
+          submittingLabel="Saving..."
+        />
+      </form>
+    </ModalWrapper>
+  )
+}
+
+export default SprintFormModal
@@ -0,0 +1,109 @@
+/**
+ * SprintPlanningPanel Component
+ * One sprint, or the backlog, on the sprint planning page with its tasks and where they can move
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import React from 'react'
+import StatusBadge from './StatusBadge'
+import { ProjectTask } from '../types/project'
+import { WorkflowState } from '../types/workflow'
+import { formatMinutes } from '../utils/timeTracking'
+
+interface SprintPlanningPanelProps {
+  title: string
+  subtitle?: string
+  badge?: React.ReactNode
+  actions?: React.ReactNode
+  children?: React.ReactNode
+  tasks: ProjectTask[]
+  states: WorkflowState[]
+  moveOptions: Array<{ value: string; label: string }>
+  currentValue: string
+  canEdit: boolean
+  movingTaskId: string | null
+  onMoveTask: (taskId: string, sprintId: string | null) => void
+}
+
+/**
+ * SprintPlanningPanel Component
+ * The move select lists the backlog as an empty value
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param tasks - Tasks of this sprint or of the backlog
+ * @param moveOptions - Sprints and backlog the tasks can move to
+ * @param currentValue - Value of this panel in moveOptions
+ * @param onMoveTask - Called with the task and its new sprint, or null for the backlog
+ */
+const SprintPlanningPanel = ({
+  title,
+  subtitle,
+  badge,
+  actions,
+  children,
+  tasks,
+  states,
+  moveOptions,
+  currentValue,
+  canEdit,
+  movingTaskId,
+  onMoveTask,
+}: SprintPlanningPanelProps) => {
+  const doneCount = tasks.filter((task) => task.statusCategory === 'DONE').length
+  const estimate = tasks.reduce((sum, task) => sum + (task.estimateMinutes || 0), 0)
+
+  return (
+    /* Sprint Planning Panel */
+    <section className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold text-gray-900 truncate">{title}</h2>
+            {badge}
+          </div>
+          {subtitle && <p className="text-sm text-gray-600 mt-0.5">{subtitle}</p>}
+          <p className="text-xs text-gray-500 mt-1">
+            {`${doneCount}/${tasks.length} done${estimate > 0 ? ` · ${formatMinutes(estimate)} estimated` : ''}`}
+          </p>
+        </div>
+        {actions && <div className="flex flex-wrap gap-2">{actions}</div>}
+      </div>
+      {children}
+      {tasks.length === 0 ? (
+        <p className="text-sm text-gray-500">No tasks.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tasks.map((task) => (
+            <li key={task.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+              <div className="min-w-0 flex items-center gap-2">
+                <StatusBadge status={task.status} type="task" states={states} category={task.statusCategory} />
+                <span className="text-sm text-gray-900 truncate">{task.title}</span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {task.estimateMinutes ? <span className="text-xs text-gray-500">{formatMinutes(task.estimateMinutes)}</span> : null}
+                {canEdit && (
+                  <select
+                    value={currentValue}
+                    onChange={(e) => onMoveTask(task.id, e.target.value || null)}
+                    disabled={movingTaskId === task.id}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900 bg-white disabled:opacity-50"
+                    aria-label={`Move "${task.title}"`}
+                  >
+                    {moveOptions.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default SprintPlanningPanel
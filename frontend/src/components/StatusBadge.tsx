@@ -2,14 +2,29 @@
  * StatusBadge Component
  * Displays a status badge with color coding based on status type
  * Used for projects and tasks status display
+ * Task badges read the project's workflow when given, so custom states show their name and category color
  *
  * @author Thang Truong
  * @date 2025-01-27
  */
 
+import { WorkflowState } from '../types/workflow'
+import { getStatusCategory } from '../utils/workflow'
+
 interface StatusBadgeProps {
   status: string
   type?: 'project' | 'task'
+  states?: WorkflowState[]
+  category?: string | null
+}
+
+/**
+ * Badge colors per workflow category, used for task states
+ */
+const CATEGORY_STYLES: Record<string, { bg: string; text: string; border: string }> = {
+  NOT_STARTED: { bg: 'bg-yellow-50', text: 'text-yellow-700', border: 'border-yellow-200' },
+  ACTIVE: { bg: 'bg-blue-50', text: 'text-blue-700', border: 'border-blue-200' },
+  DONE: { bg: 'bg-emerald-50', text: 'text-emerald-700', border: 'border-emerald-200' },
 }
 
 /**
@@ -107,15 +122,19 @@ const formatStatus = (status: string): string => {
  *
  * @author Thang Truong
  * @date 2025-01-27
+ * @param states - Workflow states of the task's project, used for the label and category
+ * @param category - Workflow category of the status when the states are not at hand
  */
-const StatusBadge = ({ status, type = 'project' }: StatusBadgeProps) => {
-  const styles = getStatusStyles(status, type)
-  
+const StatusBadge = ({ status, type = 'project', states, category }: StatusBadgeProps) => {
+  const state = type === 'task' ? states?.find((candidate) => candidate.key === status) : undefined
+  const statusCategory = type === 'task' ? (states && getStatusCategory(states, status)) || category : null
+  const styles = (statusCategory && CATEGORY_STYLES[statusCategory]) || getStatusStyles(status, type)
+
   return (
     <span
       className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold uppercase tracking-wide border ${styles.bg} ${styles.text} ${styles.border}`}
     >
-      {formatStatus(status)}
+      {state ? state.name : formatStatus(status)}
     </span>
   )
 }
@@ -0,0 +1,88 @@
+/**
+ * TaskChecklistDraft Component
+ * Checklist items of a task that is not created yet; they are saved together with the task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+
+interface TaskChecklistDraftProps {
+  items: string[]
+  onChange: (items: string[]) => void
+}
+
+/**
+ * TaskChecklistDraft Component
+ * Lives inside the create task form, so adding an item uses Enter on the input instead of a nested form
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TaskChecklistDraft = ({ items, onChange }: TaskChecklistDraftProps) => {
+  const [newItemText, setNewItemText] = useState('')
+
+  /**
+   * Append the typed item to the draft
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleAdd = () => {
+    const text = newItemText.trim()
+    if (!text) return
+    onChange([...items, text])
+    setNewItemText('')
+  }
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Checklist Draft Section */
+    <div className="mt-4">
+      <p className="text-sm font-medium text-gray-700 mb-2">Checklist</p>
+      {items.length > 0 && (
+        <ul className="space-y-1.5 mb-2">
+          {items.map((item, index) => (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 min-w-0 break-words text-gray-800">{item}</span>
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, itemIndex) => itemIndex !== index))}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return
+            e.preventDefault()
+            handleAdd()
+          }}
+          maxLength={500}
+          placeholder="Add an item"
+          className={`${inputClass} flex-1`}
+          aria-label="New checklist item"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!newItemText.trim()}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default TaskChecklistDraft
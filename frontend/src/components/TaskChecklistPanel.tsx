@@ -0,0 +1,205 @@
+/**
+ * TaskChecklistPanel Component
+ * Checklist items inside a task: check them off, assign them, reorder them, add and remove them
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { TASK_CHECKLIST_QUERY, TASKS_QUERY } from '../graphql/queries'
+import {
+  ADD_CHECKLIST_ITEM_MUTATION,
+  DELETE_CHECKLIST_ITEM_MUTATION,
+  REORDER_CHECKLIST_ITEMS_MUTATION,
+  UPDATE_CHECKLIST_ITEM_MUTATION,
+} from '../graphql/mutations'
+import { ChecklistItem } from '../types/checklist'
+
+interface TaskChecklistPanelProps {
+  taskId: string
+  users: Array<{ id: string; firstName: string; lastName: string }>
+}
+
+/**
+ * TaskChecklistPanel Component
+ * Every change reloads the task list so checklist progress stays current in the tables
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task whose checklist is shown
+ * @param users - Users that checklist items can be assigned to
+ */
+const TaskChecklistPanel = ({ taskId, users }: TaskChecklistPanelProps) => {
+  const { showToast } = useToast()
+  const [newItemText, setNewItemText] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data, refetch } = useQuery<{ taskChecklist: ChecklistItem[] }>(TASK_CHECKLIST_QUERY, {
+    variables: { taskId },
+    fetchPolicy: 'cache-and-network',
+  })
+  const mutationOptions = { refetchQueries: [{ query: TASKS_QUERY }] }
+  const [addChecklistItem] = useMutation(ADD_CHECKLIST_ITEM_MUTATION, mutationOptions)
+  const [updateChecklistItem] = useMutation(UPDATE_CHECKLIST_ITEM_MUTATION, mutationOptions)
+  const [deleteChecklistItem] = useMutation(DELETE_CHECKLIST_ITEM_MUTATION, mutationOptions)
+  const [reorderChecklistItems] = useMutation(REORDER_CHECKLIST_ITEMS_MUTATION)
+  const items = data?.taskChecklist || []
+  const completed = items.filter((item) => item.isDone).length
+
+  /**
+   * Run a checklist change and reload the items; only failures are reported so checking items stays quiet
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const runChange = async (change: () => Promise<unknown>): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      await change()
+      await refetch()
+      return true
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update checklist'
+      await showToast(message, 'error', 7000)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Add the typed item at the end of the checklist
+   * The panel sits inside the task form, so Enter is handled here instead of submitting the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleAdd = async () => {
+    const text = newItemText.trim()
+    if (!text) return
+    const isAdded = await runChange(() => addChecklistItem({ variables: { taskId, input: { text } } }))
+    if (isAdded) setNewItemText('')
+  }
+
+  /**
+   * Move an item one place up or down
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const moveItem = async (index: number, offset: number) => {
+    const itemIds = items.map((item) => item.id)
+    const [moved] = itemIds.splice(index, 1)
+    itemIds.splice(index + offset, 0, moved)
+    await runChange(() => reorderChecklistItems({ variables: { taskId, itemIds } }))
+  }
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    /* Task Checklist Section */
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-medium text-gray-700">Checklist</p>
+        {items.length > 0 && <span className="text-xs text-gray-500">{completed}/{items.length} done</span>}
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mb-3">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.round((completed / items.length) * 100)}%` }} />
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-2">No checklist items yet.</p>
+      ) : (
+        <ul className="space-y-1.5 mb-3">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={item.isDone}
+                disabled={isSaving}
+                onChange={() => runChange(() => updateChecklistItem({ variables: { id: item.id, input: { isDone: !item.isDone } } }))}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                aria-label={`Mark "${item.text}" as ${item.isDone ? 'not done' : 'done'}`}
+              />
+              <span className={`flex-1 min-w-0 break-words ${item.isDone ? 'line-through text-gray-400' : 'text-gray-800'}`}>{item.text}</span>
+              <select
+                value={item.assignedTo || ''}
+                disabled={isSaving}
+                onChange={(e) => runChange(() => updateChecklistItem({ variables: { id: item.id, input: { assignedTo: e.target.value || null } } }))}
+                className={`${inputClass} max-w-[10rem]`}
+                aria-label="Item assignee"
+              >
+                <option value="">Unassigned</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.firstName} {user.lastName}
+                  </option>
+                ))}
+              </select>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={isSaving || index === 0}
+                  className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move item up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={isSaving || index === items.length - 1}
+                  className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move item down"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => runChange(() => deleteChecklistItem({ variables: { id: item.id } }))}
+                  disabled={isSaving}
+                  className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return
+            e.preventDefault()
+            void handleAdd()
+          }}
+          maxLength={500}
+          placeholder="Add an item"
+          className={`${inputClass} flex-1`}
+          aria-label="New checklist item"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={isSaving || !newItemText.trim()}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default TaskChecklistPanel
@@ -0,0 +1,141 @@
+/**
+ * TaskCommentsPanel Component
+ * Discussion about one task: threaded comments, replies and @mentions of project participants
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useCallback, useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { usePusherTaskCommentRealtime } from '../hooks/usePusherTaskCommentRealtime'
+import { TASK_COMMENTS_QUERY, TASKS_QUERY } from '../graphql/queries'
+import { CREATE_TASK_COMMENT_MUTATION } from '../graphql/mutations'
+import { ProjectComment } from '../types/comments'
+import { MentionCandidate } from '../utils/mentions'
+import CommentThread from './CommentThread'
+import ProjectDetailCommentForm from './ProjectDetailCommentForm'
+
+interface TaskCommentsPanelProps {
+  taskId: string
+  projectId: string
+}
+
+interface TaskCommentsData {
+  task: { id: string; commentsCount: number; comments: ProjectComment[] } | null
+  project: { id: string; mentionCandidates: MentionCandidate[] } | null
+}
+
+const EMPTY_CANDIDATES: MentionCandidate[] = []
+
+/**
+ * TaskCommentsPanel Component
+ * Rendered outside the edit task form because the comment forms are forms of their own
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Project of the task, whose participants can be mentioned
+ */
+const TaskCommentsPanel = ({ taskId, projectId }: TaskCommentsPanelProps) => {
+  const { showToast } = useToast()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set())
+
+  const { data, loading, refetch } = useQuery<TaskCommentsData>(TASK_COMMENTS_QUERY, {
+    variables: { taskId, projectId },
+    fetchPolicy: 'cache-and-network',
+  })
+  const [createTaskComment] = useMutation(CREATE_TASK_COMMENT_MUTATION, { refetchQueries: [{ query: TASKS_QUERY }] })
+  const comments = data?.task?.comments || []
+  const mentionCandidates = data?.project?.mentionCandidates || EMPTY_CANDIDATES
+
+  /**
+   * Reload the comments of the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const reloadComments = useCallback(async (): Promise<void> => {
+    await refetch()
+  }, [refetch])
+
+  /**
+   * Expand or collapse the replies of a thread
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const toggleThread = useCallback((commentId: string, expand?: boolean): void => {
+    setExpandedThreads((current) => {
+      const next = new Set(current)
+      if (expand ?? !next.has(commentId)) next.add(commentId)
+      else next.delete(commentId)
+      return next
+    })
+  }, [])
+
+  usePusherTaskCommentRealtime({
+    taskId,
+    onRefetch: reloadComments,
+    onThreadActivity: (parentCommentId) => toggleThread(parentCommentId, true),
+  })
+
+  /**
+   * Post a comment on the task, or a reply when parentCommentId is given
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSubmit = async (content: string, parentCommentId?: string): Promise<void> => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      await createTaskComment({ variables: { taskId, content, parentCommentId } })
+      await reloadComments()
+      await showToast(parentCommentId ? 'Reply posted successfully!' : 'Comment posted successfully!', 'success', 7000)
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to post comment. Please try again.'
+      await showToast(errorMessage, 'error', 7000)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    /* Task Comments Section */
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <p className="text-sm font-medium text-gray-700 mb-2">Comments ({data?.task?.commentsCount ?? 0})</p>
+      <ProjectDetailCommentForm
+        onSubmit={(content) => handleSubmit(content)}
+        isSubmitting={isSubmitting}
+        placeholder="Comment on this task... Type @ to mention a project member"
+        className="mb-4"
+        mentionCandidates={mentionCandidates}
+      />
+      {loading && comments.length === 0 ? (
+        <p className="text-xs text-gray-500">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-gray-500">No comments on this task yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => (
+            <CommentThread
+              key={comment.id}
+              comment={comment}
+              projectId={projectId}
+              isExpanded={expandedThreads.has(comment.id)}
+              isSubmitting={isSubmitting}
+              onToggle={() => toggleThread(comment.id)}
+              onReply={handleSubmit}
+              mentionCandidates={mentionCandidates}
+              onChanged={reloadComments}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TaskCommentsPanel
@@ -0,0 +1,168 @@
+/**
+ * TaskDependenciesPanel Component
+ * Lists the tasks blocking a task and the tasks it blocks, and manages the blockers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { TASK_DEPENDENCIES_QUERY } from '../graphql/queries'
+import { ADD_TASK_DEPENDENCY_MUTATION, REMOVE_TASK_DEPENDENCY_MUTATION } from '../graphql/mutations'
+import { getStatusBadge, getStatusLabel } from '../utils/taskUtils'
+import { TaskDependencyRef } from '../utils/taskDependencies'
+
+interface TaskDependenciesPanelProps {
+  taskId: string
+  candidateTasks: Array<{ id: string; title: string }>
+}
+
+/**
+ * TaskDependenciesPanel Component
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task whose dependencies are shown
+ * @param candidateTasks - Tasks of the same project that can be added as blockers
+ */
+const TaskDependenciesPanel = ({ taskId, candidateTasks }: TaskDependenciesPanelProps) => {
+  const { showToast } = useToast()
+  const [selectedBlockerId, setSelectedBlockerId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data, refetch } = useQuery<{ task: { id: string; blockedBy: TaskDependencyRef[]; blocks: TaskDependencyRef[] } | null }>(
+    TASK_DEPENDENCIES_QUERY,
+    { variables: { id: taskId }, fetchPolicy: 'cache-and-network' }
+  )
+  const [addDependency] = useMutation(ADD_TASK_DEPENDENCY_MUTATION)
+  const [removeDependency] = useMutation(REMOVE_TASK_DEPENDENCY_MUTATION)
+
+  const blockedBy = useMemo(() => data?.task?.blockedBy || [], [data])
+  const blocks = data?.task?.blocks || []
+  const availableBlockers = useMemo(
+    () => candidateTasks.filter((candidate) => candidate.id !== taskId && !blockedBy.some((blocker) => blocker.id === candidate.id)),
+    [candidateTasks, taskId, blockedBy]
+  )
+
+  /**
+   * Run a dependency change and reload the lists
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const runChange = async (change: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true)
+    try {
+      await change()
+      await refetch()
+      await showToast(successMessage, 'success', 7000)
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update dependencies'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Add the selected task as a blocker
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleAdd = async () => {
+    if (!selectedBlockerId) return
+    await runChange(
+      () => addDependency({ variables: { blockerTaskId: selectedBlockerId, blockedTaskId: taskId } }),
+      'Blocker added'
+    )
+    setSelectedBlockerId('')
+  }
+
+  /**
+   * Remove a blocker
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRemove = async (blockerTaskId: string) => {
+    await runChange(
+      () => removeDependency({ variables: { blockerTaskId, blockedTaskId: taskId } }),
+      'Blocker removed'
+    )
+  }
+
+  return (
+    /* Task Dependencies Section */
+    <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Blocked by</p>
+        {blockedBy.length === 0 ? (
+          <p className="text-xs text-gray-500">No blockers.</p>
+        ) : (
+          <ul className="space-y-1">
+            {blockedBy.map((blocker) => (
+              <li key={blocker.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-gray-800">{blocker.title}</span>
+                <span className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(blocker.status, blocker.statusCategory)}`}>
+                    {getStatusLabel(blocker.status)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(blocker.id)}
+                    disabled={isSaving}
+                    className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2 mt-2">
+          <select
+            value={selectedBlockerId}
+            onChange={(e) => setSelectedBlockerId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Select a blocking task"
+          >
+            <option value="">Add a blocking task...</option>
+            {availableBlockers.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!selectedBlockerId || isSaving}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {blocks.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Blocks</p>
+          <ul className="space-y-1">
+            {blocks.map((blocked) => (
+              <li key={blocked.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-gray-800">{blocked.title}</span>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusBadge(blocked.status, blocked.statusCategory)}`}>
+                  {getStatusLabel(blocked.status)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TaskDependenciesPanel
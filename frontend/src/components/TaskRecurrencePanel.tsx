@@ -0,0 +1,304 @@
+/**
+ * TaskRecurrencePanel Component
+ * Shows and edits how a task repeats: daily, every weekday, weekly on some days, monthly on a day or a custom RRULE-like rule
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { TASK_RECURRENCE_QUERY, TASKS_QUERY } from '../graphql/queries'
+import { REMOVE_TASK_RECURRENCE_MUTATION, SET_TASK_RECURRENCE_MUTATION } from '../graphql/mutations'
+import { TaskRecurrence } from '../types/recurrence'
+import { describeRecurrence, formatRecurrenceDay, RECURRENCE_WEEKDAYS, WORKDAY_KEYS } from '../utils/recurrences'
+
+type RepeatOption = 'DAILY' | 'WORKDAYS' | 'WEEKLY' | 'MONTHLY' | 'CUSTOM'
+type EndOption = 'NEVER' | 'COUNT' | 'DATE'
+
+interface TaskRecurrencePanelProps {
+  taskId: string
+}
+
+/**
+ * Pick the form option that shows a stored rule
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const toRepeatOption = (recurrence: TaskRecurrence): RepeatOption => {
+  if (recurrence.frequency === 'WEEKLY' && recurrence.interval === 1 && recurrence.weekdays.join(',') === WORKDAY_KEYS.join(',')) return 'WORKDAYS'
+  return recurrence.frequency
+}
+
+/**
+ * TaskRecurrencePanel Component
+ * When the current occurrence is finished or its due date passes, the backend creates the next one
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task whose repeat rule is shown
+ */
+const TaskRecurrencePanel = ({ taskId }: TaskRecurrencePanelProps) => {
+  const { showToast } = useToast()
+  const [isEditing, setIsEditing] = useState(false)
+  const [repeat, setRepeat] = useState<RepeatOption>('WEEKLY')
+  const [intervalCount, setIntervalCount] = useState('1')
+  const [weekdays, setWeekdays] = useState<string[]>([])
+  const [monthDay, setMonthDay] = useState('')
+  const [rule, setRule] = useState('')
+  const [end, setEnd] = useState<EndOption>('NEVER')
+  const [endAfterCount, setEndAfterCount] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data, refetch } = useQuery<{ taskRecurrence: TaskRecurrence | null }>(TASK_RECURRENCE_QUERY, {
+    variables: { taskId },
+    fetchPolicy: 'cache-and-network',
+  })
+  const [setTaskRecurrence] = useMutation(SET_TASK_RECURRENCE_MUTATION, {
+    refetchQueries: [{ query: TASKS_QUERY }],
+    awaitRefetchQueries: true,
+  })
+  const [removeTaskRecurrence] = useMutation(REMOVE_TASK_RECURRENCE_MUTATION)
+  const recurrence = data?.taskRecurrence || null
+
+  /**
+   * Fill the form from the stored rule whenever editing starts
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isEditing) return
+    setRepeat(recurrence ? toRepeatOption(recurrence) : 'WEEKLY')
+    setIntervalCount(String(recurrence?.interval || 1))
+    setWeekdays(recurrence?.weekdays || [])
+    setMonthDay(recurrence?.monthDay ? String(recurrence.monthDay) : '')
+    setRule(recurrence?.rule || '')
+    setEnd(recurrence?.endAfterCount ? 'COUNT' : recurrence?.endDate ? 'DATE' : 'NEVER')
+    setEndAfterCount(recurrence?.endAfterCount ? String(recurrence.endAfterCount) : '')
+    setEndDate(recurrence?.endDate || '')
+  }, [isEditing, recurrence])
+
+  /**
+   * Add or remove a weekday of a weekly rule
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const toggleWeekday = (key: string) => {
+    setWeekdays((prev) => (prev.includes(key) ? prev.filter((weekday) => weekday !== key) : [...prev, key]))
+  }
+
+  /**
+   * Run a recurrence change, reload the rule and report the outcome
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const runChange = async (change: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true)
+    try {
+      await change()
+      await refetch()
+      setIsEditing(false)
+      await showToast(successMessage, 'success', 7000)
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update recurrence'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Save the rule from the form
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleSave = async () => {
+    const ends = {
+      endAfterCount: end === 'COUNT' && endAfterCount ? Number(endAfterCount) : null,
+      endDate: end === 'DATE' && endDate ? endDate : null,
+    }
+    const input = repeat === 'CUSTOM'
+      ? { rule: rule.trim() }
+      : {
+        frequency: repeat === 'WORKDAYS' ? 'WEEKLY' : repeat,
+        interval: repeat === 'WORKDAYS' ? 1 : Number(intervalCount) || 1,
+        weekdays: repeat === 'WORKDAYS' ? WORKDAY_KEYS : repeat === 'WEEKLY' ? RECURRENCE_WEEKDAYS.map((weekday) => weekday.key).filter((key) => weekdays.includes(key)) : null,
+        monthDay: repeat === 'MONTHLY' && monthDay ? Number(monthDay) : null,
+        ...ends,
+      }
+    await runChange(() => setTaskRecurrence({ variables: { taskId, input } }), 'Recurrence saved')
+  }
+
+  const inputClass = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+  const unit = repeat === 'DAILY' ? 'day(s)' : repeat === 'MONTHLY' ? 'month(s)' : 'week(s)'
+
+  return (
+    /* Task Recurrence Section */
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-medium text-gray-700">Repeat</p>
+        {!isEditing && (
+          <div className="flex gap-3">
+            <button type="button" onClick={() => setIsEditing(true)} className="text-xs text-blue-600 hover:text-blue-700">
+              {recurrence ? 'Edit' : 'Make recurring'}
+            </button>
+            {recurrence && (
+              <button
+                type="button"
+                onClick={() => runChange(() => removeTaskRecurrence({ variables: { taskId } }), 'Task no longer repeats')}
+                disabled={isSaving}
+                className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                Stop repeating
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isEditing && (
+        recurrence ? (
+          <div className="text-sm text-gray-800 space-y-0.5">
+            <p>{describeRecurrence(recurrence)}</p>
+            <p className="text-xs text-gray-500">
+              {recurrence.isActive && recurrence.nextDueDate
+                ? `Occurrence ${recurrence.occurrenceCount} · next on ${formatRecurrenceDay(recurrence.nextDueDate)}`
+                : `Occurrence ${recurrence.occurrenceCount} · this is the last one`}
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Does not repeat.</p>
+        )
+      )}
+
+      {isEditing && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as RepeatOption)}
+              className={inputClass}
+              aria-label="Repeat"
+            >
+              <option value="DAILY">Daily</option>
+              <option value="WORKDAYS">Every weekday (Mon–Fri)</option>
+              <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
+              <option value="CUSTOM">Custom rule</option>
+            </select>
+            {(repeat === 'DAILY' || repeat === 'WEEKLY' || repeat === 'MONTHLY') && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                every
+                <input
+                  type="number"
+                  min={1}
+                  max={52}
+                  value={intervalCount}
+                  onChange={(e) => setIntervalCount(e.target.value)}
+                  className={`${inputClass} w-20`}
+                />
+                {unit}
+              </label>
+            )}
+          </div>
+
+          {repeat === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1.5">
+              {RECURRENCE_WEEKDAYS.map((weekday) => (
+                <button
+                  key={weekday.key}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday.key)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border ${weekdays.includes(weekday.key)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                >
+                  {weekday.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {repeat === 'MONTHLY' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              on day
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={monthDay}
+                onChange={(e) => setMonthDay(e.target.value)}
+                placeholder="Due day"
+                className={`${inputClass} w-24`}
+              />
+            </label>
+          )}
+          {repeat === 'CUSTOM' && (
+            <div>
+              <input
+                value={rule}
+                onChange={(e) => setRule(e.target.value)}
+                placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10"
+                className={`${inputClass} w-full font-mono`}
+                aria-label="Recurrence rule"
+              />
+              <p className="text-xs text-gray-500 mt-1">Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.</p>
+            </div>
+          )}
+
+          {repeat !== 'CUSTOM' && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <select value={end} onChange={(e) => setEnd(e.target.value as EndOption)} className={inputClass} aria-label="Ends">
+                <option value="NEVER">Never ends</option>
+                <option value="COUNT">Ends after</option>
+                <option value="DATE">Ends on</option>
+              </select>
+              {end === 'COUNT' && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={endAfterCount}
+                    onChange={(e) => setEndAfterCount(e.target.value)}
+                    className={`${inputClass} w-24`}
+                  />
+                  occurrences
+                </label>
+              )}
+              {end === 'DATE' && (
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} aria-label="End date" />
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || (repeat === 'CUSTOM' && !rule.trim())}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save repeat'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TaskRecurrencePanel
@@ -1,6 +1,6 @@
 /**
  * TaskSearchCard Component
- * Displays task search result card with owner, likes, and comments
+ * Displays task search result card with owner, checklist progress, likes, and comments
  * Similar to ProjectSearchCard
  *
  * @author Thang Truong
@@ -9,17 +9,21 @@
 
 import StatusBadge from './StatusBadge'
 import { ProjectOwner } from '../types/project'
+import { ChecklistProgress } from '../types/checklist'
+import ChecklistProgressBadge from './ChecklistProgressBadge'
 
 interface TaskSearchCardProps {
   id: string
   title: string
   status: string
+  statusCategory?: string
   projectId: string
   description?: string | null
   owner: ProjectOwner | null
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  checklistProgress?: ChecklistProgress
   updatedAt: string
 }
 
@@ -35,12 +39,14 @@ const TaskSearchCard = ({
   id: _taskId,
   title,
   status,
+  statusCategory,
   projectId: _projectId,
   description,
   owner,
   likesCount,
   commentsCount,
   isLiked,
+  checklistProgress,
   updatedAt: _updatedAt,
 }: TaskSearchCardProps) => {
   void _taskId
@@ -54,7 +60,7 @@ const TaskSearchCard = ({
           {title}
         </h3>
         <div className="flex-shrink-0 scale-90 origin-top-right">
-          <StatusBadge status={status} type="task" />
+          <StatusBadge status={status} type="task" category={statusCategory} />
         </div>
       </div>
 
@@ -88,6 +94,7 @@ const TaskSearchCard = ({
             </div>
           </div>
           <div className="flex items-center gap-4 text-xs text-gray-600">
+            <ChecklistProgressBadge progress={checklistProgress} />
             <div className="flex items-center gap-1.5">
               <svg
                 className={`w-4 h-4 flex-shrink-0 transition-colors ${isLiked
@@ -0,0 +1,51 @@
+/**
+ * TaskTemplatePicker Component
+ * Select at the top of the create task form that pre-fills the form from a task template
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { TaskTemplate } from '../types/template'
+
+interface TaskTemplatePickerProps {
+  templates: TaskTemplate[]
+  selectedTemplateId: string
+  onSelect: (template: TaskTemplate | null) => void
+}
+
+/**
+ * TaskTemplatePicker Component
+ * Picking a template overwrites the title, description, priority, estimate, tags and checklist;
+ * everything stays editable before the task is created
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TaskTemplatePicker = ({ templates, selectedTemplateId, onSelect }: TaskTemplatePickerProps) => {
+  if (templates.length === 0) return null
+
+  return (
+    /* Task Template Picker */
+    <div className="mb-4">
+      <label htmlFor="task-template" className="block text-sm font-medium text-gray-700 mb-1">
+        Template
+      </label>
+      <select
+        id="task-template"
+        value={selectedTemplateId}
+        onChange={(e) => onSelect(templates.find((template) => template.id === e.target.value) || null)}
+        className="block w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">No template</option>
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+export default TaskTemplatePicker
@@ -0,0 +1,233 @@
+/**
+ * TaskTimerWidget Component
+ * Timer, manual time log and time totals of a task, shown in the task edit modal
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useAuth } from '../context/AuthContext'
+import { useToast } from '../hooks/useToast'
+import { RUNNING_TIMER_QUERY, TASK_TIME_ENTRIES_QUERY } from '../graphql/queries'
+import { DELETE_TIME_ENTRY_MUTATION, LOG_TIME_MUTATION, START_TIMER_MUTATION, STOP_TIMER_MUTATION } from '../graphql/mutations'
+import { TimeEntry } from '../types/timeEntry'
+import { formatElapsed, formatMinutes } from '../utils/timeTracking'
+
+interface TaskTimerWidgetProps {
+  taskId: string
+  estimateMinutes?: number | null
+}
+
+/**
+ * Number of entries listed below the timer
+ */
+const RECENT_ENTRY_COUNT = 5
+
+/**
+ * TaskTimerWidget Component
+ * Starting a timer here stops the user's timer on any other task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task whose time is tracked
+ * @param estimateMinutes - Planned effort the time spent is compared with
+ */
+const TaskTimerWidget = ({ taskId, estimateMinutes }: TaskTimerWidgetProps) => {
+  const { user } = useAuth()
+  const { showToast } = useToast()
+  const [minutes, setMinutes] = useState('')
+  const [note, setNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  const refetchQueries = [{ query: TASK_TIME_ENTRIES_QUERY, variables: { taskId } }, { query: RUNNING_TIMER_QUERY }]
+  const { data: entriesData } = useQuery<{ taskTimeEntries: TimeEntry[] }>(TASK_TIME_ENTRIES_QUERY, {
+    variables: { taskId },
+    fetchPolicy: 'cache-and-network',
+  })
+  const { data: runningData } = useQuery<{ runningTimer: TimeEntry | null }>(RUNNING_TIMER_QUERY, { fetchPolicy: 'cache-and-network' })
+  const [startTimer] = useMutation(START_TIMER_MUTATION, { refetchQueries, awaitRefetchQueries: true })
+  const [stopTimer] = useMutation(STOP_TIMER_MUTATION, { refetchQueries, awaitRefetchQueries: true })
+  const [logTime] = useMutation(LOG_TIME_MUTATION, { refetchQueries, awaitRefetchQueries: true })
+  const [deleteTimeEntry] = useMutation(DELETE_TIME_ENTRY_MUTATION, { refetchQueries, awaitRefetchQueries: true })
+
+  const entries = useMemo(() => entriesData?.taskTimeEntries || [], [entriesData])
+  const runningTimer = runningData?.runningTimer || null
+  const isRunningHere = runningTimer?.taskId === taskId
+  const spentMinutes = entries.reduce((sum, entry) => sum + (entry.isRunning ? 0 : entry.durationMinutes), 0)
+  const spentPercent = estimateMinutes ? Math.min(100, Math.round((spentMinutes / estimateMinutes) * 100)) : 0
+
+  /**
+   * Tick every second while a timer runs on this task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!isRunningHere) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isRunningHere])
+
+  /**
+   * Run a time change and report the outcome
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const runChange = async (change: () => Promise<unknown>, successMessage: string): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      await change()
+      await showToast(successMessage, 'success', 7000)
+      return true
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update time'
+      await showToast(message, 'error', 7000)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Start a timer on this task or stop the one running here
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggleTimer = async () => {
+    if (isRunningHere) {
+      await runChange(() => stopTimer(), 'Timer stopped')
+      return
+    }
+    setNow(Date.now())
+    await runChange(() => startTimer({ variables: { taskId } }), 'Timer started')
+  }
+
+  /**
+   * Log the typed minutes without a timer
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleLogTime = async () => {
+    const value = Number(minutes)
+    if (!Number.isInteger(value) || value < 1) {
+      await showToast('Enter the minutes spent as a whole number', 'info', 7000)
+      return
+    }
+    const saved = await runChange(
+      () => logTime({ variables: { input: { taskId, minutes: value, note: note.trim() || null } } }),
+      'Time logged'
+    )
+    if (saved) {
+      setMinutes('')
+      setNote('')
+    }
+  }
+
+  return (
+    /* Task Time Tracking Section */
+    <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-700">Time tracking</p>
+        <p className="text-xs text-gray-500">
+          {estimateMinutes
+            ? `${formatMinutes(spentMinutes)} of ${formatMinutes(estimateMinutes)} estimated`
+            : `${formatMinutes(spentMinutes)} spent`}
+        </p>
+      </div>
+      {estimateMinutes ? (
+        <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${spentMinutes > estimateMinutes ? 'bg-red-500' : 'bg-blue-500'}`}
+            style={{ width: `${spentPercent}%` }}
+          />
+        </div>
+      ) : null}
+
+      {/* Timer */}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleToggleTimer}
+          disabled={isSaving}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${
+            isRunningHere ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {isRunningHere ? 'Stop timer' : 'Start timer'}
+        </button>
+        {isRunningHere && runningTimer && (
+          <span className="font-mono text-sm text-gray-800">
+            {formatElapsed((now - new Date(runningTimer.startedAt).getTime()) / 1000)}
+          </span>
+        )}
+        {!isRunningHere && runningTimer && (
+          <span className="text-xs text-gray-500 truncate">{`Stops your timer on "${runningTimer.taskTitle}"`}</span>
+        )}
+      </div>
+
+      {/* Manual log */}
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={1}
+          value={minutes}
+          onChange={(e) => setMinutes(e.target.value)}
+          placeholder="Minutes"
+          className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Minutes spent"
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          maxLength={500}
+          className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Time entry note"
+        />
+        <button
+          type="button"
+          onClick={handleLogTime}
+          disabled={!minutes || isSaving}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Log
+        </button>
+      </div>
+
+      {/* Recent entries */}
+      {entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.slice(0, RECENT_ENTRY_COUNT).map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              <span className="truncate">
+                {`${entry.userName} · ${new Date(entry.startedAt).toLocaleDateString()}${entry.note ? ` · ${entry.note}` : ''}`}
+              </span>
+              <span className="flex items-center gap-2 flex-shrink-0">
+                <span className="font-medium text-gray-800">{entry.isRunning ? 'Running' : formatMinutes(entry.durationMinutes)}</span>
+                {user?.id === entry.userId && !entry.isRunning && (
+                  <button
+                    type="button"
+                    onClick={() => runChange(() => deleteTimeEntry({ variables: { id: entry.id } }), 'Time entry removed')}
+                    disabled={isSaving}
+                    className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default TaskTimerWidget
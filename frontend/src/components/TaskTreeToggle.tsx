@@ -0,0 +1,47 @@
+/**
+ * TaskTreeToggle Component
+ * Indentation and expand/collapse control for a task shown in a task tree
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+interface TaskTreeToggleProps {
+  depth: number
+  childCount: number
+  isCollapsed: boolean
+  onToggle: () => void
+}
+
+/**
+ * TaskTreeToggle - Indents by depth; tasks without subtasks get a spacer so titles line up
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TaskTreeToggle = ({ depth, childCount, isCollapsed, onToggle }: TaskTreeToggleProps) => {
+  return (
+    <span className="inline-flex items-center flex-shrink-0" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+      {childCount > 0 ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onToggle()
+          }}
+          className="p-0.5 rounded text-gray-500 hover:bg-gray-200 hover:text-gray-700 transition-colors"
+          aria-label={isCollapsed ? `Show ${childCount} subtasks` : `Hide ${childCount} subtasks`}
+          aria-expanded={!isCollapsed}
+        >
+          <svg className={`w-4 h-4 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      ) : (
+        <span className="w-5" />
+      )}
+    </span>
+  )
+}
+
+export default TaskTreeToggle
@@ -0,0 +1,90 @@
+/**
+ * TaskWatchButton Component
+ * Eye toggle that makes the signed-in user watch or stop watching a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation } from '@apollo/client'
+import { useAuth } from '../context/AuthContext'
+import { useToast } from '../hooks/useToast'
+import { PROJECT_QUERY } from '../graphql/queries'
+import { UNWATCH_TASK_MUTATION, WATCH_TASK_MUTATION } from '../graphql/mutations'
+
+interface TaskWatchButtonProps {
+  taskId: string
+  projectId: string
+  taskTitle: string
+  isWatching: boolean
+}
+
+/**
+ * TaskWatchButton - Watchers get notified when the task's status, assignee or due date changes, or when it is liked
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TaskWatchButton = ({ taskId, projectId, taskTitle, isWatching }: TaskWatchButtonProps) => {
+  const { isAuthenticated } = useAuth()
+  const { showToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+  const mutationOptions = { refetchQueries: [{ query: PROJECT_QUERY, variables: { id: projectId } }], awaitRefetchQueries: true }
+  const [watchTask] = useMutation(WATCH_TASK_MUTATION, mutationOptions)
+  const [unwatchTask] = useMutation(UNWATCH_TASK_MUTATION, mutationOptions)
+
+  /**
+   * Flip the watch state of the task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggle = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (!isAuthenticated) {
+      await showToast('Please log in to watch tasks.', 'info', 5000)
+      return
+    }
+    setIsSaving(true)
+    try {
+      if (isWatching) {
+        await unwatchTask({ variables: { taskId } })
+        await showToast(`You stopped watching "${taskTitle}"`, 'success', 7000)
+      } else {
+        await watchTask({ variables: { taskId } })
+        await showToast(`You are now watching "${taskTitle}"`, 'success', 7000)
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update watch status'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={isSaving}
+      className={`flex items-center gap-1 text-xs transition-colors disabled:opacity-50 ${isWatching ? 'text-blue-600 hover:text-blue-700' : 'text-gray-500 hover:text-blue-600'}`}
+      aria-pressed={isWatching}
+      aria-label={`${isWatching ? 'Unwatch' : 'Watch'} task ${taskTitle}`}
+    >
+      <svg className="w-4 h-4 flex-shrink-0" fill={isWatching ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          fill="none"
+          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+        />
+      </svg>
+      <span className="font-medium">{isWatching ? 'Watching' : 'Watch'}</span>
+    </button>
+  )
+}
+
+export default TaskWatchButton
@@ -0,0 +1,99 @@
+/**
+ * TaskWatchersPanel Component
+ * Lists who watches a task and lets the signed-in user watch or stop watching it
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useAuth } from '../context/AuthContext'
+import { useToast } from '../hooks/useToast'
+import { TASK_WATCHERS_QUERY, TASKS_QUERY } from '../graphql/queries'
+import { UNWATCH_TASK_MUTATION, WATCH_TASK_MUTATION } from '../graphql/mutations'
+import { TaskWatcher } from '../types/watcher'
+
+interface TaskWatchersPanelProps {
+  taskId: string
+}
+
+/**
+ * TaskWatchersPanel Component
+ * Creators and assignees watch a task automatically; watchers of its project are notified too but are not listed
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param taskId - Task whose watchers are shown
+ */
+const TaskWatchersPanel = ({ taskId }: TaskWatchersPanelProps) => {
+  const { user } = useAuth()
+  const { showToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data, refetch } = useQuery<{ taskWatchers: TaskWatcher[] }>(TASK_WATCHERS_QUERY, {
+    variables: { taskId },
+    fetchPolicy: 'cache-and-network',
+  })
+  const mutationOptions = { refetchQueries: [{ query: TASKS_QUERY }] }
+  const [watchTask] = useMutation(WATCH_TASK_MUTATION, mutationOptions)
+  const [unwatchTask] = useMutation(UNWATCH_TASK_MUTATION, mutationOptions)
+  const watchers = data?.taskWatchers || []
+  const isWatching = Boolean(user && watchers.some((watcher) => watcher.id === user.id))
+
+  /**
+   * Watch or stop watching the task and reload the watcher list
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggle = async () => {
+    setIsSaving(true)
+    try {
+      if (isWatching) await unwatchTask({ variables: { taskId } })
+      else await watchTask({ variables: { taskId } })
+      await refetch()
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update watch status'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    /* Task Watchers Section */
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-medium text-gray-700">Watchers</p>
+        {user && (
+          <button
+            type="button"
+            onClick={handleToggle}
+            disabled={isSaving}
+            className="text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          >
+            {isWatching ? 'Stop watching' : 'Watch this task'}
+          </button>
+        )}
+      </div>
+      {watchers.length === 0 ? (
+        <p className="text-xs text-gray-500">Nobody watches this task.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {watchers.map((watcher) => (
+            <span
+              key={watcher.id}
+              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+              title={watcher.email}
+            >
+              {watcher.firstName} {watcher.lastName}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TaskWatchersPanel
@@ -2,15 +2,19 @@
  * TasksTable Component
  * Displays tasks in a sortable table with responsive layouts
  * Delegates to desktop, tablet, and mobile sub-components
+ * Subtasks are nested below their parent and can be collapsed
  *
  * @author Thang Truong
  * @date 2025-11-26
  */
 
+import { useMemo, useState } from 'react'
 import TasksTableDesktop from './TasksTableDesktop'
 import TasksTableMobile from './TasksTableMobile'
 import TasksTableTablet from './TasksTableTablet'
 import TasksTableLoading from './TasksTableLoading'
+import { buildTaskTreeRows } from '../utils/taskTree'
+import { ChecklistProgress } from '../types/checklist'
 
 interface Task {
   id: string
@@ -18,10 +22,14 @@ interface Task {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  progress?: number
+  checklistProgress?: ChecklistProgress
   createdAt: string
   updatedAt: string
 }
@@ -55,6 +63,24 @@ interface TasksTableProps {
  * @returns JSX element containing responsive tasks table
  */
 const TasksTable = ({ tasks, sortField, sortDirection, onSort, onEdit, onDelete, isLoading = false }: TasksTableProps) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const rows = useMemo(() => buildTaskTreeRows(tasks, collapsedIds), [tasks, collapsedIds])
+
+  /**
+   * Expand or collapse the subtasks of a task
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggle = (taskId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(taskId)) next.delete(taskId)
+      else next.add(taskId)
+      return next
+    })
+  }
+
   /**
    * Get sort icon for column header
    *
@@ -101,14 +127,14 @@ const TasksTable = ({ tasks, sortField, sortDirection, onSort, onEdit, onDelete,
     /* Responsive Tasks Table Container */
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
       {/* Desktop Table View */}
-      <TasksTableDesktop tasks={tasks} onSort={onSort} onEdit={onEdit} onDelete={onDelete} getSortIcon={getSortIcon} />
+      <TasksTableDesktop rows={rows} collapsedIds={collapsedIds} onToggle={handleToggle} onSort={onSort} onEdit={onEdit} onDelete={onDelete} getSortIcon={getSortIcon} />
       {/* Tablet Table View */}
       <div className="hidden md:block lg:hidden">
-        <TasksTableTablet tasks={tasks} sortField={sortField} sortDirection={sortDirection} onSort={onSort} onEdit={onEdit} onDelete={onDelete} getSortIcon={getSortIcon} />
+        <TasksTableTablet rows={rows} collapsedIds={collapsedIds} onToggle={handleToggle} sortField={sortField} sortDirection={sortDirection} onSort={onSort} onEdit={onEdit} onDelete={onDelete} getSortIcon={getSortIcon} />
       </div>
       {/* Mobile Card View */}
       <div className="md:hidden">
-        <TasksTableMobile tasks={tasks} onEdit={onEdit} onDelete={onDelete} />
+        <TasksTableMobile rows={rows} collapsedIds={collapsedIds} onToggle={handleToggle} onEdit={onEdit} onDelete={onDelete} />
       </div>
     </div>
   )
@@ -8,6 +8,10 @@
 
 import React from 'react'
 import { formatDateToMelbourne, getStatusBadge, getStatusLabel, getPriorityBadge, getPriorityLabel } from '../utils/taskUtils'
+import { TaskTreeRow } from '../utils/taskTree'
+import TaskTreeToggle from './TaskTreeToggle'
+import ChecklistProgressBadge from './ChecklistProgressBadge'
+import { ChecklistProgress } from '../types/checklist'
 
 interface Task {
   id: string
@@ -15,10 +19,14 @@ interface Task {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  progress?: number
+  checklistProgress?: ChecklistProgress
   createdAt: string
   updatedAt: string
 }
@@ -26,7 +34,9 @@ interface Task {
 type SortField = 'id' | 'title' | 'status' | 'priority' | 'projectId' | 'createdAt' | 'updatedAt'
 
 interface TasksTableDesktopProps {
-  tasks: Task[]
+  rows: TaskTreeRow<Task>[]
+  collapsedIds: Set<string>
+  onToggle: (taskId: string) => void
   onSort: (field: SortField) => void
   onEdit: (taskId: string) => void
   onDelete: (taskId: string) => void
@@ -39,14 +49,16 @@ interface TasksTableDesktopProps {
  *
  * @author Thang Truong
  * @date 2025-11-27
- * @param tasks - Array of task objects to display
+ * @param rows - Task rows in tree order with depth and subtask count
+ * @param collapsedIds - IDs of tasks whose subtasks are hidden
+ * @param onToggle - Callback to expand or collapse a task's subtasks
  * @param onSort - Callback when column header is clicked
  * @param onEdit - Callback when edit button is clicked
  * @param onDelete - Callback when delete button is clicked
  * @param getSortIcon - Function to get sort icon for columns
  * @returns JSX element containing desktop table view
  */
-const TasksTableDesktop: React.FC<TasksTableDesktopProps> = ({ tasks, onSort, onEdit, onDelete, getSortIcon }) => {
+const TasksTableDesktop: React.FC<TasksTableDesktopProps> = ({ rows, collapsedIds, onToggle, onSort, onEdit, onDelete, getSortIcon }) => {
   const sortableColumns: Array<{ field: SortField; label: string }> = [
     { field: 'id', label: 'ID' },
     { field: 'title', label: 'Title' },
@@ -84,14 +96,21 @@ const TasksTableDesktop: React.FC<TasksTableDesktopProps> = ({ tasks, onSort, on
         </thead>
         {/* Table Body with Task Data Rows */}
         <tbody className="bg-white divide-y divide-gray-200">
-          {tasks.map((task) => (
+          {rows.map(({ task, depth, childCount }) => (
             <tr key={task.id} className="hover:bg-gray-100 transition-colors">
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{task.id}</td>
-              <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{task.title}</td>
+              <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                <div className="flex items-center gap-1">
+                  <TaskTreeToggle depth={depth} childCount={childCount} isCollapsed={collapsedIds.has(task.id)} onToggle={() => onToggle(task.id)} />
+                  <span>{task.title}</span>
+                  {childCount > 0 && <span className="ml-1 text-xs font-normal text-gray-500">{task.progress ?? 0}%</span>}
+                  <span className="ml-1"><ChecklistProgressBadge progress={task.checklistProgress} /></span>
+                </div>
+              </td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm text-gray-700">{task.projectId}</td>
               <td className="px-4 xl:px-6 py-4 text-sm text-gray-700 max-w-xs"><div className="truncate">{task.description}</div></td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap">
-                <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status)}`}>{getStatusLabel(task.status)}</span>
+                <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status, task.statusCategory)}`}>{getStatusLabel(task.status)}</span>
               </td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap">
                 <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getPriorityBadge(task.priority)}`}>{getPriorityLabel(task.priority)}</span>
@@ -7,6 +7,10 @@
  */
 
 import { formatDateToMelbourne, getStatusBadge, getStatusLabel, getPriorityBadge, getPriorityLabel } from '../utils/taskUtils'
+import { TaskTreeRow } from '../utils/taskTree'
+import TaskTreeToggle from './TaskTreeToggle'
+import ChecklistProgressBadge from './ChecklistProgressBadge'
+import { ChecklistProgress } from '../types/checklist'
 
 interface Task {
   id: string
@@ -14,16 +18,22 @@ interface Task {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  progress?: number
+  checklistProgress?: ChecklistProgress
   createdAt: string
   updatedAt: string
 }
 
 interface TasksTableMobileProps {
-  tasks: Task[]
+  rows: TaskTreeRow<Task>[]
+  collapsedIds: Set<string>
+  onToggle: (taskId: string) => void
   onEdit: (taskId: string) => void
   onDelete: (taskId: string) => void
 }
@@ -32,24 +42,31 @@ interface TasksTableMobileProps {
  * TasksTableMobile Component
  * Renders tasks as cards for mobile devices
  *
- * @param tasks - Array of task objects to display
+ * @param rows - Task rows in tree order with depth and subtask count
+ * @param collapsedIds - IDs of tasks whose subtasks are hidden
+ * @param onToggle - Callback to expand or collapse a task's subtasks
  * @param onEdit - Callback function when edit button is clicked
  * @param onDelete - Callback function when delete button is clicked
  * @returns JSX element containing mobile card view
  */
-const TasksTableMobile = ({ tasks, onEdit, onDelete }: TasksTableMobileProps) => {
+const TasksTableMobile = ({ rows, collapsedIds, onToggle, onEdit, onDelete }: TasksTableMobileProps) => {
   return (
     <div className="space-y-3 p-3">
-      {tasks.map((task) => (
-        <div key={task.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      {rows.map(({ task, depth, childCount }) => (
+        <div key={task.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200" style={{ marginLeft: `${depth * 1}rem` }}>
           <div className="flex items-start justify-between mb-3">
+            <TaskTreeToggle depth={0} childCount={childCount} isCollapsed={collapsedIds.has(task.id)} onToggle={() => onToggle(task.id)} />
             <div className="flex-1 min-w-0">
-              <h3 className="text-sm font-semibold text-gray-900 truncate">{task.title}</h3>
+              <h3 className="text-sm font-semibold text-gray-900 truncate">
+                {task.title}
+                {childCount > 0 && <span className="ml-1 text-xs font-normal text-gray-500">{task.progress ?? 0}%</span>}
+                <span className="ml-1"><ChecklistProgressBadge progress={task.checklistProgress} /></span>
+              </h3>
               <p className="text-xs text-gray-600 mt-1 line-clamp-2">{task.description}</p>
             </div>
           </div>
           <div className="flex flex-wrap gap-2 mb-3">
-            <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status)}`}>
+            <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status, task.statusCategory)}`}>
               {getStatusLabel(task.status)}
             </span>
             <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getPriorityBadge(task.priority)}`}>
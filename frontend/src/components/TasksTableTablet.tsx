@@ -7,6 +7,10 @@
  */
 
 import { getStatusBadge, getStatusLabel, getPriorityBadge, getPriorityLabel } from '../utils/taskUtils'
+import { TaskTreeRow } from '../utils/taskTree'
+import TaskTreeToggle from './TaskTreeToggle'
+import ChecklistProgressBadge from './ChecklistProgressBadge'
+import { ChecklistProgress } from '../types/checklist'
 
 interface Task {
   id: string
@@ -14,10 +18,14 @@ interface Task {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  progress?: number
+  checklistProgress?: ChecklistProgress
   createdAt: string
   updatedAt: string
 }
@@ -26,7 +34,9 @@ type SortField = 'id' | 'title' | 'status' | 'priority' | 'projectId' | 'created
 type SortDirection = 'ASC' | 'DESC'
 
 interface TasksTableTabletProps {
-  tasks: Task[]
+  rows: TaskTreeRow<Task>[]
+  collapsedIds: Set<string>
+  onToggle: (taskId: string) => void
   sortField: SortField
   sortDirection: SortDirection
   onSort: (field: SortField) => void
@@ -39,7 +49,9 @@ interface TasksTableTabletProps {
  * TasksTableTablet Component
  * Renders tasks table for tablet devices with simplified columns
  *
- * @param tasks - Array of task objects to display
+ * @param rows - Task rows in tree order with depth and subtask count
+ * @param collapsedIds - IDs of tasks whose subtasks are hidden
+ * @param onToggle - Callback to expand or collapse a task's subtasks
  * @param sortField - Currently active sort field
  * @param sortDirection - Current sort direction (ASC or DESC)
  * @param onSort - Callback function when column header is clicked
@@ -49,7 +61,9 @@ interface TasksTableTabletProps {
  * @returns JSX element containing tablet table view
  */
 const TasksTableTablet = ({
-  tasks,
+  rows,
+  collapsedIds,
+  onToggle,
   sortField: _sortField,
   sortDirection: _sortDirection,
   onSort,
@@ -107,15 +121,24 @@ const TasksTableTablet = ({
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {tasks.map((task) => (
+          {rows.map(({ task, depth, childCount }) => (
             <tr key={task.id} className="hover:bg-gray-100 transition-colors">
               <td className="px-4 py-4">
-                <div className="text-sm font-medium text-gray-900">{task.title}</div>
-                <div className="text-xs text-gray-500 mt-1 line-clamp-1">{task.description}</div>
+                <div className="flex items-start gap-1">
+                  <TaskTreeToggle depth={depth} childCount={childCount} isCollapsed={collapsedIds.has(task.id)} onToggle={() => onToggle(task.id)} />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {task.title}
+                      {childCount > 0 && <span className="ml-1 text-xs font-normal text-gray-500">{task.progress ?? 0}%</span>}
+                      <span className="ml-1"><ChecklistProgressBadge progress={task.checklistProgress} /></span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1 line-clamp-1">{task.description}</div>
+                  </div>
+                </div>
               </td>
               <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700">{task.projectId}</td>
               <td className="px-4 py-4 whitespace-nowrap">
-                <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status)}`}>
+                <span className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full ${getStatusBadge(task.status, task.statusCategory)}`}>
                   {getStatusLabel(task.status)}
                 </span>
               </td>
@@ -0,0 +1,93 @@
+/**
+ * TrashItemList Component
+ * Lists deleted items with restore and permanent delete actions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { TrashItem } from '../types/trash'
+import { formatDateToMelbourne } from '../utils/taskUtils'
+
+interface TrashItemListProps {
+  items: TrashItem[]
+  isLoading: boolean
+  isBusy: boolean
+  onRestore: (item: TrashItem) => Promise<void>
+  onPurge: (item: TrashItem) => Promise<void>
+}
+
+/**
+ * TrashItemList - One row per item; permanent delete asks for a second click
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TrashItemList = ({ items, isLoading, isBusy, onRestore, onPurge }: TrashItemListProps) => {
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  /**
+   * Purge on the second click, arm the confirmation on the first
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handlePurgeClick = async (item: TrashItem) => {
+    if (confirmingId !== item.id) {
+      setConfirmingId(item.id)
+      return
+    }
+    setConfirmingId(null)
+    await onPurge(item)
+  }
+
+  if (isLoading && items.length === 0) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((row) => (
+          <div key={row} className="h-16 bg-gray-100 rounded animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">Nothing in the trash.</p>
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {items.map((item) => (
+        <div key={item.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 truncate">{item.title}</p>
+            <p className="text-xs text-gray-500">
+              {item.details ? `${item.details} · ` : ''}
+              {item.projectName ? `${item.projectName} · ` : ''}
+              {`deleted ${formatDateToMelbourne(item.deletedAt)}`}
+              {item.purgeAt ? ` · purged after ${formatDateToMelbourne(item.purgeAt)}` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={() => onRestore(item)}
+              disabled={isBusy}
+              className="px-3 py-1 bg-blue-100 text-blue-700 rounded-md text-xs font-medium hover:bg-blue-200 disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => handlePurgeClick(item)}
+              onBlur={() => setConfirmingId(null)}
+              disabled={isBusy}
+              className="px-3 py-1 bg-red-200 text-red-700 rounded-md text-xs font-medium hover:bg-red-100 disabled:opacity-50"
+            >
+              {confirmingId === item.id ? 'Click again to delete forever' : 'Delete forever'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default TrashItemList
@@ -0,0 +1,136 @@
+/**
+ * TwoFactorEnrollmentSetup Component
+ * Guides the user through TOTP enrollment: QR code, first code, recovery codes
+ * Used from the login step (with a challenge token) and from profile settings
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation } from '@apollo/client'
+import QRCode from 'qrcode'
+import { BEGIN_TWO_FACTOR_ENROLLMENT_MUTATION, CONFIRM_TWO_FACTOR_ENROLLMENT_MUTATION } from '../graphql/auth'
+import TwoFactorRecoveryCodes from './TwoFactorRecoveryCodes'
+import { TwoFactorEnrollmentResult } from '../types/twoFactor'
+
+interface TwoFactorEnrollmentSetupProps {
+  challengeToken?: string
+  onComplete: (result: TwoFactorEnrollmentResult) => Promise<void> | void
+  onCancel?: () => void
+}
+
+/**
+ * TwoFactorEnrollmentSetup - Enrollment wizard
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TwoFactorEnrollmentSetup = ({ challengeToken, onComplete, onCancel }: TwoFactorEnrollmentSetupProps) => {
+  const [secret, setSecret] = useState('')
+  const [qrCodeUrl, setQrCodeUrl] = useState('')
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [result, setResult] = useState<TwoFactorEnrollmentResult | null>(null)
+  const [beginEnrollment, { loading: isStarting }] = useMutation(BEGIN_TWO_FACTOR_ENROLLMENT_MUTATION)
+  const [confirmEnrollment, { loading: isConfirming }] = useMutation(CONFIRM_TWO_FACTOR_ENROLLMENT_MUTATION)
+
+  /** Start enrollment and render the otpauth URI as a QR code - @author Thang Truong @date 2025-12-10 */
+  useEffect(() => {
+    const startEnrollment = async () => {
+      try {
+        const response = await beginEnrollment({ variables: { challengeToken: challengeToken || null } })
+        const enrollment = response.data?.beginTwoFactorEnrollment
+        if (!enrollment) return
+        setSecret(enrollment.secret)
+        setQrCodeUrl(await QRCode.toDataURL(enrollment.otpauthUri, { width: 192, margin: 1 }))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to start two-factor setup')
+      }
+    }
+    startEnrollment()
+  }, [beginEnrollment, challengeToken])
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError('Enter the 6-digit code from your authenticator app')
+      return
+    }
+    try {
+      const response = await confirmEnrollment({ variables: { code: code.trim(), challengeToken: challengeToken || null } })
+      if (response.data?.confirmTwoFactorEnrollment) setResult(response.data.confirmTwoFactorEnrollment)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code')
+    }
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <TwoFactorRecoveryCodes codes={result.recoveryCodes} />
+        <button
+          type="button"
+          onClick={() => onComplete(result)}
+          className="w-full py-2.5 px-4 rounded-lg text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700"
+        >
+          I saved my recovery codes
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleConfirm}>
+      <p className="text-sm text-gray-600">
+        Scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the 6-digit code it shows.
+      </p>
+      {/* QR code and manual secret */}
+      <div className="flex flex-col items-center gap-2">
+        {isStarting || !qrCodeUrl ? (
+          <div className="w-48 h-48 bg-gray-200 rounded animate-pulse" />
+        ) : (
+          <img src={qrCodeUrl} alt="Two-factor authentication QR code" className="w-48 h-48" />
+        )}
+        {secret && (
+          <p className="text-xs text-gray-500 text-center">
+            Can&apos;t scan? Enter this key: <span className="font-mono break-all text-gray-800">{secret}</span>
+          </p>
+        )}
+      </div>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="123456"
+        className="block w-full px-3 py-2.5 border border-gray-300 rounded-lg text-center tracking-widest font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Authentication code"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="flex-1 py-2.5 px-4 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isConfirming || !secret}
+          className="flex-1 py-2.5 px-4 rounded-lg text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isConfirming ? 'Verifying...' : 'Verify and enable'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default TwoFactorEnrollmentSetup
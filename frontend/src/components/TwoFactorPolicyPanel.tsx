@@ -0,0 +1,90 @@
+/**
+ * TwoFactorPolicyPanel Component
+ * Admin panel on the Users page to require two-factor authentication per role
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery, useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { TWO_FACTOR_POLICIES_QUERY, SET_TWO_FACTOR_POLICY_MUTATION } from '../graphql/auth'
+import { TwoFactorPolicy } from '../types/twoFactor'
+
+/**
+ * TwoFactorPolicyPanel - Collapsible role policy toggles
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TwoFactorPolicyPanel = () => {
+  const { showToast } = useToast()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { data, loading } = useQuery<{ twoFactorPolicies: TwoFactorPolicy[] }>(TWO_FACTOR_POLICIES_QUERY, {
+    fetchPolicy: 'cache-and-network',
+  })
+  const [setTwoFactorPolicy, { loading: isSaving }] = useMutation(SET_TWO_FACTOR_POLICY_MUTATION, {
+    refetchQueries: [{ query: TWO_FACTOR_POLICIES_QUERY }],
+  })
+  const policies = data?.twoFactorPolicies || []
+  const requiredRoles = policies.filter((policy) => policy.required).map((policy) => policy.role)
+
+  /**
+   * Toggle whether a role must use 2FA
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleToggle = async (policy: TwoFactorPolicy) => {
+    try {
+      await setTwoFactorPolicy({ variables: { role: policy.role, required: !policy.required } })
+      await showToast(
+        `Two-factor authentication ${policy.required ? 'is no longer required' : 'is now required'} for ${policy.role}`,
+        'success',
+        7000
+      )
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to update two-factor policy', 'error', 7000)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 mb-3 sm:mb-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isExpanded}
+      >
+        <div>
+          <p className="text-sm font-semibold text-gray-900">Two-factor policy</p>
+          <p className="text-xs text-gray-500">
+            {requiredRoles.length > 0 ? `Required for: ${requiredRoles.join(', ')}` : 'Not required for any role'}
+          </p>
+        </div>
+        <svg className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {loading && policies.length === 0 && <div className="h-10 bg-gray-100 rounded animate-pulse" />}
+          {policies.map((policy) => (
+            <label key={policy.role} className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700">
+              <span>{policy.role}</span>
+              <input
+                type="checkbox"
+                checked={policy.required}
+                disabled={isSaving}
+                onChange={() => handleToggle(policy)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TwoFactorPolicyPanel
@@ -0,0 +1,51 @@
+/**
+ * TwoFactorRecoveryCodes Component
+ * Shows one-time recovery codes right after they are generated
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useToast } from '../hooks/useToast'
+
+interface TwoFactorRecoveryCodesProps {
+  codes: string[]
+}
+
+/**
+ * TwoFactorRecoveryCodes - Recovery code grid with copy action
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TwoFactorRecoveryCodes = ({ codes }: TwoFactorRecoveryCodesProps) => {
+  const { showToast } = useToast()
+
+  /** Copy all codes to clipboard - @author Thang Truong @date 2025-12-10 */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'))
+      await showToast('Recovery codes copied to clipboard', 'success', 7000)
+    } catch {
+      await showToast('Failed to copy recovery codes', 'error', 7000)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <p className="text-sm font-semibold text-amber-900 mb-1">Save your recovery codes</p>
+      <p className="text-xs text-amber-800 mb-3">
+        Each code can be used once to sign in if you lose access to your authenticator app. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 mb-3">
+        {codes.map((code) => (
+          <li key={code} className="font-mono text-sm text-gray-900 bg-white rounded px-2 py-1 text-center">{code}</li>
+        ))}
+      </ul>
+      <button type="button" onClick={handleCopy} className="text-xs font-medium text-amber-900 hover:underline">
+        Copy codes
+      </button>
+    </div>
+  )
+}
+
+export default TwoFactorRecoveryCodes
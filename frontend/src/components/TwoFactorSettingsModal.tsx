@@ -0,0 +1,194 @@
+/**
+ * TwoFactorSettingsModal Component
+ * Profile settings for two-factor authentication: enable, disable and regenerate recovery codes
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useState } from 'react'
+import { useQuery, useMutation } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import {
+  TWO_FACTOR_STATUS_QUERY,
+  DISABLE_TWO_FACTOR_MUTATION,
+  REGENERATE_TWO_FACTOR_RECOVERY_CODES_MUTATION,
+} from '../graphql/auth'
+import TwoFactorEnrollmentSetup from './TwoFactorEnrollmentSetup'
+import TwoFactorRecoveryCodes from './TwoFactorRecoveryCodes'
+import { TwoFactorStatus } from '../types/twoFactor'
+
+interface TwoFactorSettingsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * TwoFactorSettingsModal - 2FA status and actions for the current user
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const TwoFactorSettingsModal = ({ isOpen, onClose }: TwoFactorSettingsModalProps) => {
+  const { showToast } = useToast()
+  const [isEnrolling, setIsEnrolling] = useState(false)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null)
+  const { data, loading, refetch } = useQuery<{ twoFactorStatus: TwoFactorStatus }>(TWO_FACTOR_STATUS_QUERY, {
+    skip: !isOpen,
+    fetchPolicy: 'network-only',
+  })
+  const [disableTwoFactor, { loading: isDisabling }] = useMutation(DISABLE_TWO_FACTOR_MUTATION)
+  const [regenerateCodes, { loading: isRegenerating }] = useMutation(REGENERATE_TWO_FACTOR_RECOVERY_CODES_MUTATION)
+  const status = data?.twoFactorStatus
+
+  /**
+   * Close modal and reset local state
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleClose = () => {
+    setIsEnrolling(false)
+    setPassword('')
+    setCode('')
+    setNewRecoveryCodes(null)
+    onClose()
+  }
+
+  /**
+   * Finish enrollment started from settings
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleEnrolled = async () => {
+    setIsEnrolling(false)
+    await showToast('Two-factor authentication enabled', 'success', 7000)
+    await refetch()
+  }
+
+  /**
+   * Disable 2FA after password confirmation
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDisable = async () => {
+    try {
+      await disableTwoFactor({ variables: { password } })
+      setPassword('')
+      await showToast('Two-factor authentication disabled', 'info', 7000)
+      await refetch()
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to disable two-factor authentication', 'error', 7000)
+    }
+  }
+
+  /**
+   * Regenerate recovery codes with a current authenticator code
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRegenerate = async () => {
+    try {
+      const result = await regenerateCodes({ variables: { code: code.trim() } })
+      setCode('')
+      setNewRecoveryCodes(result.data?.regenerateTwoFactorRecoveryCodes || [])
+      await refetch()
+    } catch (error: unknown) {
+      await showToast(error instanceof Error ? error.message : 'Failed to regenerate recovery codes', 'error', 7000)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Two-factor authentication</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {loading || !status ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse" />
+          ) : isEnrolling ? (
+            <TwoFactorEnrollmentSetup onComplete={handleEnrolled} onCancel={() => setIsEnrolling(false)} />
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">Status</span>
+                <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                  {status.enabled ? 'Enabled' : 'Disabled'}
+                </span>
+              </div>
+              {status.required && (
+                <p className="text-xs text-blue-800 bg-blue-50 rounded p-2">Two-factor authentication is required for your role.</p>
+              )}
+
+              {!status.enabled && (
+                <button onClick={() => setIsEnrolling(true)} className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700">
+                  Enable two-factor authentication
+                </button>
+              )}
+
+              {status.enabled && (
+                <>
+                  {/* Recovery codes */}
+                  <div className="border-t border-gray-200 pt-4 space-y-2">
+                    <p className="text-sm text-gray-700">Recovery codes remaining: <span className="font-semibold">{status.recoveryCodesRemaining}</span></p>
+                    {newRecoveryCodes ? (
+                      <TwoFactorRecoveryCodes codes={newRecoveryCodes} />
+                    ) : (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          maxLength={6}
+                          value={code}
+                          onChange={(e) => setCode(e.target.value)}
+                          placeholder="Authenticator code"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button onClick={handleRegenerate} disabled={isRegenerating || !code.trim()} className="px-3 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50">
+                          New codes
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Disable */}
+                  {!status.required && (
+                    <div className="border-t border-gray-200 pt-4 space-y-2">
+                      <p className="text-sm text-gray-700">Confirm your password to turn off two-factor authentication.</p>
+                      <div className="flex gap-2">
+                        <input
+                          type="password"
+                          autoComplete="current-password"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          placeholder="Password"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button onClick={handleDisable} disabled={isDisabling || !password} className="px-3 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50">
+                          Disable
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TwoFactorSettingsModal
@@ -0,0 +1,44 @@
+/**
+ * UserLockStatus Component
+ * Locked badge and admin unlock button for users locked out after failed logins
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+interface UserLockStatusProps {
+  userId: string
+  lockedUntil?: string | null
+  onUnlock?: (userId: string) => void
+}
+
+/**
+ * UserLockStatus - Renders nothing unless the account is currently locked
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const UserLockStatus = ({ userId, lockedUntil, onUnlock }: UserLockStatusProps) => {
+  if (!lockedUntil || new Date(lockedUntil).getTime() <= Date.now()) return null
+
+  return (
+    <span className="inline-flex items-center gap-1 flex-shrink-0">
+      <span
+        className="px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full bg-red-100 text-red-800"
+        title={`Locked until ${new Date(lockedUntil).toLocaleString()}`}
+      >
+        Locked
+      </span>
+      {onUnlock && (
+        <button
+          onClick={() => onUnlock(userId)}
+          className="px-2 py-1 text-xs font-medium text-amber-700 bg-amber-100 rounded-md hover:bg-amber-200 transition-colors"
+          aria-label="Unlock user"
+        >
+          Unlock
+        </button>
+      )}
+    </span>
+  )
+}
+
+export default UserLockStatus
@@ -1,6 +1,6 @@
 /**
  * UserProfileDropdown Component
- * Dropdown menu component for user profile with name, role, and logout option
+ * Dropdown menu component for user profile with name, role, active sessions, and logout option
  * Displays user initials instead of SVG icon when user is logged in
  *
  * @author Thang Truong
@@ -11,6 +11,9 @@ import { useState, useRef, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
 import { useToast } from '../hooks/useToast'
+import UserSessionsList from './UserSessionsList'
+import TwoFactorSettingsModal from './TwoFactorSettingsModal'
+import ApiTokensModal from './ApiTokensModal'
 
 interface UserProfileDropdownProps {
   className?: string
@@ -18,6 +21,8 @@ interface UserProfileDropdownProps {
 
 const UserProfileDropdown = ({ className = '' }: UserProfileDropdownProps) => {
   const [isOpen, setIsOpen] = useState(false)
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false)
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const { user, logout } = useAuth()
   const navigate = useNavigate()
@@ -55,6 +60,18 @@ const UserProfileDropdown = ({ className = '' }: UserProfileDropdownProps) => {
     }, 100)
   }
 
+  /**
+   * Handles revocation of the current session from the Sessions section
+   * Clears auth state and redirects to home
+   */
+  const handleCurrentSessionRevoked = async () => {
+    setIsOpen(false)
+    await logout()
+    setTimeout(() => {
+      navigate('/')
+    }, 100)
+  }
+
   if (!user) return null
 
   /**
@@ -109,7 +126,7 @@ const UserProfileDropdown = ({ className = '' }: UserProfileDropdownProps) => {
 
       {/* Dropdown Menu */}
       {isOpen && (
-        <div className={`absolute ${isInSidebar ? 'left-0 bottom-full mb-2' : 'right-0 mt-2'} w-64 bg-white rounded-lg shadow-xl border border-gray-200  z-50 animate-fade-in`}>
+        <div className={`absolute ${isInSidebar ? 'left-0 bottom-full mb-2' : 'right-0 mt-2'} w-72 bg-white rounded-lg shadow-xl border border-gray-200  z-50 animate-fade-in`}>
           {/* User Info Section */}
           <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
             <div className="flex items-center space-x-3">
@@ -134,8 +151,33 @@ const UserProfileDropdown = ({ className = '' }: UserProfileDropdownProps) => {
             </div>
           </div>
 
+          {/* Sessions Section */}
+          <UserSessionsList onCurrentSessionRevoked={handleCurrentSessionRevoked} />
+
           {/* Menu Items */}
           <div className="">
+            {/* Two-Factor Settings Button */}
+            <button
+              onClick={() => { setIsOpen(false); setIsTwoFactorOpen(true) }}
+              className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+            >
+              {/* Shield Icon */}
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+              <span className="font-medium">Two-factor authentication</span>
+            </button>
+            {/* API Tokens Button */}
+            <button
+              onClick={() => { setIsOpen(false); setIsApiTokensOpen(true) }}
+              className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+            >
+              {/* Key Icon */}
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+              <span className="font-medium">API tokens</span>
+            </button>
             {/* Logout Button */}
             <button
               onClick={handleLogout}
@@ -161,6 +203,12 @@ const UserProfileDropdown = ({ className = '' }: UserProfileDropdownProps) => {
           </div>
         </div>
       )}
+
+      {/* Two-Factor Settings Modal */}
+      <TwoFactorSettingsModal isOpen={isTwoFactorOpen} onClose={() => setIsTwoFactorOpen(false)} />
+
+      {/* API Tokens Modal */}
+      <ApiTokensModal isOpen={isApiTokensOpen} onClose={() => setIsApiTokensOpen(false)} />
     </div>
   )
 }
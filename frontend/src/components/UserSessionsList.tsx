@@ -0,0 +1,154 @@
+/**
+ * UserSessionsList Component
+ * Sessions section of the profile dropdown - lists active logins per device
+ * and lets the user revoke a single session or all other sessions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useQuery, useMutation } from '@apollo/client'
+import { MY_SESSIONS_QUERY, REVOKE_SESSION_MUTATION, REVOKE_ALL_OTHER_SESSIONS_MUTATION } from '../graphql/auth'
+import { useToast } from '../hooks/useToast'
+import { UserSession } from '../types/session'
+
+interface UserSessionsListProps {
+  onCurrentSessionRevoked: () => Promise<void>
+}
+
+/**
+ * Build a short device label (browser on OS) from a user agent string
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS'
+  return `${browser} on ${os}`
+}
+
+/**
+ * Format last activity timestamp for display
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const formatLastActive = (session: UserSession): string => {
+  const value = session.lastUsedAt || session.createdAt
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? 'Unknown' : date.toLocaleString()
+}
+
+/**
+ * UserSessionsList - Active sessions with revoke actions
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const UserSessionsList = ({ onCurrentSessionRevoked }: UserSessionsListProps) => {
+  const { showToast } = useToast()
+  const { data, loading, error, refetch } = useQuery(MY_SESSIONS_QUERY, { fetchPolicy: 'network-only' })
+  const [revokeSession, { loading: isRevoking }] = useMutation(REVOKE_SESSION_MUTATION)
+  const [revokeAllOtherSessions, { loading: isRevokingAll }] = useMutation(REVOKE_ALL_OTHER_SESSIONS_MUTATION)
+  const sessions: UserSession[] = data?.mySessions || []
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent)
+
+  /**
+   * Revoke one session - signs out locally when it is the current session
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRevoke = async (session: UserSession) => {
+    try {
+      await revokeSession({ variables: { id: session.id } })
+      if (session.isCurrent) {
+        await showToast('This session was signed out', 'info', 7000)
+        await onCurrentSessionRevoked()
+        return
+      }
+      await showToast('Session revoked successfully', 'success', 7000)
+      await refetch()
+    } catch (err) {
+      await showToast(err instanceof Error ? err.message : 'Failed to revoke session', 'error', 7000)
+    }
+  }
+
+  /**
+   * Revoke every session except the current one
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRevokeAllOthers = async () => {
+    try {
+      const result = await revokeAllOtherSessions()
+      const count = result.data?.revokeAllOtherSessions ?? 0
+      await showToast(`Signed out ${count} other session${count === 1 ? '' : 's'}`, 'success', 7000)
+      await refetch()
+    } catch (err) {
+      await showToast(err instanceof Error ? err.message : 'Failed to revoke sessions', 'error', 7000)
+    }
+  }
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Sessions</p>
+        {hasOtherSessions && (
+          <button
+            type="button"
+            onClick={handleRevokeAllOthers}
+            disabled={isRevokingAll}
+            className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Sign out others
+          </button>
+        )}
+      </div>
+
+      {loading && <p className="text-xs text-gray-500">Loading sessions...</p>}
+      {error && <p className="text-xs text-red-600">Failed to load sessions</p>}
+
+      {/* Session list */}
+      {!loading && !error && (
+        <ul className="space-y-2 max-h-48 overflow-y-auto">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-gray-900 truncate">
+                  {describeUserAgent(session.userAgent)}
+                  {session.isCurrent && (
+                    <span className="ml-1 inline-flex px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-100 text-green-800">This device</span>
+                  )}
+                </p>
+                <p className="text-[11px] text-gray-500 truncate">
+                  {session.ipAddress || 'Unknown IP'} · {formatLastActive(session)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(session)}
+                disabled={isRevoking}
+                className="flex-shrink-0 text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                aria-label={`Revoke session ${describeUserAgent(session.userAgent)}`}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+          {sessions.length === 0 && <li className="text-xs text-gray-500">No active sessions</li>}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default UserSessionsList
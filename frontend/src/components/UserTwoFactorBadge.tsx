@@ -0,0 +1,27 @@
+/**
+ * UserTwoFactorBadge Component
+ * Small badge showing whether a user has two-factor authentication enabled
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+interface UserTwoFactorBadgeProps {
+  enabled?: boolean | null
+}
+
+/**
+ * UserTwoFactorBadge - 2FA on/off badge for users tables
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const UserTwoFactorBadge = ({ enabled }: UserTwoFactorBadgeProps) => (
+  <span
+    className={`px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full flex-shrink-0 ${enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+    title={enabled ? 'Two-factor authentication enabled' : 'Two-factor authentication not enabled'}
+  >
+    {enabled ? '2FA on' : '2FA off'}
+  </span>
+)
+
+export default UserTwoFactorBadge
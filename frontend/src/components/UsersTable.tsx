@@ -19,6 +19,8 @@ interface User {
   lastName: string
   email: string
   role: string
+  twoFactorEnabled?: boolean | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -33,6 +35,7 @@ interface UsersTableProps {
   onSort: (field: SortField) => void
   onEdit: (userId: string) => void
   onDelete: (userId: string) => void
+  onUnlock?: (userId: string) => void
   isLoading?: boolean
 }
 
@@ -48,6 +51,7 @@ interface UsersTableProps {
  * @param onSort - Callback when column header is clicked
  * @param onEdit - Callback when edit button is clicked
  * @param onDelete - Callback when delete button is clicked
+ * @param onUnlock - Callback when unlock button is clicked (admins only)
  * @param isLoading - Whether data is loading
  * @returns JSX element containing responsive users table
  */
@@ -58,6 +62,7 @@ const UsersTable = ({
   onSort,
   onEdit,
   onDelete,
+  onUnlock,
   isLoading = false,
 }: UsersTableProps) => {
   /**
@@ -137,6 +142,7 @@ const UsersTable = ({
         onSort={onSort}
         onEdit={onEdit}
         onDelete={onDelete}
+        onUnlock={onUnlock}
         formatDate={formatDateToMelbourne}
         getSortIcon={getSortIcon}
       />
@@ -149,12 +155,13 @@ const UsersTable = ({
           onSort={onSort}
           onEdit={onEdit}
           onDelete={onDelete}
+          onUnlock={onUnlock}
           getSortIcon={getSortIcon}
         />
       </div>
       {/* Mobile Card View */}
       <div className="md:hidden">
-        <UsersTableMobile users={users} onEdit={onEdit} onDelete={onDelete} />
+        <UsersTableMobile users={users} onEdit={onEdit} onDelete={onDelete} onUnlock={onUnlock} />
       </div>
     </div>
   )
@@ -7,6 +7,8 @@
  */
 
 import React from 'react'
+import UserTwoFactorBadge from './UserTwoFactorBadge'
+import UserLockStatus from './UserLockStatus'
 
 interface User {
   id: string
@@ -15,6 +17,8 @@ interface User {
   lastName: string
   email: string
   role: string
+  twoFactorEnabled?: boolean | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -29,6 +33,7 @@ interface UsersTableDesktopProps {
   onSort: (field: SortField) => void
   onEdit: (userId: string) => void
   onDelete: (userId: string) => void
+  onUnlock?: (userId: string) => void
   formatDate: (dateString: string | null | undefined) => string
   getSortIcon: (field: SortField) => React.ReactNode
 }
@@ -45,6 +50,7 @@ interface UsersTableDesktopProps {
  * @param onSort - Callback when column header is clicked
  * @param onEdit - Callback when edit button is clicked
  * @param onDelete - Callback when delete button is clicked
+ * @param onUnlock - Callback when unlock button is clicked (admins only)
  * @param formatDate - Function to format date values
  * @param getSortIcon - Function to get sort icon for columns
  * @returns JSX element containing desktop table view
@@ -54,6 +60,7 @@ const UsersTableDesktop: React.FC<UsersTableDesktopProps> = ({
   onSort,
   onEdit,
   onDelete,
+  onUnlock,
   formatDate,
   getSortIcon,
 }) => {
@@ -86,6 +93,9 @@ const UsersTableDesktop: React.FC<UsersTableDesktopProps> = ({
                 </div>
               </th>
             ))}
+            <th className="px-4 xl:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Security
+            </th>
             <th className="px-4 xl:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Actions
             </th>
@@ -106,6 +116,12 @@ const UsersTableDesktop: React.FC<UsersTableDesktopProps> = ({
               </td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(user.createdAt)}</td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(user.updatedAt)}</td>
+              <td className="px-4 xl:px-6 py-4 whitespace-nowrap">
+                <div className="flex items-center gap-2">
+                  <UserTwoFactorBadge enabled={user.twoFactorEnabled} />
+                  <UserLockStatus userId={user.id} lockedUntil={user.lockedUntil} onUnlock={onUnlock} />
+                </div>
+              </td>
               <td className="px-4 xl:px-6 py-4 whitespace-nowrap text-sm font-medium">
                 {/* Action Buttons */}
                 <div className="flex items-center gap-2">
@@ -6,6 +6,9 @@
  * @date 2024-12-24
  */
 
+import UserTwoFactorBadge from './UserTwoFactorBadge'
+import UserLockStatus from './UserLockStatus'
+
 interface User {
   id: string
   uuid: string
@@ -13,6 +16,8 @@ interface User {
   lastName: string
   email: string
   role: string
+  twoFactorEnabled?: boolean | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -21,6 +26,7 @@ interface UsersTableMobileProps {
   users: User[]
   onEdit: (userId: string) => void
   onDelete: (userId: string) => void
+  onUnlock?: (userId: string) => void
 }
 
 /**
@@ -30,9 +36,10 @@ interface UsersTableMobileProps {
  * @param users - Array of user objects to display
  * @param onEdit - Callback function when edit button is clicked
  * @param onDelete - Callback function when delete button is clicked
+ * @param onUnlock - Callback function when unlock button is clicked (admins only)
  * @returns JSX element containing mobile card view
  */
-const UsersTableMobile = ({ users, onEdit, onDelete }: UsersTableMobileProps) => {
+const UsersTableMobile = ({ users, onEdit, onDelete, onUnlock }: UsersTableMobileProps) => {
   return (
     <div className="space-y-3 p-3">
       {users.map((user) => (
@@ -44,9 +51,13 @@ const UsersTableMobile = ({ users, onEdit, onDelete }: UsersTableMobileProps) =>
               </h3>
               <p className="text-xs text-gray-600 mt-1 truncate">{user.email}</p>
             </div>
-            <span className="ml-2 px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full bg-blue-100 text-blue-800 flex-shrink-0">
-              {user.role}
-            </span>
+            <div className="ml-2 flex flex-col items-end gap-1">
+              <span className="px-2 py-1 inline-flex text-xs leading-4 font-semibold rounded-full bg-blue-100 text-blue-800 flex-shrink-0">
+                {user.role}
+              </span>
+              <UserTwoFactorBadge enabled={user.twoFactorEnabled} />
+              <UserLockStatus userId={user.id} lockedUntil={user.lockedUntil} onUnlock={onUnlock} />
+            </div>
           </div>
           <div className="flex flex-col sm:flex-row gap-2 mt-3">
             <button
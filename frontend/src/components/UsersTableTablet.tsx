@@ -6,6 +6,9 @@
  * @date 2024-12-24
  */
 
+import UserTwoFactorBadge from './UserTwoFactorBadge'
+import UserLockStatus from './UserLockStatus'
+
 interface User {
   id: string
   uuid: string
@@ -13,6 +16,8 @@ interface User {
   lastName: string
   email: string
   role: string
+  twoFactorEnabled?: boolean | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -27,6 +32,7 @@ interface UsersTableTabletProps {
   onSort: (field: SortField) => void
   onEdit: (userId: string) => void
   onDelete: (userId: string) => void
+  onUnlock?: (userId: string) => void
   getSortIcon: (field: SortField) => JSX.Element
 }
 
@@ -40,6 +46,7 @@ interface UsersTableTabletProps {
  * @param onSort - Callback function when column header is clicked
  * @param onEdit - Callback function when edit button is clicked
  * @param onDelete - Callback function when delete button is clicked
+ * @param onUnlock - Callback function when unlock button is clicked (admins only)
  * @param getSortIcon - Function to get sort icon for column
  * @returns JSX element containing tablet table view
  */
@@ -50,6 +57,7 @@ const UsersTableTablet = ({
   onSort,
   onEdit,
   onDelete,
+  onUnlock,
   getSortIcon,
 }: UsersTableTabletProps) => {
   return (
@@ -99,9 +107,13 @@ const UsersTableTablet = ({
                 {user.email}
               </td>
               <td className="px-4 py-4 whitespace-nowrap">
-                <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                  {user.role}
-                </span>
+                <div className="flex items-center gap-2">
+                  <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                    {user.role}
+                  </span>
+                  <UserTwoFactorBadge enabled={user.twoFactorEnabled} />
+                  <UserLockStatus userId={user.id} lockedUntil={user.lockedUntil} onUnlock={onUnlock} />
+                </div>
               </td>
               <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
                 <div className="flex items-center gap-2">
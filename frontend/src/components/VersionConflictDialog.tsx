@@ -0,0 +1,143 @@
+/**
+ * VersionConflictDialog Component
+ * Shown when a save is rejected because someone else changed the record first
+ * Lets the user pick per field, overwrite everything, or reload the server copy
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { ConflictChoice, ConflictField } from '../utils/versionConflict'
+
+interface VersionConflictDialogProps {
+  isOpen: boolean
+  resourceLabel: string
+  fields: ConflictField[]
+  isSubmitting: boolean
+  onSave: (choices: Record<string, ConflictChoice>) => Promise<void>
+  onUseServer: () => void
+  onCancel: () => void
+}
+
+/**
+ * VersionConflictDialog - Side-by-side merge of local and server values
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const VersionConflictDialog = ({
+  isOpen,
+  resourceLabel,
+  fields,
+  isSubmitting,
+  onSave,
+  onUseServer,
+  onCancel,
+}: VersionConflictDialogProps) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({})
+
+  /**
+   * Default every field to the local value whenever a new conflict arrives
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    setChoices(fields.reduce<Record<string, ConflictChoice>>((all, field) => ({ ...all, [field.key]: 'mine' }), {}))
+  }, [fields])
+
+  /**
+   * Save with every field taken from the local edit
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleOverwrite = async () => {
+    await onSave(fields.reduce<Record<string, ConflictChoice>>((all, field) => ({ ...all, [field.key]: 'mine' }), {}))
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Edit conflict</h2>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Someone else saved this {resourceLabel} while you were editing it. Choose which value to keep for each field.
+          </p>
+
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-500">The other changes do not touch any field you edited. Saving keeps your values.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              <div className="hidden sm:grid grid-cols-3 gap-3 px-3 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase">
+                <span>Field</span>
+                <span>Your version</span>
+                <span>Current version</span>
+              </div>
+              {fields.map((field) => (
+                <div key={field.key} className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3 px-3 py-2 text-sm">
+                  <span className="font-medium text-gray-900">{field.label}</span>
+                  {(['mine', 'theirs'] as ConflictChoice[]).map((side) => (
+                    <label key={side} className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`conflict-${field.key}`}
+                        checked={choices[field.key] === side}
+                        onChange={() => setChoices({ ...choices, [field.key]: side })}
+                        className="mt-1"
+                      />
+                      <span className="text-gray-700 break-words min-w-0">
+                        <span className="sm:hidden text-xs text-gray-500">{side === 'mine' ? 'Yours: ' : 'Current: '}</span>
+                        {side === 'mine' ? field.mine : field.theirs}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onUseServer}
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+            >
+              Discard mine
+            </button>
+            <button
+              type="button"
+              onClick={handleOverwrite}
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+            >
+              Overwrite with mine
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(choices)}
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save merged'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default VersionConflictDialog
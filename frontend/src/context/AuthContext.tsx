@@ -10,7 +10,8 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react'
 import { refreshAccessToken } from '../utils/tokenRefresh'
-import { setAccessTokenGetter } from '../lib/apollo'
+import { client, setAccessTokenGetter } from '../lib/apollo'
+import { LOGOUT_MUTATION } from '../graphql/auth'
 import {
   REFRESH_TOKEN_DIALOG_THRESHOLD_SECONDS,
 } from '../constants/auth'
@@ -82,10 +83,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
 
   /**
    * Logout user and clear all stored data
+   * Revokes the refresh token server-side (logout mutation clears the cookie)
    * Clears access token from memory and user from localStorage
-   * Refresh token cookie will be cleared by server on next request or logout endpoint
    */
   const logout = async () => {
+    try {
+      await client.mutate({ mutation: LOGOUT_MUTATION })
+    } catch {
+      // Local sign-out still proceeds if the server cannot be reached
+    }
     setUser(null)
     setAccessToken(null)
     setIsAuthenticated(false)
@@ -93,7 +99,6 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     dialogShownRef.current = false
     localStorage.removeItem('user')
     // Access token already cleared from memory
-    // Refresh token cookie will be cleared by server
   }
 
   /**
@@ -0,0 +1,10 @@
+/**
+ * API Tokens GraphQL Index
+ * Exports all API token queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { CREATE_API_TOKEN_MUTATION, REVOKE_API_TOKEN_MUTATION } from './mutations'
+export { MY_API_TOKENS_QUERY } from './queries'
@@ -0,0 +1,43 @@
+/**
+ * API Tokens Mutations
+ * GraphQL mutations for creating and revoking personal API tokens
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Create API token mutation - the plain token is only returned once
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_API_TOKEN_MUTATION = gql`
+  mutation CreateApiToken($input: CreateApiTokenInput!) {
+    createApiToken(input: $input) {
+      token
+      apiToken {
+        id
+        name
+        tokenPrefix
+        scope
+        expiresAt
+        createdAt
+      }
+    }
+  }
+`
+
+/**
+ * Revoke API token mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REVOKE_API_TOKEN_MUTATION = gql`
+  mutation RevokeApiToken($id: ID!) {
+    revokeApiToken(id: $id)
+  }
+`
@@ -0,0 +1,34 @@
+/**
+ * API Tokens Queries
+ * GraphQL queries for personal API tokens
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * My API tokens query - fetch the authenticated user's personal API tokens
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const MY_API_TOKENS_QUERY = gql`
+  query MyApiTokens {
+    myApiTokens {
+      id
+      name
+      tokenPrefix
+      scope
+      projects {
+        id
+        name
+      }
+      expiresAt
+      lastUsedAt
+      revokedAt
+      createdAt
+    }
+  }
+`
@@ -6,6 +6,31 @@
  * @date 2025-11-26
  */
 
-export { LOGIN_MUTATION, REGISTER_MUTATION, REFRESH_TOKEN_MUTATION, RESET_PASSWORD_MUTATION } from './mutations'
-export { REFRESH_TOKEN_STATUS_QUERY } from './queries'
-
+export {
+  LOGIN_MUTATION,
+  REGISTER_MUTATION,
+  REFRESH_TOKEN_MUTATION,
+  REQUEST_PASSWORD_RESET_MUTATION,
+  CONFIRM_PASSWORD_RESET_MUTATION,
+  LOGOUT_MUTATION,
+  REVOKE_SESSION_MUTATION,
+  REVOKE_ALL_OTHER_SESSIONS_MUTATION,
+  VERIFY_TWO_FACTOR_MUTATION,
+  BEGIN_TWO_FACTOR_ENROLLMENT_MUTATION,
+  CONFIRM_TWO_FACTOR_ENROLLMENT_MUTATION,
+  DISABLE_TWO_FACTOR_MUTATION,
+  REGENERATE_TWO_FACTOR_RECOVERY_CODES_MUTATION,
+  SET_TWO_FACTOR_POLICY_MUTATION,
+  INVITE_USER_MUTATION,
+  ACCEPT_INVITATION_MUTATION,
+  REVOKE_INVITATION_MUTATION,
+} from './mutations'
+export {
+  REFRESH_TOKEN_STATUS_QUERY,
+  MY_SESSIONS_QUERY,
+  TWO_FACTOR_STATUS_QUERY,
+  TWO_FACTOR_POLICIES_QUERY,
+  LIST_INVITATIONS_QUERY,
+  INVITATION_QUERY,
+  REGISTRATION_SETTINGS_QUERY,
+} from './queries'
@@ -11,7 +11,8 @@ import { gql } from '@apollo/client'
 
 /**
  * Login mutation
- * Authenticates user and returns access token and user data
+ * Authenticates user and returns access token and user data,
+ * or a two-factor challenge token when a second step is needed
  *
  * @author Thang Truong
  * @date 2025-11-26
@@ -28,6 +29,9 @@ export const LOGIN_MUTATION = gql`
         email
         role
       }
+      twoFactorRequired
+      twoFactorSetupRequired
+      challengeToken
     }
   }
 `
@@ -71,15 +75,233 @@ export const REFRESH_TOKEN_MUTATION = gql`
 `
 
 /**
- * Reset password mutation
- * Updates user password by email address
+ * Request password reset mutation
+ * Sends a single-use, expiring reset link to the email address
  *
  * @author Thang Truong
- * @date 2025-11-27
+ * @date 2025-12-10
  */
-export const RESET_PASSWORD_MUTATION = gql`
-  mutation ResetPassword($email: String!, $newPassword: String!) {
-    resetPassword(email: $email, newPassword: $newPassword)
+export const REQUEST_PASSWORD_RESET_MUTATION = gql`
+  mutation RequestPasswordReset($email: String!) {
+    requestPasswordReset(email: $email)
   }
 `
 
+/**
+ * Confirm password reset mutation
+ * Consumes the reset token and sets the new password
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CONFIRM_PASSWORD_RESET_MUTATION = gql`
+  mutation ConfirmPasswordReset($token: String!, $newPassword: String!) {
+    confirmPasswordReset(token: $token, newPassword: $newPassword)
+  }
+`
+
+/**
+ * Logout mutation
+ * Revokes the current refresh token server-side and clears its cookie
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const LOGOUT_MUTATION = gql`
+  mutation Logout {
+    logout
+  }
+`
+
+/**
+ * Revoke session mutation
+ * Revokes one of the current user's sessions by ID
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REVOKE_SESSION_MUTATION = gql`
+  mutation RevokeSession($id: ID!) {
+    revokeSession(id: $id)
+  }
+`
+
+/**
+ * Revoke all other sessions mutation
+ * Revokes every session except the current one
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REVOKE_ALL_OTHER_SESSIONS_MUTATION = gql`
+  mutation RevokeAllOtherSessions {
+    revokeAllOtherSessions
+  }
+`
+
+/**
+ * Verify two-factor mutation
+ * Completes login with a TOTP or recovery code and returns access token and user data
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const VERIFY_TWO_FACTOR_MUTATION = gql`
+  mutation VerifyTwoFactor($challengeToken: String!, $code: String!) {
+    verifyTwoFactor(challengeToken: $challengeToken, code: $code) {
+      accessToken
+      user {
+        id
+        uuid
+        firstName
+        lastName
+        email
+        role
+      }
+    }
+  }
+`
+
+/**
+ * Begin two-factor enrollment mutation
+ * Returns the secret and otpauth URI for the authenticator QR code
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const BEGIN_TWO_FACTOR_ENROLLMENT_MUTATION = gql`
+  mutation BeginTwoFactorEnrollment($challengeToken: String) {
+    beginTwoFactorEnrollment(challengeToken: $challengeToken) {
+      secret
+      otpauthUri
+    }
+  }
+`
+
+/**
+ * Confirm two-factor enrollment mutation
+ * Enables 2FA and returns one-time recovery codes (plus a session when enrolling during login)
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CONFIRM_TWO_FACTOR_ENROLLMENT_MUTATION = gql`
+  mutation ConfirmTwoFactorEnrollment($code: String!, $challengeToken: String) {
+    confirmTwoFactorEnrollment(code: $code, challengeToken: $challengeToken) {
+      recoveryCodes
+      session {
+        accessToken
+        user {
+          id
+          uuid
+          firstName
+          lastName
+          email
+          role
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Disable two-factor mutation
+ * Turns off 2FA for the current user after password confirmation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DISABLE_TWO_FACTOR_MUTATION = gql`
+  mutation DisableTwoFactor($password: String!) {
+    disableTwoFactor(password: $password)
+  }
+`
+
+/**
+ * Regenerate two-factor recovery codes mutation
+ * Replaces the current set of recovery codes
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REGENERATE_TWO_FACTOR_RECOVERY_CODES_MUTATION = gql`
+  mutation RegenerateTwoFactorRecoveryCodes($code: String!) {
+    regenerateTwoFactorRecoveryCodes(code: $code)
+  }
+`
+
+/**
+ * Set two-factor policy mutation
+ * Admin-only toggle making 2FA required for a role
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const SET_TWO_FACTOR_POLICY_MUTATION = gql`
+  mutation SetTwoFactorPolicy($role: String!, $required: Boolean!) {
+    setTwoFactorPolicy(role: $role, required: $required) {
+      role
+      required
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Invite user mutation - admin sends a signed, expiring invitation email
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const INVITE_USER_MUTATION = gql`
+  mutation InviteUser($email: String!, $role: String!, $projectId: ID, $projectRole: String) {
+    inviteUser(email: $email, role: $role, projectId: $projectId, projectRole: $projectRole) {
+      id
+      email
+      role
+      projectName
+      projectRole
+      status
+      expiresAt
+      createdAt
+    }
+  }
+`
+
+/**
+ * Accept invitation mutation
+ * Creates the invited account and returns a session or a two-factor setup challenge
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const ACCEPT_INVITATION_MUTATION = gql`
+  mutation AcceptInvitation($token: String!, $firstName: String!, $lastName: String!, $password: String!) {
+    acceptInvitation(token: $token, firstName: $firstName, lastName: $lastName, password: $password) {
+      accessToken
+      user {
+        id
+        uuid
+        firstName
+        lastName
+        email
+        role
+      }
+      twoFactorRequired
+      twoFactorSetupRequired
+      challengeToken
+    }
+  }
+`
+
+/**
+ * Revoke invitation mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REVOKE_INVITATION_MUTATION = gql`
+  mutation RevokeInvitation($id: ID!) {
+    revokeInvitation(id: $id)
+  }
+`
@@ -26,3 +26,115 @@ export const REFRESH_TOKEN_STATUS_QUERY = gql`
   }
 `
 
+
+/**
+ * My sessions query
+ * Lists the current user's active refresh token sessions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const MY_SESSIONS_QUERY = gql`
+  query MySessions {
+    mySessions {
+      id
+      userAgent
+      ipAddress
+      lastUsedAt
+      expiresAt
+      createdAt
+      isCurrent
+    }
+  }
+`
+
+/**
+ * Two-factor status query
+ * Returns whether 2FA is enabled/required for the current user
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TWO_FACTOR_STATUS_QUERY = gql`
+  query TwoFactorStatus {
+    twoFactorStatus {
+      enabled
+      required
+      enabledAt
+      recoveryCodesRemaining
+    }
+  }
+`
+
+/**
+ * Two-factor policies query
+ * Lists every role with whether 2FA is required
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TWO_FACTOR_POLICIES_QUERY = gql`
+  query TwoFactorPolicies {
+    twoFactorPolicies {
+      role
+      required
+      updatedAt
+    }
+  }
+`
+
+/**
+ * List invitations query - admins only
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const LIST_INVITATIONS_QUERY = gql`
+  query ListInvitations($status: String) {
+    listInvitations(status: $status) {
+      id
+      email
+      role
+      projectName
+      projectRole
+      invitedByName
+      status
+      expiresAt
+      acceptedAt
+      createdAt
+    }
+  }
+`
+
+/**
+ * Invitation query - public preview of a pending invitation for the sign-up form
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const INVITATION_QUERY = gql`
+  query Invitation($token: String!) {
+    invitation(token: $token) {
+      id
+      email
+      role
+      projectName
+      projectRole
+      expiresAt
+    }
+  }
+`
+
+/**
+ * Registration settings query - whether open self-registration is enabled
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REGISTRATION_SETTINGS_QUERY = gql`
+  query RegistrationSettings {
+    registrationSettings {
+      openRegistration
+    }
+  }
+`
@@ -0,0 +1,15 @@
+/**
+ * Checklists GraphQL Index
+ * Exports all task checklist queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { TASK_CHECKLIST_QUERY } from './queries'
+export {
+  ADD_CHECKLIST_ITEM_MUTATION,
+  UPDATE_CHECKLIST_ITEM_MUTATION,
+  DELETE_CHECKLIST_ITEM_MUTATION,
+  REORDER_CHECKLIST_ITEMS_MUTATION,
+} from './mutations'
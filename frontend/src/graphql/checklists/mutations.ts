@@ -0,0 +1,87 @@
+/**
+ * Checklists Mutations
+ * GraphQL mutations for task checklists
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Add checklist item mutation - adds an item at the end of a task's checklist
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const ADD_CHECKLIST_ITEM_MUTATION = gql`
+  mutation AddChecklistItem($taskId: ID!, $input: ChecklistItemInput!) {
+    addChecklistItem(taskId: $taskId, input: $input) {
+      id
+      taskId
+      text
+      isDone
+      position
+      assignedTo
+      doneAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Update checklist item mutation - edits, checks or unchecks an item
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UPDATE_CHECKLIST_ITEM_MUTATION = gql`
+  mutation UpdateChecklistItem($id: ID!, $input: UpdateChecklistItemInput!) {
+    updateChecklistItem(id: $id, input: $input) {
+      id
+      taskId
+      text
+      isDone
+      position
+      assignedTo
+      doneAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Delete checklist item mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_CHECKLIST_ITEM_MUTATION = gql`
+  mutation DeleteChecklistItem($id: ID!) {
+    deleteChecklistItem(id: $id)
+  }
+`
+
+/**
+ * Reorder checklist items mutation - saves a new order of all items of a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REORDER_CHECKLIST_ITEMS_MUTATION = gql`
+  mutation ReorderChecklistItems($taskId: ID!, $itemIds: [ID!]!) {
+    reorderChecklistItems(taskId: $taskId, itemIds: $itemIds) {
+      id
+      taskId
+      text
+      isDone
+      position
+      assignedTo
+      doneAt
+      createdAt
+      updatedAt
+    }
+  }
+`
@@ -0,0 +1,31 @@
+/**
+ * Checklists Queries
+ * GraphQL queries for task checklists
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Task checklist query - checklist items of a task in their saved order
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_CHECKLIST_QUERY = gql`
+  query TaskChecklist($taskId: ID!) {
+    taskChecklist(taskId: $taskId) {
+      id
+      taskId
+      text
+      isDone
+      position
+      assignedTo
+      doneAt
+      createdAt
+      updatedAt
+    }
+  }
+`
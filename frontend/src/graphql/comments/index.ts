@@ -6,9 +6,10 @@
  * @date 2025-11-27
  */
 
-export { COMMENTS_QUERY } from './queries'
+export { COMMENTS_QUERY, TASK_COMMENTS_QUERY } from './queries'
 export {
   CREATE_COMMENT_MUTATION,
+  CREATE_TASK_COMMENT_MUTATION,
   UPDATE_COMMENT_MUTATION,
   DELETE_COMMENT_MUTATION,
   LIKE_COMMENT_MUTATION,
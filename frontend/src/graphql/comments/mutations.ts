@@ -16,12 +16,13 @@ import { gql } from '@apollo/client'
  * @date 2025-11-27
  */
 export const CREATE_COMMENT_MUTATION = gql`
-  mutation CreateComment($projectId: ID!, $content: String!) {
-    createComment(projectId: $projectId, content: $content) {
+  mutation CreateComment($projectId: ID!, $content: String!, $parentCommentId: ID) {
+    createComment(projectId: $projectId, content: $content, parentCommentId: $parentCommentId) {
       id
       uuid
       content
       projectId
+      parentCommentId
       user {
         id
         firstName
@@ -36,6 +37,24 @@ export const CREATE_COMMENT_MUTATION = gql`
   }
 `
 
+/**
+ * Create task comment mutation - parentCommentId posts a reply
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_TASK_COMMENT_MUTATION = gql`
+  mutation CreateTaskComment($taskId: ID!, $content: String!, $parentCommentId: ID) {
+    createTaskComment(taskId: $taskId, content: $content, parentCommentId: $parentCommentId) {
+      id
+      taskId
+      parentCommentId
+      content
+      createdAt
+    }
+  }
+`
+
 /**
  * Update comment mutation
  *
@@ -36,3 +36,62 @@ export const COMMENTS_QUERY = gql`
   }
 `
 
+
+/**
+ * Task comments query - top-level comments on a task with their replies,
+ * plus the project participants who can be @mentioned
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_COMMENTS_QUERY = gql`
+  query TaskComments($taskId: ID!, $projectId: ID!) {
+    task(id: $taskId) {
+      id
+      commentsCount
+      comments {
+        id
+        uuid
+        content
+        projectId
+        taskId
+        user {
+          id
+          firstName
+          lastName
+          email
+        }
+        likesCount
+        isLiked
+        createdAt
+        updatedAt
+        replyCount
+        replies {
+          id
+          uuid
+          content
+          projectId
+          taskId
+          user {
+            id
+            firstName
+            lastName
+            email
+          }
+          likesCount
+          isLiked
+          createdAt
+          updatedAt
+          parentCommentId
+        }
+      }
+    }
+    project(id: $projectId) {
+      id
+      mentionCandidates {
+        userId
+        name
+      }
+    }
+  }
+`
@@ -21,6 +21,7 @@ export const COMMENT_CREATED_SUBSCRIPTION = gql`
       uuid
       content
       projectId
+      parentCommentId
       user {
         id
         firstName
@@ -18,6 +18,16 @@ export * from './notifications'
 export * from './activities'
 export * from './team'
 export * from './search'
+export * from './permissions'
+export * from './trash'
+export * from './workflows'
+export * from './timeTracking'
+export * from './sprints'
+export * from './milestones'
+export * from './recurrences'
+export * from './checklists'
+export * from './watchers'
+export * from './templates'
 
 // Legacy exports for backward compatibility
 export * from './mutations'
@@ -0,0 +1,9 @@
+/**
+ * Milestones GraphQL Index
+ * Exports all milestone mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { CREATE_MILESTONE_MUTATION, UPDATE_MILESTONE_MUTATION, DELETE_MILESTONE_MUTATION } from './mutations'
@@ -0,0 +1,73 @@
+/**
+ * Milestones Mutations
+ * GraphQL mutations for project milestones
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Create milestone mutation - adds a milestone with its linked tasks to a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_MILESTONE_MUTATION = gql`
+  mutation CreateMilestone($projectId: ID!, $input: MilestoneInput!) {
+    createMilestone(projectId: $projectId, input: $input) {
+      id
+      projectId
+      name
+      description
+      dueDate
+      status
+      percentComplete
+      taskCount
+      completedTaskCount
+      isOverdue
+      taskIds
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Update milestone mutation - changes a milestone and replaces its linked tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UPDATE_MILESTONE_MUTATION = gql`
+  mutation UpdateMilestone($id: ID!, $input: MilestoneInput!) {
+    updateMilestone(id: $id, input: $input) {
+      id
+      projectId
+      name
+      description
+      dueDate
+      status
+      percentComplete
+      taskCount
+      completedTaskCount
+      isOverdue
+      taskIds
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Delete milestone mutation - removes a milestone, its tasks stay in the project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_MILESTONE_MUTATION = gql`
+  mutation DeleteMilestone($id: ID!) {
+    deleteMilestone(id: $id)
+  }
+`
@@ -11,12 +11,13 @@
 export { LOGIN_MUTATION, REGISTER_MUTATION, REFRESH_TOKEN_MUTATION } from './auth'
 
 // Users mutations
-export { CREATE_USER_MUTATION, UPDATE_USER_MUTATION, DELETE_USER_MUTATION } from './users'
+export { CREATE_USER_MUTATION, UPDATE_USER_MUTATION, DELETE_USER_MUTATION, UNLOCK_USER_MUTATION } from './users'
 
 // Projects mutations
 export {
   CREATE_PROJECT_MUTATION,
   UPDATE_PROJECT_MUTATION,
+  DUPLICATE_PROJECT_MUTATION,
   DELETE_PROJECT_MUTATION,
   LIKE_PROJECT_MUTATION,
 } from './projects'
@@ -26,7 +27,10 @@ export {
   CREATE_TASK_MUTATION,
   UPDATE_TASK_MUTATION,
   DELETE_TASK_MUTATION,
+  MOVE_TASK_MUTATION,
   LIKE_TASK_MUTATION,
+  ADD_TASK_DEPENDENCY_MUTATION,
+  REMOVE_TASK_DEPENDENCY_MUTATION,
 } from './tasks'
 
 // Tags mutations
@@ -35,6 +39,7 @@ export { CREATE_TAG_MUTATION, UPDATE_TAG_MUTATION, DELETE_TAG_MUTATION } from '.
 // Comments mutations
 export {
   CREATE_COMMENT_MUTATION,
+  CREATE_TASK_COMMENT_MUTATION,
   UPDATE_COMMENT_MUTATION,
   DELETE_COMMENT_MUTATION,
   LIKE_COMMENT_MUTATION,
@@ -52,3 +57,49 @@ export { CREATE_ACTIVITY_MUTATION, UPDATE_ACTIVITY_MUTATION, DELETE_ACTIVITY_MUT
 
 // Team mutations
 export { CREATE_TEAM_MEMBER_MUTATION, UPDATE_TEAM_MEMBER_MUTATION, DELETE_TEAM_MEMBER_MUTATION } from './team'
+
+// Workflows mutations
+export { UPDATE_PROJECT_WORKFLOW_MUTATION } from './workflows'
+
+// Time tracking mutations
+export { START_TIMER_MUTATION, STOP_TIMER_MUTATION, LOG_TIME_MUTATION, DELETE_TIME_ENTRY_MUTATION } from './timeTracking'
+
+// Sprints mutations
+export {
+  CREATE_SPRINT_MUTATION,
+  UPDATE_SPRINT_MUTATION,
+  DELETE_SPRINT_MUTATION,
+  START_SPRINT_MUTATION,
+  CLOSE_SPRINT_MUTATION,
+} from './sprints'
+
+// Milestones mutations
+export { CREATE_MILESTONE_MUTATION, UPDATE_MILESTONE_MUTATION, DELETE_MILESTONE_MUTATION } from './milestones'
+
+// Recurrences mutations
+export { SET_TASK_RECURRENCE_MUTATION, REMOVE_TASK_RECURRENCE_MUTATION } from './recurrences'
+
+// Checklists mutations
+export {
+  ADD_CHECKLIST_ITEM_MUTATION,
+  UPDATE_CHECKLIST_ITEM_MUTATION,
+  DELETE_CHECKLIST_ITEM_MUTATION,
+  REORDER_CHECKLIST_ITEMS_MUTATION,
+} from './checklists'
+
+// Watchers mutations
+export {
+  WATCH_TASK_MUTATION,
+  UNWATCH_TASK_MUTATION,
+  WATCH_PROJECT_MUTATION,
+  UNWATCH_PROJECT_MUTATION,
+} from './watchers'
+
+// Templates mutations
+export {
+  SAVE_PROJECT_AS_TEMPLATE_MUTATION,
+  CREATE_PROJECT_FROM_TEMPLATE_MUTATION,
+  DELETE_PROJECT_TEMPLATE_MUTATION,
+  CREATE_TASK_TEMPLATE_MUTATION,
+  DELETE_TASK_TEMPLATE_MUTATION,
+} from './templates'
@@ -0,0 +1,10 @@
+/**
+ * Permissions GraphQL Index
+ * Exports all permission-related queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { GRANT_PERMISSION_MUTATION, REVOKE_PERMISSION_MUTATION } from './mutations'
+export { PERMISSIONS_FOR_RESOURCE_QUERY, MY_PERMISSIONS_QUERY } from './queries'
@@ -0,0 +1,40 @@
+/**
+ * Permissions Mutations
+ * GraphQL mutations for granting and revoking resource permissions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Grant permission mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const GRANT_PERMISSION_MUTATION = gql`
+  mutation GrantPermission($input: GrantPermissionInput!) {
+    grantPermission(input: $input) {
+      id
+      userId
+      resourceType
+      resourceId
+      permission
+      createdAt
+    }
+  }
+`
+
+/**
+ * Revoke permission mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REVOKE_PERMISSION_MUTATION = gql`
+  mutation RevokePermission($id: ID!) {
+    revokePermission(id: $id)
+  }
+`
@@ -0,0 +1,52 @@
+/**
+ * Permissions Queries
+ * GraphQL queries for fine-grained resource permissions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Permissions for resource query - fetch every grant on a project, task or comment
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const PERMISSIONS_FOR_RESOURCE_QUERY = gql`
+  query PermissionsForResource($resourceType: String!, $resourceId: ID!) {
+    permissionsForResource(resourceType: $resourceType, resourceId: $resourceId) {
+      id
+      userId
+      user {
+        id
+        firstName
+        lastName
+        email
+      }
+      resourceType
+      resourceId
+      permission
+      createdAt
+    }
+  }
+`
+
+/**
+ * My permissions query - fetch grants held by the authenticated user
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const MY_PERMISSIONS_QUERY = gql`
+  query MyPermissions {
+    myPermissions {
+      id
+      resourceType
+      resourceId
+      permission
+      createdAt
+    }
+  }
+`
@@ -9,6 +9,7 @@
 export {
   CREATE_PROJECT_MUTATION,
   UPDATE_PROJECT_MUTATION,
+  DUPLICATE_PROJECT_MUTATION,
   DELETE_PROJECT_MUTATION,
   LIKE_PROJECT_MUTATION,
 } from './mutations'
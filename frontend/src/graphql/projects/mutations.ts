@@ -37,6 +37,26 @@ export const CREATE_PROJECT_MUTATION = gql`
 export const UPDATE_PROJECT_MUTATION = gql`
   mutation UpdateProject($id: ID!, $input: UpdateProjectInput!) {
     updateProject(id: $id, input: $input) {
+      id
+      name
+      description
+      status
+      version
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Duplicate project mutation - copies a project with the chosen tasks, tags, members and comments
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DUPLICATE_PROJECT_MUTATION = gql`
+  mutation DuplicateProject($id: ID!, $options: DuplicateProjectOptions) {
+    duplicateProject(id: $id, options: $options) {
       id
       name
       description
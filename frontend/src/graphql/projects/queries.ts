@@ -31,6 +31,15 @@ export const PROJECTS_QUERY = gql`
       likesCount
       commentsCount
       isLiked
+      milestones {
+        id
+        name
+        dueDate
+        status
+        percentComplete
+        isOverdue
+      }
+      version
       createdAt
       updatedAt
     }
@@ -60,16 +69,23 @@ export const PROJECT_QUERY = gql`
       likesCount
       commentsCount
       isLiked
+      isWatching
       tasks {
         id
         uuid
         title
         description
         status
+        statusCategory
         priority
         dueDate
+        estimateMinutes
         projectId
         assignedTo
+        parentTaskId
+        sprintId
+        boardRank
+        progress
         owner {
           id
           firstName
@@ -86,6 +102,7 @@ export const PROJECT_QUERY = gql`
         likesCount
         commentsCount
         isLiked
+        isWatching
         createdAt
         updatedAt
       }
@@ -100,6 +117,10 @@ export const PROJECT_QUERY = gql`
         createdAt
         updatedAt
       }
+      mentionCandidates {
+        userId
+        name
+      }
       comments {
         id
         uuid
@@ -115,6 +136,54 @@ export const PROJECT_QUERY = gql`
         isLiked
         createdAt
         updatedAt
+        replyCount
+        replies {
+          id
+          uuid
+          content
+          projectId
+          parentCommentId
+          user {
+            id
+            firstName
+            lastName
+            email
+          }
+          likesCount
+          isLiked
+          createdAt
+          updatedAt
+        }
+      }
+      workflow {
+        projectId
+        states {
+          key
+          name
+          category
+          position
+          wipLimit
+        }
+        transitions {
+          from
+          to
+        }
+        isCustom
+      }
+      milestones {
+        id
+        projectId
+        name
+        description
+        dueDate
+        status
+        percentComplete
+        taskCount
+        completedTaskCount
+        isOverdue
+        taskIds
+        createdAt
+        updatedAt
       }
       createdAt
       updatedAt
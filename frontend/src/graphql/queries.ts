@@ -17,7 +17,7 @@ export { USERS_QUERY } from './users'
 export { PROJECTS_QUERY, PROJECT_QUERY } from './projects'
 
 // Tasks queries
-export { TASKS_QUERY } from './tasks'
+export { TASKS_QUERY, TASK_DEPENDENCIES_QUERY } from './tasks'
 
 // Tags queries
 export { TAGS_QUERY } from './tags'
@@ -32,7 +32,28 @@ export { ACTIVITIES_QUERY, ACTIVITY_QUERY } from './activities'
 export { TEAM_MEMBERS_QUERY } from './team'
 
 // Comments queries
-export { COMMENTS_QUERY } from './comments'
+export { COMMENTS_QUERY, TASK_COMMENTS_QUERY } from './comments'
 
 // Search queries
 export { SEARCH_DASHBOARD_QUERY } from './search'
+
+// Workflows queries
+export { PROJECT_WORKFLOW_QUERY } from './workflows'
+
+// Time tracking queries
+export { RUNNING_TIMER_QUERY, TASK_TIME_ENTRIES_QUERY, MY_TIMESHEET_QUERY } from './timeTracking'
+
+// Sprints queries
+export { PROJECT_SPRINTS_QUERY, SPRINT_BURNDOWN_QUERY } from './sprints'
+
+// Recurrences queries
+export { TASK_RECURRENCE_QUERY } from './recurrences'
+
+// Checklists queries
+export { TASK_CHECKLIST_QUERY } from './checklists'
+
+// Watchers queries
+export { TASK_WATCHERS_QUERY } from './watchers'
+
+// Templates queries
+export { PROJECT_TEMPLATES_QUERY, TASK_TEMPLATES_QUERY } from './templates'
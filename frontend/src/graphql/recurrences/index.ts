@@ -0,0 +1,10 @@
+/**
+ * Recurrences GraphQL Index
+ * Exports all recurring task queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { TASK_RECURRENCE_QUERY } from './queries'
+export { SET_TASK_RECURRENCE_MUTATION, REMOVE_TASK_RECURRENCE_MUTATION } from './mutations'
@@ -0,0 +1,49 @@
+/**
+ * Recurrences Mutations
+ * GraphQL mutations for recurring tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Set task recurrence mutation - makes a task repeat or changes its repeat rule
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const SET_TASK_RECURRENCE_MUTATION = gql`
+  mutation SetTaskRecurrence($taskId: ID!, $input: TaskRecurrenceInput!) {
+    setTaskRecurrence(taskId: $taskId, input: $input) {
+      id
+      taskId
+      frequency
+      interval
+      weekdays
+      monthDay
+      startDate
+      endAfterCount
+      endDate
+      occurrenceCount
+      nextDueDate
+      rule
+      isActive
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Remove task recurrence mutation - stops a task from repeating
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REMOVE_TASK_RECURRENCE_MUTATION = gql`
+  mutation RemoveTaskRecurrence($taskId: ID!) {
+    removeTaskRecurrence(taskId: $taskId)
+  }
+`
@@ -0,0 +1,37 @@
+/**
+ * Recurrences Queries
+ * GraphQL queries for recurring tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Task recurrence query - repeat rule of a task, null when it does not repeat
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_RECURRENCE_QUERY = gql`
+  query TaskRecurrence($taskId: ID!) {
+    taskRecurrence(taskId: $taskId) {
+      id
+      taskId
+      frequency
+      interval
+      weekdays
+      monthDay
+      startDate
+      endAfterCount
+      endDate
+      occurrenceCount
+      nextDueDate
+      rule
+      isActive
+      createdAt
+      updatedAt
+    }
+  }
+`
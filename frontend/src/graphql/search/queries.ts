@@ -39,6 +39,7 @@ export const SEARCH_DASHBOARD_QUERY = gql`
         id
         title
         status
+        statusCategory
         projectId
         description
         owner {
@@ -51,6 +52,10 @@ export const SEARCH_DASHBOARD_QUERY = gql`
         likesCount
         commentsCount
         isLiked
+        checklistProgress {
+          completed
+          total
+        }
         updatedAt
       }
       projectTotal
@@ -0,0 +1,16 @@
+/**
+ * Sprints GraphQL Index
+ * Exports all sprint queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export {
+  CREATE_SPRINT_MUTATION,
+  UPDATE_SPRINT_MUTATION,
+  DELETE_SPRINT_MUTATION,
+  START_SPRINT_MUTATION,
+  CLOSE_SPRINT_MUTATION,
+} from './mutations'
+export { PROJECT_SPRINTS_QUERY, SPRINT_BURNDOWN_QUERY } from './queries'
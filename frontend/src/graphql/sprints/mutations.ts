@@ -0,0 +1,117 @@
+/**
+ * Sprints Mutations
+ * GraphQL mutations for planning, starting and closing sprints
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Create sprint mutation - plans a sprint in a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_SPRINT_MUTATION = gql`
+  mutation CreateSprint($projectId: ID!, $input: SprintInput!) {
+    createSprint(projectId: $projectId, input: $input) {
+      id
+      projectId
+      name
+      goal
+      startDate
+      endDate
+      state
+      startedAt
+      closedAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Update sprint mutation - changes the name, goal or dates of a sprint
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UPDATE_SPRINT_MUTATION = gql`
+  mutation UpdateSprint($id: ID!, $input: SprintInput!) {
+    updateSprint(id: $id, input: $input) {
+      id
+      projectId
+      name
+      goal
+      startDate
+      endDate
+      state
+      startedAt
+      closedAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Delete sprint mutation - deletes a planned sprint, its tasks go back to the backlog
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_SPRINT_MUTATION = gql`
+  mutation DeleteSprint($id: ID!) {
+    deleteSprint(id: $id)
+  }
+`
+
+/**
+ * Start sprint mutation - makes a planned sprint the active one
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const START_SPRINT_MUTATION = gql`
+  mutation StartSprint($id: ID!) {
+    startSprint(id: $id) {
+      id
+      projectId
+      name
+      goal
+      startDate
+      endDate
+      state
+      startedAt
+      closedAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Close sprint mutation - closes the active sprint and moves its unfinished tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CLOSE_SPRINT_MUTATION = gql`
+  mutation CloseSprint($id: ID!, $moveUnfinishedTo: ID) {
+    closeSprint(id: $id, moveUnfinishedTo: $moveUnfinishedTo) {
+      id
+      projectId
+      name
+      goal
+      startDate
+      endDate
+      state
+      startedAt
+      closedAt
+      createdAt
+      updatedAt
+    }
+  }
+`
@@ -0,0 +1,62 @@
+/**
+ * Sprints Queries
+ * GraphQL queries for sprint planning and burndown
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Project sprints query - active sprint first, then planned, then closed
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const PROJECT_SPRINTS_QUERY = gql`
+  query ProjectSprints($projectId: ID!) {
+    projectSprints(projectId: $projectId) {
+      id
+      projectId
+      name
+      goal
+      startDate
+      endDate
+      state
+      startedAt
+      closedAt
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Sprint burndown query - remaining and ideal work for each day of a sprint
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const SPRINT_BURNDOWN_QUERY = gql`
+  query SprintBurndown($sprintId: ID!) {
+    sprintBurndown(sprintId: $sprintId) {
+      sprint {
+        id
+        name
+        startDate
+        endDate
+        state
+      }
+      totalTasks
+      totalMinutes
+      days {
+        date
+        remainingTasks
+        remainingMinutes
+        idealTasks
+        idealMinutes
+      }
+    }
+  }
+`
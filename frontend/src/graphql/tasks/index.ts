@@ -10,7 +10,10 @@ export {
   CREATE_TASK_MUTATION,
   UPDATE_TASK_MUTATION,
   DELETE_TASK_MUTATION,
+  MOVE_TASK_MUTATION,
   LIKE_TASK_MUTATION,
+  ADD_TASK_DEPENDENCY_MUTATION,
+  REMOVE_TASK_DEPENDENCY_MUTATION,
 } from './mutations'
-export { TASKS_QUERY } from './queries'
+export { TASKS_QUERY, TASK_DEPENDENCIES_QUERY } from './queries'
 
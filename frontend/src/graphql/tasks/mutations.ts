@@ -25,8 +25,12 @@ export const CREATE_TASK_MUTATION = gql`
       status
       priority
       dueDate
+      estimateMinutes
       projectId
       assignedTo
+      parentTaskId
+      sprintId
+      boardRank
       tags {
         id
         name
@@ -55,14 +59,19 @@ export const UPDATE_TASK_MUTATION = gql`
       status
       priority
       dueDate
+      estimateMinutes
       projectId
       assignedTo
+      parentTaskId
+      sprintId
+      boardRank
       tags {
         id
         name
         description
         category
       }
+      version
       createdAt
       updatedAt
     }
@@ -81,6 +90,26 @@ export const DELETE_TASK_MUTATION = gql`
   }
 `
 
+/**
+ * Move task mutation - nest a task under a parent, or make it top-level with a null parentId
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const MOVE_TASK_MUTATION = gql`
+  mutation MoveTask($id: ID!, $parentId: ID) {
+    moveTask(id: $id, parentId: $parentId) {
+      id
+      parentTaskId
+      sprintId
+      boardRank
+      progress
+      version
+      updatedAt
+    }
+  }
+`
+
 /**
  * Like task mutation
  *
@@ -98,3 +127,31 @@ export const LIKE_TASK_MUTATION = gql`
   }
 `
 
+
+/**
+ * Add task dependency mutation - blockerTaskId must be finished before blockedTaskId
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const ADD_TASK_DEPENDENCY_MUTATION = gql`
+  mutation AddTaskDependency($blockerTaskId: ID!, $blockedTaskId: ID!) {
+    addTaskDependency(blockerTaskId: $blockerTaskId, blockedTaskId: $blockedTaskId) {
+      id
+    }
+  }
+`
+
+/**
+ * Remove task dependency mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const REMOVE_TASK_DEPENDENCY_MUTATION = gql`
+  mutation RemoveTaskDependency($blockerTaskId: ID!, $blockedTaskId: ID!) {
+    removeTaskDependency(blockerTaskId: $blockerTaskId, blockedTaskId: $blockedTaskId) {
+      id
+    }
+  }
+`
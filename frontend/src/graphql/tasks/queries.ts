@@ -22,10 +22,20 @@ export const TASKS_QUERY = gql`
       title
       description
       status
+      statusCategory
       priority
       dueDate
+      estimateMinutes
       projectId
       assignedTo
+      parentTaskId
+      sprintId
+      boardRank
+      progress
+      checklistProgress {
+        completed
+        total
+      }
       tags {
         id
         name
@@ -35,8 +45,36 @@ export const TASKS_QUERY = gql`
       likesCount
       commentsCount
       isLiked
+      isWatching
+      version
       createdAt
       updatedAt
     }
   }
 `
+
+/**
+ * Task dependencies query - blockers and blocked tasks of one task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_DEPENDENCIES_QUERY = gql`
+  query TaskDependencies($id: ID!) {
+    task(id: $id) {
+      id
+      blockedBy {
+        id
+        title
+        status
+        statusCategory
+      }
+      blocks {
+        id
+        title
+        status
+        statusCategory
+      }
+    }
+  }
+`
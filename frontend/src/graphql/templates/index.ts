@@ -0,0 +1,16 @@
+/**
+ * Templates GraphQL Index
+ * Exports all project and task template queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { PROJECT_TEMPLATES_QUERY, TASK_TEMPLATES_QUERY } from './queries'
+export {
+  SAVE_PROJECT_AS_TEMPLATE_MUTATION,
+  CREATE_PROJECT_FROM_TEMPLATE_MUTATION,
+  DELETE_PROJECT_TEMPLATE_MUTATION,
+  CREATE_TASK_TEMPLATE_MUTATION,
+  DELETE_TASK_TEMPLATE_MUTATION,
+} from './mutations'
@@ -0,0 +1,83 @@
+/**
+ * Templates Mutations
+ * GraphQL mutations for saving, using and deleting project and task templates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Save project as template mutation - snapshots a project's workflow, tasks, members and milestones
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const SAVE_PROJECT_AS_TEMPLATE_MUTATION = gql`
+  mutation SaveProjectAsTemplate($projectId: ID!, $name: String!, $description: String) {
+    saveProjectAsTemplate(projectId: $projectId, name: $name, description: $description) {
+      id
+      name
+      taskCount
+    }
+  }
+`
+
+/**
+ * Create project from template mutation - due dates are shifted to count from overrides.startDate
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_PROJECT_FROM_TEMPLATE_MUTATION = gql`
+  mutation CreateProjectFromTemplate($templateId: ID!, $overrides: ProjectTemplateOverrides!) {
+    createProjectFromTemplate(templateId: $templateId, overrides: $overrides) {
+      id
+      name
+      description
+      status
+      createdAt
+      updatedAt
+    }
+  }
+`
+
+/**
+ * Delete project template mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_PROJECT_TEMPLATE_MUTATION = gql`
+  mutation DeleteProjectTemplate($id: ID!) {
+    deleteProjectTemplate(id: $id)
+  }
+`
+
+/**
+ * Create task template mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const CREATE_TASK_TEMPLATE_MUTATION = gql`
+  mutation CreateTaskTemplate($input: TaskTemplateInput!) {
+    createTaskTemplate(input: $input) {
+      id
+      name
+    }
+  }
+`
+
+/**
+ * Delete task template mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_TASK_TEMPLATE_MUTATION = gql`
+  mutation DeleteTaskTemplate($id: ID!) {
+    deleteTaskTemplate(id: $id)
+  }
+`
@@ -0,0 +1,68 @@
+/**
+ * Templates Queries
+ * GraphQL queries for project and task templates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Project templates query - template gallery with a preview of each template's tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const PROJECT_TEMPLATES_QUERY = gql`
+  query ProjectTemplates {
+    projectTemplates {
+      id
+      name
+      description
+      sourceProjectId
+      taskCount
+      milestoneCount
+      memberCount
+      tasks {
+        title
+        priority
+        dueOffsetDays
+      }
+      createdBy {
+        id
+        firstName
+        lastName
+      }
+      createdAt
+    }
+  }
+`
+
+/**
+ * Task templates query - presets that pre-fill the create task form
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_TEMPLATES_QUERY = gql`
+  query TaskTemplates {
+    taskTemplates {
+      id
+      name
+      title
+      description
+      priority
+      estimateMinutes
+      tags {
+        id
+        name
+      }
+      checklist
+      createdBy {
+        id
+      }
+      createdAt
+    }
+  }
+`
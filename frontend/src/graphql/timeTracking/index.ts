@@ -0,0 +1,10 @@
+/**
+ * Time Tracking GraphQL Index
+ * Exports all time tracking queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { START_TIMER_MUTATION, STOP_TIMER_MUTATION, LOG_TIME_MUTATION, DELETE_TIME_ENTRY_MUTATION } from './mutations'
+export { RUNNING_TIMER_QUERY, TASK_TIME_ENTRIES_QUERY, MY_TIMESHEET_QUERY } from './queries'
@@ -0,0 +1,99 @@
+/**
+ * Time Tracking Mutations
+ * GraphQL mutations for timers and manual time entries
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Start timer mutation - stops the user's other running timer first
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const START_TIMER_MUTATION = gql`
+  mutation StartTimer($taskId: ID!, $note: String) {
+    startTimer(taskId: $taskId, note: $note) {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
+
+/**
+ * Stop timer mutation - ends the signed-in user's running timer
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const STOP_TIMER_MUTATION = gql`
+  mutation StopTimer {
+    stopTimer {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
+
+/**
+ * Log time mutation - records time spent without a timer
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const LOG_TIME_MUTATION = gql`
+  mutation LogTime($input: LogTimeInput!) {
+    logTime(input: $input) {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
+
+/**
+ * Delete time entry mutation - removes one of the user's own entries
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const DELETE_TIME_ENTRY_MUTATION = gql`
+  mutation DeleteTimeEntry($id: ID!) {
+    deleteTimeEntry(id: $id)
+  }
+`
@@ -0,0 +1,87 @@
+/**
+ * Time Tracking Queries
+ * GraphQL queries for timers, task time entries and the weekly timesheet
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Running timer query - the signed-in user's running timer, if any
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const RUNNING_TIMER_QUERY = gql`
+  query RunningTimer {
+    runningTimer {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
+
+/**
+ * Task time entries query - time logged on one task, newest first
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_TIME_ENTRIES_QUERY = gql`
+  query TaskTimeEntries($taskId: ID!) {
+    taskTimeEntries(taskId: $taskId) {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
+
+/**
+ * Timesheet query - the signed-in user's entries for the week starting at weekStart (YYYY-MM-DD)
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const MY_TIMESHEET_QUERY = gql`
+  query MyTimesheet($weekStart: String!) {
+    myTimesheet(weekStart: $weekStart) {
+      id
+      userId
+      userName
+      taskId
+      taskTitle
+      projectId
+      projectName
+      startedAt
+      endedAt
+      durationMinutes
+      note
+      isRunning
+      createdAt
+    }
+  }
+`
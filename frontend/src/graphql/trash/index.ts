@@ -0,0 +1,16 @@
+/**
+ * Trash GraphQL Index
+ * Exports all trash queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export {
+  RESTORE_PROJECT_MUTATION,
+  RESTORE_TASK_MUTATION,
+  RESTORE_COMMENT_MUTATION,
+  RESTORE_USER_MUTATION,
+  PURGE_TRASH_ITEM_MUTATION,
+} from './mutations'
+export { TRASH_QUERY } from './queries'
@@ -0,0 +1,69 @@
+/**
+ * Trash Mutations
+ * GraphQL mutations for restoring and permanently deleting trash items
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Restore project mutation - also restores the tasks and memberships deleted with it
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const RESTORE_PROJECT_MUTATION = gql`
+  mutation RestoreProject($id: ID!) {
+    restoreProject(id: $id)
+  }
+`
+
+/**
+ * Restore task mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const RESTORE_TASK_MUTATION = gql`
+  mutation RestoreTask($id: ID!) {
+    restoreTask(id: $id)
+  }
+`
+
+/**
+ * Restore comment mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const RESTORE_COMMENT_MUTATION = gql`
+  mutation RestoreComment($id: ID!) {
+    restoreComment(id: $id)
+  }
+`
+
+/**
+ * Restore user mutation
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const RESTORE_USER_MUTATION = gql`
+  mutation RestoreUser($id: ID!) {
+    restoreUser(id: $id)
+  }
+`
+
+/**
+ * Purge mutation - permanently delete an item from the trash
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const PURGE_TRASH_ITEM_MUTATION = gql`
+  mutation PurgeTrashItem($resourceType: String!, $id: ID!) {
+    purge(resourceType: $resourceType, id: $id)
+  }
+`
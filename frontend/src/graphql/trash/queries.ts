@@ -0,0 +1,36 @@
+/**
+ * Trash Queries
+ * GraphQL queries for soft-deleted items
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Trash query - fetch one page of deleted items of a resource type
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TRASH_QUERY = gql`
+  query Trash($resourceType: String!, $page: Int, $pageSize: Int) {
+    trash(resourceType: $resourceType, page: $page, pageSize: $pageSize) {
+      items {
+        id
+        resourceType
+        title
+        details
+        projectId
+        projectName
+        deletedAt
+        purgeAt
+      }
+      total
+      page
+      pageSize
+      retentionDays
+    }
+  }
+`
@@ -6,6 +6,6 @@
  * @date 2025-11-26
  */
 
-export { CREATE_USER_MUTATION, UPDATE_USER_MUTATION, DELETE_USER_MUTATION } from './mutations'
+export { CREATE_USER_MUTATION, UPDATE_USER_MUTATION, DELETE_USER_MUTATION, UNLOCK_USER_MUTATION } from './mutations'
 export { USERS_QUERY } from './queries'
 
@@ -63,3 +63,17 @@ export const DELETE_USER_MUTATION = gql`
   }
 `
 
+/**
+ * Unlock user mutation - clears a temporary lockout after failed logins
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UNLOCK_USER_MUTATION = gql`
+  mutation UnlockUser($id: ID!) {
+    unlockUser(id: $id) {
+      id
+      lockedUntil
+    }
+  }
+`
@@ -23,6 +23,8 @@ export const USERS_QUERY = gql`
       lastName
       email
       role
+      twoFactorEnabled
+      lockedUntil
       createdAt
       updatedAt
     }
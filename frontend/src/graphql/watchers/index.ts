@@ -0,0 +1,15 @@
+/**
+ * Watchers GraphQL Index
+ * Exports all task and project watcher queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { TASK_WATCHERS_QUERY } from './queries'
+export {
+  WATCH_TASK_MUTATION,
+  UNWATCH_TASK_MUTATION,
+  WATCH_PROJECT_MUTATION,
+  UNWATCH_PROJECT_MUTATION,
+} from './mutations'
@@ -0,0 +1,81 @@
+/**
+ * Watchers Mutations
+ * GraphQL mutations for watching tasks and projects
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Watch task mutation - the signed-in user starts watching a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const WATCH_TASK_MUTATION = gql`
+  mutation WatchTask($taskId: ID!) {
+    watchTask(taskId: $taskId) {
+      taskId
+      isWatching
+      watchers {
+        id
+        firstName
+        lastName
+        email
+      }
+    }
+  }
+`
+
+/**
+ * Unwatch task mutation - the signed-in user stops watching a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UNWATCH_TASK_MUTATION = gql`
+  mutation UnwatchTask($taskId: ID!) {
+    unwatchTask(taskId: $taskId) {
+      taskId
+      isWatching
+      watchers {
+        id
+        firstName
+        lastName
+        email
+      }
+    }
+  }
+`
+
+/**
+ * Watch project mutation - the signed-in user starts watching every task of a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const WATCH_PROJECT_MUTATION = gql`
+  mutation WatchProject($projectId: ID!) {
+    watchProject(projectId: $projectId) {
+      projectId
+      isWatching
+    }
+  }
+`
+
+/**
+ * Unwatch project mutation - the signed-in user stops watching a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UNWATCH_PROJECT_MUTATION = gql`
+  mutation UnwatchProject($projectId: ID!) {
+    unwatchProject(projectId: $projectId) {
+      projectId
+      isWatching
+    }
+  }
+`
@@ -0,0 +1,26 @@
+/**
+ * Watchers Queries
+ * GraphQL queries for task watchers
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Task watchers query - users watching a task directly
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const TASK_WATCHERS_QUERY = gql`
+  query TaskWatchers($taskId: ID!) {
+    taskWatchers(taskId: $taskId) {
+      id
+      firstName
+      lastName
+      email
+    }
+  }
+`
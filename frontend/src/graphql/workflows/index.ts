@@ -0,0 +1,10 @@
+/**
+ * Workflows GraphQL Index
+ * Exports all workflow queries and mutations
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export { UPDATE_PROJECT_WORKFLOW_MUTATION } from './mutations'
+export { PROJECT_WORKFLOW_QUERY } from './queries'
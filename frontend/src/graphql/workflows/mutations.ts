@@ -0,0 +1,35 @@
+/**
+ * Workflows Mutations
+ * GraphQL mutations for editing per-project task workflows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Update project workflow mutation - replaces the states and transitions of a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const UPDATE_PROJECT_WORKFLOW_MUTATION = gql`
+  mutation UpdateProjectWorkflow($projectId: ID!, $input: UpdateProjectWorkflowInput!) {
+    updateProjectWorkflow(projectId: $projectId, input: $input) {
+      projectId
+      states {
+        key
+        name
+        category
+        position
+        wipLimit
+      }
+      transitions {
+        from
+        to
+      }
+      isCustom
+    }
+  }
+`
@@ -0,0 +1,35 @@
+/**
+ * Workflows Queries
+ * GraphQL queries for per-project task workflows
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { gql } from '@apollo/client'
+
+/**
+ * Project workflow query - ordered states and allowed transitions of a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const PROJECT_WORKFLOW_QUERY = gql`
+  query ProjectWorkflow($projectId: ID!) {
+    projectWorkflow(projectId: $projectId) {
+      projectId
+      states {
+        key
+        name
+        category
+        position
+        wipLimit
+      }
+      transitions {
+        from
+        to
+      }
+      isCustom
+    }
+  }
+`
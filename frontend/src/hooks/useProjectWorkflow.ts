@@ -0,0 +1,36 @@
+/**
+ * useProjectWorkflow Hook
+ * Loads the task workflow of a project for status pickers and badges
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+import { useMemo } from 'react'
+import { useQuery } from '@apollo/client'
+import { PROJECT_WORKFLOW_QUERY } from '../graphql/queries'
+import { Workflow, WorkflowState } from '../types/workflow'
+import { getWorkflowStates } from '../utils/workflow'
+
+interface UseProjectWorkflowResult {
+  workflow: Workflow | null
+  states: WorkflowState[]
+  loading: boolean
+}
+
+/**
+ * Fetch a project's workflow; states fall back to the default workflow until it is loaded
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param projectId - Project to load, or an empty value to skip the query
+ */
+export const useProjectWorkflow = (projectId?: string | null): UseProjectWorkflowResult => {
+  const { data, loading } = useQuery<{ projectWorkflow: Workflow }>(PROJECT_WORKFLOW_QUERY, {
+    variables: { projectId },
+    skip: !projectId,
+    fetchPolicy: 'cache-and-network',
+  })
+  const workflow = projectId ? data?.projectWorkflow || null : null
+  const states = useMemo(() => getWorkflowStates(workflow), [workflow])
+  return { workflow, states, loading }
+}
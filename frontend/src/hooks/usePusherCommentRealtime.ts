@@ -25,6 +25,7 @@ type CommentPayload = {
   id?: string
   uuid?: string
   projectId?: string
+  parentCommentId?: string | null
   likesCount?: number
   updatedAt?: string
 }
@@ -35,6 +36,7 @@ interface UsePusherCommentRealtimeParams {
   onRefetch?: () => Promise<void>
   showToast: (message: string, variant: ToastVariant, duration?: number) => Promise<void> | void
   onCommentDeleted?: (message: string) => Promise<void> | void
+  onThreadActivity?: (parentCommentId: string) => void
 }
 
 /**
@@ -50,12 +52,14 @@ export const usePusherCommentRealtime = ({
   onRefetch,
   showToast,
   onCommentDeleted,
+  onThreadActivity,
 }: UsePusherCommentRealtimeParams): void => {
   const { channelReady } = usePusher()
   /** Store callbacks in refs to prevent re-subscription on callback changes */
   const onRefetchRef = useRef(onRefetch)
   const showToastRef = useRef(showToast)
   const onCommentDeletedRef = useRef(onCommentDeleted)
+  const onThreadActivityRef = useRef(onThreadActivity)
   const projectIdRef = useRef(projectId)
 
   /** Update refs when props change without triggering re-subscription */
@@ -63,8 +67,9 @@ export const usePusherCommentRealtime = ({
     onRefetchRef.current = onRefetch
     showToastRef.current = showToast
     onCommentDeletedRef.current = onCommentDeleted
+    onThreadActivityRef.current = onThreadActivity
     projectIdRef.current = projectId
-  }, [onRefetch, showToast, onCommentDeleted, projectId])
+  }, [onRefetch, showToast, onCommentDeleted, onThreadActivity, projectId])
 
   /**
    * Subscribe to Pusher events - only re-subscribes when projectId, membership, or channel ready state changes
@@ -91,7 +96,10 @@ export const usePusherCommentRealtime = ({
       if (!payload) return
       const eventProjectId = String(payload.projectId || '')
       if (eventProjectId !== String(projectIdRef.current)) return
-      await showToastRef.current(message, 'info', isDelete ? 2500 : 7000)
+      // Replies open their thread so the new reply is visible
+      const isReply = dataKey === 'commentCreated' && Boolean(payload.parentCommentId)
+      if (isReply && onThreadActivityRef.current) onThreadActivityRef.current(String(payload.parentCommentId))
+      await showToastRef.current(isReply ? 'New reply received!' : message, 'info', isDelete ? 2500 : 7000)
       if (isDelete && onCommentDeletedRef.current) {
         await onCommentDeletedRef.current('A comment was removed by a team member.')
       }
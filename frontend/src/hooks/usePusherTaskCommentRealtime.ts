@@ -0,0 +1,69 @@
+/**
+ * usePusherTaskCommentRealtime Hook
+ * Handles Pusher events for comments on one task
+ * Task comments are published on their own events, separate from project comments
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useRef } from 'react'
+import { subscribeToPusherEvent } from '../lib/pusher'
+import { usePusher } from '../context/PusherContext'
+
+type TaskCommentEventKey = 'taskCommentCreated' | 'taskCommentLikeUpdated' | 'taskCommentUpdated' | 'taskCommentDeleted'
+type PusherData = {
+  data?: Partial<Record<TaskCommentEventKey, { taskId?: string | null; parentCommentId?: string | null }>>
+}
+
+interface UsePusherTaskCommentRealtimeParams {
+  taskId: string
+  onRefetch: () => Promise<void>
+  onThreadActivity?: (parentCommentId: string) => void
+}
+
+/**
+ * Reload the task's comments whenever one of them is created, liked, edited or deleted
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param params - Hook parameters
+ */
+export const usePusherTaskCommentRealtime = ({ taskId, onRefetch, onThreadActivity }: UsePusherTaskCommentRealtimeParams): void => {
+  const { channelReady } = usePusher()
+  /** Store callbacks in refs to prevent re-subscription on callback changes */
+  const onRefetchRef = useRef(onRefetch)
+  const onThreadActivityRef = useRef(onThreadActivity)
+
+  useEffect(() => {
+    onRefetchRef.current = onRefetch
+    onThreadActivityRef.current = onThreadActivity
+  }, [onRefetch, onThreadActivity])
+
+  /**
+   * Subscribe to the task comment events - re-subscribes only when the task or channel state changes
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    if (!taskId || !channelReady) return
+
+    const handleEvent = async (eventData: unknown, dataKey: TaskCommentEventKey): Promise<void> => {
+      const payload = (eventData as PusherData)?.data?.[dataKey]
+      if (!payload || String(payload.taskId || '') !== String(taskId)) return
+      if (dataKey === 'taskCommentCreated' && payload.parentCommentId && onThreadActivityRef.current) {
+        onThreadActivityRef.current(String(payload.parentCommentId))
+      }
+      await onRefetchRef.current()
+    }
+
+    const channel = 'project-tracker'
+    const unsubscribers = [
+      subscribeToPusherEvent(channel, 'task_comment_created', (d) => handleEvent(d, 'taskCommentCreated')),
+      subscribeToPusherEvent(channel, 'task_comment_like_updated', (d) => handleEvent(d, 'taskCommentLikeUpdated')),
+      subscribeToPusherEvent(channel, 'task_comment_updated', (d) => handleEvent(d, 'taskCommentUpdated')),
+      subscribeToPusherEvent(channel, 'task_comment_deleted', (d) => handleEvent(d, 'taskCommentDeleted')),
+    ]
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [taskId, channelReady])
+}
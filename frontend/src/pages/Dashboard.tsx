@@ -23,7 +23,7 @@ interface Project {
   likesCount: number; commentsCount: number; createdAt: string; updatedAt: string
 }
 interface Task {
-  id: string; title: string; status: string; priority: string; projectId: string
+  id: string; title: string; status: string; statusCategory?: string; priority: string; projectId: string
   likesCount: number; commentsCount: number; createdAt: string; updatedAt: string
 }
 interface User { id: string; firstName: string; lastName: string; email: string; role: string }
@@ -0,0 +1,227 @@
+/**
+ * ProjectBoard Page
+ * Kanban board of a project's tasks with one column per workflow state and optional swimlanes
+ * Cards are dragged between columns and positions; the move is shown at once and rolled back if the server rejects it
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+import { useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery } from '@apollo/client'
+import { PROJECT_QUERY } from '../graphql/queries'
+import { UPDATE_TASK_MUTATION } from '../graphql/mutations'
+import { useAuth } from '../context/AuthContext'
+import { useToast } from '../hooks/useToast'
+import ProjectBoardColumn from '../components/ProjectBoardColumn'
+import ProjectDetailLoading from '../components/ProjectDetailLoading'
+import ProjectDetailError from '../components/ProjectDetailError'
+import { ProjectTask } from '../types/project'
+import { Workflow } from '../types/workflow'
+import { getAllowedStates, getWorkflowStates } from '../utils/workflow'
+import {
+  BoardSwimlaneMode,
+  getRankBetween,
+  getSwimlaneKey,
+  getSwimlanes,
+  sortByBoardRank,
+  UNASSIGNED_LANE_KEY,
+} from '../utils/taskBoard'
+
+interface BoardProject {
+  id: string
+  name: string
+  tasks: ProjectTask[]
+  workflow: Workflow | null
+}
+
+const SWIMLANE_OPTIONS: Array<{ value: BoardSwimlaneMode; label: string }> = [
+  { value: 'NONE', label: 'No swimlanes' },
+  { value: 'ASSIGNEE', label: 'By assignee' },
+  { value: 'PRIORITY', label: 'By priority' },
+]
+
+const ProjectBoard = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { showToast } = useToast()
+  const { isAuthenticated } = useAuth()
+  const [swimlaneMode, setSwimlaneMode] = useState<BoardSwimlaneMode>('NONE')
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null)
+  const [pendingMoves, setPendingMoves] = useState<Record<string, Partial<ProjectTask>>>({})
+
+  const { data, loading, error, refetch } = useQuery<{ project: BoardProject }>(PROJECT_QUERY, {
+    variables: { id },
+    skip: !id,
+    fetchPolicy: 'cache-and-network',
+    errorPolicy: 'all',
+  })
+  const [updateTask] = useMutation(UPDATE_TASK_MUTATION)
+
+  const project = data?.project
+  const states = useMemo(() => getWorkflowStates(project?.workflow), [project])
+
+  /**
+   * Tasks in board order with the moves still waiting for the server applied
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const tasks = useMemo(
+    () => sortByBoardRank((project?.tasks || []).map((task) => (pendingMoves[task.id] ? { ...task, ...pendingMoves[task.id] } : task))),
+    [project, pendingMoves]
+  )
+  const lanes = useMemo(() => getSwimlanes(tasks, swimlaneMode), [tasks, swimlaneMode])
+  const draggedTask = tasks.find((task) => task.id === draggedTaskId) || null
+  const allowedStatuses = useMemo(
+    () => new Set(draggedTask ? getAllowedStates(project?.workflow, draggedTask.status).map((state) => state.key) : []),
+    [draggedTask, project]
+  )
+
+  /**
+   * Go back to the project page
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleBack = async (): Promise<void> => {
+    await navigate(`/projects/${id}`)
+  }
+
+  /**
+   * Move the dragged card into a column and lane, above beforeTaskId or at the end
+   * Transitions and WIP limits are checked before the move is shown; the server checks them again
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleDrop = async (status: string, laneKey: string, beforeTaskId: string | null): Promise<void> => {
+    const task = draggedTask
+    setDraggedTaskId(null)
+    if (!task || beforeTaskId === task.id) return
+
+    const state = states.find((candidate) => candidate.key === status)
+    if (status !== task.status) {
+      if (!allowedStatuses.has(status)) {
+        await showToast(`A task in "${task.status}" cannot move to "${state?.name || status}".`, 'info', 7000)
+        return
+      }
+      const columnCount = tasks.filter((candidate) => candidate.status === status).length
+      if (state?.wipLimit && columnCount >= state.wipLimit) {
+        await showToast(`"${state.name}" is at its WIP limit of ${state.wipLimit}. Finish a card there first.`, 'info', 7000)
+        return
+      }
+    }
+
+    const cellTasks = tasks.filter(
+      (candidate) => candidate.id !== task.id && candidate.status === status && getSwimlaneKey(candidate, swimlaneMode) === laneKey
+    )
+    const beforeIndex = beforeTaskId ? cellTasks.findIndex((candidate) => candidate.id === beforeTaskId) : -1
+    const insertIndex = beforeIndex >= 0 ? beforeIndex : cellTasks.length
+    const input: { status: string; boardRank: number; priority?: string; assignedTo?: string | null } = {
+      status,
+      boardRank: getRankBetween(cellTasks[insertIndex - 1]?.boardRank, cellTasks[insertIndex]?.boardRank),
+    }
+    if (laneKey !== getSwimlaneKey(task, swimlaneMode)) {
+      if (swimlaneMode === 'PRIORITY') input.priority = laneKey
+      if (swimlaneMode === 'ASSIGNEE') input.assignedTo = laneKey === UNASSIGNED_LANE_KEY ? null : laneKey
+    }
+    const owner = input.assignedTo !== undefined
+      ? tasks.find((candidate) => candidate.assignedTo === input.assignedTo)?.owner || null
+      : task.owner
+
+    setPendingMoves((prev) => ({ ...prev, [task.id]: { ...input, owner } }))
+    try {
+      await updateTask({ variables: { id: task.id, input } })
+      await refetch()
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Failed to move task. Please try again.'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setPendingMoves((prev) => {
+        const next = { ...prev }
+        delete next[task.id]
+        return next
+      })
+    }
+  }
+
+  if (loading && !project) {
+    return <ProjectDetailLoading />
+  }
+
+  if (error || !project) {
+    return <ProjectDetailError onBack={handleBack} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Board header */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <Link to={`/projects/${project.id}`} className="text-sm text-gray-600 hover:text-gray-900">
+              ← Back to project
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 mt-1">{`${project.name} · Board`}</h1>
+          </div>
+          <select
+            value={swimlaneMode}
+            onChange={(e) => setSwimlaneMode(e.target.value as BoardSwimlaneMode)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Swimlanes"
+          >
+            {SWIMLANE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {!isAuthenticated && (
+          <p className="mb-4 text-sm text-gray-500">Log in as a project member to move cards.</p>
+        )}
+
+        <div className="overflow-x-auto pb-4">
+          {/* Column headers with card counts and WIP limits */}
+          <div className="flex gap-4 mb-2">
+            {states.map((state) => {
+              const count = tasks.filter((task) => task.status === state.key).length
+              const isOverLimit = Boolean(state.wipLimit && count > state.wipLimit)
+              return (
+                <div key={state.key} className="w-72 flex-shrink-0 flex items-center justify-between px-2">
+                  <span className="text-sm font-semibold text-gray-800">{state.name}</span>
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${isOverLimit ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-700'}`}>
+                    {state.wipLimit ? `${count} / ${state.wipLimit}` : count}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          {lanes.map((lane) => (
+            <div key={lane.key} className="mb-4">
+              {swimlaneMode !== 'NONE' && (
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2 px-2">{lane.label}</p>
+              )}
+              <div className="flex gap-4">
+                {states.map((state) => (
+                  <ProjectBoardColumn
+                    key={state.key}
+                    tasks={tasks.filter((task) => task.status === state.key && getSwimlaneKey(task, swimlaneMode) === lane.key)}
+                    canDrag={isAuthenticated}
+                    draggedTaskId={draggedTaskId}
+                    isDropAllowed={allowedStatuses.has(state.key)}
+                    onDragStart={setDraggedTaskId}
+                    onDragEnd={() => setDraggedTaskId(null)}
+                    onDrop={(beforeTaskId) => handleDrop(state.key, lane.key, beforeTaskId)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProjectBoard
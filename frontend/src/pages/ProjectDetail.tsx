@@ -9,17 +9,26 @@ import { useState, useEffect, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useQuery, useMutation, NetworkStatus } from '@apollo/client'
 import { PROJECT_QUERY } from '../graphql/queries'
-import { LIKE_PROJECT_MUTATION } from '../graphql/mutations'
+import { LIKE_PROJECT_MUTATION, UNWATCH_PROJECT_MUTATION, WATCH_PROJECT_MUTATION } from '../graphql/mutations'
 import { useAuth } from '../context/AuthContext'
 import { useToast } from '../hooks/useToast'
 import ProjectDetailHeader from '../components/ProjectDetailHeader'
 import ProjectDetailTasks from '../components/ProjectDetailTasks'
 import ProjectDetailMembers from '../components/ProjectDetailMembers'
 import ProjectDetailComments from '../components/ProjectDetailComments'
+import ProjectDetailSharing from '../components/ProjectDetailSharing'
 import ProjectDetailLoading from '../components/ProjectDetailLoading'
 import ProjectDetailError from '../components/ProjectDetailError'
+import ProjectWorkflowModal from '../components/ProjectWorkflowModal'
+import SaveProjectTemplateModal from '../components/SaveProjectTemplateModal'
+import DuplicateProjectModal from '../components/DuplicateProjectModal'
+import ProjectDetailMilestones from '../components/ProjectDetailMilestones'
 import { ProjectTask, ProjectMember, ProjectOwner } from '../types/project'
 import { ProjectComment } from '../types/comments'
+import { Workflow } from '../types/workflow'
+import { Milestone } from '../types/milestone'
+import { getWorkflowStates } from '../utils/workflow'
+import { MentionCandidate } from '../utils/mentions'
 
 interface Project {
   id: string
@@ -30,9 +39,13 @@ interface Project {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  isWatching?: boolean
   tasks: ProjectTask[]
   members: ProjectMember[]
   comments: ProjectComment[]
+  workflow: Workflow | null
+  milestones: Milestone[]
+  mentionCandidates: MentionCandidate[]
   createdAt: string
   updatedAt: string
 }
@@ -41,8 +54,11 @@ const ProjectDetail = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const { showToast } = useToast()
-  const { isAuthenticated, accessToken } = useAuth()
+  const { isAuthenticated, accessToken, user } = useAuth()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isWorkflowOpen, setIsWorkflowOpen] = useState(false)
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false)
+  const [isDuplicateOpen, setIsDuplicateOpen] = useState(false)
 
   const { data, loading, error, refetch, networkStatus } = useQuery<{ project: Project }>(PROJECT_QUERY, {
     variables: { id },
@@ -91,6 +107,9 @@ const ProjectDetail = () => {
     },
   })
 
+  const [watchProject] = useMutation(WATCH_PROJECT_MUTATION, { refetchQueries: [{ query: PROJECT_QUERY, variables: { id } }] })
+  const [unwatchProject] = useMutation(UNWATCH_PROJECT_MUTATION, { refetchQueries: [{ query: PROJECT_QUERY, variables: { id } }] })
+
   /**
    * Handle back button click to navigate to projects list
    * @author Thang Truong
@@ -135,6 +154,30 @@ const ProjectDetail = () => {
     }
   }
 
+  /**
+   * Toggle watching the project; watchers hear about changes to all of its tasks
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleWatch = async (): Promise<void> => {
+    if (!id || isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      if (data?.project.isWatching) {
+        await unwatchProject({ variables: { projectId: id } })
+        await showToast('You stopped watching this project', 'success', 7000)
+      } else {
+        await watchProject({ variables: { projectId: id } })
+        await showToast('You are now watching this project and all of its tasks', 'success', 7000)
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update watch status. Please try again.'
+      await showToast(errorMessage, 'error', 7000)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   /**
    * Show loading state while data is being fetched
    * @author Thang Truong
@@ -155,6 +198,23 @@ const ProjectDetail = () => {
 
   const project = data.project
 
+  /**
+   * Project owners (and global admins) manage sharing and the task workflow; the backend enforces ADMIN on the project
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const canManageProject = Boolean(
+    isAuthenticated && user && (
+      project.owner?.id === user.id ||
+      user.role === 'Admin' ||
+      project.members.some((member) => member.userId === user.id && member.role === 'OWNER')
+    )
+  )
+  // Editors may save the project as a template too; the backend enforces WRITE on the project
+  const canEditProject = canManageProject || Boolean(
+    user && project.members.some((member) => member.userId === user.id && member.role === 'EDITOR')
+  )
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -186,16 +246,56 @@ const ProjectDetail = () => {
             likesCount={project.likesCount}
             commentsCount={project.commentsCount}
             isLiked={project.isLiked}
+            isWatching={project.isWatching}
             onLike={handleLike}
+            onWatch={isAuthenticated ? handleWatch : undefined}
+            onEditWorkflow={canManageProject ? () => setIsWorkflowOpen(true) : undefined}
+            onSaveAsTemplate={canEditProject ? () => setIsSaveTemplateOpen(true) : undefined}
+            onDuplicate={isAuthenticated ? () => setIsDuplicateOpen(true) : undefined}
           />
           {project.description && <p className="text-gray-700 leading-relaxed mb-6">{project.description}</p>}
+          <ProjectDetailMilestones
+            milestones={project.milestones}
+            tasks={project.tasks}
+            projectId={project.id}
+            canEdit={isAuthenticated}
+            onRefetch={async () => { await refetch() }}
+          />
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-            <ProjectDetailTasks tasks={project.tasks} members={project.members} owner={project.owner} />
+            <ProjectDetailTasks
+              tasks={project.tasks}
+              members={project.members}
+              owner={project.owner}
+              workflowStates={getWorkflowStates(project.workflow)}
+            />
             <ProjectDetailMembers members={project.members} />
           </div>
-          <ProjectDetailComments comments={project.comments} projectId={project.id} members={project.members} owner={project.owner} onRefetch={async () => { await refetch() }} />
+          {canManageProject && <ProjectDetailSharing projectId={project.id} tasks={project.tasks} />}
+          <ProjectDetailComments comments={project.comments} projectId={project.id} members={project.members} owner={project.owner} mentionCandidates={project.mentionCandidates} onRefetch={async () => { await refetch() }} />
         </div>
       </div>
+      <ProjectWorkflowModal
+        projectId={project.id}
+        workflow={project.workflow}
+        isOpen={isWorkflowOpen}
+        onClose={() => setIsWorkflowOpen(false)}
+        onSaved={async () => { await refetch() }}
+      />
+      <SaveProjectTemplateModal
+        projectId={project.id}
+        projectName={project.name}
+        isOpen={isSaveTemplateOpen}
+        onClose={() => setIsSaveTemplateOpen(false)}
+      />
+      <DuplicateProjectModal
+        project={project}
+        isOpen={isDuplicateOpen}
+        onClose={() => setIsDuplicateOpen(false)}
+        onSuccess={async (projectId) => {
+          setIsDuplicateOpen(false)
+          await navigate(`/projects/${projectId}`)
+        }}
+      />
     </div>
   )
 }
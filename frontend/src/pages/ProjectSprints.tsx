@@ -0,0 +1,315 @@
+/**
+ * ProjectSprints Page
+ * Sprint planning of a project: the active sprint with its burndown, planned sprints, the backlog and closed sprints
+ * Tasks move between the backlog and open sprints; closing the active sprint moves its unfinished tasks on
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+import { useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery } from '@apollo/client'
+import { PROJECT_QUERY, PROJECT_SPRINTS_QUERY } from '../graphql/queries'
+import { DELETE_SPRINT_MUTATION, START_SPRINT_MUTATION, UPDATE_TASK_MUTATION } from '../graphql/mutations'
+import { useAuth } from '../context/AuthContext'
+import { useToast } from '../hooks/useToast'
+import ProjectDetailLoading from '../components/ProjectDetailLoading'
+import ProjectDetailError from '../components/ProjectDetailError'
+import SprintPlanningPanel from '../components/SprintPlanningPanel'
+import SprintBurndownChart from '../components/SprintBurndownChart'
+import SprintFormModal from '../components/SprintFormModal'
+import CloseSprintModal from '../components/CloseSprintModal'
+import { ProjectTask } from '../types/project'
+import { Sprint } from '../types/sprint'
+import { Workflow } from '../types/workflow'
+import { getWorkflowStates } from '../utils/workflow'
+import { sortByBoardRank } from '../utils/taskBoard'
+import { formatSprintRange, getDefaultSprintDates, SPRINT_STATE_LABELS, SPRINT_STATE_STYLES } from '../utils/sprints'
+
+interface SprintProject {
+  id: string
+  name: string
+  tasks: ProjectTask[]
+  workflow: Workflow | null
+}
+
+const ProjectSprints = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { showToast } = useToast()
+  const { isAuthenticated } = useAuth()
+  const [editingSprint, setEditingSprint] = useState<Sprint | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isCloseOpen, setIsCloseOpen] = useState(false)
+  const [movingTaskId, setMovingTaskId] = useState<string | null>(null)
+  const [busySprintId, setBusySprintId] = useState<string | null>(null)
+  const [openBurndownId, setOpenBurndownId] = useState<string | null>(null)
+
+  const { data, loading, error, refetch } = useQuery<{ project: SprintProject }>(PROJECT_QUERY, {
+    variables: { id },
+    skip: !id,
+    fetchPolicy: 'cache-and-network',
+    errorPolicy: 'all',
+  })
+  const { data: sprintsData, refetch: refetchSprints } = useQuery<{ projectSprints: Sprint[] }>(PROJECT_SPRINTS_QUERY, {
+    variables: { projectId: id },
+    skip: !id,
+    fetchPolicy: 'cache-and-network',
+  })
+  const [updateTask] = useMutation(UPDATE_TASK_MUTATION)
+  const [startSprint] = useMutation(START_SPRINT_MUTATION)
+  const [deleteSprint] = useMutation(DELETE_SPRINT_MUTATION)
+
+  const project = data?.project
+  const states = useMemo(() => getWorkflowStates(project?.workflow), [project])
+  const sprints = useMemo(() => sprintsData?.projectSprints || [], [sprintsData])
+  const activeSprint = sprints.find((sprint) => sprint.state === 'ACTIVE') || null
+  const plannedSprints = useMemo(() => sprints.filter((sprint) => sprint.state === 'PLANNED'), [sprints])
+  const closedSprints = sprints.filter((sprint) => sprint.state === 'CLOSED')
+  const tasks = useMemo(() => sortByBoardRank(project?.tasks || []), [project])
+  const tasksOf = (sprintId: string | null) => tasks.filter((task) => (task.sprintId || null) === sprintId)
+  const moveOptions = [
+    ...sprints.filter((sprint) => sprint.state !== 'CLOSED').map((sprint) => ({ value: sprint.id, label: sprint.name })),
+    { value: '', label: 'Backlog' },
+  ]
+  const defaultDates = useMemo(
+    () => getDefaultSprintDates(plannedSprints[plannedSprints.length - 1]?.endDate || activeSprint?.endDate),
+    [plannedSprints, activeSprint]
+  )
+
+  /**
+   * Go back to the project page
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleBack = async (): Promise<void> => {
+    await navigate(`/projects/${id}`)
+  }
+
+  /**
+   * Reload the tasks and the sprints after a change
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const reload = async (): Promise<void> => {
+    await Promise.all([refetch(), refetchSprints()])
+  }
+
+  /**
+   * Move a task to a sprint, or to the backlog when sprintId is null
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleMoveTask = async (taskId: string, sprintId: string | null): Promise<void> => {
+    setMovingTaskId(taskId)
+    try {
+      await updateTask({ variables: { id: taskId, input: { sprintId } } })
+      await refetch()
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Failed to move task. Please try again.'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setMovingTaskId(null)
+    }
+  }
+
+  /**
+   * Run a sprint action and report the outcome
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const runSprintAction = async (sprintId: string, action: () => Promise<unknown>, successMessage: string): Promise<void> => {
+    setBusySprintId(sprintId)
+    try {
+      await action()
+      await reload()
+      await showToast(successMessage, 'success', 7000)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Failed to update sprint. Please try again.'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setBusySprintId(null)
+    }
+  }
+
+  /**
+   * Open the sprint form for a new sprint or an existing one
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const openForm = (sprint: Sprint | null) => {
+    setEditingSprint(sprint)
+    setIsFormOpen(true)
+  }
+
+  if (loading && !project) {
+    return <ProjectDetailLoading />
+  }
+
+  if (error || !project) {
+    return <ProjectDetailError onBack={handleBack} />
+  }
+
+  const buttonClass = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+  const stateBadge = (sprint: Sprint) => (
+    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${SPRINT_STATE_STYLES[sprint.state]}`}>
+      {SPRINT_STATE_LABELS[sprint.state]}
+    </span>
+  )
+  const subtitleOf = (sprint: Sprint) => `${formatSprintRange(sprint.startDate, sprint.endDate)}${sprint.goal ? ` · ${sprint.goal}` : ''}`
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        {/* Planning header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link to={`/projects/${project.id}`} className="text-sm text-gray-600 hover:text-gray-900">
+              ← Back to project
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 mt-1">{`${project.name} · Sprints`}</h1>
+          </div>
+          {isAuthenticated && (
+            <button
+              onClick={() => openForm(null)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+            >
+              Plan sprint
+            </button>
+          )}
+        </div>
+        {!isAuthenticated && (
+          <p className="text-sm text-gray-500">Log in as a project member to plan sprints.</p>
+        )}
+
+        {/* Active sprint with its burndown */}
+        {activeSprint && (
+          <SprintPlanningPanel
+            title={activeSprint.name}
+            subtitle={subtitleOf(activeSprint)}
+            badge={stateBadge(activeSprint)}
+            actions={isAuthenticated && (
+              <>
+                <button onClick={() => openForm(activeSprint)} className={buttonClass}>Edit</button>
+                <button onClick={() => setIsCloseOpen(true)} className={buttonClass}>Close sprint</button>
+              </>
+            )}
+            tasks={tasksOf(activeSprint.id)}
+            states={states}
+            moveOptions={moveOptions}
+            currentValue={activeSprint.id}
+            canEdit={isAuthenticated}
+            movingTaskId={movingTaskId}
+            onMoveTask={handleMoveTask}
+          >
+            <div className="mb-4">
+              <SprintBurndownChart sprintId={activeSprint.id} />
+            </div>
+          </SprintPlanningPanel>
+        )}
+
+        {/* Planned sprints */}
+        {plannedSprints.map((sprint) => (
+          <SprintPlanningPanel
+            key={sprint.id}
+            title={sprint.name}
+            subtitle={subtitleOf(sprint)}
+            badge={stateBadge(sprint)}
+            actions={isAuthenticated && (
+              <>
+                <button onClick={() => openForm(sprint)} className={buttonClass}>Edit</button>
+                <button
+                  onClick={() => runSprintAction(sprint.id, () => deleteSprint({ variables: { id: sprint.id } }), `Sprint "${sprint.name}" deleted`)}
+                  disabled={busySprintId === sprint.id}
+                  className={buttonClass}
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => runSprintAction(sprint.id, () => startSprint({ variables: { id: sprint.id } }), `Sprint "${sprint.name}" started`)}
+                  disabled={Boolean(activeSprint) || busySprintId === sprint.id}
+                  title={activeSprint ? `Close "${activeSprint.name}" first` : undefined}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Start sprint
+                </button>
+              </>
+            )}
+            tasks={tasksOf(sprint.id)}
+            states={states}
+            moveOptions={moveOptions}
+            currentValue={sprint.id}
+            canEdit={isAuthenticated}
+            movingTaskId={movingTaskId}
+            onMoveTask={handleMoveTask}
+          />
+        ))}
+
+        {/* Backlog */}
+        <SprintPlanningPanel
+          title="Backlog"
+          subtitle="Tasks not planned in a sprint"
+          tasks={tasksOf(null)}
+          states={states}
+          moveOptions={moveOptions}
+          currentValue=""
+          canEdit={isAuthenticated}
+          movingTaskId={movingTaskId}
+          onMoveTask={handleMoveTask}
+        />
+
+        {/* Closed sprints */}
+        {closedSprints.map((sprint) => (
+          <SprintPlanningPanel
+            key={sprint.id}
+            title={sprint.name}
+            subtitle={subtitleOf(sprint)}
+            badge={stateBadge(sprint)}
+            actions={
+              <button onClick={() => setOpenBurndownId(openBurndownId === sprint.id ? null : sprint.id)} className={buttonClass}>
+                {openBurndownId === sprint.id ? 'Hide burndown' : 'Show burndown'}
+              </button>
+            }
+            tasks={tasksOf(sprint.id)}
+            states={states}
+            moveOptions={moveOptions}
+            currentValue={sprint.id}
+            canEdit={false}
+            movingTaskId={movingTaskId}
+            onMoveTask={handleMoveTask}
+          >
+            {openBurndownId === sprint.id && (
+              <div className="mb-4">
+                <SprintBurndownChart sprintId={sprint.id} />
+              </div>
+            )}
+          </SprintPlanningPanel>
+        ))}
+      </div>
+
+      <SprintFormModal
+        projectId={project.id}
+        sprint={editingSprint}
+        defaultDates={defaultDates}
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={reload}
+      />
+      <CloseSprintModal
+        sprint={activeSprint}
+        unfinishedCount={activeSprint ? tasksOf(activeSprint.id).filter((task) => task.statusCategory !== 'DONE').length : 0}
+        plannedSprints={plannedSprints}
+        isOpen={isCloseOpen}
+        onClose={() => setIsCloseOpen(false)}
+        onClosed={reload}
+      />
+    </div>
+  )
+}
+
+export default ProjectSprints
@@ -35,6 +35,7 @@ const Projects = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
+  const [isDuplicateModalOpen, setIsDuplicateModalOpen] = useState(false)
 
   /** Fetch projects from GraphQL API with cache-and-network strategy @author Thang Truong @date 2025-12-04 */
   const { data, loading, error, refetch } = useQuery<{ projects: Project[] }>(PROJECTS_QUERY, {
@@ -96,9 +97,18 @@ const Projects = () => {
     }
   }, [sortedProjects])
 
+  /** Handle duplicate project action @author Thang Truong @date 2025-12-10 */
+  const handleDuplicate = useCallback(async (projectId: string): Promise<void> => {
+    const project = sortedProjects.find((p) => p.id === projectId)
+    if (project) {
+      setSelectedProject({ id: project.id, name: project.name, description: project.description, status: project.status, createdAt: project.createdAt, updatedAt: project.updatedAt })
+      setIsDuplicateModalOpen(true)
+    }
+  }, [sortedProjects])
+
   /** Handle successful mutation and refetch @author Thang Truong @date 2025-12-04 */
   const handleSuccess = useCallback(async (): Promise<void> => {
-    setSelectedProject(null); setIsEditModalOpen(false); setIsDeleteDialogOpen(false); setIsCreateModalOpen(false)
+    setSelectedProject(null); setIsEditModalOpen(false); setIsDeleteDialogOpen(false); setIsCreateModalOpen(false); setIsDuplicateModalOpen(false)
     await refetch()
   }, [refetch])
 
@@ -114,9 +124,9 @@ const Projects = () => {
       {/* Header section with search and create button */}
       <ProjectsTableHeader searchTerm={searchTerm} onSearchChange={setSearchTerm} onClearSearch={handleClearSearch} onCreateClick={handleCreate} isLoading={isLoading} />
       {/* Projects table with sorting and pagination */}
-      <ProjectsTableSection projects={paginatedProjects} sortedProjects={sortedProjects} sortField={sortField} sortDirection={sortDirection} currentPage={currentPage} entriesPerPage={entriesPerPage} loading={isLoading} onSort={handleSort} onEdit={handleEdit} onDelete={handleDelete} onPageChange={setCurrentPage} onEntriesPerPageChange={(value) => { setEntriesPerPage(value); setCurrentPage(1) }} />
+      <ProjectsTableSection projects={paginatedProjects} sortedProjects={sortedProjects} sortField={sortField} sortDirection={sortDirection} currentPage={currentPage} entriesPerPage={entriesPerPage} loading={isLoading} onSort={handleSort} onEdit={handleEdit} onDuplicate={handleDuplicate} onDelete={handleDelete} onPageChange={setCurrentPage} onEntriesPerPageChange={(value) => { setEntriesPerPage(value); setCurrentPage(1) }} />
       {/* Modal dialogs for CRUD operations */}
-      <ProjectsTableModals selectedProject={selectedProject} isEditModalOpen={isEditModalOpen} isDeleteDialogOpen={isDeleteDialogOpen} isCreateModalOpen={isCreateModalOpen} onCloseEdit={async () => { setIsEditModalOpen(false); setSelectedProject(null) }} onCloseDelete={async () => { setIsDeleteDialogOpen(false); setSelectedProject(null) }} onCloseCreate={async () => setIsCreateModalOpen(false)} onSuccess={handleSuccess} />
+      <ProjectsTableModals selectedProject={selectedProject} isEditModalOpen={isEditModalOpen} isDeleteDialogOpen={isDeleteDialogOpen} isCreateModalOpen={isCreateModalOpen} isDuplicateModalOpen={isDuplicateModalOpen} onCloseEdit={async () => { setIsEditModalOpen(false); setSelectedProject(null) }} onCloseDelete={async () => { setIsDeleteDialogOpen(false); setSelectedProject(null) }} onCloseCreate={async () => setIsCreateModalOpen(false)} onCloseDuplicate={async () => { setIsDuplicateModalOpen(false); setSelectedProject(null) }} onSuccess={handleSuccess} />
     </div>
   )
 }
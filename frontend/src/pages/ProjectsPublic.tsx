@@ -14,6 +14,7 @@ import ProjectsHeader from '../components/ProjectsHeader'
 import ProjectsFilter from '../components/ProjectsFilter'
 import ProjectsContent from '../components/ProjectsContent'
 import { useAuth } from '../context/AuthContext'
+import { MilestoneSummary } from '../types/milestone'
 
 interface ProjectOwner {
   id: string
@@ -32,6 +33,7 @@ interface Project {
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  milestones?: MilestoneSummary[]
   createdAt: string
   updatedAt: string
 }
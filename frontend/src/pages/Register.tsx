@@ -1,14 +1,19 @@
 /**
  * Register Page
  * Renders the RegisterForm component and handles successful registration actions
+ * Supports invitation links (?invite=token) and invitation-only mode
  *
  * @author Thang Truong
  * @date 2025-12-09
  */
 
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery } from '@apollo/client'
 import RegisterForm from '../components/RegisterForm'
+import RegisterUnavailable from '../components/RegisterUnavailable'
+import { INVITATION_QUERY, REGISTRATION_SETTINGS_QUERY } from '../graphql/auth'
 import { useToast } from '../hooks/useToast'
+import { Invitation } from '../types/invitation'
 
 /**
  * Register Component
@@ -21,6 +26,17 @@ import { useToast } from '../hooks/useToast'
 const Register = () => {
   const navigate = useNavigate()
   const { showToast } = useToast()
+  const [searchParams] = useSearchParams()
+  const inviteToken = searchParams.get('invite')
+  const { data: settingsData, loading: settingsLoading } = useQuery<{ registrationSettings: { openRegistration: boolean } }>(
+    REGISTRATION_SETTINGS_QUERY,
+    { skip: Boolean(inviteToken) }
+  )
+  const { data: invitationData, loading: invitationLoading } = useQuery<{ invitation: Invitation | null }>(INVITATION_QUERY, {
+    variables: { token: inviteToken },
+    skip: !inviteToken,
+    fetchPolicy: 'network-only',
+  })
 
   /**
    * Handles successful registration by displaying a toast and navigating to home
@@ -32,8 +48,36 @@ const Register = () => {
     setTimeout(async () => { await navigate('/') }, 100)
   }
 
+  /**
+   * Sends invited users whose role requires 2FA to sign in and finish setup
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleTwoFactorSetupRequired = async (): Promise<void> => {
+    await showToast('Account created. Sign in to set up two-factor authentication.', 'info', 7000)
+    navigate('/login')
+  }
+
+  if (settingsLoading || invitationLoading) {
+    return <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center text-gray-500">Loading...</div>
+  }
+
+  if (inviteToken && !invitationData?.invitation) {
+    return <RegisterUnavailable title="Invitation not valid" message="This invitation link is invalid, expired, revoked or already used. Ask an administrator for a new invite." />
+  }
+
+  if (!inviteToken && settingsData?.registrationSettings.openRegistration === false) {
+    return <RegisterUnavailable title="Invitation only" message="Registration is by invitation only. Please ask an administrator to invite you." />
+  }
+
   /* Register page - renders RegisterForm component with success callback */
-  return <RegisterForm onRegisterSuccess={handleRegisterSuccess} />
+  return (
+    <RegisterForm
+      onRegisterSuccess={handleRegisterSuccess}
+      invitation={inviteToken && invitationData?.invitation ? { ...invitationData.invitation, token: inviteToken } : null}
+      onTwoFactorSetupRequired={handleTwoFactorSetupRequired}
+    />
+  )
 }
 
 export default Register
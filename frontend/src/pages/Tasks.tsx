@@ -19,6 +19,7 @@ import TasksPagination from '../components/TasksPagination'
 import EditTaskModal from '../components/EditTaskModal'
 import DeleteTaskDialog from '../components/DeleteTaskDialog'
 import CreateTaskModal from '../components/CreateTaskModal'
+import { ChecklistProgress } from '../types/checklist'
 
 interface Tag {
   id: string
@@ -33,10 +34,14 @@ interface Task extends Record<string, unknown> {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  progress?: number
+  checklistProgress?: ChecklistProgress
   tags?: Tag[]
   createdAt: string
   updatedAt: string
@@ -0,0 +1,191 @@
+/**
+ * Timesheet Page
+ * The signed-in user's tracked time for one week, per task and day, with totals per project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { MY_TIMESHEET_QUERY } from '../graphql/queries'
+import { TimeEntry } from '../types/timeEntry'
+import { addDays, formatMinutes, getWeekStart, toDateKey } from '../utils/timeTracking'
+
+interface TimesheetRow {
+  taskId: string
+  taskTitle: string
+  projectName: string
+  minutesByDay: number[]
+  total: number
+}
+
+/**
+ * Timesheet Component
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns JSX element containing the weekly timesheet grid
+ */
+const Timesheet = () => {
+  const { showToast } = useToast()
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
+  const days = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)), [weekStart])
+
+  const { data, loading, error } = useQuery<{ myTimesheet: TimeEntry[] }>(MY_TIMESHEET_QUERY, {
+    variables: { weekStart: toDateKey(weekStart) },
+    fetchPolicy: 'cache-and-network',
+  })
+
+  /**
+   * Handle data fetching errors
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    const handleError = async () => {
+      if (error) {
+        await showToast('Failed to load your timesheet. Please try again later.', 'error', 5000)
+      }
+    }
+    handleError()
+  }, [error, showToast])
+
+  const entries = useMemo(() => data?.myTimesheet || [], [data])
+  const runningEntry = entries.find((entry) => entry.isRunning) || null
+
+  /**
+   * One row per task with its minutes on each day of the week; running timers are left out until they stop
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const rows = useMemo(() => {
+    const dayKeys = days.map(toDateKey)
+    const byTask = new Map<string, TimesheetRow>()
+    entries.forEach((entry) => {
+      const dayIndex = dayKeys.indexOf(toDateKey(new Date(entry.startedAt)))
+      if (entry.isRunning || dayIndex < 0) return
+      const row = byTask.get(entry.taskId) || {
+        taskId: entry.taskId,
+        taskTitle: entry.taskTitle,
+        projectName: entry.projectName,
+        minutesByDay: Array(7).fill(0),
+        total: 0,
+      }
+      row.minutesByDay[dayIndex] += entry.durationMinutes
+      row.total += entry.durationMinutes
+      byTask.set(entry.taskId, row)
+    })
+    return Array.from(byTask.values()).sort((a, b) => a.projectName.localeCompare(b.projectName) || a.taskTitle.localeCompare(b.taskTitle))
+  }, [entries, days])
+
+  const dayTotals = days.map((_, index) => rows.reduce((sum, row) => sum + row.minutesByDay[index], 0))
+  const weekTotal = dayTotals.reduce((sum, minutes) => sum + minutes, 0)
+  const projectTotals = useMemo(() => {
+    const totals = new Map<string, number>()
+    rows.forEach((row) => totals.set(row.projectName, (totals.get(row.projectName) || 0) + row.total))
+    return Array.from(totals.entries())
+  }, [rows])
+
+  return (
+    /* Timesheet page container */
+    <div className="px-3 sm:px-4 md:px-6 py-3 sm:py-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3 sm:mb-4">
+        <p className="text-gray-600 text-sm sm:text-base leading-relaxed">
+          {`Week of ${weekStart.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+          >
+            Previous week
+          </button>
+          <button
+            onClick={() => setWeekStart(getWeekStart(new Date()))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+          >
+            This week
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+          >
+            Next week
+          </button>
+        </div>
+      </div>
+
+      {runningEntry && (
+        <div className="mb-3 rounded-md border border-blue-100 bg-blue-50 px-3 py-2 text-sm text-blue-800">
+          {`Timer running on "${runningEntry.taskTitle}" since ${new Date(runningEntry.startedAt).toLocaleTimeString()}. It is added here when it stops.`}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 overflow-x-auto">
+        {loading && rows.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading timesheet...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No time tracked this week.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-500">
+                <th className="py-2 pr-4 text-left font-medium">Task</th>
+                {days.map((day) => (
+                  <th key={day.toISOString()} className="py-2 px-2 text-right font-medium whitespace-nowrap">
+                    {day.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                  </th>
+                ))}
+                <th className="py-2 pl-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.taskId} className="border-b border-gray-100">
+                  <td className="py-2 pr-4">
+                    <p className="text-gray-900">{row.taskTitle}</p>
+                    <p className="text-xs text-gray-500">{row.projectName}</p>
+                  </td>
+                  {row.minutesByDay.map((minutes, index) => (
+                    <td key={index} className="py-2 px-2 text-right text-gray-700">{minutes > 0 ? formatMinutes(minutes) : '–'}</td>
+                  ))}
+                  <td className="py-2 pl-2 text-right font-medium text-gray-900">{formatMinutes(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="text-gray-900 font-medium">
+                <td className="py-2 pr-4">Total</td>
+                {dayTotals.map((minutes, index) => (
+                  <td key={index} className="py-2 px-2 text-right">{minutes > 0 ? formatMinutes(minutes) : '–'}</td>
+                ))}
+                <td className="py-2 pl-2 text-right">{formatMinutes(weekTotal)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+
+      {/* Totals per project */}
+      {projectTotals.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">By project</p>
+          <ul className="space-y-1 text-sm">
+            {projectTotals.map(([projectName, minutes]) => (
+              <li key={projectName} className="flex justify-between text-gray-700">
+                <span>{projectName}</span>
+                <span className="font-medium text-gray-900">{formatMinutes(minutes)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Timesheet
@@ -0,0 +1,210 @@
+/**
+ * Trash Page
+ * Lists deleted projects, tasks, comments and users for administrators
+ * Items can be restored or permanently deleted before the retention period ends
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery } from '@apollo/client'
+import { useToast } from '../hooks/useToast'
+import { useAuth } from '../context/AuthContext'
+import {
+  TRASH_QUERY,
+  RESTORE_PROJECT_MUTATION,
+  RESTORE_TASK_MUTATION,
+  RESTORE_COMMENT_MUTATION,
+  RESTORE_USER_MUTATION,
+  PURGE_TRASH_ITEM_MUTATION,
+} from '../graphql/trash'
+import { TrashItem, TrashPage, TrashResourceType } from '../types/trash'
+import TrashItemList from '../components/TrashItemList'
+
+const TRASH_TABS: { type: TrashResourceType; label: string }[] = [
+  { type: 'PROJECT', label: 'Projects' },
+  { type: 'TASK', label: 'Tasks' },
+  { type: 'COMMENT', label: 'Comments' },
+  { type: 'USER', label: 'Users' },
+]
+
+const PAGE_SIZE = 12
+
+/**
+ * Trash Component
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns JSX element containing the trash tabs and item list
+ */
+const Trash = () => {
+  const { showToast } = useToast()
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'Admin'
+  const [resourceType, setResourceType] = useState<TrashResourceType>('PROJECT')
+  const [page, setPage] = useState(1)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const { data, loading, error, refetch } = useQuery<{ trash: TrashPage }>(TRASH_QUERY, {
+    variables: { resourceType, page, pageSize: PAGE_SIZE },
+    skip: !isAdmin,
+    fetchPolicy: 'cache-and-network',
+  })
+  const [restoreProject] = useMutation(RESTORE_PROJECT_MUTATION)
+  const [restoreTask] = useMutation(RESTORE_TASK_MUTATION)
+  const [restoreComment] = useMutation(RESTORE_COMMENT_MUTATION)
+  const [restoreUser] = useMutation(RESTORE_USER_MUTATION)
+  const [purgeItem] = useMutation(PURGE_TRASH_ITEM_MUTATION)
+
+  const trash = data?.trash
+  const totalPages = trash ? Math.max(1, Math.ceil(trash.total / trash.pageSize)) : 1
+
+  /**
+   * Handle data fetching errors
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  useEffect(() => {
+    const handleError = async () => {
+      if (error) {
+        await showToast('Failed to load the trash. Please try again later.', 'error', 5000)
+      }
+    }
+    handleError()
+  }, [error, showToast])
+
+  /**
+   * Switch tab and go back to the first page
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleTabChange = (type: TrashResourceType) => {
+    setResourceType(type)
+    setPage(1)
+  }
+
+  /**
+   * Restore an item with the mutation for its type
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handleRestore = async (item: TrashItem): Promise<void> => {
+    const restoreByType = {
+      PROJECT: restoreProject,
+      TASK: restoreTask,
+      COMMENT: restoreComment,
+      USER: restoreUser,
+    }
+    setIsBusy(true)
+    try {
+      await restoreByType[item.resourceType]({ variables: { id: item.id } })
+      await showToast(`"${item.title}" restored`, 'success', 7000)
+      await refetch()
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to restore item'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  /**
+   * Permanently delete an item
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   */
+  const handlePurge = async (item: TrashItem): Promise<void> => {
+    setIsBusy(true)
+    try {
+      await purgeItem({ variables: { resourceType: item.resourceType, id: item.id } })
+      await showToast(`"${item.title}" permanently deleted`, 'success', 7000)
+      if (trash && trash.items.length === 1 && page > 1) {
+        setPage(page - 1)
+      } else {
+        await refetch()
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to delete item'
+      await showToast(message, 'error', 7000)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="px-3 sm:px-4 md:px-6 py-3 sm:py-4">
+        <p className="text-gray-600 text-sm sm:text-base">Only administrators can view the trash.</p>
+      </div>
+    )
+  }
+
+  return (
+    /* Trash page container */
+    <div className="px-3 sm:px-4 md:px-6 py-3 sm:py-4">
+      <div className="mb-3 sm:mb-4">
+        <p className="text-gray-600 text-sm sm:text-base leading-relaxed">
+          Restore deleted items or remove them permanently.{' '}
+          {trash && (trash.retentionDays > 0
+            ? `Items are deleted forever after ${trash.retentionDays} days in the trash.`
+            : 'Items stay in the trash until they are deleted manually.')}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-3 sm:p-4">
+        {/* Resource type tabs */}
+        <div className="flex flex-wrap gap-2 border-b border-gray-200 pb-3 mb-3">
+          {TRASH_TABS.map((tab) => (
+            <button
+              key={tab.type}
+              onClick={() => handleTabChange(tab.type)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                resourceType === tab.type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <TrashItemList
+          items={trash?.items || []}
+          isLoading={loading}
+          isBusy={isBusy}
+          onRestore={handleRestore}
+          onPurge={handlePurge}
+        />
+
+        {/* Pagination */}
+        {trash && trash.total > trash.pageSize && (
+          <div className="flex items-center justify-between pt-3 mt-3 border-t border-gray-100 text-sm text-gray-600">
+            <span>{`Page ${trash.page} of ${totalPages} · ${trash.total} items`}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages || loading}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Trash
@@ -8,17 +8,21 @@
  */
 
 import { useEffect, useCallback } from 'react'
-import { useQuery } from '@apollo/client'
+import { useQuery, useMutation } from '@apollo/client'
 import { useToast } from '../hooks/useToast'
+import { useAuth } from '../context/AuthContext'
 import { usePageDataManager } from '../hooks/usePageDataManager'
 import { useModalState } from '../hooks/useModalState'
 import { USERS_QUERY } from '../graphql/queries'
+import { UNLOCK_USER_MUTATION } from '../graphql/mutations'
 import UsersTable from '../components/UsersTable'
 import UsersSearchInput from '../components/UsersSearchInput'
 import UsersPagination from '../components/UsersPagination'
 import EditUserModal from '../components/EditUserModal'
 import DeleteUserDialog from '../components/DeleteUserDialog'
 import CreateUserModal from '../components/CreateUserModal'
+import TwoFactorPolicyPanel from '../components/TwoFactorPolicyPanel'
+import InvitationsPanel from '../components/InvitationsPanel'
 
 interface User extends Record<string, unknown> {
   id: string
@@ -27,6 +31,8 @@ interface User extends Record<string, unknown> {
   lastName: string
   email: string
   role: string
+  twoFactorEnabled?: boolean | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -43,6 +49,7 @@ type SortField = 'id' | 'firstName' | 'lastName' | 'email' | 'role' | 'createdAt
  */
 const Users = () => {
   const { showToast } = useToast()
+  const { user: currentUser } = useAuth()
   const { data, loading, error, refetch } = useQuery<{ users: User[] }>(USERS_QUERY, {
     fetchPolicy: 'cache-and-network',
     errorPolicy: 'all',
@@ -62,6 +69,7 @@ const Users = () => {
   })
 
   const modalState = useModalState<User>()
+  const [unlockUser] = useMutation(UNLOCK_USER_MUTATION)
 
   /**
    * Handle data fetching errors
@@ -119,6 +127,23 @@ const Users = () => {
     if (user) modalState.openDeleteDialog(user)
   }, [dataManager.sortedData, modalState])
 
+  /**
+   * Handle unlock user action for accounts locked after failed logins
+   *
+   * @author Thang Truong
+   * @date 2025-12-10
+   * @param userId - ID of user to unlock
+   */
+  const handleUnlock = useCallback(async (userId: string): Promise<void> => {
+    try {
+      await unlockUser({ variables: { id: userId } })
+      await showToast('User account unlocked', 'success', 7000)
+      await refetch()
+    } catch (err: unknown) {
+      await showToast(err instanceof Error ? err.message : 'Failed to unlock user', 'error', 7000)
+    }
+  }, [unlockUser, showToast, refetch])
+
   /**
    * Handle successful CRUD operation and refetch data
    *
@@ -158,6 +183,12 @@ const Users = () => {
         </div>
       )}
 
+      {/* Two-Factor Policy (Admins only) */}
+      {currentUser?.role === 'Admin' && <TwoFactorPolicyPanel />}
+
+      {/* Invitations (Admins only) */}
+      {currentUser?.role === 'Admin' && <InvitationsPanel />}
+
       {/* Search Input Section */}
       <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 mb-3 sm:mb-4">
         <UsersSearchInput
@@ -177,6 +208,7 @@ const Users = () => {
         onSort={dataManager.handleSort}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onUnlock={currentUser?.role === 'Admin' ? handleUnlock : undefined}
         isLoading={loading}
       />
 
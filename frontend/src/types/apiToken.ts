@@ -0,0 +1,20 @@
+/**
+ * API token shared TypeScript interfaces
+ * Describes personal API tokens used by scripts and CI
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type ApiTokenScope = 'READ_ONLY' | 'READ_WRITE'
+
+export interface ApiToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scope: ApiTokenScope
+  projects: Array<{ id: string; name: string }>
+  expiresAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
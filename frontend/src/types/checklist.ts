@@ -0,0 +1,23 @@
+/**
+ * Checklist shared TypeScript interfaces
+ * Checklist items inside a task and their progress
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface ChecklistItem {
+  id: string
+  taskId: string
+  text: string
+  isDone: boolean
+  position: number
+  assignedTo: string | null
+  doneAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ChecklistProgress {
+  completed: number
+  total: number
+}
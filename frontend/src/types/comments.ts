@@ -17,11 +17,15 @@ export interface ProjectComment {
   uuid: string
   content: string
   projectId: string | null
+  taskId?: string | null
+  parentCommentId?: string | null
   user: CommentUser
   likesCount: number
   isLiked: boolean
   createdAt: string
   updatedAt: string
+  replyCount?: number
+  replies?: ProjectComment[]
 }
 
 export type { ProjectMember, ProjectOwner } from './project'
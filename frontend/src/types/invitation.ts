@@ -0,0 +1,21 @@
+/**
+ * Invitation-related shared TypeScript interfaces
+ * Describes invitation-based onboarding records
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED'
+
+export interface Invitation {
+  id: string
+  email: string
+  role: string
+  projectName: string | null
+  projectRole: string | null
+  invitedByName?: string | null
+  status: InvitationStatus
+  expiresAt: string
+  acceptedAt?: string | null
+  createdAt?: string
+}
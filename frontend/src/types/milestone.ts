@@ -0,0 +1,29 @@
+/**
+ * Milestone shared TypeScript interfaces
+ * Project milestones with their progress and health
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type MilestoneStatus = 'ON_TRACK' | 'AT_RISK' | 'MISSED' | 'COMPLETED'
+
+export interface Milestone {
+  id: string
+  projectId: string
+  name: string
+  description: string | null
+  dueDate: string
+  status: MilestoneStatus
+  percentComplete: number
+  taskCount: number
+  completedTaskCount: number
+  isOverdue: boolean
+  taskIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Milestone fields loaded with project lists for the project card summary
+ */
+export type MilestoneSummary = Pick<Milestone, 'id' | 'name' | 'dueDate' | 'status' | 'percentComplete' | 'isOverdue'>
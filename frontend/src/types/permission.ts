@@ -0,0 +1,25 @@
+/**
+ * Permission-related shared TypeScript interfaces
+ * Describes fine-grained grants on projects, tasks and comments
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type PermissionResourceType = 'PROJECT' | 'TASK' | 'COMMENT'
+
+export type PermissionLevel = 'READ' | 'WRITE' | 'DELETE' | 'ADMIN'
+
+export interface ResourcePermission {
+  id: string
+  userId: string
+  user: {
+    id: string
+    firstName: string
+    lastName: string
+    email: string
+  } | null
+  resourceType: PermissionResourceType
+  resourceId: string
+  permission: PermissionLevel
+  createdAt: string
+}
@@ -44,15 +44,22 @@ export interface ProjectTask {
   title: string
   description: string
   status: string
+  statusCategory?: string
   priority: string
   dueDate: string | null
+  estimateMinutes?: number | null
   projectId: string
   assignedTo: string | null
+  parentTaskId?: string | null
+  sprintId?: string | null
+  boardRank?: number
+  progress?: number
   owner: ProjectOwner | null
   tags?: ProjectTag[]
   likesCount: number
   commentsCount: number
   isLiked: boolean
+  isWatching?: boolean
   createdAt: string
   updatedAt: string
 }
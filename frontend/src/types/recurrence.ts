@@ -0,0 +1,26 @@
+/**
+ * Recurrence shared TypeScript interfaces
+ * Repeat rules of recurring tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export interface TaskRecurrence {
+  id: string
+  taskId: string
+  frequency: RecurrenceFrequency
+  interval: number
+  weekdays: string[]
+  monthDay: number | null
+  startDate: string
+  endAfterCount: number | null
+  endDate: string | null
+  occurrenceCount: number
+  nextDueDate: string | null
+  rule: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
@@ -0,0 +1,16 @@
+/**
+ * Session-related shared TypeScript interfaces
+ * Describes an active login (refresh token) of the current user
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface UserSession {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  lastUsedAt: string | null
+  expiresAt: string
+  createdAt: string
+  isCurrent: boolean
+}
@@ -0,0 +1,37 @@
+/**
+ * Sprint shared TypeScript interfaces
+ * Time-boxed sprints of a project and their burndown
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type SprintState = 'PLANNED' | 'ACTIVE' | 'CLOSED'
+
+export interface Sprint {
+  id: string
+  projectId: string
+  name: string
+  goal: string | null
+  startDate: string
+  endDate: string
+  state: SprintState
+  startedAt: string | null
+  closedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SprintBurndownDay {
+  date: string
+  remainingTasks: number | null
+  remainingMinutes: number | null
+  idealTasks: number
+  idealMinutes: number
+}
+
+export interface SprintBurndown {
+  sprint: Sprint
+  totalTasks: number
+  totalMinutes: number
+  days: SprintBurndownDay[]
+}
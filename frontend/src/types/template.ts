@@ -0,0 +1,32 @@
+/**
+ * Template shared TypeScript interfaces
+ * Project templates shown in the gallery and task templates that pre-fill new tasks
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface ProjectTemplate {
+  id: string
+  name: string
+  description: string | null
+  sourceProjectId: string | null
+  taskCount: number
+  milestoneCount: number
+  memberCount: number
+  tasks: Array<{ title: string; priority: string; dueOffsetDays: number | null }>
+  createdBy: { id: string; firstName: string; lastName: string } | null
+  createdAt: string
+}
+
+export interface TaskTemplate {
+  id: string
+  name: string
+  title: string
+  description: string
+  priority: string
+  estimateMinutes: number | null
+  tags: Array<{ id: string; name: string }>
+  checklist: string[]
+  createdBy: { id: string } | null
+  createdAt: string
+}
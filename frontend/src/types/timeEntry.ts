@@ -0,0 +1,22 @@
+/**
+ * Time Entry shared TypeScript interfaces
+ * Time logged on a task with a timer or by hand
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface TimeEntry {
+  id: string
+  userId: string
+  userName: string
+  taskId: string
+  taskTitle: string
+  projectId: string
+  projectName: string
+  startedAt: string
+  endedAt: string | null
+  durationMinutes: number
+  note: string | null
+  isRunning: boolean
+  createdAt: string
+}
@@ -0,0 +1,27 @@
+/**
+ * Trash shared TypeScript interfaces
+ * Describes soft-deleted items listed on the Trash page
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type TrashResourceType = 'PROJECT' | 'TASK' | 'COMMENT' | 'USER'
+
+export interface TrashItem {
+  id: string
+  resourceType: TrashResourceType
+  title: string
+  details: string | null
+  projectId: string | null
+  projectName: string | null
+  deletedAt: string | null
+  purgeAt: string | null
+}
+
+export interface TrashPage {
+  items: TrashItem[]
+  total: number
+  page: number
+  pageSize: number
+  retentionDays: number
+}
@@ -0,0 +1,37 @@
+/**
+ * Two-factor authentication shared TypeScript interfaces
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface AuthSessionUser {
+  id: string
+  uuid: string
+  firstName: string
+  lastName: string
+  email: string
+  role: string
+}
+
+export interface AuthSessionPayload {
+  accessToken: string | null
+  user: AuthSessionUser | null
+}
+
+export interface TwoFactorEnrollmentResult {
+  recoveryCodes: string[]
+  session: AuthSessionPayload | null
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorPolicy {
+  role: string
+  required: boolean
+  updatedAt: string | null
+}
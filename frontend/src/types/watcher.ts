@@ -0,0 +1,13 @@
+/**
+ * Watcher shared TypeScript interfaces
+ * Users watching a task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export interface TaskWatcher {
+  id: string
+  firstName: string
+  lastName: string
+  email: string
+}
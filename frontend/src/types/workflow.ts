@@ -0,0 +1,28 @@
+/**
+ * Workflow shared TypeScript interfaces
+ * Describes the ordered task states and allowed transitions of a project
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export type WorkflowCategory = 'NOT_STARTED' | 'ACTIVE' | 'DONE'
+
+export interface WorkflowState {
+  key: string
+  name: string
+  category: WorkflowCategory
+  position: number
+  wipLimit?: number | null
+}
+
+export interface WorkflowTransition {
+  from: string
+  to: string
+}
+
+export interface Workflow {
+  projectId: string
+  states: WorkflowState[]
+  transitions: WorkflowTransition[]
+  isCustom: boolean
+}
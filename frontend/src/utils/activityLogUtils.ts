@@ -47,6 +47,9 @@ export const getActivityTypeBadge = (type: string) => {
     return 'bg-gray-100 text-gray-800'
   }
 
+  if (type === 'USER_LOGIN_FAILED' || type === 'USER_LOCKED') {
+    return 'bg-red-100 text-red-800'
+  }
   if (type.startsWith('USER_')) {
     return 'bg-blue-100 text-blue-800'
   }
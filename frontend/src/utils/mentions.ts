@@ -0,0 +1,91 @@
+/**
+ * Mention Utility Functions
+ * Helpers for @mentions of project participants in comments
+ * A mention is "@First Last" or "@First" when no other participant shares that first name,
+ * the same rule the backend uses to decide who gets notified
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export interface MentionCandidate {
+  userId: string
+  name: string
+}
+
+export interface MentionSegment {
+  text: string
+  userId?: string
+}
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]'
+
+/**
+ * Escape a name for use inside a regular expression
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Split text into plain parts and mentions of the candidates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const splitMentions = (text: string, candidates: MentionCandidate[]): MentionSegment[] => {
+  if (!text.includes('@') || candidates.length === 0) return [{ text }]
+  const firstNameCounts = new Map<string, number>()
+  candidates.forEach((candidate) => {
+    const firstName = candidate.name.split(' ')[0].toLowerCase()
+    firstNameCounts.set(firstName, (firstNameCounts.get(firstName) || 0) + 1)
+  })
+  const names = new Map<string, string>()
+  candidates.forEach((candidate) => {
+    const firstName = candidate.name.split(' ')[0]
+    names.set(candidate.name.toLowerCase(), candidate.userId)
+    if (firstNameCounts.get(firstName.toLowerCase()) === 1) names.set(firstName.toLowerCase(), candidate.userId)
+  })
+  // Longest names first so "@Anna Smith" wins over "@Anna"
+  const alternatives = [...names.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')
+  const pattern = new RegExp(`(?<!${WORD_CHAR})@(${alternatives})(?!${WORD_CHAR})`, 'giu')
+
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index) })
+    segments.push({ text: match[0], userId: names.get(match[1].toLowerCase()) })
+    lastIndex = index + match[0].length
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) })
+  return segments
+}
+
+/**
+ * The @mention being typed right before the caret, if any
+ * The query may contain one space so "@Anna Sm" narrows down to a full name
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Position of the "@" and the text typed after it
+ */
+export const getActiveMention = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = new RegExp(`(^|[^\\p{L}\\p{N}_])@(${WORD_CHAR}*(?: ${WORD_CHAR}*)?)$`, 'u').exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: match.index + match[1].length, query: match[2] }
+}
+
+/**
+ * Candidates whose name, or one of its words, starts with the query
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const filterMentionCandidates = (candidates: MentionCandidate[], query: string, limit = 6): MentionCandidate[] => {
+  const normalized = query.toLowerCase()
+  return candidates
+    .filter((candidate) => {
+      const name = candidate.name.toLowerCase()
+      return name.startsWith(normalized) || name.split(' ').some((word) => word.startsWith(normalized))
+    })
+    .slice(0, limit)
+}
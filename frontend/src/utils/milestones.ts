@@ -0,0 +1,53 @@
+/**
+ * Milestone Utility Functions
+ * Labels, colours and the project card summary of milestones
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { MilestoneStatus, MilestoneSummary } from '../types/milestone'
+
+/**
+ * Readable names of the milestone statuses
+ */
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  ON_TRACK: 'On track',
+  AT_RISK: 'At risk',
+  MISSED: 'Missed',
+  COMPLETED: 'Completed',
+}
+
+/**
+ * Badge, timeline dot and progress bar colours of the milestone statuses
+ */
+export const MILESTONE_STATUS_STYLES: Record<MilestoneStatus, { badge: string; dot: string; bar: string }> = {
+  ON_TRACK: { badge: 'bg-blue-100 text-blue-700', dot: 'bg-blue-500', bar: 'bg-blue-500' },
+  AT_RISK: { badge: 'bg-amber-100 text-amber-700', dot: 'bg-amber-500', bar: 'bg-amber-500' },
+  MISSED: { badge: 'bg-red-100 text-red-700', dot: 'bg-red-500', bar: 'bg-red-500' },
+  COMPLETED: { badge: 'bg-green-100 text-green-700', dot: 'bg-green-500', bar: 'bg-green-500' },
+}
+
+/**
+ * Show a YYYY-MM-DD due date as a short local date
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatMilestoneDueDate = (dueDate: string): string => {
+  const [year, month, day] = dueDate.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+/**
+ * Summarise milestones for a project card: how many are done, how many are overdue and which is next
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getMilestoneSummary = (milestones: MilestoneSummary[]) => ({
+  total: milestones.length,
+  completed: milestones.filter((milestone) => milestone.status === 'COMPLETED').length,
+  overdue: milestones.filter((milestone) => milestone.isOverdue).length,
+  next: milestones.find((milestone) => milestone.status !== 'COMPLETED' && !milestone.isOverdue) || null,
+})
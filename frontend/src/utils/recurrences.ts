@@ -0,0 +1,62 @@
+/**
+ * Recurrence Utility Functions
+ * Weekday names and readable descriptions of recurring task rules
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { TaskRecurrence } from '../types/recurrence'
+
+/**
+ * RRULE weekday keys with their short names, Monday first
+ */
+export const RECURRENCE_WEEKDAYS: Array<{ key: string; label: string }> = [
+  { key: 'MO', label: 'Mon' },
+  { key: 'TU', label: 'Tue' },
+  { key: 'WE', label: 'Wed' },
+  { key: 'TH', label: 'Thu' },
+  { key: 'FR', label: 'Fri' },
+  { key: 'SA', label: 'Sat' },
+  { key: 'SU', label: 'Sun' },
+]
+
+/**
+ * Weekday keys of the "every weekday" preset
+ */
+export const WORKDAY_KEYS = ['MO', 'TU', 'WE', 'TH', 'FR']
+
+const UNIT_LABELS = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }
+
+/**
+ * Show a YYYY-MM-DD occurrence date as a short local date with its weekday
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatRecurrenceDay = (day: string): string => {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+/**
+ * Describe a repeat rule, e.g. "Every 2 weeks on Mon, Thu · 5 times"
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const describeRecurrence = (recurrence: Pick<TaskRecurrence, 'frequency' | 'interval' | 'weekdays' | 'monthDay' | 'endAfterCount' | 'endDate'>): string => {
+  const unit = UNIT_LABELS[recurrence.frequency]
+  let text = recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`
+  if (recurrence.frequency === 'WEEKLY' && recurrence.weekdays.join(',') === WORKDAY_KEYS.join(',') && recurrence.interval === 1) {
+    text = 'Every weekday'
+  } else if (recurrence.frequency === 'WEEKLY' && recurrence.weekdays.length > 0) {
+    const labels = recurrence.weekdays.map((key) => RECURRENCE_WEEKDAYS.find((weekday) => weekday.key === key)?.label || key)
+    text += ` on ${labels.join(', ')}`
+  } else if (recurrence.frequency === 'MONTHLY' && recurrence.monthDay) {
+    text += ` on day ${recurrence.monthDay}`
+  }
+  if (recurrence.endAfterCount) text += ` · ${recurrence.endAfterCount} times`
+  if (recurrence.endDate) text += ` · until ${formatRecurrenceDay(recurrence.endDate)}`
+  return text
+}
@@ -0,0 +1,70 @@
+/**
+ * Sprint Utility Functions
+ * Labels, date ranges and default dates for sprint planning
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { SprintState } from '../types/sprint'
+import { addDays, toDateKey } from './timeTracking'
+
+/**
+ * Default sprint length used to prefill a new sprint (days)
+ */
+export const DEFAULT_SPRINT_DAYS = 14
+
+/**
+ * Readable names of the sprint states
+ */
+export const SPRINT_STATE_LABELS: Record<SprintState, string> = {
+  PLANNED: 'Planned',
+  ACTIVE: 'Active',
+  CLOSED: 'Closed',
+}
+
+/**
+ * Badge colours of the sprint states
+ */
+export const SPRINT_STATE_STYLES: Record<SprintState, string> = {
+  PLANNED: 'bg-gray-100 text-gray-700',
+  ACTIVE: 'bg-green-100 text-green-700',
+  CLOSED: 'bg-blue-100 text-blue-700',
+}
+
+/**
+ * Show a YYYY-MM-DD sprint day as a short local date
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatSprintDay = (day: string): string => {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Show the time box of a sprint, such as "Dec 1 – Dec 14"
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatSprintRange = (startDate: string, endDate: string): string =>
+  `${formatSprintDay(startDate)} – ${formatSprintDay(endDate)}`
+
+/**
+ * Dates that prefill a new sprint: the day after the last planned sprint ends, or today
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getDefaultSprintDates = (lastEndDate?: string | null): { startDate: string; endDate: string } => {
+  const today = new Date()
+  let start = today
+  if (lastEndDate) {
+    const [year, month, date] = lastEndDate.split('-').map(Number)
+    const dayAfter = addDays(new Date(year, month - 1, date), 1)
+    if (dayAfter > today) start = dayAfter
+  }
+  return { startDate: toDateKey(start), endDate: toDateKey(addDays(start, DEFAULT_SPRINT_DAYS - 1)) }
+}
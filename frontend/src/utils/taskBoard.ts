@@ -0,0 +1,83 @@
+/**
+ * Task Board Utilities
+ * Card order, rank calculation and swimlanes for the project Kanban board
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { ProjectTask } from '../types/project'
+import { getPriorityLabel } from './taskUtils'
+
+export type BoardSwimlaneMode = 'NONE' | 'ASSIGNEE' | 'PRIORITY'
+
+export interface BoardSwimlane {
+  key: string
+  label: string
+}
+
+/**
+ * Lane key of tasks without an assignee
+ */
+export const UNASSIGNED_LANE_KEY = 'UNASSIGNED'
+
+const PRIORITY_LANES = ['HIGH', 'MEDIUM', 'LOW']
+
+/**
+ * Sort cards by their saved rank; equal ranks keep creation order
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const sortByBoardRank = (tasks: ProjectTask[]): ProjectTask[] =>
+  [...tasks].sort((a, b) => (a.boardRank ?? 0) - (b.boardRank ?? 0) || Number(a.id) - Number(b.id))
+
+/**
+ * Rank for a card dropped between two neighbours of a column
+ * A card dropped at either end of the column gets one step past the end card
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param before - Rank of the card above the drop position, if any
+ * @param after - Rank of the card below the drop position, if any
+ */
+export const getRankBetween = (before?: number, after?: number): number => {
+  if (before !== undefined && after !== undefined) return (before + after) / 2
+  if (before !== undefined) return before + 1
+  if (after !== undefined) return after - 1
+  return 1
+}
+
+/**
+ * Lane a task belongs to for a swimlane mode
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getSwimlaneKey = (task: ProjectTask, mode: BoardSwimlaneMode): string => {
+  if (mode === 'ASSIGNEE') return task.assignedTo || UNASSIGNED_LANE_KEY
+  if (mode === 'PRIORITY') return task.priority
+  return 'ALL'
+}
+
+/**
+ * Lanes to show for a swimlane mode
+ * Assignee lanes list every assignee found on the tasks, then the unassigned lane
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getSwimlanes = (tasks: ProjectTask[], mode: BoardSwimlaneMode): BoardSwimlane[] => {
+  if (mode === 'PRIORITY') return PRIORITY_LANES.map((priority) => ({ key: priority, label: getPriorityLabel(priority) }))
+  if (mode === 'NONE') return [{ key: 'ALL', label: '' }]
+
+  const lanes = new Map<string, string>()
+  tasks.forEach((task) => {
+    if (!task.assignedTo || lanes.has(task.assignedTo)) return
+    lanes.set(task.assignedTo, task.owner ? `${task.owner.firstName} ${task.owner.lastName}` : `User ${task.assignedTo}`)
+  })
+  return [
+    ...Array.from(lanes, ([key, label]) => ({ key, label })).sort((a, b) => a.label.localeCompare(b.label)),
+    { key: UNASSIGNED_LANE_KEY, label: 'Unassigned' },
+  ]
+}
@@ -0,0 +1,27 @@
+/**
+ * Task Dependency Utilities
+ * Helpers for reading TASK_BLOCKED errors returned when finishing a blocked task
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export interface TaskDependencyRef {
+  id: string
+  title: string
+  status: string
+  statusCategory?: string
+}
+
+/**
+ * Read the unfinished blockers from a TASK_BLOCKED GraphQL error
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Blocking tasks, or null when the error is not a blocked-task error
+ */
+export const getBlockingTasks = (error: unknown): TaskDependencyRef[] | null => {
+  const graphQLErrors = (error as { graphQLErrors?: Array<{ extensions?: Record<string, unknown> }> })?.graphQLErrors
+  const blocked = graphQLErrors?.find((graphQLError) => graphQLError.extensions?.code === 'TASK_BLOCKED')
+  return blocked ? ((blocked.extensions?.blockers as TaskDependencyRef[]) || []) : null
+}
@@ -0,0 +1,83 @@
+/**
+ * Task Tree Utilities
+ * Turn flat task lists into nested rows for parent/subtask display
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export interface TaskTreeNode {
+  id: string
+  parentTaskId?: string | null
+}
+
+export interface TaskTreeRow<T> {
+  task: T
+  depth: number
+  childCount: number
+}
+
+/**
+ * Group tasks by parent ID
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+const groupByParent = <T extends TaskTreeNode>(tasks: T[]): Map<string, T[]> => {
+  const childrenByParent = new Map<string, T[]>()
+  tasks.forEach((task) => {
+    if (!task.parentTaskId) return
+    childrenByParent.set(task.parentTaskId, [...(childrenByParent.get(task.parentTaskId) || []), task])
+  })
+  return childrenByParent
+}
+
+/**
+ * Flatten tasks into display rows with each subtask directly below its parent
+ * Keeps the incoming order at every level; a task whose parent is not in the list is shown as a root
+ * Subtasks of collapsed tasks are left out
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const buildTaskTreeRows = <T extends TaskTreeNode>(tasks: T[], collapsedIds: Set<string>): TaskTreeRow<T>[] => {
+  const ids = new Set(tasks.map((task) => task.id))
+  const childrenByParent = groupByParent(tasks)
+  const rows: TaskTreeRow<T>[] = []
+  const visited = new Set<string>()
+
+  const visit = (task: T, depth: number) => {
+    if (visited.has(task.id)) return
+    visited.add(task.id)
+    const children = childrenByParent.get(task.id) || []
+    rows.push({ task, depth, childCount: children.length })
+    if (collapsedIds.has(task.id)) return
+    children.forEach((child) => visit(child, depth + 1))
+  }
+
+  tasks
+    .filter((task) => !task.parentTaskId || !ids.has(task.parentTaskId))
+    .forEach((task) => visit(task, 0))
+  return rows
+}
+
+/**
+ * IDs of every task below the given task, at any depth
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const collectDescendantIds = <T extends TaskTreeNode>(tasks: T[], taskId: string): Set<string> => {
+  const childrenByParent = groupByParent(tasks)
+  const descendants = new Set<string>()
+  const pending = [taskId]
+  while (pending.length > 0) {
+    const children = childrenByParent.get(pending.pop() as string) || []
+    children.forEach((child) => {
+      if (descendants.has(child.id)) return
+      descendants.add(child.id)
+      pending.push(child.id)
+    })
+  }
+  return descendants
+}
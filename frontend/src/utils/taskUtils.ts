@@ -39,21 +39,29 @@ export const formatDateToMelbourne = (dateString: string | null): string => {
 
 /**
  * Get status badge styling based on task status
+ * Custom workflow states are colored by their category (NOT_STARTED / ACTIVE / DONE)
  *
  * @param status - Task status string
+ * @param category - Workflow category of the status, when known
  * @returns CSS classes for status badge
  */
-export const getStatusBadge = (status: string) => {
-  const statusStyles: Record<string, string> = {
-    TODO: 'bg-gray-100 text-gray-800',
-    IN_PROGRESS: 'bg-blue-100 text-blue-800',
+export const getStatusBadge = (status: string, category?: string | null) => {
+  const categoryStyles: Record<string, string> = {
+    NOT_STARTED: 'bg-gray-100 text-gray-800',
+    ACTIVE: 'bg-blue-100 text-blue-800',
     DONE: 'bg-green-100 text-green-800',
   }
-  return statusStyles[status] || 'bg-gray-100 text-gray-800'
+  const statusStyles: Record<string, string> = {
+    TODO: categoryStyles.NOT_STARTED,
+    IN_PROGRESS: categoryStyles.ACTIVE,
+    DONE: categoryStyles.DONE,
+  }
+  return (category && categoryStyles[category]) || statusStyles[status] || 'bg-gray-100 text-gray-800'
 }
 
 /**
  * Get status label for display
+ * Custom workflow state keys such as READY_FOR_QA are shown as "Ready For Qa"
  *
  * @param status - Task status string
  * @returns Human-readable status label
@@ -65,6 +73,9 @@ export const getStatusLabel = (status: string) => {
     DONE: 'Done',
   }
   return statusLabels[status] || status
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
 }
 
 /**
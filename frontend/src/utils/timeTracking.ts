@@ -0,0 +1,86 @@
+/**
+ * Time Tracking Utility Functions
+ * Formatting of tracked minutes, estimate conversion and timesheet week dates
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+/**
+ * Show minutes as hours and minutes, such as "2h 15m"
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+/**
+ * Show elapsed seconds of a running timer as H:MM:SS
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const formatElapsed = (seconds: number): string => {
+  const safe = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(safe / 3600)
+  const minutes = Math.floor((safe % 3600) / 60)
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(safe % 60).padStart(2, '0')}`
+}
+
+/**
+ * Convert an estimate typed in hours into minutes; an empty value clears the estimate
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const hoursToMinutes = (hours: string): number | null => {
+  if (!hours.trim()) return null
+  return Math.round(parseFloat(hours) * 60)
+}
+
+/**
+ * Show an estimate in minutes as an hours value for the estimate input
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const minutesToHoursInput = (minutes?: number | null): string =>
+  minutes === null || minutes === undefined ? '' : String(Math.round((minutes / 60) * 100) / 100)
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+/**
+ * Monday of the week that contains a date
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+/**
+ * Date a number of days after another date
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
@@ -0,0 +1,73 @@
+/**
+ * Version Conflict Utilities
+ * Helpers for optimistic concurrency: reading CONFLICT errors and merging edits
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+export type ConflictValues = Record<string, string>
+export type ConflictChoice = 'mine' | 'theirs'
+
+/**
+ * One field that differs between the local edit and the server copy
+ */
+export interface ConflictField {
+  key: string
+  label: string
+  mine: string
+  theirs: string
+}
+
+/**
+ * Read the server's current record from a CONFLICT GraphQL error
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @returns Current server state, or null when the error is not a version conflict
+ */
+export const getConflictState = <T>(error: unknown): T | null => {
+  const graphQLErrors = (error as { graphQLErrors?: Array<{ extensions?: Record<string, unknown> }> })?.graphQLErrors
+  const conflict = graphQLErrors?.find((graphQLError) => graphQLError.extensions?.code === 'CONFLICT')
+  return conflict?.extensions?.currentState ? (conflict.extensions.currentState as T) : null
+}
+
+/**
+ * List the fields whose local value differs from the server value
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ * @param labels - Field keys to compare mapped to their display labels
+ * @param formatValue - Optional formatter turning stored values into readable text
+ */
+export const diffConflictValues = (
+  labels: Record<string, string>,
+  mine: ConflictValues,
+  theirs: ConflictValues,
+  formatValue: (key: string, value: string) => string = (_key, value) => value
+): ConflictField[] =>
+  Object.keys(labels)
+    .filter((key) => (mine[key] || '') !== (theirs[key] || ''))
+    .map((key) => ({
+      key,
+      label: labels[key],
+      mine: formatValue(key, mine[key] || '') || '(empty)',
+      theirs: formatValue(key, theirs[key] || '') || '(empty)',
+    }))
+
+/**
+ * Combine local and server values using the per-field choices
+ * Fields without a choice keep the local value
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const mergeConflictValues = (
+  mine: ConflictValues,
+  theirs: ConflictValues,
+  choices: Record<string, ConflictChoice>
+): ConflictValues =>
+  Object.keys(mine).reduce<ConflictValues>((merged, key) => {
+    merged[key] = choices[key] === 'theirs' ? theirs[key] ?? '' : mine[key]
+    return merged
+  }, {})
@@ -0,0 +1,61 @@
+/**
+ * Workflow Utility Functions
+ * Helpers for reading a project's task states, categories and allowed transitions
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+
+import { Workflow, WorkflowCategory, WorkflowState } from '../types/workflow'
+
+/**
+ * States used by projects that have not customised their workflow
+ */
+export const DEFAULT_WORKFLOW_STATES: WorkflowState[] = [
+  { key: 'TODO', name: 'To Do', category: 'NOT_STARTED', position: 0, wipLimit: null },
+  { key: 'IN_PROGRESS', name: 'In Progress', category: 'ACTIVE', position: 1, wipLimit: null },
+  { key: 'DONE', name: 'Done', category: 'DONE', position: 2, wipLimit: null },
+]
+
+/**
+ * Readable names of the workflow categories
+ */
+export const WORKFLOW_CATEGORY_LABELS: Record<WorkflowCategory, string> = {
+  NOT_STARTED: 'Not started',
+  ACTIVE: 'Active',
+  DONE: 'Done',
+}
+
+/**
+ * States of a workflow in order, or the default states while it is not loaded
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getWorkflowStates = (workflow?: Workflow | null): WorkflowState[] =>
+  workflow?.states?.length ? [...workflow.states].sort((a, b) => a.position - b.position) : DEFAULT_WORKFLOW_STATES
+
+/**
+ * States a task in currentStatus can be set to: its own state plus the allowed transitions
+ * A workflow without transitions allows every state
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getAllowedStates = (workflow: Workflow | null | undefined, currentStatus: string): WorkflowState[] => {
+  const states = getWorkflowStates(workflow)
+  const transitions = workflow?.transitions || []
+  if (transitions.length === 0) return states
+  return states.filter((state) =>
+    state.key === currentStatus || transitions.some((transition) => transition.from === currentStatus && transition.to === state.key)
+  )
+}
+
+/**
+ * Category of a status in a list of states, or undefined when the status is not in the list
+ *
+ * @author Thang Truong
+ * @date 2025-12-10
+ */
+export const getStatusCategory = (states: WorkflowState[], status: string): WorkflowCategory | undefined =>
+  states.find((state) => state.key === status)?.category